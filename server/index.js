@@ -41,7 +41,7 @@ app.use(cors({
   origin: allowedOrigins,
   credentials: process.env.ENABLE_CORS_CREDENTIALS === 'true',
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'x-csrf-token']
+  allowedHeaders: ['Content-Type', 'Authorization', 'x-csrf-token', 'X-Client-Id']
 }));
 
 // Security middleware
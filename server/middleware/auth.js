@@ -105,7 +105,8 @@ const checkFilePermission = (permission) => {
         });
       }
 
-      const hasPermission = file.hasPermission(req.user._id, permission);
+      const hasPermission = file.hasPermission(req.user._id, permission) ||
+        await File.isSharedThroughFolder(file.owner, file.path, req.user._id, permission);
       console.log(`🔐 Permission check result: ${hasPermission}`);
       
       if (!hasPermission) {
@@ -110,6 +110,12 @@ const fileSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
     default: null
+  },
+  // Set on the contents of a deleted folder, which go and come back with it
+  deletedWith: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'File',
+    default: null
   }
 }, {
   timestamps: true
@@ -120,6 +126,7 @@ fileSchema.index({ owner: 1, path: 1 });
 fileSchema.index({ parent: 1 });
 fileSchema.index({ 'sharedWith.user': 1 });
 fileSchema.index({ isDeleted: 1 });
+fileSchema.index({ deletedWith: 1 });
 fileSchema.index({ createdAt: -1 });
 fileSchema.index({ filename: 'text', originalName: 'text' });
 
@@ -128,6 +135,11 @@ fileSchema.virtual('fullPath').get(function() {
   return this.path;
 });
 
+// Path of the entries inside a folder
+fileSchema.methods.getChildPath = function() {
+  return this.path === '/' ? `/${this.filename}` : `${this.path}/${this.filename}`;
+};
+
 // Method to check if user has permission
 fileSchema.methods.hasPermission = function(userId, permission) {
   // Owner has all permissions
@@ -175,10 +187,11 @@ fileSchema.methods.revokeShare = function(userId) {
 };
 
 // Method for soft delete
-fileSchema.methods.softDelete = function(deletedBy) {
+fileSchema.methods.softDelete = function(deletedBy, deletedWith = null) {
   this.isDeleted = true;
   this.deletedAt = new Date();
   this.deletedBy = deletedBy;
+  this.deletedWith = deletedWith;
   return this.save();
 };
 
@@ -187,9 +200,67 @@ fileSchema.methods.restore = function() {
   this.isDeleted = false;
   this.deletedAt = null;
   this.deletedBy = null;
+  this.deletedWith = null;
   return this.save();
 };
 
+// Static method to delete files for good, with their GridFS content
+fileSchema.statics.purge = async function(files) {
+  const User = mongoose.model('User');
+  const gfsBucket = new mongoose.mongo.GridFSBucket(mongoose.connection.db, {
+    bucketName: 'uploads'
+  });
+
+  for (const file of files) {
+    if (!file.isDirectory && file.gridFSId) {
+      try {
+        await gfsBucket.delete(file.gridFSId);
+        const owner = await User.findById(file.owner);
+        if (owner) {
+          await owner.updateStorageUsage(-file.size);
+        }
+      } catch (error) {
+        console.error('GridFS deletion error:', error);
+      }
+    }
+  }
+
+  await this.deleteMany({ _id: { $in: files.map(file => file._id) } });
+};
+
+// Static method to purge items that have been in the trash for too long
+fileSchema.statics.purgeExpiredTrash = async function(retentionDays) {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const expired = await this.find({ isDeleted: true, deletedWith: null, deletedAt: { $lt: cutoff } });
+  if (expired.length === 0) {
+    return 0;
+  }
+
+  const contents = await this.find({ deletedWith: { $in: expired.map(file => file._id) } });
+  await this.purge([...expired, ...contents]);
+  return expired.length;
+};
+
+// Static method to check whether one of the owner's folders at or above a
+// path is shared with a user, with the permission, which gives them the
+// same permission on everything inside it
+fileSchema.statics.isSharedThroughFolder = async function(ownerId, path, userId, permission) {
+  const names = path.split('/').filter(Boolean);
+  if (names.length === 0) {
+    return false;
+  }
+
+  const folders = names.map((name, index) => ({ path: `/${names.slice(0, index).join('/')}`, filename: name }));
+  const folder = await this.exists({
+    owner: ownerId,
+    isDirectory: true,
+    isDeleted: false,
+    $or: folders,
+    sharedWith: { $elemMatch: { user: userId, [`permissions.${permission}`]: true } }
+  });
+  return !!folder;
+};
+
 // Static method to get user's accessible files
 fileSchema.statics.getAccessibleFiles = function(userId, path = '/', includeShared = true) {
   const query = {
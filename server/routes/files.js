@@ -7,12 +7,56 @@ const { checkFilePermission } = require('../middleware/auth');
 
 const router = express.Router();
 
+// Days that deleted files stay in the trash
+const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS) || 30;
+
+const purgeExpiredTrash = async () => {
+  try {
+    const count = await File.purgeExpiredTrash(TRASH_RETENTION_DAYS);
+    if (count > 0) {
+      console.log(`🗑️ Purged ${count} expired item(s) from the trash`);
+    }
+  } catch (error) {
+    console.error('Trash purge error:', error);
+  }
+};
+
+// Streams of the clients listening to file changes, by user ID
+const eventClients = new Map();
+
+// Send a change to the clients of the owner of the file. Paths are in the
+// owner's tree; others see shared files wherever they mounted them, which
+// only their client knows. Clients name themselves in a header; the one
+// that made the change already knows.
+const publishFileEvent = (req, file, event) => {
+  const ownerId = String(file.owner._id || file.owner);
+  const clientId = req.get('X-Client-Id') || null;
+  const data = JSON.stringify({
+    ...event,
+    isDirectory: file.isDirectory,
+    clientId,
+    timestamp: Date.now()
+  });
+
+  const clients = eventClients.get(ownerId);
+  if (clients) {
+    clients.forEach(client => {
+      if (!clientId || client.clientId !== clientId) {
+        client.res.write(`data: ${data}\n\n`);
+      }
+    });
+  }
+};
+
 // GridFS setup using Mongoose connection
 let gfsBucket;
 mongoose.connection.once('open', () => {
   gfsBucket = new mongoose.mongo.GridFSBucket(mongoose.connection.db, {
     bucketName: 'uploads'
   });
+
+  purgeExpiredTrash();
+  setInterval(purgeExpiredTrash, 60 * 60 * 1000);
 });
 
 // Multer configuration for memory storage
@@ -41,12 +85,25 @@ const renameFileSchema = Joi.object({
   newName: Joi.string().min(1).max(255).required()
 });
 
+const restoreFileSchema = Joi.object({
+  newName: Joi.string().min(1).max(255)
+});
+
+// Items the user put in the trash, without the contents of trashed folders
+const findTrashItem = (id, user) => {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+  return File.findOne({ _id: id, owner: user._id, isDeleted: true, deletedWith: null });
+};
+
 // @route   GET /api/files
-// @desc    Get files and folders for the current user
+// @desc    Get files and folders for the current user, or with an owner
+//          the files of another user in a folder they share with them
 // @access  Private
 router.get('/', async (req, res) => {
   try {
-    const { path = '/', search, type, limit = 50, page = 1, sortBy = 'name', sortOrder = 'asc' } = req.query;
+    const { path = '/', owner, search, type, limit = 50, page = 1, sortBy = 'name', sortOrder = 'asc' } = req.query;
     
     // Build query
     let query = {
@@ -73,6 +130,18 @@ router.get('/', async (req, res) => {
       query.path = '/';
     }
 
+    if (owner) {
+      const shared = mongoose.Types.ObjectId.isValid(owner) &&
+        await File.isSharedThroughFolder(owner, query.path, req.user._id, 'read');
+      if (!shared) {
+        return res.status(403).json({
+          error: 'Access denied. The folder is not shared with you.'
+        });
+      }
+      delete query.$or;
+      query.owner = owner;
+    }
+
     console.log(`🔍 Query for path "${path}":`, JSON.stringify(query, null, 2));
 
     // Search filter
@@ -152,6 +221,40 @@ router.get('/', async (req, res) => {
   }
 });
 
+// @route   GET /api/files/events
+// @desc    Stream changes to the files the user owns as server-sent events
+// @access  Private
+router.get('/events', (req, res) => {
+  const userId = String(req.user._id);
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    // no-transform keeps the compression middleware from buffering events
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+  res.write(': connected\n\n');
+
+  const client = { res, clientId: req.get('X-Client-Id') || null };
+  if (!eventClients.has(userId)) {
+    eventClients.set(userId, new Set());
+  }
+  eventClients.get(userId).add(client);
+
+  // Comments keep proxies from closing an idle stream
+  const keepAlive = setInterval(() => res.write(': ping\n\n'), 25 * 1000);
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    const clients = eventClients.get(userId);
+    clients.delete(client);
+    if (clients.size === 0) {
+      eventClients.delete(userId);
+    }
+  });
+});
+
 // @route   POST /api/files/upload
 // @desc    Upload a file
 // @access  Private
@@ -253,6 +356,7 @@ router.post('/upload', upload.single('file'), async (req, res) => {
       await fileDoc.save();
       console.log(`💾 File saved - filename: ${fileDoc.filename}, path: ${fileDoc.path}, id: ${fileDoc._id}, gridFSId: ${gridFSId}`);
       await req.user.updateStorageUsage(req.file.size);
+      publishFileEvent(req, fileDoc, { type: existingFile ? 'update' : 'create', path: fileDoc.getChildPath() });
 
       res.status(201).json({
         message: 'File uploaded successfully',
@@ -503,11 +607,14 @@ router.put('/:id/content', checkFilePermission('write'), async (req, res) => {
       file.size = contentBuffer.length;
       file.content = undefined; // Remove content field if it exists
       file.metadata.lastModifiedBy = req.user._id;
+      // Clients compare versions to tell whether a file changed since they read it
+      file.metadata.version = (file.metadata.version || 1) + 1;
       file.updatedAt = new Date();
       await file.save();
 
       // Update user storage
       await req.user.updateStorageUsage(file.size - oldSize);
+      publishFileEvent(req, file, { type: 'update', path: file.getChildPath() });
 
       console.log(`✅ File content updated: ${file.filename} - new size: ${file.size} bytes`);
 
@@ -519,6 +626,7 @@ router.put('/:id/content', checkFilePermission('write'), async (req, res) => {
           path: file.path,
           size: file.size,
           mimeType: file.mimeType,
+          version: file.metadata.version,
           updatedAt: file.updatedAt
         }
       });
@@ -590,6 +698,7 @@ router.post('/folder', async (req, res) => {
     await folder.save();
 
     console.log(`✅ Folder created: ${name} at ${path} with id: ${folder._id}`);
+    publishFileEvent(req, folder, { type: 'create', path: folder.getChildPath() });
 
     res.status(201).json({
       message: 'Folder created successfully',
@@ -610,6 +719,187 @@ router.post('/folder', async (req, res) => {
   }
 });
 
+// @route   GET /api/files/trash
+// @desc    List the items in the trash
+// @access  Private
+router.get('/trash', async (req, res) => {
+  try {
+    const files = await File.find({
+      owner: req.user._id,
+      isDeleted: true,
+      deletedWith: null
+    }).sort({ deletedAt: -1 });
+
+    res.json({
+      files: files.map(file => ({
+        id: file._id,
+        filename: file.filename,
+        originalName: file.originalName,
+        path: file.path,
+        size: file.size,
+        mimeType: file.mimeType,
+        isDirectory: file.isDirectory,
+        deletedAt: file.deletedAt,
+        createdAt: file.createdAt,
+        updatedAt: file.updatedAt
+      })),
+      retentionDays: TRASH_RETENTION_DAYS
+    });
+
+  } catch (error) {
+    console.error('Get trash error:', error);
+    res.status(500).json({
+      error: 'Internal server error while fetching trash'
+    });
+  }
+});
+
+// @route   POST /api/files/trash/:id/restore
+// @desc    Put an item back where it was deleted from, optionally under a new name
+// @access  Private
+router.post('/trash/:id/restore', async (req, res) => {
+  try {
+    const { error, value } = restoreFileSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        details: error.details.map(detail => detail.message)
+      });
+    }
+
+    const file = await findTrashItem(req.params.id, req.user);
+    if (!file) {
+      return res.status(404).json({
+        error: 'File not found in trash'
+      });
+    }
+
+    const newName = value.newName || file.filename;
+    const existingFile = await File.findOne({
+      filename: newName,
+      path: file.path,
+      owner: req.user._id,
+      isDeleted: false
+    });
+
+    if (existingFile) {
+      return res.status(409).json({
+        error: `An item named ${newName} already exists in ${file.path}`
+      });
+    }
+
+    // Recreate the folders of the original location that are gone since
+    let parentPath = '/';
+    for (const part of file.path.split('/').filter(Boolean)) {
+      const folder = await File.findOne({
+        filename: part,
+        path: parentPath,
+        owner: req.user._id,
+        isDirectory: true,
+        isDeleted: false
+      });
+
+      if (!folder) {
+        await new File({
+          filename: part,
+          originalName: part,
+          path: parentPath,
+          size: 0,
+          mimeType: 'application/x-directory',
+          owner: req.user._id,
+          gridFSId: new mongoose.Types.ObjectId(),
+          isDirectory: true,
+          metadata: {
+            lastModifiedBy: req.user._id
+          }
+        }).save();
+      }
+      parentPath = parentPath === '/' ? `/${part}` : `${parentPath}/${part}`;
+    }
+
+    const oldFolderPath = file.getChildPath();
+    file.filename = newName;
+    file.originalName = newName;
+    await file.restore();
+
+    // Bring back the contents of a folder, under its new name
+    const newFolderPath = file.getChildPath();
+    const childFiles = await File.find({ deletedWith: file._id });
+    for (const childFile of childFiles) {
+      childFile.path = newFolderPath + childFile.path.slice(oldFolderPath.length);
+      await childFile.restore();
+    }
+    publishFileEvent(req, file, { type: 'create', path: newFolderPath });
+
+    res.json({
+      message: 'File restored successfully',
+      file: {
+        id: file._id,
+        filename: file.filename,
+        path: file.path,
+        isDirectory: file.isDirectory
+      }
+    });
+
+  } catch (error) {
+    console.error('Restore file error:', error);
+    res.status(500).json({
+      error: 'Internal server error while restoring file'
+    });
+  }
+});
+
+// @route   DELETE /api/files/trash/:id
+// @desc    Delete an item in the trash permanently
+// @access  Private
+router.delete('/trash/:id', async (req, res) => {
+  try {
+    const file = await findTrashItem(req.params.id, req.user);
+    if (!file) {
+      return res.status(404).json({
+        error: 'File not found in trash'
+      });
+    }
+
+    const childFiles = await File.find({ deletedWith: file._id });
+    await File.purge([file, ...childFiles]);
+
+    res.json({
+      message: 'File deleted permanently'
+    });
+
+  } catch (error) {
+    console.error('Delete from trash error:', error);
+    res.status(500).json({
+      error: 'Internal server error while deleting file'
+    });
+  }
+});
+
+// @route   DELETE /api/files/trash
+// @desc    Empty the trash
+// @access  Private
+router.delete('/trash', async (req, res) => {
+  try {
+    const files = await File.find({
+      owner: req.user._id,
+      isDeleted: true
+    });
+    await File.purge(files);
+
+    res.json({
+      message: 'Trash emptied',
+      count: files.filter(file => !file.deletedWith).length
+    });
+
+  } catch (error) {
+    console.error('Empty trash error:', error);
+    res.status(500).json({
+      error: 'Internal server error while emptying trash'
+    });
+  }
+});
+
 // @route   DELETE /api/files/:id
 // @desc    Delete a file or folder
 // @access  Private
@@ -618,52 +908,29 @@ router.delete('/:id', checkFilePermission('delete'), async (req, res) => {
     const file = req.file;
     const { permanent = false } = req.query;
 
-    if (permanent) {
-      // Permanent deletion
-      if (!file.isDirectory && file.gridFSId) {
-        // Delete from GridFS
-        try {
-          console.log(`🗑️ Deleting file from GridFS: ${file.gridFSId}`);
-          await gfsBucket.delete(file.gridFSId);
-          await req.user.updateStorageUsage(-file.size);
-          console.log(`✅ File deleted from GridFS: ${file.gridFSId}`);
-        } catch (error) {
-          console.error('GridFS deletion error:', error);
-        }
-      } else if (file.isDirectory) {
-        // For directories, recursively delete all contents
-        const childFiles = await File.find({
-          path: { $regex: `^${file.path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}` },
-          owner: req.user._id
-        });
-
-        for (const childFile of childFiles) {
-          if (!childFile.isDirectory && childFile.gridFSId) {
-            try {
-              console.log(`🗑️ Deleting child file from GridFS: ${childFile.gridFSId}`);
-              await gfsBucket.delete(childFile.gridFSId);
-              await req.user.updateStorageUsage(-childFile.size);
-            } catch (error) {
-              console.error('GridFS child deletion error:', error);
-            }
-          }
-        }
+    // Everything inside a folder goes with it
+    const childFiles = file.isDirectory
+      ? await File.find({
+        path: { $regex: `^${file.getChildPath().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(/|$)` },
+        owner: req.user._id,
+        isDeleted: false
+      })
+      : [];
 
-        // Delete all child file documents
-        await File.deleteMany({
-          path: { $regex: `^${file.path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}` },
-          owner: req.user._id
-        });
-      }
+    publishFileEvent(req, file, { type: 'delete', path: file.getChildPath() });
 
-      await File.findByIdAndDelete(file._id);
+    if (permanent) {
+      await File.purge([file, ...childFiles]);
 
       res.json({
         message: 'File deleted permanently'
       });
     } else {
-      // Soft deletion
+      // Soft deletion, into the trash
       await file.softDelete(req.user._id);
+      for (const childFile of childFiles) {
+        await childFile.softDelete(req.user._id, file._id);
+      }
 
       res.json({
         message: 'File moved to trash'
@@ -694,6 +961,16 @@ router.put('/:id/move', checkFilePermission('write'), async (req, res) => {
     const file = req.file;
     const { newPath } = value;
 
+    // Full paths of a folder before and after the move
+    const oldFolderPath = file.path === '/' ? `/${file.filename}` : `${file.path}/${file.filename}`;
+    const newFolderPath = newPath === '/' ? `/${file.filename}` : `${newPath}/${file.filename}`;
+
+    if (file.isDirectory && (newPath === oldFolderPath || newPath.startsWith(`${oldFolderPath}/`))) {
+      return res.status(400).json({
+        error: 'A folder cannot be moved into itself'
+      });
+    }
+
     // Check if destination already exists
     const existingFile = await File.findOne({
       filename: file.filename,
@@ -717,15 +994,16 @@ router.put('/:id/move', checkFilePermission('write'), async (req, res) => {
     // If it's a directory, update all child paths
     if (file.isDirectory) {
       const childFiles = await File.find({
-        path: { $regex: `^${oldPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}` },
+        path: { $regex: `^${oldFolderPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(/|$)` },
         owner: req.user._id
       });
 
       for (const childFile of childFiles) {
-        childFile.path = childFile.path.replace(oldPath, newPath);
+        childFile.path = newFolderPath + childFile.path.slice(oldFolderPath.length);
         await childFile.save();
       }
     }
+    publishFileEvent(req, file, { type: 'move', path: oldFolderPath, newPath: newFolderPath });
 
     res.json({
       message: 'File moved successfully',
@@ -764,7 +1042,7 @@ router.put('/:id/rename', checkFilePermission('write'), async (req, res) => {
     // Check if file with new name already exists
     const existingFile = await File.findOne({
       filename: newName,
-      path: file.path.substring(0, file.path.lastIndexOf('/')),
+      path: file.path,
       owner: req.user._id,
       isDeleted: false
     });
@@ -777,11 +1055,28 @@ router.put('/:id/rename', checkFilePermission('write'), async (req, res) => {
 
     // Update filename
     const oldName = file.filename;
+    const oldFilePath = file.getChildPath();
     file.filename = newName;
     file.originalName = newName;
     file.metadata.lastModifiedBy = req.user._id;
     await file.save();
 
+    // If it's a directory, update all child paths
+    if (file.isDirectory) {
+      const oldFolderPath = file.path === '/' ? `/${oldName}` : `${file.path}/${oldName}`;
+      const newFolderPath = file.path === '/' ? `/${newName}` : `${file.path}/${newName}`;
+      const childFiles = await File.find({
+        path: { $regex: `^${oldFolderPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(/|$)` },
+        owner: req.user._id
+      });
+
+      for (const childFile of childFiles) {
+        childFile.path = newFolderPath + childFile.path.slice(oldFolderPath.length);
+        await childFile.save();
+      }
+    }
+    publishFileEvent(req, file, { type: 'move', path: oldFilePath, newPath: file.getChildPath() });
+
     res.json({
       message: 'File renamed successfully',
       file: {
@@ -4,7 +4,13 @@ import Desktop from './components/Desktop';
 import Window from './components/Window';
 import TaskBar from './components/TaskBar';
 import LoginScreen from './components/LoginScreen';
+import NotificationToasts from './components/NotificationToasts';
 import { useWindowManager } from './hooks/useWindowManager';
+import { renderAppContent } from './registry/appRegistry';
+import { sessionService } from './services/sessionService';
+import { keybindingService } from './services/keybindingService';
+import { pluginService } from './services/pluginService';
+import { createDesktopItem } from './services/desktopFiles';
 import useAuthStore from './stores/authStore';
 import { WallpaperManager, ThemeManager } from './utils/wallpaperManager';
 import { useEffect, useState } from 'react';
@@ -15,7 +21,13 @@ function App() {
     closeWindow, 
     focusWindow, 
     minimizeWindow, 
-    toggleFullscreen
+    toggleFullscreen,
+    setWindowBounds,
+    snapWindow,
+    toggleMaximize,
+    moveWindowToWorkspace,
+    workspaces,
+    activeWorkspaceId
   } = useWindowManager();
 
   const { initialize, isAuthenticated, isLoading, error } = useAuthStore();
@@ -34,6 +46,15 @@ function App() {
     };
     initAuth();
   }, [initialize]);    
+
+  // Save the windows of the signed-in user and reopen them after login
+  useEffect(() => sessionService.start(), []);
+
+  // Dispatch keyboard shortcuts to the commands of the keybinding registry
+  useEffect(() => keybindingService.start(), []);
+
+  // Register the plugins installed in /Applications as apps
+  useEffect(() => pluginService.start(), []);
   
   // Initialize wallpaper and theme system (only after authentication)
   useEffect(() => {
@@ -54,13 +75,9 @@ function App() {
     }
   }, [isAuthenticated]);
 
-  const handleCreateFile = () => {
-    // TODO: Implement file creation
-  };
+  const handleCreateFile = () => createDesktopItem('file');
 
-  const handleCreateFolder = () => {
-    // TODO: Implement folder creation
-  };
+  const handleCreateFolder = () => createDesktopItem('folder');
 
   const handleAuthenticated = () => {
     // Authentication successful
@@ -163,7 +180,7 @@ function App() {
         {/* Desktop content area - clean with no default text */}
         <div className="h-full"></div>
 
-        {/* Render all open windows */}
+        {/* Render all open windows; those on other workspaces stay mounted but hidden */}
         {windows.map((window) => {
           return (
             <Window
@@ -181,8 +198,17 @@ function App() {
               isMinimized={window.isMinimized}
               isFullscreen={window.isFullscreen}
               onToggleFullscreen={toggleFullscreen}
+              snap={window.snap}
+              restoreBounds={window.restoreBounds}
+              onBoundsChange={setWindowBounds}
+              onSnap={snapWindow}
+              onToggleMaximize={toggleMaximize}
+              isHidden={window.workspaceId !== activeWorkspaceId}
+              workspaceId={window.workspaceId}
+              workspaces={workspaces}
+              onMoveToWorkspace={moveWindowToWorkspace}
             >
-              {window.content}
+              {renderAppContent(window)}
             </Window>
           );
         })}
@@ -196,6 +222,9 @@ function App() {
 
       {/* Mac-style Dock */}
       <MacDock />
+
+      {/* Notifications posted by plugins */}
+      <NotificationToasts />
     </div>
   );
 }
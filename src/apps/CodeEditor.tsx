@@ -1,9 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Editor } from '@monaco-editor/react';
 import * as git from 'isomorphic-git';
-import FS from '@isomorphic-git/lightning-fs';
+import type FS from '@isomorphic-git/lightning-fs';
 import { vfsSyncService } from '../services/vfsSyncService';
+import { getEditorFS } from '../services/editorFileSystem';
+import { getDraggedFiles, hasDraggedFiles } from '../services/fileDrag';
 import { simpleGit } from '../utils/simpleGit';
+import { useKeybindings } from '../hooks/useKeybindings';
+import { useWindowStore } from '../store/windowStore';
 
 interface CodeEditorProps {
   windowId?: string;
@@ -22,6 +26,7 @@ interface FileTab {
 }
 
 const CodeEditor: React.FC<CodeEditorProps> = ({ 
+  windowId,
   filePath: initialFilePath,
   initialContent,
   fileName: initialFileName 
@@ -48,7 +53,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   // Initialize file system
   useEffect(() => {
     try {
-      fsRef.current = new FS('WeaveCodeEditor');
+      fsRef.current = getEditorFS();
       loadFileTree();
     } catch (error) {
       console.error('Error initializing file system:', error);
@@ -280,6 +285,24 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     }
   };
 
+  // Restored sessions keep no file contents, read the file again; the
+  // tab opens once it is in the props
+  useEffect(() => {
+    if (!windowId || !initialFilePath || initialContent !== undefined) return;
+
+    let cancelled = false;
+    vfsSyncService.getFileContent(initialFilePath)
+      .then(content => {
+        if (!cancelled) {
+          useWindowStore.getState().updateWindowProps(windowId, { initialContent: content });
+        }
+      })
+      .catch(error => console.error('Error loading file from VFS:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [windowId, initialFilePath, initialContent]);
+
   // Initialize with initial file if provided
   useEffect(() => {
     if (initialFilePath && initialContent !== undefined && initialFileName) {
@@ -370,23 +393,6 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
       vimModeRef.current.dispose();
       vimModeRef.current = null;
     }
-
-    // Add keyboard shortcuts
-    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
-      handleSaveFile();
-    });
-
-    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.KeyS, () => {
-      handleSaveAs();
-    });
-
-    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyO, () => {
-      handleOpenFile();
-    });
-
-    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyN, () => {
-      handleNewFile();
-    });
   };
 
   const handleEditorChange = (value: string | undefined) => {
@@ -588,6 +594,14 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     }
   };
 
+  // Taken before Monaco and the browser see them, so Ctrl+S does not save the page
+  useKeybindings({
+    'codeEditor.save': () => { handleSaveFile(); },
+    'codeEditor.saveAs': () => { handleSaveAs(); },
+    'codeEditor.open': handleOpenFile,
+    'codeEditor.newFile': handleNewFile,
+  }, windowId);
+
   const handleCloseTab = (tabId: string) => {
     const tabToClose = tabs.find(tab => tab.id === tabId);
     if (tabToClose?.isDirty) {
@@ -755,8 +769,26 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     }
   };
 
+  // Files dragged from Files or the desktop open in tabs. Capturing keeps
+  // Monaco from pasting their paths.
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    getDraggedFiles(e.dataTransfer)
+      .filter(file => !file.isFolder)
+      .forEach(file => loadFileFromVFS(file.path));
+  };
+
   return (
-    <div className="h-full flex flex-col bg-gray-900">
+    <div className="h-full flex flex-col bg-gray-900" onDragOverCapture={handleDragOver} onDropCapture={handleDrop}>
       {/* Toolbar */}
       <div className="h-10 bg-gray-800 border-b border-gray-700 flex items-center px-4 space-x-4">
         <button
@@ -1,11 +1,18 @@
 import { useState, useEffect, useCallback } from 'react';
-import { vfsSyncService, type VFSNode } from '../services/vfsSyncService';
+import { vfsSyncService, type VFSNode, type VFSEventListener } from '../services/vfsSyncService';
+import { getDraggedFiles, hasDraggedFiles, hasHostFiles, moveFiles, setDraggedFiles, trashFiles, uploadFiles } from '../services/fileDrag';
+import type { TransferResult } from '../services/fileDrag';
+import TrashView from '../components/TrashView';
+import { DESKTOP_PATH, TRASH_PATH, parsePath } from '../utils/helpers';
+import { getFileCategory, getFileIcon } from '../utils/fileIcons';
 import { useWindowStore } from '../store/windowStore';
 import { useTheme, getThemeClasses } from '../hooks/useTheme';
+import { getAppsForFile, getDefaultApp, getFileTypeKey, openPath, setDefaultApp } from '../registry/fileAssociations';
 
 // Define props interface for Files component
 interface FilesProps {
-  onOpenFile?: (fileName: string, filePath: string, content: string) => void;
+  // Folder to start in, when opened with a folder
+  filePath?: string;
   windowId?: string;
 }
 
@@ -16,63 +23,17 @@ type ViewMode = 'grid' | 'list' | 'details';
 type SortBy = 'name' | 'size' | 'type' | 'modified';
 type SortOrder = 'asc' | 'desc';
 
-// File type categories for better organization
-const FILE_CATEGORIES = {
-  document: ['txt', 'md', 'pdf', 'doc', 'docx', 'rtf'],
-  image: ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'svg', 'webp'],
-  video: ['mp4', 'mkv', 'avi', 'mov', 'wmv', 'flv', 'webm'],
-  audio: ['mp3', 'wav', 'flac', 'aac', 'ogg', 'm4a'],
-  archive: ['zip', 'rar', '7z', 'tar', 'gz', 'bz2'],
-  code: ['js', 'ts', 'tsx', 'jsx', 'html', 'css', 'scss', 'json', 'xml', 'py', 'java', 'cpp', 'c', 'php'],
-  executable: ['exe', 'msi', 'app', 'deb', 'rpm'],
-  other: []
-};
-
 // Enhanced quick access items with better organization
 const QUICK_ACCESS = [
-  { name: 'Desktop', icon: '🖥️', path: '/Desktop', color: 'bg-blue-500/20 text-blue-400' },
+  { name: 'Desktop', icon: '🖥️', path: DESKTOP_PATH, color: 'bg-blue-500/20 text-blue-400' },
   { name: 'Documents', icon: '📄', path: '/Documents', color: 'bg-green-500/20 text-green-400' },
   { name: 'Downloads', icon: '⬇️', path: '/Downloads', color: 'bg-orange-500/20 text-orange-400' },
   { name: 'Pictures', icon: '🖼️', path: '/Pictures', color: 'bg-purple-500/20 text-purple-400' },
   { name: 'Music', icon: '🎵', path: '/Music', color: 'bg-pink-500/20 text-pink-400' },
   { name: 'Videos', icon: '🎬', path: '/Videos', color: 'bg-red-500/20 text-red-400' },
+  { name: 'Trash', icon: '🗑️', path: TRASH_PATH, color: 'bg-zinc-500/20 text-zinc-300' },
 ];
 
-// Get file category
-const getFileCategory = (filename: string): string => {
-  const ext = filename.toLowerCase().split('.').pop() || '';
-  for (const [category, extensions] of Object.entries(FILE_CATEGORIES)) {
-    if ((extensions as string[]).includes(ext)) return category;
-  }
-  return 'other';
-};
-
-// Enhanced file icon function with better categorization
-const getFileIcon = (node: VFSNode) => {
-  if (node.type === 'folder') return '📁';
-  
-  const category = getFileCategory(node.name);
-  
-  switch (category) {
-    case 'document':
-      return '📝';
-    case 'image':
-      return '🖼️';
-    case 'video':
-      return '🎬';
-    case 'audio':
-      return '🎵';
-    case 'archive':
-      return '📦';
-    case 'code':
-      return '⚛️';
-    case 'executable':
-      return '⚙️';
-    default:
-      return '📄';
-  }
-};
-
 // Get file category color
 const getFileColor = (node: VFSNode): string => {
   if (node.type === 'folder') return 'text-blue-400';
@@ -99,12 +60,6 @@ const getFileColor = (node: VFSNode): string => {
   }
 };
 
-// Check if file is text-editable
-const isTextEditable = (filename: string): boolean => {
-  const textExtensions = ['.txt', '.md', '.js', '.ts', '.tsx', '.jsx', '.css', '.scss', '.html', '.json', '.xml', '.csv'];
-  return textExtensions.some(ext => filename.toLowerCase().endsWith(ext));
-};
-
 // Format file size with better units
 const formatFileSize = (size: number): string => {
   if (!size) return '0 B';
@@ -131,7 +86,50 @@ const formatDate = (date: Date): string => {
   }).format(date);
 };
 
-const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
+/**
+ * "Open With…" submenu of a file: every app that can open it, with the
+ * default app marked. The star makes an app the default for the file type.
+ */
+const OpenWithMenu = ({ fileName, onOpen }: { fileName: string; onOpen: (appId: string) => void }) => {
+  const apps = getAppsForFile(fileName);
+  const defaultApp = getDefaultApp(fileName);
+  const typeKey = getFileTypeKey(fileName);
+
+  return (
+    <div className="relative group">
+      <div className="w-full px-4 py-2 flex items-center justify-between text-theme-text-primary group-hover:bg-theme-bg-tertiary transition-colors cursor-default">
+        <span>🔀 Open With…</span>
+        <span className="text-theme-text-secondary">▸</span>
+      </div>
+      <div className="hidden group-hover:block absolute left-full top-0 -ml-1 bg-theme-glass-bg backdrop-blur-sm border border-theme-glass-border rounded-lg py-2 min-w-56">
+        {apps.length === 0 ? (
+          <div className="px-4 py-2 text-sm text-theme-text-secondary">No app can open {typeKey} files</div>
+        ) : apps.map(app => (
+          <div key={app.id} className="flex items-center hover:bg-theme-bg-tertiary transition-colors">
+            <button
+              onClick={() => onOpen(app.id)}
+              className="flex-1 px-4 py-2 text-left text-theme-text-primary"
+            >
+              {app.icon} {app.name}
+              {app.id === defaultApp?.id && <span className="ml-2 text-xs text-theme-text-secondary">(default)</span>}
+            </button>
+            {app.id !== defaultApp?.id && (
+              <button
+                onClick={() => setDefaultApp(typeKey, app.id)}
+                title={`Always open ${typeKey} files with ${app.name}`}
+                className="px-3 py-2 text-theme-text-secondary hover:text-yellow-400"
+              >
+                ☆
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const FilesEnhanced = ({ filePath: initialPath, windowId }: FilesProps) => {
   const { updateWindowState, windows } = useWindowStore();
   const { isLight } = useTheme();
   const theme = getThemeClasses(isLight);
@@ -139,7 +137,7 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
   const currentWindow = windows.find(w => w.id === windowId);
   const filesState = currentWindow?.savedState?.customData?.files as any;
   
-  const [currentPath, setCurrentPath] = useState<string>(filesState?.currentPath || '/');
+  const [currentPath, setCurrentPath] = useState<string>(filesState?.currentPath || initialPath || '/');
   const [currentItems, setCurrentItems] = useState<VFSNode[]>([]);
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set(filesState?.selectedItems || []));
   const [viewMode, setViewMode] = useState<ViewMode>(filesState?.viewMode || 'grid');
@@ -150,8 +148,12 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; item?: VFSNode } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
-  const [pathHistory, setPathHistory] = useState<string[]>(filesState?.pathHistory || ['/']);
+  const [pathHistory, setPathHistory] = useState<string[]>(filesState?.pathHistory || [initialPath || '/']);
   const [historyIndex, setHistoryIndex] = useState(filesState?.historyIndex || 0);
+  // Folder under a drag, highlighted as the drop target
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // The trash is listed by TrashView
+  const isTrash = currentPath === TRASH_PATH;
 
   // Save state to window store whenever important state changes
   useEffect(() => {
@@ -174,9 +176,10 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
     }
   }, [windowId, currentPath, selectedItems, viewMode, sortBy, sortOrder, searchQuery, showHidden, pathHistory, historyIndex, updateWindowState]);
 
-  // Load directory contents using VFS service
-  const loadDirectory = useCallback(async (path: string) => {
-    setIsLoading(true);
+  // Load directory contents using VFS service; `quiet` keeps the list while loading
+  const loadDirectory = useCallback(async (path: string, quiet = false) => {
+    if (path === TRASH_PATH) return;
+    setIsLoading(!quiet);
     try {
       const items = await vfsSyncService.listDir(path);
       
@@ -268,7 +271,7 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
 
   // Navigate up (to parent folder)
   const navigateUp = () => {
-    if (currentPath !== '/') {
+    if (currentPath !== '/' && !isTrash) {
       const parentPath = currentPath.substring(0, currentPath.lastIndexOf('/')) || '/';
       navigateToPath(parentPath);
     }
@@ -280,23 +283,21 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
     setTimeout(() => setNotification(null), 3000);
   };
 
+  // Open a file in its default app, or in the app picked with Open With
+  const openFile = (item: VFSNode, appId?: string) => {
+    const filePath = currentPath === '/' ? `/${item.name}` : `${currentPath}/${item.name}`;
+    openPath(filePath, { appId, isFolder: false }).catch(error => {
+      showNotification(error instanceof Error ? error.message : `Failed to open ${item.name}`, 'error');
+    });
+  };
+
   // Handle item double click
   const handleItemDoubleClick = (item: VFSNode) => {
     if (item.type === 'folder') {
       const newPath = currentPath === '/' ? `/${item.name}` : `${currentPath}/${item.name}`;
       navigateToPath(newPath);
-    } else if (isTextEditable(item.name) && onOpenFile) {
-      const filePath = currentPath === '/' ? `/${item.name}` : `${currentPath}/${item.name}`;
-      try {
-        // Use VFS service to get file content
-        vfsSyncService.getFileContent(filePath).then(content => {
-          onOpenFile(item.name, filePath, content);
-        }).catch(() => {
-          showNotification(`Failed to open ${item.name}`, 'error');
-        });
-      } catch (error) {
-        showNotification(`Failed to open ${item.name}`, 'error');
-      }
+    } else {
+      openFile(item);
     }
   };
 
@@ -361,34 +362,34 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
     setContextMenu(null);
   };
 
-  // Delete selected items
-  const deleteSelectedItems = async () => {
-    if (selectedItems.size === 0) return;
-    
-    const itemNames = Array.from(selectedItems);
-    const confirmMessage = `Are you sure you want to delete ${itemNames.length} item(s)?`;
-    
-    if (confirm(confirmMessage)) {
-      let successCount = 0;
-      for (const itemName of itemNames) {
-        try {
-          const itemPath = currentPath === '/' ? `/${itemName}` : `${currentPath}/${itemName}`;
-          await vfsSyncService.deleteNode(itemPath);
-          successCount++;
-        } catch (error) {
-          console.error(`Failed to delete ${itemName}:`, error);
-        }
+  // Move items to the trash. They can be put back from there, so no
+  // confirmation, except on mounted file systems, which have no trash.
+  const deleteItems = async (itemNames: string[]) => {
+    if (itemNames.length === 0) return;
+
+    const itemPaths = itemNames.map(itemName => (currentPath === '/' ? `/${itemName}` : `${currentPath}/${itemName}`));
+    const permanent = itemPaths.some(itemPath => vfsSyncService.getMount(itemPath));
+    if (permanent && !confirm(`Delete ${itemNames.length} item(s) permanently? Mounted file systems have no Trash, this cannot be undone.`)) return;
+
+    let successCount = 0;
+    for (const itemPath of itemPaths) {
+      try {
+        await vfsSyncService.deleteNode(itemPath);
+        successCount++;
+      } catch (error) {
+        console.error(`Failed to delete ${itemPath}:`, error);
       }
-      
-      showNotification(`Deleted ${successCount} item(s)`, 'success');
-      setSelectedItems(new Set());
-      loadDirectory(currentPath);
     }
+
+    showNotification(permanent ? `Deleted ${successCount} item(s) permanently` : `Moved ${successCount} item(s) to the Trash`, 'success');
+    setSelectedItems(new Set());
+    loadDirectory(currentPath);
     setContextMenu(null);
   };
 
   // Get breadcrumb path
   const getBreadcrumbs = () => {
+    if (isTrash) return [{ name: 'Trash', path: TRASH_PATH }];
     const parts = currentPath.split('/').filter(Boolean);
     const breadcrumbs = [{ name: 'Root', path: '/' }];
     
@@ -401,34 +402,24 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
     return breadcrumbs;
   };
 
+  // Report moves and uploads, failures first
+  const showTransferResult = (result: TransferResult, verb: string) => {
+    if (result.errors.length > 0) {
+      showNotification(result.errors[0], 'error');
+    } else if (result.done > 0) {
+      showNotification(`${verb} ${result.done} item(s)`, 'success');
+    }
+  };
+
   // Handle file upload
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
 
     setIsLoading(true);
-    let successCount = 0;
-
     try {
-      for (const file of Array.from(files)) {
-        try {
-          const fileName = file.name;
-          const filePath = currentPath === '/' ? `/${fileName}` : `${currentPath}/${fileName}`;
-          
-          // Read file content and create via VFS
-          const content = await file.text();
-          await vfsSyncService.createFile(filePath, content);
-          successCount++;
-        } catch (error) {
-          console.error(`Failed to upload ${file.name}:`, error);
-        }
-      }
-
-      showNotification(`Uploaded ${successCount} file(s)`, 'success');
+      showTransferResult(await uploadFiles(Array.from(files), currentPath, 'filemanager'), 'Uploaded');
       loadDirectory(currentPath);
-    } catch (error) {
-      console.error('Upload error:', error);
-      showNotification('Failed to upload files', 'error');
     } finally {
       setIsLoading(false);
       // Reset the input
@@ -436,6 +427,61 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
     }
   };
 
+  const getItemPath = (item: VFSNode) => (currentPath === '/' ? `/${item.name}` : `${currentPath}/${item.name}`);
+
+  // Drag the selection, or only the item when it is not selected
+  const handleItemDragStart = (event: React.DragEvent, item: VFSNode) => {
+    const names = selectedItems.has(item.name) ? [...selectedItems] : [item.name];
+    const dragged = currentItems
+      .filter(other => names.includes(other.name))
+      .map(other => ({ path: getItemPath(other), isFolder: other.type === 'folder' }));
+    setDraggedFiles(event.dataTransfer, dragged);
+  };
+
+  // Folders accept files from Files windows and the desktop, and from the host.
+  // The trash only takes files of the VFS.
+  const handleDragOver = (event: React.DragEvent, folder: string) => {
+    if (!hasDraggedFiles(event.dataTransfer) && (folder === TRASH_PATH || !hasHostFiles(event.dataTransfer))) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer.dropEffect = hasDraggedFiles(event.dataTransfer) ? 'move' : 'copy';
+    setDropTarget(folder);
+  };
+
+  const handleDrop = async (event: React.DragEvent, folder: string) => {
+    if (!hasDraggedFiles(event.dataTransfer) && (folder === TRASH_PATH || !hasHostFiles(event.dataTransfer))) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTarget(null);
+
+    if (folder === TRASH_PATH) {
+      showTransferResult(await trashFiles(getDraggedFiles(event.dataTransfer), 'filemanager'), 'Moved to the Trash');
+    } else if (hasDraggedFiles(event.dataTransfer)) {
+      showTransferResult(await moveFiles(getDraggedFiles(event.dataTransfer), folder, 'filemanager'), 'Moved');
+    } else {
+      showTransferResult(await uploadFiles(Array.from(event.dataTransfer.files), folder, 'filemanager'), 'Uploaded');
+    }
+    loadDirectory(currentPath, true);
+  };
+
+  // Other windows and the Terminal change folders too
+  useEffect(() => {
+    const isShown = (path: string) => parsePath(path).parent === currentPath;
+    const reload = (...paths: string[]) => {
+      if (paths.some(isShown)) loadDirectory(currentPath, true);
+    };
+    const listener: VFSEventListener = {
+      onFileCreated: path => reload(path),
+      onFileDeleted: path => reload(path),
+      onFolderCreated: path => reload(path),
+      onFolderDeleted: path => reload(path),
+      onFileMoved: (oldPath, newPath) => reload(oldPath, newPath),
+      onFileCopied: (_sourcePath, destPath) => reload(destPath),
+    };
+    vfsSyncService.addEventListener(listener);
+    return () => vfsSyncService.removeEventListener(listener);
+  }, [currentPath, loadDirectory]);
+
   // Load initial directory
   useEffect(() => {
     loadDirectory(currentPath);
@@ -473,14 +519,18 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
             </button>
             <button
               onClick={navigateUp}
-              disabled={currentPath === '/'}
+              disabled={currentPath === '/' || isTrash}
               className={`p-2 rounded-lg ${theme.button} disabled:opacity-50 disabled:cursor-not-allowed transition-colors`}
               title="Up"
             >
               <span className={theme.textPrimary}>↑</span>
             </button>
             <button
-              onClick={() => loadDirectory(currentPath)}
+              onClick={() => {
+                // Read the folder again, with changes made elsewhere
+                vfsSyncService.invalidateCache(currentPath);
+                loadDirectory(currentPath);
+              }}
               className={`p-2 rounded-lg ${theme.button} transition-colors`}
               title="Refresh"
             >
@@ -559,8 +609,11 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
                 <button
                   key={item.path}
                   onClick={() => navigateToPath(item.path)} // Navigate to the quick access path
+                  onDragOver={(e) => handleDragOver(e, item.path)}
+                  onDragLeave={() => setDropTarget(null)}
+                  onDrop={(e) => handleDrop(e, item.path)}
                   className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-all ${
-                    currentPath === item.path
+                    currentPath === item.path || dropTarget === item.path
                       ? `${item.color} border border-current`
                       : `${theme.textSecondary} ${theme.bgHover} hover:${theme.textPrimary}`
                   }`}
@@ -573,7 +626,7 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
           </div>
 
           {/* File Operations */}
-          <div className="p-4 border-t border-theme-border mt-auto">
+          <div className={`p-4 border-t border-theme-border mt-auto ${isTrash ? 'hidden' : ''}`}>
             <div className="space-y-2">
               {/* File Upload */}
               <label className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-theme-text-secondary hover:text-theme-text-primary hover:bg-theme-bg-tertiary transition-all cursor-pointer">
@@ -603,11 +656,11 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
               </button>
               {selectedItems.size > 0 && (
                 <button
-                  onClick={deleteSelectedItems}
+                  onClick={() => deleteItems(Array.from(selectedItems))}
                   className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-red-400 hover:text-red-300 hover:bg-red-500/10 transition-all"
                 >
                   <span>🗑️</span>
-                  <span className="text-sm">Delete ({selectedItems.size})</span>
+                  <span className="text-sm">Move to Trash ({selectedItems.size})</span>
                 </button>
               )}
             </div>
@@ -615,133 +668,152 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
         </div>
 
         {/* Main Content */}
-        <div className="flex-1 flex flex-col">
-          {/* Sort Controls */}
-          <div className="bg-theme-bg-secondary border-b border-theme-border px-4 py-2 flex items-center gap-4">
-            <div className="flex items-center gap-2">
-              <span className="text-theme-text-muted text-sm">Sort by:</span>
-              <select
-                value={sortBy}
-                onChange={(e) => setSortBy(e.target.value as SortBy)}
-                className="bg-theme-bg-tertiary border border-theme-border rounded px-2 py-1 text-theme-text-primary text-sm focus:outline-none focus:border-theme-accent"
-              >
-                <option value="name" className="bg-theme-bg-tertiary">Name</option>
-                <option value="size" className="bg-theme-bg-tertiary">Size</option>
-                <option value="type" className="bg-theme-bg-tertiary">Type</option>
-                <option value="modified" className="bg-theme-bg-tertiary">Modified</option>
-              </select>
-              <button
-                onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
-                className="p-1 rounded text-theme-text-secondary hover:text-theme-text-primary transition-colors"
-                title={`Sort ${sortOrder === 'asc' ? 'Descending' : 'Ascending'}`}
-              >
-                {sortOrder === 'asc' ? '↑' : '↓'}
-              </button>
-            </div>
+        {isTrash ? (
+          <TrashView onNotify={showNotification} />
+        ) : (
+          <div className="flex-1 flex flex-col">
+            {/* Sort Controls */}
+            <div className="bg-theme-bg-secondary border-b border-theme-border px-4 py-2 flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <span className="text-theme-text-muted text-sm">Sort by:</span>
+                <select
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as SortBy)}
+                  className="bg-theme-bg-tertiary border border-theme-border rounded px-2 py-1 text-theme-text-primary text-sm focus:outline-none focus:border-theme-accent"
+                >
+                  <option value="name" className="bg-theme-bg-tertiary">Name</option>
+                  <option value="size" className="bg-theme-bg-tertiary">Size</option>
+                  <option value="type" className="bg-theme-bg-tertiary">Type</option>
+                  <option value="modified" className="bg-theme-bg-tertiary">Modified</option>
+                </select>
+                <button
+                  onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+                  className="p-1 rounded text-theme-text-secondary hover:text-theme-text-primary transition-colors"
+                  title={`Sort ${sortOrder === 'asc' ? 'Descending' : 'Ascending'}`}
+                >
+                  {sortOrder === 'asc' ? '↑' : '↓'}
+                </button>
+              </div>
             
-            <label className="flex items-center gap-2 text-theme-text-muted text-sm">
-              <input
-                type="checkbox"
-                checked={showHidden}
-                onChange={(e) => setShowHidden(e.target.checked)}
-                className="w-4 h-4 rounded border-theme-border bg-theme-bg-tertiary text-theme-accent"
-              />
-              Show hidden files
-            </label>
-
-            <div className="ml-auto text-gray-400 text-sm">
-              {currentItems.length} items
-            </div>
-          </div>
+              <label className="flex items-center gap-2 text-theme-text-muted text-sm">
+                <input
+                  type="checkbox"
+                  checked={showHidden}
+                  onChange={(e) => setShowHidden(e.target.checked)}
+                  className="w-4 h-4 rounded border-theme-border bg-theme-bg-tertiary text-theme-accent"
+                />
+                Show hidden files
+              </label>
 
-          {/* File Content */}
-          <div className="flex-1 p-4 overflow-auto">
-            {isLoading ? (
-              <div className="flex items-center justify-center h-32">
-                <div className="text-white/70">Loading...</div>
+              <div className="ml-auto text-gray-400 text-sm">
+                {currentItems.length} items
               </div>
-            ) : currentItems.length === 0 ? (
-              <div className="flex items-center justify-center h-32">
-                <div className="text-white/70">
-                  {searchQuery ? 'No files match your search' : 'This folder is empty'}
+            </div>
+
+            {/* File Content, a drop target for the current folder */}
+            <div
+              className={`flex-1 p-4 overflow-auto ${dropTarget === currentPath ? 'bg-blue-500/10 ring-2 ring-inset ring-blue-400/50' : ''}`}
+              onDragOver={(e) => handleDragOver(e, currentPath)}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+              }}
+              onDrop={(e) => handleDrop(e, currentPath)}
+            >
+              {isLoading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="text-white/70">Loading...</div>
                 </div>
-              </div>
-            ) : (
-              <div
-                className={
-                  viewMode === 'grid'
-                    ? 'grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-4'
-                    : viewMode === 'list'
-                    ? 'space-y-1'
-                    : 'space-y-1'
-                }
-                onContextMenu={(e) => handleContextMenu(e)}
-              >
-                {currentItems.map(item => (
-                  <div
-                    key={item.name}
-                    onClick={(e) => handleItemClick(item, e)}
-                    onDoubleClick={() => handleItemDoubleClick(item)}
-                    onContextMenu={(e) => handleContextMenu(e, item)}
-                    className={`
-                      cursor-pointer transition-all rounded-lg
-                      ${selectedItems.has(item.name)
-                        ? 'bg-blue-500/20 border border-blue-400/50'
-                        : 'hover:bg-white/5 border border-transparent'
-                      }
-                      ${viewMode === 'grid'
-                        ? 'p-3 text-center'
-                        : 'p-2 flex items-center gap-3'
-                      }
-                    `}
-                  >
-                    {viewMode === 'grid' ? (
-                      <>
-                        <div className="text-3xl mb-2">{getFileIcon(item)}</div>
-                        <div className={`text-sm font-medium truncate ${getFileColor(item)}`}>
-                          {item.name}
-                        </div>
-                        {item.type === 'file' && item.size && (
-                          <div className="text-xs text-white/50 mt-1">
-                            {formatFileSize(item.size)}
+              ) : currentItems.length === 0 ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="text-white/70">
+                    {searchQuery ? 'No files match your search' : 'This folder is empty'}
+                  </div>
+                </div>
+              ) : (
+                <div
+                  className={
+                    viewMode === 'grid'
+                      ? 'grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-4'
+                      : viewMode === 'list'
+                      ? 'space-y-1'
+                      : 'space-y-1'
+                  }
+                  onContextMenu={(e) => handleContextMenu(e)}
+                >
+                  {currentItems.map(item => (
+                    <div
+                      key={item.name}
+                      draggable
+                      onDragStart={(e) => handleItemDragStart(e, item)}
+                      onDragOver={item.type === 'folder' ? (e) => handleDragOver(e, getItemPath(item)) : undefined}
+                      onDragLeave={item.type === 'folder' ? () => setDropTarget(null) : undefined}
+                      onDrop={item.type === 'folder' ? (e) => handleDrop(e, getItemPath(item)) : undefined}
+                      onDragEnd={() => setDropTarget(null)}
+                      onClick={(e) => handleItemClick(item, e)}
+                      onDoubleClick={() => handleItemDoubleClick(item)}
+                      onContextMenu={(e) => handleContextMenu(e, item)}
+                      className={`
+                        cursor-pointer transition-all rounded-lg
+                        ${dropTarget === getItemPath(item)
+                          ? 'bg-blue-500/30 border border-blue-400'
+                          : selectedItems.has(item.name)
+                          ? 'bg-blue-500/20 border border-blue-400/50'
+                          : 'hover:bg-white/5 border border-transparent'
+                        }
+                        ${viewMode === 'grid'
+                          ? 'p-3 text-center'
+                          : 'p-2 flex items-center gap-3'
+                        }
+                      `}
+                    >
+                      {viewMode === 'grid' ? (
+                        <>
+                          <div className="text-3xl mb-2">{getFileIcon(item)}</div>
+                          <div className={`text-sm font-medium truncate ${getFileColor(item)}`}>
+                            {item.name}
                           </div>
-                        )}
-                      </>
-                    ) : viewMode === 'list' ? (
-                      <>
-                        <div className="text-xl">{getFileIcon(item)}</div>
-                        <div className={`flex-1 font-medium truncate ${getFileColor(item)}`}>
-                          {item.name}
-                        </div>
-                        {item.type === 'file' && item.size && (
-                          <div className="text-sm text-white/50">
-                            {formatFileSize(item.size)}
+                          {item.type === 'file' && item.size && (
+                            <div className="text-xs text-white/50 mt-1">
+                              {formatFileSize(item.size)}
+                            </div>
+                          )}
+                        </>
+                      ) : viewMode === 'list' ? (
+                        <>
+                          <div className="text-xl">{getFileIcon(item)}</div>
+                          <div className={`flex-1 font-medium truncate ${getFileColor(item)}`}>
+                            {item.name}
                           </div>
-                        )}
-                      </>
-                    ) : (
-                      <>
-                        <div className="text-xl">{getFileIcon(item)}</div>
-                        <div className={`flex-1 font-medium truncate ${getFileColor(item)}`}>
-                          {item.name}
-                        </div>
-                        <div className="text-sm text-white/50 w-20 text-right">
-                          {item.type === 'file' ? formatFileSize(item.size || 0) : 'Folder'}
-                        </div>
-                        <div className="text-sm text-white/50 w-32 text-right">
-                          {getFileCategory(item.name)}
-                        </div>
-                        <div className="text-sm text-white/50 w-40 text-right">
-                          {item.modified ? formatDate(item.modified) : '-'}
-                        </div>
-                      </>
-                    )}
-                  </div>
-                ))}
-              </div>
-            )}
+                          {item.type === 'file' && item.size && (
+                            <div className="text-sm text-white/50">
+                              {formatFileSize(item.size)}
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <>
+                          <div className="text-xl">{getFileIcon(item)}</div>
+                          <div className={`flex-1 font-medium truncate ${getFileColor(item)}`}>
+                            {item.name}
+                          </div>
+                          <div className="text-sm text-white/50 w-20 text-right">
+                            {item.type === 'file' ? formatFileSize(item.size || 0) : item.mount ? 'Mount point' : 'Folder'}
+                          </div>
+                          <div className="text-sm text-white/50 w-32 text-right">
+                            {getFileCategory(item.name)}
+                          </div>
+                          <div className="text-sm text-white/50 w-40 text-right">
+                            {item.modified ? formatDate(item.modified) : '-'}
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Context Menu */}
@@ -754,20 +826,8 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
             <>
               <button
                 onClick={() => {
-                  if (contextMenu.item?.type === 'folder') {
-                    const newPath = currentPath === '/' ? `/${contextMenu.item.name}` : `${currentPath}/${contextMenu.item.name}`;
-                    navigateToPath(newPath);
-                  } else if (contextMenu.item && isTextEditable(contextMenu.item.name) && onOpenFile) {
-                    const filePath = currentPath === '/' ? `/${contextMenu.item.name}` : `${currentPath}/${contextMenu.item.name}`;
-                    try {
-                      vfsSyncService.getFileContent(filePath).then(content => {
-                        onOpenFile(contextMenu.item!.name, filePath, content);
-                      }).catch(() => {
-                        showNotification(`Failed to open ${contextMenu.item!.name}`, 'error');
-                      });
-                    } catch (error) {
-                      showNotification(`Failed to open ${contextMenu.item!.name}`, 'error');
-                    }
+                  if (contextMenu.item) {
+                    handleItemDoubleClick(contextMenu.item);
                   }
                   setContextMenu(null);
                 }}
@@ -775,16 +835,26 @@ const FilesEnhanced = ({ onOpenFile, windowId }: FilesProps) => {
               >
                 {contextMenu.item.type === 'folder' ? '📂 Open' : '📝 Open'}
               </button>
+              {contextMenu.item.type === 'file' && (
+                <OpenWithMenu
+                  fileName={contextMenu.item.name}
+                  onOpen={appId => {
+                    if (contextMenu.item) {
+                      openFile(contextMenu.item, appId);
+                    }
+                    setContextMenu(null);
+                  }}
+                />
+              )}
               <button
                 onClick={() => {
                   if (contextMenu.item) {
-                    setSelectedItems(new Set([contextMenu.item.name]));
-                    deleteSelectedItems();
+                    deleteItems(selectedItems.has(contextMenu.item.name) ? Array.from(selectedItems) : [contextMenu.item.name]);
                   }
                 }}
                 className="w-full px-4 py-2 text-left text-red-400 hover:bg-zinc-700/50 transition-colors"
               >
-                🗑️ Delete
+                🗑️ Move to Trash
               </button>
             </>
           ) : (
@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { useWindowStore } from '../store/windowStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { pluginService, PLUGIN_PERMISSIONS } from '../services/pluginService';
+import type { InstalledPlugin } from '../services/pluginService';
+import { PluginBridge } from '../services/pluginBridge';
+
+interface PluginHostProps {
+  windowId?: string;
+}
+
+const subscribe = (listener: () => void) => pluginService.onChange(listener);
+const getPlugins = () => pluginService.getPlugins();
+const isLoaded = () => pluginService.isLoaded();
+
+const Message = ({ icon, title, children }: { icon: string; title: string; children?: React.ReactNode }) => (
+  <div className="h-full flex flex-col items-center justify-center gap-3 p-8 bg-zinc-900 text-center">
+    <div className="text-5xl">{icon}</div>
+    <div className="text-white text-lg font-semibold">{title}</div>
+    {children}
+  </div>
+);
+
+/**
+ * Ask the user for the permissions of a plugin before it starts
+ */
+const PermissionPrompt = ({ plugin, onAllow, onCancel }: { plugin: InstalledPlugin; onAllow: () => void; onCancel: () => void }) => {
+  const { manifest } = plugin;
+  const asksForFiles = manifest.permissions.some(permission => permission.startsWith('files.'));
+
+  return (
+    <Message icon={manifest.icon} title={`${manifest.name} ${manifest.version}`}>
+      {manifest.description && <p className="text-sm text-gray-400 max-w-md">{manifest.description}</p>}
+      <div className="w-full max-w-md mt-2 bg-zinc-800/50 rounded-xl p-4 text-left space-y-2">
+        {manifest.permissions.length > 0 ? (
+          <>
+            <div className="text-sm text-gray-300">This plugin wants to:</div>
+            <ul className="space-y-1">
+              {manifest.permissions.map(permission => (
+                <li key={permission} className="text-sm text-white">• {PLUGIN_PERMISSIONS[permission]}</li>
+              ))}
+            </ul>
+            {asksForFiles && (
+              <div className="text-xs text-gray-400">
+                {manifest.folders.length > 0
+                  ? <>Only in {manifest.folders.map(folder => <span key={folder} className="font-mono text-gray-200">{folder} </span>)}</>
+                  : 'Only the files you open with it'}
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="text-sm text-gray-300">This plugin does not ask for any permissions.</div>
+        )}
+        <div className="text-xs text-gray-500 pt-1">Installed in <span className="font-mono">{plugin.path}</span></div>
+      </div>
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 rounded-lg text-sm text-gray-300 hover:text-white hover:bg-zinc-700/50 transition-all"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onAllow}
+          className="px-4 py-2 rounded-lg text-sm bg-blue-500/80 text-white hover:bg-blue-500 transition-all"
+        >
+          Allow and Open
+        </button>
+      </div>
+    </Message>
+  );
+};
+
+/**
+ * The sandboxed iframe of a running plugin. Without `allow-same-origin`
+ * the plugin has an opaque origin: no access to the desktop, its storage
+ * or its cookies, only to the bridge.
+ */
+const PluginFrame = ({ plugin, windowId }: { plugin: InstalledPlugin; windowId: string }) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [bundle, setBundle] = useState<{ html: string } | { error: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    pluginService.loadBundle(plugin)
+      .then(html => !cancelled && setBundle({ html }))
+      .catch(error => !cancelled && setBundle({ error: error instanceof Error ? error.message : 'Unknown error' }));
+    return () => {
+      cancelled = true;
+    };
+  }, [plugin]);
+
+  useEffect(() => {
+    if (!frameRef.current || !bundle || !('html' in bundle)) return;
+    return new PluginBridge(plugin, windowId, frameRef.current).start();
+  }, [plugin, windowId, bundle]);
+
+  // Clicks inside the iframe do not reach the window, but they blur the desktop
+  useEffect(() => {
+    const handleBlur = () => {
+      if (document.activeElement === frameRef.current) {
+        useWindowStore.getState().focusWindow(windowId);
+      }
+    };
+    window.addEventListener('blur', handleBlur);
+    return () => window.removeEventListener('blur', handleBlur);
+  }, [windowId]);
+
+  if (!bundle) {
+    return <Message icon={plugin.manifest.icon} title={`Loading ${plugin.manifest.name}…`} />;
+  }
+  if ('error' in bundle) {
+    return (
+      <Message icon="⚠️" title={`${plugin.manifest.name} could not be loaded`}>
+        <p className="text-sm text-gray-400">{bundle.error}</p>
+      </Message>
+    );
+  }
+
+  return (
+    <iframe
+      ref={frameRef}
+      title={plugin.manifest.name}
+      srcDoc={bundle.html}
+      sandbox="allow-scripts"
+      className="w-full h-full border-0 bg-white"
+    />
+  );
+};
+
+const PluginHost = ({ windowId }: PluginHostProps) => {
+  const appId = useWindowStore(state => state.windows.find(w => w.id === windowId)?.appId);
+  const plugins = useSyncExternalStore(subscribe, getPlugins);
+  const loaded = useSyncExternalStore(subscribe, isLoaded);
+  // Approving or revoking in Settings shows or hides the plugin at once
+  useSettingsStore(state => state.settings.pluginGrants);
+
+  const plugin = plugins.find(other => other.appId === appId);
+
+  if (!windowId || !plugin) {
+    return loaded
+      ? <Message icon="🧩" title="This plugin is not installed anymore" />
+      : <Message icon="🧩" title="Loading plugins…" />;
+  }
+
+  if (pluginService.needsApproval(plugin)) {
+    return (
+      <PermissionPrompt
+        plugin={plugin}
+        onAllow={() => pluginService.approve(plugin)}
+        onCancel={() => useWindowStore.getState().closeWindow(windowId)}
+      />
+    );
+  }
+
+  // A new version of the plugin starts over
+  return <PluginFrame key={`${plugin.path}@${plugin.manifest.version}`} plugin={plugin} windowId={windowId} />;
+};
+
+export default PluginHost;
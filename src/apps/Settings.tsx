@@ -1,8 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useSyncExternalStore } from 'react';
 import { useWindowStore } from '../store/windowStore';
 import { WallpaperManager, ThemeManager } from '../utils/wallpaperManager';
 import { useTheme, getThemeClasses } from '../hooks/useTheme';
 import { useSettingsStore, type AppSettings } from '../stores/settingsStore';
+import { keybindingService } from '../services/keybindingService';
+import { KEYBINDING_CATEGORIES, getKeybindingCommand } from '../registry/keybindingRegistry';
+import type { KeybindingCommand, KeybindingCommandId } from '../registry/keybindingRegistry';
+import { eventToChord, formatChord } from '../utils/keyChords';
+import { SETTINGS_PAGES } from '../registry/settingsPages';
+import { launchApp } from '../registry/appRegistry';
+import { getAppsForType, getSelectableFileTypes, setDefaultApp } from '../registry/fileAssociations';
+import { FOLDER_MIME_TYPE } from '../utils/mimeTypes';
+import { pluginService, PLUGIN_PERMISSIONS, APPLICATIONS_PATH } from '../services/pluginService';
 
 interface SettingsProps {
   windowId?: string;
@@ -492,6 +501,22 @@ const SystemSettings = ({ settings, updateSettings }: { settings: AppSettings; u
             />
           </label>
 
+          <label className="flex items-center justify-between p-4 bg-zinc-800/50 rounded-xl hover:bg-zinc-700/50 transition-colors cursor-pointer">
+            <div className="flex items-center gap-3">
+              <span className="text-xl">🪟</span>
+              <div>
+                <div className="text-white font-medium">Hot Corners</div>
+                <div className="text-gray-400 text-sm">Point at a top corner to show all windows</div>
+              </div>
+            </div>
+            <input
+              type="checkbox"
+              checked={settings.hotCorners}
+              onChange={(e) => updateSettings({ hotCorners: e.target.checked })}
+              className="w-5 h-5 rounded border-zinc-600/50 bg-zinc-700/50 text-blue-500 focus:ring-blue-400"
+            />
+          </label>
+
           <label className="flex items-center justify-between p-4 bg-zinc-800/50 rounded-xl hover:bg-zinc-700/50 transition-colors cursor-pointer">
             <div className="flex items-center gap-3">
               <span className="text-xl">💾</span>
@@ -555,6 +580,356 @@ const FilesSettings = ({ settings, updateSettings }: { settings: AppSettings; up
           </label>
         </div>
       </div>
+
+      <DefaultAppsSettings settings={settings} />
+    </div>
+  );
+};
+
+const getFileTypeLabel = (typeKey: string): string => {
+  if (typeKey === FOLDER_MIME_TYPE) return 'Folders';
+  if (!typeKey.startsWith('.')) return 'Files without extension';
+  return `${typeKey} files`;
+};
+
+// Default app per file type, also chosen with Open With in Files
+const DefaultAppsSettings = ({ settings }: { settings: AppSettings }) => {
+  const typeKeys = getSelectableFileTypes();
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        🔀 Default Apps
+      </h3>
+      <div className="bg-zinc-800/50 rounded-xl divide-y divide-zinc-700/50">
+        {typeKeys.map(typeKey => {
+          const apps = getAppsForType(typeKey);
+          const preferred = settings.fileAssociations[typeKey];
+          return (
+            <div key={typeKey} className="flex items-center justify-between px-4 py-3">
+              <span className="text-white font-mono text-sm">{getFileTypeLabel(typeKey)}</span>
+              <select
+                value={apps.some(app => app.id === preferred) ? preferred : ''}
+                onChange={(e) => setDefaultApp(typeKey, e.target.value || null)}
+                className="bg-zinc-700/50 border border-zinc-600/50 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-400"
+              >
+                <option value="">Automatic ({apps[0]?.name ?? 'none'})</option>
+                {apps.map(app => (
+                  <option key={app.id} value={app.id}>{app.icon} {app.name}</option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-gray-400 text-sm mt-2">Types that only one app opens are not listed.</p>
+    </div>
+  );
+};
+
+// Terminal Settings Component
+const TerminalSettings = ({ settings, updateSettings }: { settings: AppSettings; updateSettings: (updates: Partial<AppSettings>) => void }) => {
+  const dedupeModes = [
+    { id: 'none', name: 'Keep All', description: 'Save every command' },
+    { id: 'consecutive', name: 'Ignore Repeats', description: 'Skip a command identical to the previous one' },
+    { id: 'all', name: 'Erase Duplicates', description: 'Keep only the latest copy of each command' }
+  ];
+
+  return (
+    <div className="space-y-8">
+      {/* History Size */}
+      <div>
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+          📜 History Size
+        </h3>
+        <div className="bg-zinc-800/50 rounded-xl p-4">
+          <div className="flex items-center gap-4">
+            <input
+              type="range"
+              min="50"
+              max="10000"
+              step="50"
+              value={settings.terminalHistorySize}
+              onChange={(e) => updateSettings({ terminalHistorySize: parseInt(e.target.value) })}
+              className="flex-1 h-3 bg-zinc-700/50 rounded-lg appearance-none cursor-pointer 
+                [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-6 [&::-webkit-slider-thumb]:h-6 
+                [&::-webkit-slider-thumb]:bg-blue-500 [&::-webkit-slider-thumb]:rounded-full 
+                [&::-webkit-slider-thumb]:cursor-pointer [&::-webkit-slider-thumb]:shadow-lg
+                [&::-moz-range-thumb]:w-6 [&::-moz-range-thumb]:h-6 [&::-moz-range-thumb]:bg-blue-500 
+                [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:border-none [&::-moz-range-thumb]:cursor-pointer"
+            />
+            <div className="text-white font-medium w-16 text-center">{settings.terminalHistorySize}</div>
+          </div>
+          <div className="mt-2 text-xs text-gray-400">
+            Number of commands kept in ~/.weave_history, shared by all Terminal windows
+          </div>
+        </div>
+      </div>
+
+      {/* Duplicates */}
+      <div>
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+          🔁 Duplicate Commands
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {dedupeModes.map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => updateSettings({ terminalHistoryDedupe: mode.id as AppSettings['terminalHistoryDedupe'] })}
+              className={`p-4 rounded-xl border-2 text-left transition-all ${
+                settings.terminalHistoryDedupe === mode.id
+                  ? 'border-blue-400 bg-blue-500/20'
+                  : 'border-zinc-600/50 hover:border-white/40'
+              }`}
+            >
+              <div className="text-sm text-white font-medium">{mode.name}</div>
+              <div className="text-xs text-gray-400 mt-1">{mode.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Keyboard Settings Component
+const KeyboardSettings = ({ settings }: { settings: AppSettings; updateSettings: (updates: Partial<AppSettings>) => void }) => {
+  const [recordingId, setRecordingId] = useState<KeybindingCommandId | null>(null);
+  // A recorded chord that is already used by other commands, waiting for a decision
+  const [pending, setPending] = useState<{ commandId: KeybindingCommandId; chord: string; conflicts: KeybindingCommand[] } | null>(null);
+
+  // Record the next key press while the other shortcuts are paused
+  useEffect(() => {
+    if (!recordingId) return;
+
+    const resume = keybindingService.suspend();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape' && !e.ctrlKey && !e.altKey && !e.shiftKey && !e.metaKey) {
+        setRecordingId(null);
+        return;
+      }
+
+      const chord = eventToChord(e);
+      if (!chord) return;
+
+      const conflicts = keybindingService.getConflictsFor(recordingId, chord);
+      if (conflicts.length > 0) {
+        setPending({ commandId: recordingId, chord, conflicts });
+      } else {
+        keybindingService.setBinding(recordingId, [chord]);
+      }
+      setRecordingId(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      resume();
+    };
+  }, [recordingId]);
+
+  // Read the bindings through the settings so the list follows changes
+  const bindingsOf = (commandId: KeybindingCommandId) => {
+    return settings.keybindings[commandId] ?? getKeybindingCommand(commandId)?.defaultKeys ?? [];
+  };
+  const conflicts = keybindingService.getConflicts();
+  const commands = keybindingService.getCommands();
+
+  return (
+    <div className="space-y-8">
+      {conflicts.length > 0 && (
+        <div className="bg-yellow-500/10 border border-yellow-400/30 rounded-xl p-4 space-y-1">
+          <div className="text-yellow-300 font-medium">⚠️ Conflicting shortcuts</div>
+          {conflicts.map(conflict => (
+            <div key={conflict.chord} className="text-sm text-gray-300">
+              <span className="font-mono text-white">{formatChord(conflict.chord)}</span> is used by {conflict.commands.map(command => command.title).join(', ')}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {KEYBINDING_CATEGORIES.map(category => (
+        <div key={category}>
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            ⌨️ {category}
+          </h3>
+          <div className="bg-zinc-800/50 rounded-xl divide-y divide-zinc-700/50">
+            {commands.filter(command => command.category === category).map(command => {
+              const isRecording = recordingId === command.id;
+              const isPending = pending?.commandId === command.id;
+              const chords = bindingsOf(command.id);
+              return (
+                <div key={command.id} className="p-3">
+                  <div className="flex items-center gap-4">
+                    <div className="flex-1 text-white text-sm">{command.title}</div>
+                    <div className="flex items-center gap-1">
+                      {isRecording ? (
+                        <span className="px-2 py-1 rounded-md text-xs text-blue-300 border border-blue-400/50 bg-blue-500/20">
+                          Press keys… (Esc to cancel)
+                        </span>
+                      ) : chords.length > 0 ? chords.map(chord => (
+                        <span key={chord} className="px-2 py-1 rounded-md text-xs font-mono text-white bg-zinc-700/70">
+                          {formatChord(chord)}
+                        </span>
+                      )) : (
+                        <span className="text-xs text-gray-500">Unassigned</span>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => {
+                        setPending(null);
+                        setRecordingId(isRecording ? null : command.id);
+                      }}
+                      className="px-3 py-1 rounded-md text-xs text-gray-300 hover:text-white hover:bg-zinc-700/50 transition-all"
+                    >
+                      {isRecording ? 'Cancel' : 'Change'}
+                    </button>
+                    <button
+                      onClick={() => keybindingService.resetBinding(command.id)}
+                      disabled={!(command.id in settings.keybindings)}
+                      className="px-3 py-1 rounded-md text-xs text-gray-300 hover:text-white hover:bg-zinc-700/50 transition-all disabled:opacity-30 disabled:pointer-events-none"
+                    >
+                      Reset
+                    </button>
+                  </div>
+                  {isPending && pending && (
+                    <div className="mt-2 flex items-center gap-3 text-xs">
+                      <span className="flex-1 text-yellow-300">
+                        {formatChord(pending.chord)} is already used by {pending.conflicts.map(other => other.title).join(', ')}
+                      </span>
+                      <button
+                        onClick={() => {
+                          keybindingService.reassign(pending.commandId, pending.chord);
+                          setPending(null);
+                        }}
+                        className="px-3 py-1 rounded-md bg-blue-500/80 text-white hover:bg-blue-500 transition-all"
+                      >
+                        Reassign
+                      </button>
+                      <button
+                        onClick={() => setPending(null)}
+                        className="px-3 py-1 rounded-md text-gray-300 hover:text-white hover:bg-zinc-700/50 transition-all"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => {
+          setPending(null);
+          keybindingService.resetAll();
+        }}
+        disabled={Object.keys(settings.keybindings).length === 0}
+        className="px-4 py-2 rounded-lg bg-zinc-800/50 text-gray-300 hover:text-white hover:bg-zinc-700/50 transition-all disabled:opacity-40 disabled:pointer-events-none"
+      >
+        🔄 Reset All Shortcuts
+      </button>
+    </div>
+  );
+};
+
+const subscribeToPlugins = (listener: () => void) => pluginService.onChange(listener);
+const getPlugins = () => pluginService.getPlugins();
+const getPluginErrors = () => pluginService.getErrors();
+
+// Plugins Component
+const PluginsSettings = ({ settings }: { settings: AppSettings; updateSettings: (updates: Partial<AppSettings>) => void }) => {
+  const plugins = useSyncExternalStore(subscribeToPlugins, getPlugins);
+  const errors = useSyncExternalStore(subscribeToPlugins, getPluginErrors);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const refresh = async () => {
+    setIsRefreshing(true);
+    await pluginService.refresh();
+    setIsRefreshing(false);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center gap-4">
+        <p className="flex-1 text-sm text-gray-400">
+          A plugin is a folder in <span className="font-mono text-gray-200">{APPLICATIONS_PATH}</span> with a manifest.json and an HTML page.
+          It runs in a sandbox and can only use the permissions you allow.
+        </p>
+        <button
+          onClick={refresh}
+          disabled={isRefreshing}
+          className="px-4 py-2 rounded-lg bg-zinc-800/50 text-gray-300 hover:text-white hover:bg-zinc-700/50 transition-all disabled:opacity-40"
+        >
+          {isRefreshing ? 'Reloading…' : '🔄 Reload'}
+        </button>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold text-white mb-4">🧩 Installed Plugins</h3>
+        {plugins.length === 0 ? (
+          <div className="bg-zinc-800/50 rounded-xl p-4 text-sm text-gray-400">No plugins installed</div>
+        ) : (
+          <div className="bg-zinc-800/50 rounded-xl divide-y divide-zinc-700/50">
+            {plugins.map(plugin => {
+              const { manifest } = plugin;
+              const grant = settings.pluginGrants[manifest.id];
+              return (
+                <div key={plugin.path} className="p-4 flex items-start gap-4">
+                  <div className="text-3xl">{manifest.icon}</div>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="text-white font-medium">
+                      {manifest.name} <span className="text-xs text-gray-500">{manifest.version}</span>
+                    </div>
+                    {manifest.description && <div className="text-sm text-gray-400">{manifest.description}</div>}
+                    <div className="text-xs text-gray-500 font-mono truncate">{plugin.path}</div>
+                    <div className="text-xs text-gray-300">
+                      {!grant
+                        ? 'Not allowed yet, asks when opened'
+                        : pluginService.needsApproval(plugin)
+                          ? 'Asks for new permissions when opened'
+                          : manifest.permissions.length > 0
+                            ? manifest.permissions.map(permission => PLUGIN_PERMISSIONS[permission]).join(' • ')
+                            : 'No permissions'}
+                    </div>
+                    {grant && grant.folders.length > 0 && (
+                      <div className="text-xs text-gray-400">Folders: <span className="font-mono">{grant.folders.join(', ')}</span></div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => launchApp(plugin.appId)}
+                    className="px-3 py-1 rounded-md text-xs text-gray-300 hover:text-white hover:bg-zinc-700/50 transition-all"
+                  >
+                    Open
+                  </button>
+                  <button
+                    onClick={() => pluginService.revoke(manifest.id)}
+                    disabled={!grant}
+                    className="px-3 py-1 rounded-md text-xs text-gray-300 hover:text-white hover:bg-zinc-700/50 transition-all disabled:opacity-30 disabled:pointer-events-none"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="bg-yellow-500/10 border border-yellow-400/30 rounded-xl p-4 space-y-1">
+          <div className="text-yellow-300 font-medium">⚠️ Plugins that could not be loaded</div>
+          {errors.map(error => (
+            <div key={error.path} className="text-sm text-gray-300">
+              <span className="font-mono text-white">{error.path}</span>: {error.message}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -628,6 +1003,16 @@ const AboutSettings = () => {
   );
 };
 
+const PAGE_COMPONENTS: Record<string, SettingsCategory['component']> = {
+  appearance: AppearanceSettings,
+  system: SystemSettings,
+  files: FilesSettings,
+  terminal: TerminalSettings,
+  keyboard: KeyboardSettings,
+  plugins: PluginsSettings,
+  about: AboutSettings,
+};
+
 const Settings = ({ windowId }: SettingsProps = {}) => {
   const { updateWindowState, windows } = useWindowStore();
   const { isLight } = useTheme();
@@ -638,7 +1023,17 @@ const Settings = ({ windowId }: SettingsProps = {}) => {
   const currentWindow = windows.find(w => w.id === windowId);
   const settingsState = currentWindow?.savedState?.customData?.settings as any;
   
-  const [activeCategory, setActiveCategory] = useState(settingsState?.activeCategory || 'appearance');
+  const savedCategory: string | undefined = settingsState?.activeCategory;
+  const [activeCategory, setActiveCategory] = useState(savedCategory || 'appearance');
+
+  // Follow pages opened from outside, e.g. by the command palette
+  const [lastSavedCategory, setLastSavedCategory] = useState(savedCategory);
+  if (savedCategory !== lastSavedCategory) {
+    setLastSavedCategory(savedCategory);
+    if (savedCategory && savedCategory !== activeCategory) {
+      setActiveCategory(savedCategory);
+    }
+  }
 
   // Save state to window store whenever important state changes
   useEffect(() => {
@@ -653,12 +1048,12 @@ const Settings = ({ windowId }: SettingsProps = {}) => {
     }
   }, [windowId, activeCategory, updateWindowState]);
 
-  const categories: SettingsCategory[] = [
-    { id: 'appearance', name: 'Appearance', icon: '🎨', component: AppearanceSettings },
-    { id: 'system', name: 'System', icon: '⚙️', component: SystemSettings },
-    { id: 'files', name: 'Files', icon: '📁', component: FilesSettings },
-    { id: 'about', name: 'About', icon: 'ℹ️', component: AboutSettings }
-  ];
+  const categories: SettingsCategory[] = SETTINGS_PAGES.map(page => ({
+    id: page.id,
+    name: page.name,
+    icon: page.icon,
+    component: PAGE_COMPONENTS[page.id] ?? AboutSettings,
+  }));
 
   const ActiveComponent = categories.find(cat => cat.id === activeCategory)?.component || AppearanceSettings;
 
@@ -1,16 +1,148 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Terminal as XTerminal } from '@xterm/xterm';
 import '@xterm/xterm/css/xterm.css';
 import { vfsSyncService } from '../services/vfsSyncService';
+import { processManager } from '../services/processManager';
+import { shellHistoryService } from '../services/shellHistoryService';
 import { useTheme } from '../hooks/useTheme';
+import { useKeybindings, useKeybindingLabels } from '../hooks/useKeybindings';
+import type { KeybindingCommandId } from '../registry/keybindingRegistry';
+import { useWindowStore } from '../store/windowStore';
+import { parseCommandLine } from '../utils/shellParser';
+import type { CommandList, ForCommand, IfCommand, Pipeline, ShellCommand, SimpleCommand, WhileCommand } from '../utils/shellParser';
+import { expandWord } from '../utils/shellExpansion';
+import type { ExpansionContext } from '../utils/shellExpansion';
+import { commandRegistry } from '../registry/commandRegistry';
+import type { CommandIO, JobInfo, OutputStream, ShellSession } from '../registry/commandRegistry';
+import { registerBuiltinCommands } from '../commands';
+import { BufferedOutput, stringInput } from '../commands/streams';
+import {
+  escapeWord,
+  findCompletionTarget,
+  formatColumns,
+  longestCommonPrefix,
+  nextWordEnd,
+  previousBlankWordStart,
+  previousWordStart,
+} from '../utils/lineEditing';
+import type { CompletionTarget } from '../utils/lineEditing';
+import {
+  createLayout,
+  createPane,
+  createTab,
+  findPane,
+  findPaneInDirection,
+  getPaneRects,
+  getPanes,
+  isTerminalLayout,
+  removePane,
+  splitPane,
+  updatePane,
+} from '../utils/terminalLayout';
+import type { PaneRect, SplitDirection, TerminalLayout, TerminalLayoutNode, TerminalPaneNode } from '../utils/terminalLayout';
+
+registerBuiltinCommands();
+
+class TerminalOutput implements OutputStream {
+  readonly isTTY = true;
+  private terminal: XTerminal;
+
+  constructor(terminal: XTerminal) {
+    this.terminal = terminal;
+  }
+
+  write(text: string) {
+    this.terminal.write(text);
+  }
+
+  writeln(text: string = '') {
+    this.terminal.writeln(text);
+  }
+}
+
+// Thrown to unwind the interpreter for `exit`, `break`, `continue` and Ctrl+C
+class ShellControl {
+  readonly kind: 'exit' | 'break' | 'continue' | 'interrupt';
+  readonly value: number;
+
+  constructor(kind: 'exit' | 'break' | 'continue' | 'interrupt', value: number) {
+    this.kind = kind;
+    this.value = value;
+  }
+}
+
+// A command line run by the shell. Like in bash, jobs get a number once
+// they are put in the background or stopped.
+interface ShellJob {
+  id: number;
+  pid: number;
+  command: string;
+  signal: AbortSignal;
+  foreground: boolean;
+  finished: boolean;
+  exitCode: number;
+}
 
-class EnhancedTerminalShell {
+interface ShellOptions {
+  cwd?: string;
+  onDirectoryChange?: (cwd: string) => void;
+  // Called by `exit` at the prompt. Returning false restarts the session.
+  onExit?: () => boolean;
+}
+
+// A tab completion candidate
+interface Completion {
+  // Replacement for the whole word, before escaping
+  value: string;
+  // Shown when several candidates are listed
+  label: string;
+  // Added after a unique match: `/` for folders, a space otherwise
+  suffix: string;
+}
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+const SHELL_PID = 42;
+
+// Text shown for a background job in `jobs` and `ps`
+const describeList = (commandList: CommandList): string => {
+  const describeCommand = (command: ShellCommand) => {
+    if (command.type === 'simple') return command.args.join(' ');
+    if (command.type === 'while') return command.until ? 'until ...' : 'while ...';
+    return `${command.type} ...`;
+  };
+
+  return commandList
+    .map(({ operator, pipeline }, index) => {
+      const text = pipeline.commands.map(describeCommand).join(' | ');
+      return index === 0 ? text : `${operator} ${text}`;
+    })
+    .join(' ');
+};
+
+class EnhancedTerminalShell implements ShellSession {
   private terminal: XTerminal;
+  private terminalOutput: OutputStream;
+  private options: ShellOptions;
   private currentDirectory = '/';
-  private commandHistory: string[] = [];
   private historyIndex = -1;
+  // Ctrl+R state: the query and the index of the entry it matched
+  private reverseSearch: { query: string; index: number; failed: boolean } | null = null;
+  private searchLength = 0;
   private currentLine = '';
   private cursorPosition = 0;
+  // Visible width of the prompt, for placing the cursor in wrapped input
+  private promptLength = 0;
+  // Text removed by Ctrl+U/K/W, pasted back by Ctrl+Y
+  private cutBuffer = '';
+  private skipPrompt = false;
+  private lastExitCode = 0;
+  private positionalArgs: string[] = [];
+  private scriptName = 'weave';
+  private scriptDepth = 0;
+  private loopDepth = 0;
+  private jobs: ShellJob[] = [];
+  private finishedJobs: ShellJob[] = [];
+  private foregroundJob: ShellJob | null = null;
   private environment: Record<string, string> = {
     'USER': 'user',
     'HOME': '/home/user',
@@ -19,21 +151,28 @@ class EnhancedTerminalShell {
     'PWD': '/',
   };
 
-  constructor(terminal: XTerminal) {
+  constructor(terminal: XTerminal, options: ShellOptions = {}) {
     this.terminal = terminal;
+    this.terminalOutput = new TerminalOutput(terminal);
+    this.options = options;
+    this.currentDirectory = options.cwd ?? '/';
+    this.environment['PWD'] = this.currentDirectory;
     this.showWelcome();
     this.showPrompt();
+    shellHistoryService.load().catch(error => {
+      console.warn('Failed to load the shell history:', error);
+    });
   }
 
   private showWelcome() {
     this.terminal.writeln('\x1b[32m$\x1b[0m weave-os ready');
     this.terminal.writeln('');
-    this.showPrompt();
   }
 
   private showPrompt() {
     const shortPath = this.currentDirectory === '/' ? '~' : this.currentDirectory.replace('/home/user', '~');
     this.terminal.write(`\x1b[36muser@weave\x1b[0m:\x1b[34m${shortPath}\x1b[0m$ `);
+    this.promptLength = `user@weave:${shortPath}$ `.length;
   }
 
   private async executeCommand(commandLine: string) {
@@ -44,1199 +183,1423 @@ class EnhancedTerminalShell {
       return;
     }
 
-    // Add to history
-    if (this.commandHistory[this.commandHistory.length - 1] !== trimmed) {
-      this.commandHistory.push(trimmed);
-    }
     this.historyIndex = -1;
-
-    // Parse command with proper argument handling
-    const args = this.parseCommand(trimmed);
-    const [command, ...params] = args;
-    
     this.terminal.writeln('');
-    
-    try {
-      switch (command.toLowerCase()) {
-        case 'help':
-          this.showHelp();
-          break;
 
-        // Directory operations
-        case 'ls':
-        case 'dir':
-          await this.listDirectory(params);
-          break;
-
-        case 'cd':
-          await this.changeDirectory(params);
-          break;
-
-        case 'pwd':
-          this.printWorkingDirectory();
-          break;
-
-        case 'mkdir':
-          await this.makeDirectory(params);
-          break;
-
-        case 'rmdir':
-          await this.removeDirectory(params);
-          break;
-
-        // File operations
-        case 'touch':
-          await this.createFile(params);
-          break;
-
-        case 'cat':
-          await this.displayFile(params);
-          break;
+    let line: string;
+    try {
+      line = shellHistoryService.expand(trimmed);
+    } catch (error) {
+      this.terminal.writeln(`\x1b[31mweave: ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+      this.showPrompt();
+      return;
+    }
 
-        case 'echo':
-          await this.echoText(params, commandLine);
-          break;
+    // Like bash, show what `!!` and friends expanded to
+    if (line !== trimmed) {
+      this.terminal.writeln(line);
+    }
+    shellHistoryService.add(line);
 
-        case 'cp':
-          await this.copyFile(params);
-          break;
+    try {
+      const commandList = parseCommandLine(line);
+      const job = this.startJob(line, signal => this.runCommandList(commandList, null, this.terminalOutput, signal));
+      this.lastExitCode = await this.waitForJob(job);
+    } catch (error) {
+      this.terminal.writeln(`\x1b[31mweave: ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+    }
 
-        case 'mv':
-          await this.moveFile(params);
-          break;
+    this.reportFinishedJobs();
+    if (this.skipPrompt) {
+      this.skipPrompt = false;
+      return;
+    }
+    this.showPrompt();
+  }
 
-        case 'rm':
-          await this.removeFile(params);
-          break;
+  /**
+   * Run pipelines joined by `&&`, `||` and `;`, returning the last exit status
+   */
+  private async runCommandList(commandList: CommandList, stdin: string | null, stdout: OutputStream, signal: AbortSignal): Promise<number> {
+    let status = 0;
+
+    for (let index = 0; index < commandList.length; index++) {
+      const { operator, pipeline, background } = commandList[index];
+
+      if (background) {
+        // The whole `&&`/`||` chain before the `&` becomes one job
+        let end = index + 1;
+        while (end < commandList.length && commandList[end].operator !== ';') end++;
+        this.startBackgroundJob(commandList.slice(index, end).map(entry => ({ ...entry, background: false })), stdout);
+        index = end - 1;
+        status = 0;
+        continue;
+      }
 
-        case 'find':
-          await this.findFiles(params);
-          break;
+      if (operator === '&&' && status !== 0) continue;
+      if (operator === '||' && status === 0) continue;
+      await this.checkpoint(signal);
+      status = await this.runPipeline(pipeline, stdin, stdout, signal);
+      this.lastExitCode = status;
+    }
 
-        case 'grep':
-          await this.grepText(params);
-          break;
+    return status;
+  }
 
-        case 'head':
-          await this.headFile(params);
-          break;
+  /**
+   * Pause while the job is stopped and unwind once it has been interrupted
+   */
+  private async checkpoint(signal: AbortSignal) {
+    await processManager.waitWhileStopped(signal);
+    if (signal.aborted) {
+      throw new ShellControl('interrupt', 130);
+    }
+  }
 
-        case 'tail':
-          await this.tailFile(params);
-          break;
+  /**
+   * Register `task` as a job with the process manager and start it
+   */
+  private startJob(command: string, task: (signal: AbortSignal) => Promise<number>): ShellJob {
+    const { pid, signal } = processManager.spawn(command);
+    const job: ShellJob = { id: 0, pid, command, signal, foreground: false, finished: false, exitCode: 0 };
+    this.jobs.push(job);
+
+    task(signal)
+      .catch(error => {
+        if (error instanceof ShellControl) return error.value;
+        this.terminalOutput.writeln(`\x1b[31mweave: ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+        return 1;
+      })
+      .then(status => {
+        job.finished = true;
+        job.exitCode = status;
+        // In place, forks share the list
+        const index = this.jobs.indexOf(job);
+        if (index !== -1) {
+          this.jobs.splice(index, 1);
+        }
+        if (job.id > 0 && !job.foreground) {
+          this.finishedJobs.push(job);
+        }
+        processManager.exit(pid);
+      });
 
-        case 'wc':
-          await this.wordCount(params);
-          break;
+    return job;
+  }
 
-        case 'du':
-          await this.diskUsage(params);
-          break;
+  private startBackgroundJob(commandList: CommandList, stdout: OutputStream) {
+    const shell = this.fork();
+    const job = this.startJob(describeList(commandList), signal => shell.runCommandList(commandList, null, stdout, signal));
+    this.assignJobId(job);
+    if (this.scriptDepth === 0) {
+      this.terminalOutput.writeln(`[${job.id}] ${job.pid}`);
+    }
+  }
 
-        case 'tree':
-          await this.showTree(params);
-          break;
+  private assignJobId(job: ShellJob) {
+    if (job.id === 0) {
+      job.id = Math.max(0, ...this.jobs.map(j => j.id)) + 1;
+    }
+  }
 
-        // System information
-        case 'whoami':
-          this.terminal.writeln('\x1b[37muser\x1b[0m');
-          break;
+  /**
+   * Wait for a job in the foreground until it finishes, is stopped or is
+   * interrupted, returning its exit status. Ctrl+C and Ctrl+Z act on it.
+   */
+  private async waitForJob(job: ShellJob): Promise<number> {
+    const previous = this.foregroundJob;
+    this.foregroundJob = job;
+    job.foreground = true;
+
+    await new Promise<void>(resolve => {
+      const check = () => {
+        if (job.finished || job.signal.aborted || processManager.get(job.pid)?.status === 'stopped') {
+          unsubscribe();
+          resolve();
+        }
+      };
+      const unsubscribe = processManager.onChange(check);
+      check();
+    });
 
-        case 'date':
-          this.terminal.writeln(`\x1b[37m${new Date().toString()}\x1b[0m`);
-          break;
+    job.foreground = false;
+    this.foregroundJob = previous;
 
-        case 'uname':
-          this.showSystemInfo(params);
-          break;
+    if (job.finished) {
+      return job.exitCode;
+    }
+    if (job.signal.aborted) {
+      // The job unwinds at its next checkpoint
+      return 130;
+    }
 
-        case 'env':
-          this.showEnvironment();
-          break;
+    this.assignJobId(job);
+    this.terminalOutput.writeln(`[${job.id}]+  ${'Stopped'.padEnd(22)}${job.command}`);
+    return 148;
+  }
 
-        case 'export':
-          this.setEnvironmentVariable(params);
-          break;
+  private reportFinishedJobs() {
+    this.finishedJobs.forEach(job => {
+      let status = job.exitCode === 0 ? 'Done' : `Exit ${job.exitCode}`;
+      if (job.signal.aborted) {
+        status = 'Terminated';
+      }
+      this.terminal.writeln(`[${job.id}]   ${status.padEnd(22)}${job.command}`);
+    });
+    this.finishedJobs = [];
+  }
 
-        // File editing
-        case 'nano':
-        case 'vim':
-        case 'edit':
-          this.editFile(params);
-          break;
+  /**
+   * Run each command of a pipeline in turn, feeding its output to the next one
+   */
+  private async runPipeline(pipeline: Pipeline, stdin: string | null, stdout: OutputStream, signal: AbortSignal): Promise<number> {
+    let input = stdin;
+    let status = 0;
 
-        // Process management
-        case 'ps':
-          this.showProcesses();
-          break;
+    for (let index = 0; index < pipeline.commands.length; index++) {
+      const isLast = index === pipeline.commands.length - 1;
+      const pipe = isLast ? null : new BufferedOutput();
 
-        case 'kill':
-          this.terminal.writeln('\x1b[33mProcess management not implemented in this demo\x1b[0m');
-          break;
+      status = await this.runCommand(pipeline.commands[index], input, pipe ?? stdout, signal);
+      input = pipe ? pipe.toString() : null;
+    }
 
-        // Network simulation
-        case 'ping':
-          this.pingHost(params);
-          break;
+    return status;
+  }
 
-        case 'wget':
-        case 'curl':
-          this.downloadFile(params);
-          break;
+  /**
+   * Apply a command's redirections, then run it
+   */
+  private async runCommand(command: ShellCommand, stdin: string | null, stdout: OutputStream, signal: AbortSignal): Promise<number> {
+    const stderr = this.terminalOutput;
+    let input = stdin;
+    let output = stdout;
+    let outputFile: { path: string; append: boolean; buffer: BufferedOutput } | null = null;
+
+    for (const redirect of command.redirects) {
+      const [target = ''] = await expandWord(redirect.target, this.expansionContext(signal), { split: false });
+      const targetPath = this.resolvePath(target);
+
+      if (redirect.type === '<') {
+        try {
+          input = await vfsSyncService.getFileContent(targetPath);
+        } catch {
+          stderr.writeln(`\x1b[31mweave: ${targetPath}: No such file or directory\x1b[0m`);
+          return 1;
+        }
+      } else {
+        const buffer = new BufferedOutput();
+        outputFile = { path: targetPath, append: redirect.type === '>>', buffer };
+        output = buffer;
+      }
+    }
 
-        // Text processing
-        case 'sort':
-          await this.sortText(params);
+    let status: number;
+    try {
+      switch (command.type) {
+        case 'simple':
+          status = await this.runSimpleCommand(command, input, output, signal);
           break;
-
-        case 'uniq':
-          await this.uniqueLines(params);
+        case 'if':
+          status = await this.runIf(command, input, output, signal);
           break;
-
-        // Archive operations
-        case 'tar':
-          this.tarOperation(params);
+        case 'for':
+          status = await this.runFor(command, input, output, signal);
           break;
-
-        case 'zip':
-          this.zipOperation(params);
+        case 'while':
+          status = await this.runWhile(command, input, output, signal);
           break;
+      }
+    } catch (error) {
+      if (outputFile) {
+        await this.flushRedirect(outputFile, stderr);
+      }
+      throw error;
+    }
 
-        // File permissions (simulated)
-        case 'chmod':
-          this.changePermissions(params);
-          break;
+    if (outputFile && !(await this.flushRedirect(outputFile, stderr))) {
+      return 1;
+    }
+    return status;
+  }
 
-        case 'chown':
-          this.changeOwner(params);
-          break;
+  private async flushRedirect(outputFile: { path: string; append: boolean; buffer: BufferedOutput }, stderr: OutputStream): Promise<boolean> {
+    try {
+      await this.writeToFile(outputFile.path, outputFile.buffer.toString(), outputFile.append);
+      return true;
+    } catch (error) {
+      stderr.writeln(`\x1b[31mweave: cannot write to '${outputFile.path}': ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+      return false;
+    }
+  }
 
-        // Utility commands
-        case 'clear':
-          this.terminal.clear();
-          this.showWelcome();
-          return;
+  private async runSimpleCommand(command: SimpleCommand, stdin: string | null, stdout: OutputStream, signal: AbortSignal): Promise<number> {
+    const context = this.expansionContext(signal);
+    const stderr = this.terminalOutput;
+
+    // Leading NAME=value words are variable assignments
+    const assignments: [string, string][] = [];
+    let index = 0;
+    while (index < command.args.length && ASSIGNMENT.test(command.args[index])) {
+      const word = command.args[index];
+      const separator = word.indexOf('=');
+      const [value = ''] = await expandWord(word.slice(separator + 1), context, { split: false });
+      assignments.push([word.slice(0, separator), value]);
+      index++;
+    }
 
-        case 'history':
-          this.showHistory();
-          break;
+    const args: string[] = [];
+    for (const word of command.args.slice(index)) {
+      args.push(...await expandWord(word, context));
+    }
 
-        case 'which':
-          this.whichCommand(params);
-          break;
+    if (args.length === 0) {
+      assignments.forEach(([name, value]) => { this.environment[name] = value; });
+      return 0;
+    }
 
-        case 'man':
-          this.showManual(params);
-          break;
+    // Assignments before a command only apply while it runs
+    const previous = assignments.map(([name]) => [name, this.environment[name]] as const);
+    assignments.forEach(([name, value]) => { this.environment[name] = value; });
 
-        case 'exit':
-          this.terminal.writeln('\x1b[33mGoodbye!\x1b[0m');
-          setTimeout(() => {
-            this.terminal.clear();
-            this.showWelcome();
-          }, 1000);
-          return;
-
-        default:
-          this.terminal.writeln(`\x1b[31m${command}: command not found\x1b[0m`);
-          this.terminal.writeln('\x1b[90mType "help" for available commands\x1b[0m');
-      }
+    const [name, ...params] = args;
+    try {
+      return await this.runRegisteredCommand(name, params, { stdin: stringInput(stdin), stdout, stderr, signal });
     } catch (error) {
-      this.terminal.writeln(`\x1b[31mError: ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+      if (error instanceof ShellControl) throw error;
+      if (signal.aborted) throw new ShellControl('interrupt', 130);
+      stderr.writeln(`\x1b[31mError: ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+      return 1;
+    } finally {
+      previous.forEach(([key, value]) => {
+        if (value === undefined) {
+          delete this.environment[key];
+        } else {
+          this.environment[key] = value;
+        }
+      });
     }
-    
-    this.showPrompt();
   }
 
-  private parseCommand(input: string): string[] {
-    const args: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    let quoteChar = '';
-
-    for (let i = 0; i < input.length; i++) {
-      const char = input[i];
-      
-      if ((char === '"' || char === "'") && !inQuotes) {
-        inQuotes = true;
-        quoteChar = char;
-      } else if (char === quoteChar && inQuotes) {
-        inQuotes = false;
-        quoteChar = '';
-      } else if (char === ' ' && !inQuotes) {
-        if (current) {
-          args.push(current);
-          current = '';
-        }
-      } else {
-        current += char;
+  private async runIf(command: IfCommand, stdin: string | null, stdout: OutputStream, signal: AbortSignal): Promise<number> {
+    for (const clause of command.clauses) {
+      if (await this.runCommandList(clause.condition, stdin, stdout, signal) === 0) {
+        return this.runCommandList(clause.body, stdin, stdout, signal);
       }
     }
-    
-    if (current) {
-      args.push(current);
-    }
-    
-    return args;
+    return command.elseBody ? this.runCommandList(command.elseBody, stdin, stdout, signal) : 0;
   }
 
-  private resolvePath(path: string): string {
-    if (path.startsWith('/')) {
-      return path;
-    }
-    
-    if (path === '~') {
-      return '/home/user';
-    }
-    
-    if (path.startsWith('~/')) {
-      return '/home/user' + path.slice(1);
-    }
-    
-    if (path === '.') {
-      return this.currentDirectory;
-    }
-    
-    if (path === '..') {
-      const parts = this.currentDirectory.split('/').filter(p => p);
-      if (parts.length > 0) {
-        parts.pop();
-        return '/' + parts.join('/');
+  private async runFor(command: ForCommand, stdin: string | null, stdout: OutputStream, signal: AbortSignal): Promise<number> {
+    let items: string[];
+    if (command.items === null) {
+      items = [...this.positionalArgs];
+    } else {
+      items = [];
+      for (const word of command.items) {
+        items.push(...await expandWord(word, this.expansionContext(signal)));
       }
-      return '/';
-    }
-    
-    if (path.startsWith('../')) {
-      const parent = this.resolvePath('..');
-      return this.resolvePath(parent + '/' + path.slice(3));
-    }
-    
-    if (path.startsWith('./')) {
-      path = path.slice(2);
     }
-    
-    return this.currentDirectory === '/' ? '/' + path : this.currentDirectory + '/' + path;
-  }
 
-  private showHelp() {
-    this.terminal.writeln('\x1b[33mWeave OS Terminal - Available Commands:\x1b[0m');
-    this.terminal.writeln('');
-    this.terminal.writeln('\x1b[36mFile Operations:\x1b[0m');
-    this.terminal.writeln('  \x1b[32mls\x1b[0m, \x1b[32mdir\x1b[0m         - List directory contents');
-    this.terminal.writeln('  \x1b[32mcd\x1b[0m <path>          - Change directory');
-    this.terminal.writeln('  \x1b[32mpwd\x1b[0m                 - Print working directory');
-    this.terminal.writeln('  \x1b[32mtouch\x1b[0m <file>        - Create empty file');
-    this.terminal.writeln('  \x1b[32mmkdir\x1b[0m <dir>         - Create directory');
-    this.terminal.writeln('  \x1b[32mrm\x1b[0m <file>          - Remove file');
-    this.terminal.writeln('  \x1b[32mrmdir\x1b[0m <dir>        - Remove directory');
-    this.terminal.writeln('  \x1b[32mcp\x1b[0m <src> <dest>    - Copy file');
-    this.terminal.writeln('  \x1b[32mmv\x1b[0m <src> <dest>    - Move/rename file');
-    this.terminal.writeln('  \x1b[32mcat\x1b[0m <file>         - Display file contents');
-    this.terminal.writeln('  \x1b[32mfind\x1b[0m <pattern>     - Find files');
-    this.terminal.writeln('  \x1b[32mgrep\x1b[0m <pattern>     - Search text in files');
-    this.terminal.writeln('  \x1b[32mtree\x1b[0m               - Show directory tree');
-    this.terminal.writeln('');
-    this.terminal.writeln('\x1b[36mText Processing:\x1b[0m');
-    this.terminal.writeln('  \x1b[32mhead\x1b[0m <file>        - Show first lines');
-    this.terminal.writeln('  \x1b[32mtail\x1b[0m <file>        - Show last lines');
-    this.terminal.writeln('  \x1b[32mwc\x1b[0m <file>          - Word count');
-    this.terminal.writeln('  \x1b[32msort\x1b[0m <file>        - Sort lines');
-    this.terminal.writeln('  \x1b[32muniq\x1b[0m <file>        - Show unique lines');
-    this.terminal.writeln('  \x1b[32mecho\x1b[0m <text>        - Display text');
-    this.terminal.writeln('');
-    this.terminal.writeln('\x1b[36mSystem:\x1b[0m');
-    this.terminal.writeln('  \x1b[32mwhoami\x1b[0m             - Current user');
-    this.terminal.writeln('  \x1b[32mdate\x1b[0m               - Current date/time');
-    this.terminal.writeln('  \x1b[32muname\x1b[0m              - System information');
-    this.terminal.writeln('  \x1b[32menv\x1b[0m                - Environment variables');
-    this.terminal.writeln('  \x1b[32mhistory\x1b[0m            - Command history');
-    this.terminal.writeln('  \x1b[32mclear\x1b[0m              - Clear terminal');
-    this.terminal.writeln('  \x1b[32mexit\x1b[0m               - Exit terminal');
+    let status = 0;
+    for (let iteration = 0; iteration < items.length; iteration++) {
+      this.environment[command.variable] = items[iteration];
+      const control = await this.runLoopBody(command.body, stdin, stdout, signal, iteration);
+      status = control.status;
+      if (control.stop) break;
+    }
+    return status;
   }
 
-  private async listDirectory(params: string[]) {
-    const flags = params.filter(p => p.startsWith('-'));
-    const paths = params.filter(p => !p.startsWith('-'));
-    const targetPath = paths.length > 0 ? this.resolvePath(paths[0]) : this.currentDirectory;
-    
-    const longFormat = flags.includes('-l') || flags.includes('-la') || flags.includes('-al');
-    
-    try {
-      const items = await vfsSyncService.listDir(targetPath);
-      
-      if (items.length === 0) {
-        this.terminal.writeln('\x1b[90m(empty directory)\x1b[0m');
-        return;
-      }
+  private async runWhile(command: WhileCommand, stdin: string | null, stdout: OutputStream, signal: AbortSignal): Promise<number> {
+    let status = 0;
+    for (let iteration = 0; ; iteration++) {
+      const conditionStatus = await this.runCommandList(command.condition, stdin, stdout, signal);
+      if ((conditionStatus === 0) === command.until) break;
 
-      if (longFormat) {
-        this.terminal.writeln('\x1b[36mtotal ' + items.length + '\x1b[0m');
-        
-        items.forEach((item: any) => {
-          const permissions = item.type === 'folder' ? 'drwxr-xr-x' : '-rw-r--r--';
-          const size = item.type === 'file' ? String(item.size || 0).padStart(8) : '     dir';
-          const date = new Date().toLocaleDateString('en-US', { 
-            month: 'short', 
-            day: '2-digit',
-            hour: '2-digit',
-            minute: '2-digit' 
-          });
-          
-          const color = item.type === 'folder' ? '\x1b[34m' : '\x1b[37m';
-          const name = item.type === 'folder' ? item.name + '/' : item.name;
-          
-          this.terminal.writeln(`${permissions} 1 user user ${size} ${date} ${color}${name}\x1b[0m`);
-        });
-      } else {
-        const columns = Math.floor(80 / 20); // Approximate column width
-        let currentColumn = 0;
-        
-        items.forEach((item: any, index: number) => {
-          const color = item.type === 'folder' ? '\x1b[34m' : '\x1b[37m';
-          const name = (item.type === 'folder' ? item.name + '/' : item.name).padEnd(18);
-          
-          this.terminal.write(`${color}${name}\x1b[0m  `);
-          currentColumn++;
-          
-          if (currentColumn >= columns || index === items.length - 1) {
-            this.terminal.writeln('');
-            currentColumn = 0;
-          }
-        });
-      }
-    } catch (error) {
-      this.terminal.writeln(`\x1b[31mls: cannot access '${targetPath}': No such file or directory\x1b[0m`);
+      const control = await this.runLoopBody(command.body, stdin, stdout, signal, iteration);
+      status = control.status;
+      if (control.stop) break;
     }
+    return status;
   }
 
-  private async changeDirectory(params: string[]) {
-    if (params.length === 0) {
-      this.currentDirectory = '/home/user';
-      this.environment['PWD'] = this.currentDirectory;
-      return;
+  /**
+   * Run one loop iteration, handling `break` and `continue`. Periodically
+   * yields to the browser so endless loops don't freeze the page.
+   */
+  private async runLoopBody(body: CommandList, stdin: string | null, stdout: OutputStream, signal: AbortSignal, iteration: number): Promise<{ status: number; stop: boolean }> {
+    if (iteration > 0 && iteration % 100 === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
     }
-    
-    const targetPath = this.resolvePath(params[0]);
-    
+
+    await this.checkpoint(signal);
+    this.loopDepth++;
     try {
-      await vfsSyncService.listDir(targetPath);
-      this.currentDirectory = targetPath;
-      this.environment['PWD'] = this.currentDirectory;
+      return { status: await this.runCommandList(body, stdin, stdout, signal), stop: false };
     } catch (error) {
-      this.terminal.writeln(`\x1b[31mcd: no such file or directory: ${targetPath}\x1b[0m`);
+      if (!(error instanceof ShellControl) || (error.kind !== 'break' && error.kind !== 'continue')) throw error;
+      // `break 2` / `continue 2` unwind the enclosing loop as well
+      if (error.value > 1) throw new ShellControl(error.kind, error.value - 1);
+      return { status: 0, stop: error.kind === 'break' };
+    } finally {
+      this.loopDepth--;
     }
   }
 
-  private printWorkingDirectory() {
-    this.terminal.writeln(`\x1b[37m${this.currentDirectory}\x1b[0m`);
+  private expansionContext(signal: AbortSignal): ExpansionContext {
+    return {
+      home: this.environment['HOME'] || '/home/user',
+      currentDirectory: this.currentDirectory,
+      getVariable: (name) => this.getVariable(name),
+      getPositionalArgs: () => [...this.positionalArgs],
+      runCommandSubstitution: (command) => this.runSubshell(async () => {
+        const output = new BufferedOutput();
+        await this.runCommandList(parseCommandLine(command), null, output, signal);
+        return output.toString();
+      }),
+      listDir: (path) => vfsSyncService.listDir(path),
+    };
   }
 
-  private async makeDirectory(params: string[]) {
-    if (params.length === 0) {
-      this.terminal.writeln('\x1b[31mmkdir: missing operand\x1b[0m');
-      return;
+  getVariable(name: string): string | undefined {
+    switch (name) {
+      case '?':
+        return String(this.lastExitCode);
+      case '#':
+        return String(this.positionalArgs.length);
+      case '@':
+      case '*':
+        return this.positionalArgs.join(' ');
+      case '$':
+        return String(SHELL_PID);
+      case '0':
+        return this.scriptName;
     }
-    
-    const dirs = params.filter(p => !p.startsWith('-'));
-    
-    for (const dir of dirs) {
-      const targetPath = this.resolvePath(dir);
-      try {
-        await vfsSyncService.createFolder(targetPath, 'terminal');
-        this.terminal.writeln(`\x1b[32mDirectory created: ${targetPath}\x1b[0m`);
-      } catch (error) {
-        this.terminal.writeln(`\x1b[31mmkdir: cannot create directory '${targetPath}': ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
-      }
+    if (/^[1-9]$/.test(name)) {
+      return this.positionalArgs[parseInt(name, 10) - 1];
     }
+    return this.environment[name];
   }
 
-  private async removeDirectory(params: string[]) {
-    if (params.length === 0) {
-      this.terminal.writeln('\x1b[31mrmdir: missing operand\x1b[0m');
-      return;
-    }
-    
-    for (const dir of params) {
-      const targetPath = this.resolvePath(dir);
-      try {
-        await vfsSyncService.deleteNode(targetPath, 'terminal');
-        this.terminal.writeln(`\x1b[32mDirectory removed: ${targetPath}\x1b[0m`);
-      } catch (error) {
-        this.terminal.writeln(`\x1b[31mrmdir: failed to remove '${targetPath}': ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
-      }
-    }
+  /**
+   * A copy of the shell for a background job, like the child shell bash
+   * forks for `&`: the working directory, variables and positional
+   * arguments it changes are its own, while the user goes on typing in
+   * this one. The terminal, jobs and history are shared.
+   */
+  private fork(): EnhancedTerminalShell {
+    const fork: EnhancedTerminalShell = Object.create(this);
+    fork.currentDirectory = this.currentDirectory;
+    fork.environment = { ...this.environment };
+    fork.positionalArgs = [...this.positionalArgs];
+    fork.scriptName = this.scriptName;
+    // Its `cd` is not the window's, and `exit` ends the job only
+    fork.options = { ...this.options, onDirectoryChange: undefined };
+    fork.scriptDepth = this.scriptDepth + 1;
+    return fork;
   }
 
-  private async createFile(params: string[]) {
-    if (params.length === 0) {
-      this.terminal.writeln('\x1b[31mtouch: missing file operand\x1b[0m');
-      return;
-    }
-    
-    for (const file of params) {
-      const targetPath = this.resolvePath(file);
-      try {
-        // Check if file already exists
-        const exists = await vfsSyncService.exists(targetPath);
-        if (exists) {
-          // File exists, just update modified time (simulated)
-          this.terminal.writeln(`\x1b[33mFile already exists: ${targetPath}\x1b[0m`);
-        } else {
-          // File doesn't exist, create it
-          await vfsSyncService.createFile(targetPath, '', 'terminal');
-          this.terminal.writeln(`\x1b[32mFile created: ${targetPath}\x1b[0m`);
-        }
-      } catch (error) {
-        this.terminal.writeln(`\x1b[31mtouch: cannot create '${targetPath}': ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
-      }
+  /**
+   * Run `task` with the working directory, variables and positional
+   * arguments restored afterwards, like a child shell
+   */
+  private async runSubshell<T>(task: () => Promise<T>): Promise<T> {
+    const directory = this.currentDirectory;
+    const environment = { ...this.environment };
+    const positionalArgs = this.positionalArgs;
+    const scriptName = this.scriptName;
+
+    try {
+      return await task();
+    } finally {
+      this.changeDirectory(directory);
+      this.environment = environment;
+      this.positionalArgs = positionalArgs;
+      this.scriptName = scriptName;
     }
   }
 
-  private async displayFile(params: string[]) {
+  /**
+   * Run a script stored in the VFS. `sh` runs it in a subshell, `source`
+   * runs it in the current shell so its variables and `cd` persist.
+   */
+  async runScript(command: string, params: string[], io: CommandIO, subshell: boolean): Promise<number> {
     if (params.length === 0) {
-      this.terminal.writeln('\x1b[31mcat: missing file operand\x1b[0m');
-      return;
+      io.stderr.writeln(`\x1b[31m${command}: filename argument required\x1b[0m`);
+      io.stderr.writeln(`Usage: ${command} <script> [args...]`);
+      return 2;
+    }
+
+    const [script, ...args] = params;
+    const scriptPath = this.resolvePath(script);
+
+    let commandList: CommandList;
+    try {
+      const source = await vfsSyncService.getFileContent(scriptPath);
+      commandList = parseCommandLine(source);
+    } catch (error) {
+      const message = error instanceof Error && error.message.startsWith('syntax error')
+        ? error.message
+        : 'No such file or directory';
+      io.stderr.writeln(`\x1b[31m${command}: ${script}: ${message}\x1b[0m`);
+      return message === 'No such file or directory' ? 127 : 2;
     }
-    
-    for (const file of params) {
-      const targetPath = this.resolvePath(file);
+
+    const stdin = io.stdin.isTTY ? null : await io.stdin.read();
+    const run = async () => {
+      const positionalArgs = this.positionalArgs;
+      const scriptName = this.scriptName;
+      // `source` without arguments keeps the caller's positional arguments
+      if (subshell || args.length > 0) {
+        this.positionalArgs = args;
+      }
+      this.scriptName = script;
+      this.scriptDepth++;
+
       try {
-        const content = await vfsSyncService.getFileContent(targetPath);
-        this.terminal.writeln(`\x1b[37m${content}\x1b[0m`);
+        return await this.runCommandList(commandList, stdin, io.stdout, io.signal);
       } catch (error) {
-        this.terminal.writeln(`\x1b[31mcat: ${targetPath}: No such file or directory\x1b[0m`);
+        if (error instanceof ShellControl && error.kind === 'exit') {
+          return error.value;
+        }
+        throw error;
+      } finally {
+        this.scriptDepth--;
+        this.positionalArgs = positionalArgs;
+        this.scriptName = scriptName;
       }
-    }
+    };
+
+    return subshell ? this.runSubshell(run) : run();
   }
 
-  private async echoText(_params: string[], fullCommand: string) {
-    // Extract the text after 'echo'
-    const echoIndex = fullCommand.toLowerCase().indexOf('echo');
-    const text = fullCommand.slice(echoIndex + 4).trim();
-    
-    // Check for output redirection
-    if (text.includes('>')) {
-      const parts = text.split('>');
-      const content = parts[0].trim();
-      const filePath = this.resolvePath(parts[1].trim());
-      
+  private async writeToFile(path: string, content: string, append: boolean) {
+    if (append) {
       try {
-        if (text.includes('>>')) {
-          // Append mode
-          try {
-            const existing = await vfsSyncService.getFileContent(filePath);
-            await vfsSyncService.updateFile(filePath, existing + content + '\n', 'terminal');
-          } catch {
-            await vfsSyncService.createFile(filePath, content + '\n', 'terminal');
-          }
-        } else {
-          // Overwrite mode
-          await vfsSyncService.createFile(filePath, content + '\n', 'terminal');
-        }
-        this.terminal.writeln(`\x1b[32mOutput written to: ${filePath}\x1b[0m`);
-      } catch (error) {
-        this.terminal.writeln(`\x1b[31mecho: cannot write to '${filePath}': ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+        const existing = await vfsSyncService.getFileContent(path);
+        content = existing + content;
+      } catch {
+        // File doesn't exist yet, it will be created
       }
-    } else {
-      // Regular echo
-      this.terminal.writeln(`\x1b[37m${text}\x1b[0m`);
     }
+
+    // updateFile falls back to creating the file when it is missing
+    await vfsSyncService.updateFile(path, content, 'terminal');
   }
 
-  private async copyFile(params: string[]) {
-    if (params.length < 2) {
-      this.terminal.writeln('\x1b[31mcp: missing file operand\x1b[0m');
-      this.terminal.writeln('Usage: cp <source> <destination>');
-      return;
+  /**
+   * Run a command from the registry. Paths such as ./setup.sh run as scripts.
+   */
+  private async runRegisteredCommand(name: string, args: string[], io: CommandIO): Promise<number> {
+    const command = commandRegistry.get(name);
+    if (command) {
+      return command.handler({ name, args, ...io, shell: this });
     }
-    
-    const sourcePath = this.resolvePath(params[0]);
-    const destPath = this.resolvePath(params[1]);
-    
-    try {
-      const content = await vfsSyncService.getFileContent(sourcePath);
-      await vfsSyncService.createFile(destPath, content, 'terminal');
-      this.terminal.writeln(`\x1b[32mCopied: ${sourcePath} -> ${destPath}\x1b[0m`);
-    } catch (error) {
-      this.terminal.writeln(`\x1b[31mcp: cannot copy '${sourcePath}': ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+
+    if (name.includes('/')) {
+      return this.runScript('weave', [name, ...args], io, true);
     }
+    io.stderr.writeln(`\x1b[31m${name}: command not found\x1b[0m`);
+    io.stderr.writeln('\x1b[90mType "help" for available commands\x1b[0m');
+    return 127;
   }
 
-  private async moveFile(params: string[]) {
-    if (params.length < 2) {
-      this.terminal.writeln('\x1b[31mmv: missing file operand\x1b[0m');
-      this.terminal.writeln('Usage: mv <source> <destination>');
-      return;
+  get cwd(): string {
+    return this.currentDirectory;
+  }
+
+  changeDirectory(path: string) {
+    if (path !== this.currentDirectory) {
+      this.options.onDirectoryChange?.(path);
     }
-    
-    const sourcePath = this.resolvePath(params[0]);
-    const destPath = this.resolvePath(params[1]);
-    
-    try {
-      // Copy the file first
-      const content = await vfsSyncService.getFileContent(sourcePath);
-      await vfsSyncService.createFile(destPath, content, 'terminal');
-      
-      // Then delete the original
-      await vfsSyncService.deleteNode(sourcePath, 'terminal');
-      
-      this.terminal.writeln(`\x1b[32mMoved: ${sourcePath} -> ${destPath}\x1b[0m`);
-    } catch (error) {
-      this.terminal.writeln(`\x1b[31mmv: cannot move '${sourcePath}': ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+    this.currentDirectory = path;
+    this.environment['PWD'] = path;
+  }
+
+  setVariable(name: string, value: string) {
+    this.environment[name] = value;
+  }
+
+  unsetVariable(name: string) {
+    delete this.environment[name];
+  }
+
+  getEnvironment(): Record<string, string> {
+    return { ...this.environment };
+  }
+
+  shiftArguments(count: number): boolean {
+    if (count > this.positionalArgs.length) {
+      return false;
     }
+    this.positionalArgs = this.positionalArgs.slice(count);
+    return true;
   }
 
-  private async removeFile(params: string[]) {
-    if (params.length === 0) {
-      this.terminal.writeln('\x1b[31mrm: missing operand\x1b[0m');
-      return;
+  clear() {
+    this.terminal.clear();
+    this.showWelcome();
+  }
+
+  exit(code?: number): number {
+    if (this.scriptDepth > 0) {
+      throw new ShellControl('exit', code ?? this.lastExitCode);
     }
-    
-    const force = params.includes('-f');
-    const files = params.filter(p => !p.startsWith('-'));
-    
-    for (const file of files) {
-      const targetPath = this.resolvePath(file);
-      try {
-        await vfsSyncService.deleteNode(targetPath, 'terminal');
-        this.terminal.writeln(`\x1b[32mRemoved: ${targetPath}\x1b[0m`);
-      } catch (error) {
-        if (!force) {
-          this.terminal.writeln(`\x1b[31mrm: cannot remove '${targetPath}': ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
-        }
-      }
+
+    this.skipPrompt = true;
+    if (this.options.onExit?.()) {
+      return code ?? 0;
     }
+    setTimeout(() => {
+      this.terminal.clear();
+      this.showWelcome();
+      this.showPrompt();
+    }, 1000);
+    return code ?? 0;
   }
 
-  private async findFiles(params: string[]) {
-    if (params.length === 0) {
-      this.terminal.writeln('\x1b[31mfind: missing search pattern\x1b[0m');
-      return;
+  loopControl(kind: 'break' | 'continue', levels: number): boolean {
+    if (this.loopDepth === 0) {
+      return false;
     }
-    
-    const pattern = params[0];
-    const searchPath = params.length > 1 ? this.resolvePath(params[1]) : this.currentDirectory;
-    
-    this.terminal.writeln(`\x1b[33mSearching for "${pattern}" in ${searchPath}...\x1b[0m`);
-    
-    // Simple pattern matching (could be enhanced)
-    const findInDirectory = async (path: string, level: number = 0): Promise<void> => {
-      try {
-        const items = await vfsSyncService.listDir(path);
-        for (const item of items) {
-          const fullPath = path === '/' ? `/${item.name}` : `${path}/${item.name}`;
-          
-          if (item.name.includes(pattern)) {
-            this.terminal.writeln(`\x1b[37m${fullPath}\x1b[0m`);
-          }
-          
-          if (item.type === 'folder' && level < 10) { // Prevent infinite recursion
-            await findInDirectory(fullPath, level + 1);
-          }
-        }
-      } catch (error) {
-        // Skip inaccessible directories
-      }
-    };
-    
-    await findInDirectory(searchPath);
+    throw new ShellControl(kind, levels);
   }
 
-  private async grepText(params: string[]) {
-    if (params.length < 2) {
-      this.terminal.writeln('\x1b[31mgrep: missing pattern or file\x1b[0m');
-      this.terminal.writeln('Usage: grep <pattern> <file>');
-      return;
-    }
-    
-    const pattern = params[0];
-    const filePath = this.resolvePath(params[1]);
-    
-    try {
-      const content = await vfsSyncService.getFileContent(filePath);
-      const lines = content.split('\n');
-      let matchCount = 0;
-      
-      lines.forEach((line: any, index: any) => {
-        if (line.includes(pattern)) {
-          this.terminal.writeln(`\x1b[33m${index + 1}:\x1b[0m \x1b[37m${line}\x1b[0m`);
-          matchCount++;
-        }
-      });
-      
-      if (matchCount === 0) {
-        this.terminal.writeln('\x1b[90mNo matches found\x1b[0m');
-      }
-    } catch (error) {
-      this.terminal.writeln(`\x1b[31mgrep: ${filePath}: No such file or directory\x1b[0m`);
-    }
+  getJobs(): JobInfo[] {
+    return this.jobs
+      .filter(job => job.id > 0 && !job.foreground)
+      .map(job => ({
+        id: job.id,
+        pid: job.pid,
+        command: job.command,
+        status: processManager.get(job.pid)?.status ?? 'running',
+      }));
   }
 
-  private async headFile(params: string[]) {
-    const lines = 10; // Default head lines
-    const filePath = params.length > 0 ? this.resolvePath(params[0]) : '';
-    
-    if (!filePath) {
-      this.terminal.writeln('\x1b[31mhead: missing file operand\x1b[0m');
-      return;
-    }
-    
-    try {
-      const content = await vfsSyncService.getFileContent(filePath);
-      const fileLines = content.split('\n');
-      const displayLines = fileLines.slice(0, lines);
-      
-      displayLines.forEach((line: any) => {
-        this.terminal.writeln(`\x1b[37m${line}\x1b[0m`);
-      });
-    } catch (error) {
-      this.terminal.writeln(`\x1b[31mhead: ${filePath}: No such file or directory\x1b[0m`);
+  findJob(spec?: string): JobInfo | undefined {
+    const jobs = this.getJobs();
+    if (spec === undefined || spec === '%%' || spec === '%+') {
+      return jobs[jobs.length - 1];
     }
+    const id = parseInt(spec.replace(/^%/, ''), 10);
+    return jobs.find(job => job.id === id);
   }
 
-  private async tailFile(params: string[]) {
-    const lines = 10; // Default tail lines
-    const filePath = params.length > 0 ? this.resolvePath(params[0]) : '';
-    
-    if (!filePath) {
-      this.terminal.writeln('\x1b[31mtail: missing file operand\x1b[0m');
-      return;
-    }
-    
-    try {
-      const content = await vfsSyncService.getFileContent(filePath);
-      const fileLines = content.split('\n');
-      const displayLines = fileLines.slice(-lines);
-      
-      displayLines.forEach((line: any) => {
-        this.terminal.writeln(`\x1b[37m${line}\x1b[0m`);
-      });
-    } catch (error) {
-      this.terminal.writeln(`\x1b[31mtail: ${filePath}: No such file or directory\x1b[0m`);
+  async continueJob(id: number, foreground: boolean): Promise<number> {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job) {
+      return 1;
     }
+
+    processManager.kill(job.pid, 'CONT');
+    return foreground ? this.waitForJob(job) : 0;
   }
 
-  private async wordCount(params: string[]) {
-    if (params.length === 0) {
-      this.terminal.writeln('\x1b[31mwc: missing file operand\x1b[0m');
+  /**
+   * Ctrl+C: interrupt the foreground job, or discard the current line
+   */
+  private interrupt() {
+    this.terminal.write('^C');
+    if (this.foregroundJob && !this.foregroundJob.finished) {
+      this.terminal.writeln('');
+      processManager.kill(this.foregroundJob.pid, 'INT');
       return;
     }
-    
-    const filePath = this.resolvePath(params[0]);
-    
-    try {
-      const content = await vfsSyncService.getFileContent(filePath);
-      const lines = content.split('\n').length;
-      const words = content.split(/\s+/).filter((w: any) => w.length > 0).length;
-      const chars = content.length;
-      
-      this.terminal.writeln(`\x1b[37m  ${lines}  ${words}  ${chars} ${filePath}\x1b[0m`);
-    } catch (error) {
-      this.terminal.writeln(`\x1b[31mwc: ${filePath}: No such file or directory\x1b[0m`);
-    }
-  }
 
-  private async diskUsage(params: string[]) {
-    const path = params.length > 0 ? this.resolvePath(params[0]) : this.currentDirectory;
-    
-    try {
-      const items = await vfsSyncService.listDir(path);
-      let totalSize = 0;
-      
-      items.forEach((item: any) => {
-        if (item.type === 'file') {
-          totalSize += item.size || 0;
-        }
-      });
-      
-      this.terminal.writeln(`\x1b[37m${totalSize} bytes used in ${path}\x1b[0m`);
-    } catch (error) {
-      this.terminal.writeln(`\x1b[31mdu: cannot access '${path}': No such file or directory\x1b[0m`);
-    }
+    this.terminal.writeln('');
+    this.currentLine = '';
+    this.cursorPosition = 0;
+    this.historyIndex = -1;
+    this.reverseSearch = null;
+    this.showPrompt();
   }
 
-  private async showTree(params: string[]) {
-    const startPath = params.length > 0 ? this.resolvePath(params[0]) : this.currentDirectory;
-    
-    const showTreeRecursive = async (path: string, prefix: string = '', isLast: boolean = true): Promise<void> => {
-      try {
-        const items = await vfsSyncService.listDir(path);
-        
-        for (let index = 0; index < items.length; index++) {
-          const item = items[index];
-          const isLastItem = index === items.length - 1;
-          const currentPrefix = prefix + (isLast ? '└── ' : '├── ');
-          const nextPrefix = prefix + (isLast ? '    ' : '│   ');
-          
-          const color = item.type === 'folder' ? '\x1b[34m' : '\x1b[37m';
-          const name = item.type === 'folder' ? item.name + '/' : item.name;
-          
-          this.terminal.writeln(`${currentPrefix}${color}${name}\x1b[0m`);
-          
-          if (item.type === 'folder') {
-            const fullPath = path === '/' ? `/${item.name}` : `${path}/${item.name}`;
-            await showTreeRecursive(fullPath, nextPrefix, isLastItem);
-          }
-        }
-      } catch (error) {
-        // Skip inaccessible directories
-      }
-    };
-    
-    this.terminal.writeln(`\x1b[36m${startPath}\x1b[0m`);
-    await showTreeRecursive(startPath);
+  /**
+   * Kill every job of this shell, e.g. when its window closes
+   */
+  dispose() {
+    this.jobs.forEach(job => processManager.kill(job.pid, 'KILL'));
   }
 
-  private showSystemInfo(params: string[]) {
-    if (params.includes('-a')) {
-      this.terminal.writeln('\x1b[37mWeave OS 1.0.0 weave x86_64 Browser/JavaScript\x1b[0m');
-    } else {
-      this.terminal.writeln('\x1b[37mWeave OS\x1b[0m');
+  resolvePath(path: string): string {
+    if (path.startsWith('/')) {
+      return path;
     }
-  }
 
-  private showEnvironment() {
-    Object.entries(this.environment).forEach(([key, value]) => {
-      this.terminal.writeln(`\x1b[33m${key}\x1b[0m=\x1b[37m${value}\x1b[0m`);
-    });
-  }
-
-  private setEnvironmentVariable(params: string[]) {
-    if (params.length === 0) {
-      this.showEnvironment();
-      return;
+    if (path === '~') {
+      return '/home/user';
     }
-    
-    params.forEach(param => {
-      const [key, ...valueParts] = param.split('=');
-      if (valueParts.length > 0) {
-        this.environment[key] = valueParts.join('=');
-        this.terminal.writeln(`\x1b[32mSet ${key}=${valueParts.join('=')}\x1b[0m`);
-      }
-    });
-  }
 
-  private editFile(params: string[]) {
-    if (params.length === 0) {
-      this.terminal.writeln('\x1b[31mEditor: missing file operand\x1b[0m');
-      return;
+    if (path.startsWith('~/')) {
+      return '/home/user' + path.slice(1);
     }
-    
-    const filePath = this.resolvePath(params[0]);
-    this.terminal.writeln(`\x1b[33mOpening ${filePath} in text editor...\x1b[0m`);
-    this.terminal.writeln('\x1b[90m(This would open the file in the Weave OS text editor)\x1b[0m');
-  }
 
-  private showProcesses() {
-    this.terminal.writeln('\x1b[36m  PID  USER     CMD\x1b[0m');
-    this.terminal.writeln('\x1b[37m    1  user     /weave/os/init\x1b[0m');
-    this.terminal.writeln('\x1b[37m   42  user     /weave/os/terminal\x1b[0m');
-    this.terminal.writeln('\x1b[37m  123  user     /weave/os/filemanager\x1b[0m');
-  }
-
-  private pingHost(params: string[]) {
-    if (params.length === 0) {
-      this.terminal.writeln('\x1b[31mping: missing hostname\x1b[0m');
-      return;
+    if (path === '.') {
+      return this.currentDirectory;
     }
-    
-    const host = params[0];
-    this.terminal.writeln(`\x1b[33mPING ${host} (simulated)\x1b[0m`);
-    this.terminal.writeln(`\x1b[37m64 bytes from ${host}: icmp_seq=1 ttl=64 time=0.123 ms\x1b[0m`);
-    this.terminal.writeln(`\x1b[37m64 bytes from ${host}: icmp_seq=2 ttl=64 time=0.089 ms\x1b[0m`);
-    this.terminal.writeln('\x1b[32mPing simulation complete\x1b[0m');
-  }
 
-  private downloadFile(params: string[]) {
-    if (params.length === 0) {
-      this.terminal.writeln('\x1b[31mwget: missing URL\x1b[0m');
-      return;
+    if (path === '..') {
+      const parts = this.currentDirectory.split('/').filter(p => p);
+      if (parts.length > 0) {
+        parts.pop();
+        return '/' + parts.join('/');
+      }
+      return '/';
     }
-    
-    const url = params[0];
-    this.terminal.writeln(`\x1b[33mDownloading ${url}...\x1b[0m`);
-    this.terminal.writeln('\x1b[90m(Simulated download - not actually downloading)\x1b[0m');
-    this.terminal.writeln('\x1b[32mDownload complete\x1b[0m');
-  }
 
-  private async sortText(params: string[]) {
-    if (params.length === 0) {
-      this.terminal.writeln('\x1b[31msort: missing file operand\x1b[0m');
-      return;
-    }
-    
-    const filePath = this.resolvePath(params[0]);
-    
-    try {
-      const content = await vfsSyncService.getFileContent(filePath);
-      const lines = content.split('\n').sort();
-      
-      lines.forEach((line: any) => {
-        this.terminal.writeln(`\x1b[37m${line}\x1b[0m`);
-      });
-    } catch (error) {
-      this.terminal.writeln(`\x1b[31msort: ${filePath}: No such file or directory\x1b[0m`);
+    if (path.startsWith('../')) {
+      const parent = this.resolvePath('..');
+      return this.resolvePath(parent + '/' + path.slice(3));
     }
-  }
 
-  private async uniqueLines(params: string[]) {
-    if (params.length === 0) {
-      this.terminal.writeln('\x1b[31muniq: missing file operand\x1b[0m');
-      return;
-    }
-    
-    const filePath = this.resolvePath(params[0]);
-    
-    try {
-      const content = await vfsSyncService.getFileContent(filePath);
-      const lines = content.split('\n');
-      const uniqueLines = [...new Set(lines)];
-      
-      uniqueLines.forEach((line: any) => {
-        this.terminal.writeln(`\x1b[37m${line}\x1b[0m`);
-      });
-    } catch (error) {
-      this.terminal.writeln(`\x1b[31muniq: ${filePath}: No such file or directory\x1b[0m`);
+    if (path.startsWith('./')) {
+      path = path.slice(2);
     }
-  }
 
-  private tarOperation(_params: string[]) {
-    this.terminal.writeln('\x1b[33mtar: Archive operations not implemented in this demo\x1b[0m');
-    this.terminal.writeln('\x1b[90mWould support: tar -czf archive.tar.gz files/\x1b[0m');
+    return this.currentDirectory === '/' ? '/' + path : this.currentDirectory + '/' + path;
   }
 
-  private zipOperation(_params: string[]) {
-    this.terminal.writeln('\x1b[33mzip: Compression operations not implemented in this demo\x1b[0m');
-    this.terminal.writeln('\x1b[90mWould support: zip archive.zip files/\x1b[0m');
-  }
+  handleKey(key: string, domEvent: KeyboardEvent) {
+    const printable = !domEvent.altKey && !domEvent.ctrlKey && !domEvent.metaKey;
 
-  private changePermissions(params: string[]) {
-    if (params.length < 2) {
-      this.terminal.writeln('\x1b[31mchmod: missing operand\x1b[0m');
+    if (domEvent.ctrlKey && domEvent.key === 'c') {
+      this.interrupt();
       return;
     }
-    
-    const mode = params[0];
-    const filePath = this.resolvePath(params[1]);
-    this.terminal.writeln(`\x1b[32mPermissions changed: ${mode} ${filePath}\x1b[0m`);
-    this.terminal.writeln('\x1b[90m(Simulated - file permissions not fully implemented)\x1b[0m');
-  }
-
-  private changeOwner(params: string[]) {
-    if (params.length < 2) {
-      this.terminal.writeln('\x1b[31mchown: missing operand\x1b[0m');
+    if (domEvent.ctrlKey && domEvent.key === 'z') {
+      if (this.foregroundJob && !this.foregroundJob.finished) {
+        this.terminal.writeln('^Z');
+        processManager.kill(this.foregroundJob.pid, 'STOP');
+      }
       return;
     }
-    
-    const owner = params[0];
-    const filePath = this.resolvePath(params[1]);
-    this.terminal.writeln(`\x1b[32mOwnership changed: ${owner} ${filePath}\x1b[0m`);
-    this.terminal.writeln('\x1b[90m(Simulated - file ownership not fully implemented)\x1b[0m');
-  }
-
-  private showHistory() {
-    this.commandHistory.forEach((cmd, index) => {
-      this.terminal.writeln(`\x1b[33m${(index + 1).toString().padStart(4)}\x1b[0m  \x1b[37m${cmd}\x1b[0m`);
-    });
-  }
-
-  private whichCommand(params: string[]) {
-    if (params.length === 0) {
-      this.terminal.writeln('\x1b[31mwhich: missing command\x1b[0m');
+    // Input is ignored while a command runs in the foreground
+    if (this.foregroundJob) {
       return;
     }
-    
-    const command = params[0];
-    const builtinCommands = [
-      'ls', 'cd', 'pwd', 'mkdir', 'rmdir', 'touch', 'cat', 'echo', 'cp', 'mv', 'rm',
-      'find', 'grep', 'head', 'tail', 'wc', 'du', 'tree', 'sort', 'uniq', 'help'
-    ];
-    
-    if (builtinCommands.includes(command)) {
-      this.terminal.writeln(`\x1b[37m/bin/${command}\x1b[0m`);
-    } else {
-      this.terminal.writeln(`\x1b[31mwhich: no ${command} in (/bin:/usr/bin)\x1b[0m`);
-    }
-  }
 
-  private showManual(params: string[]) {
-    if (params.length === 0) {
-      this.terminal.writeln('\x1b[31mman: missing command\x1b[0m');
+    if (this.reverseSearch) {
+      this.handleSearchKey(key, domEvent);
       return;
     }
-    
-    const command = params[0];
-    this.terminal.writeln(`\x1b[33mNAME\x1b[0m`);
-    this.terminal.writeln(`     ${command} - Weave OS command`);
-    this.terminal.writeln('');
-    this.terminal.writeln('\x1b[33mDESCRIPTION\x1b[0m');
-    this.terminal.writeln(`     Manual page for ${command} command in Weave OS.`);
-    this.terminal.writeln('     Type "help" for a list of all available commands.');
-  }
 
-  handleKey(key: string, domEvent: KeyboardEvent) {
-    const printable = !domEvent.altKey && !domEvent.ctrlKey && !domEvent.metaKey;
-
-    if (domEvent.key === 'Enter') {
+    if (domEvent.ctrlKey && domEvent.key === 'r') {
+      this.moveCursor(this.cursorPosition, 0);
+      this.reverseSearch = { query: '', index: -1, failed: false };
+      this.renderSearch();
+    } else if (domEvent.key === 'Enter') {
+      this.moveCursor(this.cursorPosition, this.currentLine.length);
       this.executeCommand(this.currentLine);
       this.currentLine = '';
       this.cursorPosition = 0;
+    } else if ((domEvent.ctrlKey && domEvent.key === 'a') || domEvent.key === 'Home') {
+      this.setCursor(0);
+    } else if ((domEvent.ctrlKey && domEvent.key === 'e') || domEvent.key === 'End') {
+      this.setCursor(this.currentLine.length);
+    } else if (domEvent.ctrlKey && domEvent.key === 'u') {
+      this.cutText(0, this.cursorPosition);
+    } else if (domEvent.ctrlKey && domEvent.key === 'k') {
+      this.cutText(this.cursorPosition, this.currentLine.length);
+    } else if (domEvent.ctrlKey && domEvent.key === 'w') {
+      this.cutText(previousBlankWordStart(this.currentLine, this.cursorPosition), this.cursorPosition);
+    } else if (domEvent.ctrlKey && domEvent.key === 'y') {
+      this.insertText(this.cutBuffer);
+    } else if ((domEvent.altKey && domEvent.code === 'KeyB') || (domEvent.ctrlKey && domEvent.key === 'ArrowLeft')) {
+      // `code` because macOS turns Option+B into another character
+      this.setCursor(previousWordStart(this.currentLine, this.cursorPosition));
+    } else if ((domEvent.altKey && domEvent.code === 'KeyF') || (domEvent.ctrlKey && domEvent.key === 'ArrowRight')) {
+      this.setCursor(nextWordEnd(this.currentLine, this.cursorPosition));
     } else if (domEvent.key === 'Backspace') {
       if (this.cursorPosition > 0) {
-        this.currentLine = this.currentLine.slice(0, this.cursorPosition - 1) + this.currentLine.slice(this.cursorPosition);
-        this.cursorPosition--;
-        this.terminal.write('\b \b');
+        const line = this.currentLine;
+        this.redrawLine(line.slice(0, this.cursorPosition - 1) + line.slice(this.cursorPosition), this.cursorPosition - 1);
+      }
+    } else if (domEvent.key === 'Delete') {
+      if (this.cursorPosition < this.currentLine.length) {
+        const line = this.currentLine;
+        this.redrawLine(line.slice(0, this.cursorPosition) + line.slice(this.cursorPosition + 1), this.cursorPosition);
       }
     } else if (domEvent.key === 'ArrowUp') {
-      if (this.commandHistory.length > 0) {
+      const history = shellHistoryService.getEntries();
+      if (history.length > 0) {
         if (this.historyIndex === -1) {
-          this.historyIndex = this.commandHistory.length - 1;
+          this.historyIndex = history.length - 1;
         } else if (this.historyIndex > 0) {
           this.historyIndex--;
         }
-        this.replaceCurrentLine(this.commandHistory[this.historyIndex]);
+        this.replaceCurrentLine(history[this.historyIndex]);
       }
     } else if (domEvent.key === 'ArrowDown') {
+      const history = shellHistoryService.getEntries();
       if (this.historyIndex !== -1) {
         this.historyIndex++;
-        if (this.historyIndex >= this.commandHistory.length) {
+        if (this.historyIndex >= history.length) {
           this.historyIndex = -1;
           this.replaceCurrentLine('');
         } else {
-          this.replaceCurrentLine(this.commandHistory[this.historyIndex]);
+          this.replaceCurrentLine(history[this.historyIndex]);
         }
       }
     } else if (domEvent.key === 'ArrowLeft') {
-      if (this.cursorPosition > 0) {
-        this.cursorPosition--;
-        this.terminal.write('\x1b[D');
-      }
+      this.setCursor(Math.max(this.cursorPosition - 1, 0));
     } else if (domEvent.key === 'ArrowRight') {
-      if (this.cursorPosition < this.currentLine.length) {
-        this.cursorPosition++;
-        this.terminal.write('\x1b[C');
-      }
-    } else if (domEvent.key === 'Home') {
-      while (this.cursorPosition > 0) {
-        this.cursorPosition--;
-        this.terminal.write('\x1b[D');
-      }
-    } else if (domEvent.key === 'End') {
-      while (this.cursorPosition < this.currentLine.length) {
-        this.cursorPosition++;
-        this.terminal.write('\x1b[C');
-      }
+      this.setCursor(Math.min(this.cursorPosition + 1, this.currentLine.length));
     } else if (domEvent.key === 'Tab') {
-      // Simple tab completion
       domEvent.preventDefault();
       this.handleTabCompletion();
     } else if (printable && key.length === 1) {
-      this.currentLine = this.currentLine.slice(0, this.cursorPosition) + key + this.currentLine.slice(this.cursorPosition);
-      this.cursorPosition++;
-      this.terminal.write(key);
+      this.insertText(key);
     }
   }
 
+  /**
+   * Line editing. The terminal cursor always sits at `cursorPosition` in the
+   * input, which may wrap over several rows after the prompt.
+   */
+  private setCursor(position: number) {
+    this.moveCursor(this.cursorPosition, position);
+    this.cursorPosition = position;
+  }
+
+  private moveCursor(from: number, to: number) {
+    const columns = this.terminal.cols;
+    const start = this.promptLength + from;
+    const end = this.promptLength + to;
+    const rows = Math.floor(end / columns) - Math.floor(start / columns);
+
+    let sequence = '';
+    if (rows < 0) sequence += `\x1b[${-rows}A`;
+    if (rows > 0) sequence += `\x1b[${rows}B`;
+    sequence += '\r';
+    if (end % columns > 0) sequence += `\x1b[${end % columns}C`;
+    this.terminal.write(sequence);
+  }
+
+  private insertText(text: string) {
+    if (!text) return;
+
+    const line = this.currentLine.slice(0, this.cursorPosition) + text + this.currentLine.slice(this.cursorPosition);
+    if (this.cursorPosition < this.currentLine.length) {
+      this.redrawLine(line, this.cursorPosition + text.length);
+      return;
+    }
+
+    this.terminal.write(text);
+    this.currentLine = line;
+    this.cursorPosition = line.length;
+    this.wrapAtEdge();
+  }
+
+  private cutText(from: number, to: number) {
+    if (from >= to) return;
+
+    this.cutBuffer = this.currentLine.slice(from, to);
+    this.redrawLine(this.currentLine.slice(0, from) + this.currentLine.slice(to), from);
+  }
+
+  /**
+   * Rewrite the input after the prompt and place the cursor
+   */
+  private redrawLine(line: string, cursor: number) {
+    this.moveCursor(this.cursorPosition, 0);
+    this.terminal.write('\x1b[J' + line);
+    this.currentLine = line;
+    this.cursorPosition = line.length;
+    this.wrapAtEdge();
+    this.setCursor(cursor);
+  }
+
+  /**
+   * xterm leaves the cursor on the last column after filling a row. Move it
+   * to the next row so it matches the position moveCursor computes.
+   */
+  private wrapAtEdge() {
+    if (this.currentLine && (this.promptLength + this.currentLine.length) % this.terminal.cols === 0) {
+      this.terminal.write(' \b');
+    }
+  }
+
+  private replaceCurrentLine(newLine: string) {
+    this.redrawLine(newLine, newLine.length);
+  }
+
+  /**
+   * Tab completion. A single match is inserted, several are narrowed to
+   * their common prefix and listed when that adds nothing.
+   */
   private async handleTabCompletion() {
-    const words = this.currentLine.split(' ');
-    const currentWord = words[words.length - 1];
-    
-    if (words.length === 1) {
-      // Complete command
-      const commands = [
-        'ls', 'cd', 'pwd', 'mkdir', 'rmdir', 'touch', 'cat', 'echo', 'cp', 'mv', 'rm',
-        'find', 'grep', 'head', 'tail', 'wc', 'du', 'tree', 'sort', 'uniq', 'help',
-        'whoami', 'date', 'uname', 'env', 'export', 'history', 'which', 'man', 'clear', 'exit'
-      ];
-      
-      const matches = commands.filter(cmd => cmd.startsWith(currentWord));
-      if (matches.length === 1) {
-        const completion = matches[0].slice(currentWord.length);
-        this.currentLine += completion + ' ';
-        this.cursorPosition = this.currentLine.length;
-        this.terminal.write(completion + ' ');
+    const line = this.currentLine;
+    const cursor = this.cursorPosition;
+    const target = findCompletionTarget(line.slice(0, cursor));
+
+    let completions: Completion[];
+    try {
+      completions = await this.getCompletions(target);
+    } catch {
+      // Ignore completion errors
+      return;
+    }
+
+    // Input may have changed while the VFS was answering
+    if (this.currentLine !== line || this.cursorPosition !== cursor || this.foregroundJob || this.reverseSearch) {
+      return;
+    }
+    if (completions.length === 0) {
+      return;
+    }
+
+    // Variable names never need escaping, and `$` must stay unescaped
+    const quote = (value: string) => target.word.startsWith('$') ? value : escapeWord(value);
+    const replace = (text: string) => {
+      this.redrawLine(line.slice(0, target.start) + text + line.slice(cursor), target.start + text.length);
+    };
+
+    if (completions.length === 1) {
+      replace(quote(completions[0].value) + completions[0].suffix);
+      return;
+    }
+
+    const prefix = longestCommonPrefix(completions.map(completion => completion.value));
+    if (prefix.length > target.word.length) {
+      replace(quote(prefix));
+      return;
+    }
+
+    this.moveCursor(this.cursorPosition, this.currentLine.length);
+    this.terminal.writeln('');
+    const labels = completions.map(completion => completion.label).sort();
+    formatColumns(labels, this.terminal.cols).forEach(row => this.terminal.writeln(row));
+    this.showPrompt();
+    this.terminal.write(line);
+    this.cursorPosition = line.length;
+    this.wrapAtEdge();
+    this.setCursor(cursor);
+  }
+
+  private async getCompletions({ word, command }: CompletionTarget): Promise<Completion[]> {
+    const matching = (values: string[], suffix = ' '): Completion[] => [...new Set(values)]
+      .filter(value => value.startsWith(word))
+      .map(value => ({ value, label: value, suffix }));
+
+    if (word.startsWith('$')) {
+      return Object.keys(this.environment)
+        .filter(name => name.startsWith(word.slice(1)))
+        .map(name => ({ value: '$' + name, label: name, suffix: ' ' }));
+    }
+
+    // Command position: registered commands, or a script path like ./build.sh
+    if (command === null) {
+      return word.includes('/') ? this.completePath(word, false) : matching(commandRegistry.getNames());
+    }
+
+    const spec = commandRegistry.get(command)?.args ?? { kind: 'path' };
+    if (word.startsWith('-') && spec.options?.length) {
+      return matching(spec.options.map(option => option.flag));
+    }
+
+    const completions = matching([...(spec.values ?? []), ...(spec.complete?.(this) ?? [])]);
+    switch (spec.kind) {
+      case 'command':
+        return [...completions, ...matching(commandRegistry.getNames())];
+      case 'variable':
+        return [...completions, ...matching(Object.keys(this.environment))];
+      case 'directory':
+        return [...completions, ...await this.completePath(word, true)];
+      case 'file':
+      case 'path':
+        return [...completions, ...await this.completePath(word, false)];
+      default:
+        return completions;
+    }
+  }
+
+  /**
+   * Complete the last component of a possibly nested path, e.g. `src/ap`
+   */
+  private async completePath(word: string, directoriesOnly: boolean): Promise<Completion[]> {
+    const directory = word.slice(0, word.lastIndexOf('/') + 1);
+    const base = word.slice(directory.length);
+    const path = directory === '' ? this.currentDirectory
+      : directory === '/' ? '/'
+      : this.resolvePath(directory.slice(0, -1));
+
+    const items = await vfsSyncService.listDir(path);
+    return items
+      .filter(item => item.name.startsWith(base))
+      // Hidden files only when asked for
+      .filter(item => base.startsWith('.') || !item.name.startsWith('.'))
+      .filter(item => !directoriesOnly || item.type === 'folder')
+      .map(item => {
+        const suffix = item.type === 'folder' ? '/' : ' ';
+        return { value: directory + item.name, label: item.name + suffix.trim(), suffix };
+      });
+  }
+
+  /**
+   * Ctrl+R incremental search. Typing narrows the query, Ctrl+R finds an
+   * older match, Ctrl+G cancels and any other key accepts the match.
+   */
+  private handleSearchKey(key: string, domEvent: KeyboardEvent) {
+    const search = this.reverseSearch!;
+    const printable = !domEvent.altKey && !domEvent.ctrlKey && !domEvent.metaKey;
+
+    if (domEvent.ctrlKey && domEvent.key === 'r') {
+      if (search.query) {
+        this.findMatch(search, search.index === -1 ? undefined : search.index);
       }
-    } else {
-      // Complete file/directory names
-      try {
-        const items = await vfsSyncService.listDir(this.currentDirectory);
-        const matches = items.filter((item: any) => item.name.startsWith(currentWord));
-        
-        if (matches.length === 1) {
-          const completion = matches[0].name.slice(currentWord.length);
-          const suffix = matches[0].type === 'folder' ? '/' : ' ';
-          this.currentLine += completion + suffix;
-          this.cursorPosition = this.currentLine.length;
-          this.terminal.write(completion + suffix);
-        }
-      } catch (error) {
-        // Ignore completion errors
+    } else if (domEvent.ctrlKey && domEvent.key === 'g') {
+      this.leaveSearch(this.currentLine);
+      return;
+    } else if (domEvent.key === 'Backspace') {
+      search.query = search.query.slice(0, -1);
+      search.index = -1;
+      search.failed = false;
+      if (search.query) {
+        this.findMatch(search);
       }
+    } else if (printable && key.length === 1) {
+      search.query += key;
+      // The current match stays selected while it still contains the query
+      this.findMatch(search, search.index === -1 ? undefined : search.index + 1);
+    } else {
+      const match = search.index === -1 ? this.currentLine : shellHistoryService.getEntries()[search.index];
+      this.historyIndex = -1;
+      this.leaveSearch(match);
+      this.handleKey(key, domEvent);
+      return;
     }
+
+    this.renderSearch();
   }
 
-  private replaceCurrentLine(newLine: string) {
-    // Clear current line more efficiently
-    this.terminal.write('\r\x1b[K'); // Move to beginning and clear line
-    this.showPrompt(); // Rewrite prompt
-    this.terminal.write(newLine); // Write new content
-    
-    this.currentLine = newLine;
-    this.cursorPosition = newLine.length;
+  private findMatch(search: { query: string; index: number; failed: boolean }, before?: number) {
+    const index = shellHistoryService.search(search.query, before);
+    search.failed = index === -1;
+    if (index !== -1) {
+      search.index = index;
+    }
   }
+
+  private renderSearch() {
+    const { query, index, failed } = this.reverseSearch!;
+    const match = index === -1 ? '' : shellHistoryService.getEntries()[index];
+    const label = failed ? 'failed reverse-i-search' : 'reverse-i-search';
+    const text = `(${label})\`${query}': ${match}`;
+
+    this.clearSearch();
+    this.terminal.write(text);
+    this.searchLength = text.length;
+  }
+
+  /**
+   * Go back to the first row of the search line, which may have wrapped,
+   * and clear it
+   */
+  private clearSearch() {
+    const rows = this.searchLength > 0 ? Math.floor((this.searchLength - 1) / this.terminal.cols) : 0;
+    this.terminal.write((rows > 0 ? `\x1b[${rows}A` : '') + '\r\x1b[J');
+    this.searchLength = 0;
+  }
+
+  private leaveSearch(line: string) {
+    this.reverseSearch = null;
+    this.clearSearch();
+    this.showPrompt();
+    this.terminal.write(line);
+    this.currentLine = line;
+    this.cursorPosition = line.length;
+    this.wrapAtEdge();
+  }
+}
+
+
+// Define theme colors based on current theme
+const getTerminalTheme = (isLight: boolean) => ({
+  background: isLight ? '#ffffff' : '#000000',
+  foreground: isLight ? '#000000' : '#ffffff',
+  cursor: isLight ? '#000000' : '#ffffff',
+  cursorAccent: isLight ? '#ffffff' : '#000000',
+  selectionBackground: isLight ? 'rgba(0, 0, 0, 0.3)' : 'rgba(255, 255, 255, 0.3)',
+  black: isLight ? '#000000' : '#000000',
+  red: isLight ? '#dc2626' : '#ff6b6b',
+  green: isLight ? '#16a34a' : '#51cf66',
+  yellow: isLight ? '#ca8a04' : '#ffd93d',
+  blue: isLight ? '#2563eb' : '#74c0fc',
+  magenta: isLight ? '#dc2626' : '#f06292',
+  cyan: isLight ? '#0891b2' : '#4dd0e1',
+  white: isLight ? '#6b7280' : '#ffffff',
+  brightBlack: isLight ? '#374151' : '#6c757d',
+  brightRed: isLight ? '#ef4444' : '#ff8a80',
+  brightGreen: isLight ? '#22c55e' : '#69f0ae',
+  brightYellow: isLight ? '#eab308' : '#ffff8d',
+  brightBlue: isLight ? '#3b82f6' : '#82b1ff',
+  brightMagenta: isLight ? '#ef4444' : '#ff80ab',
+  brightCyan: isLight ? '#06b6d4' : '#84ffff',
+  brightWhite: isLight ? '#000000' : '#ffffff',
+});
+
+type PaneDirection = 'left' | 'right' | 'up' | 'down';
+
+type TerminalAction =
+  | { type: 'newTab' }
+  | { type: 'closePane' }
+  | { type: 'split'; direction: SplitDirection }
+  | { type: 'focusPane'; direction: PaneDirection }
+  | { type: 'cycleTab'; offset: number }
+  | { type: 'selectTab'; index: number };
+
+const SELECT_TAB_COMMANDS = [1, 2, 3, 4, 5, 6, 7, 8, 9].map(digit => `terminal.selectTab${digit}` as KeybindingCommandId);
+
+const directoryName = (cwd: string): string => {
+  if (cwd === '/home/user') return '~';
+  return cwd.split('/').filter(Boolean).pop() ?? '/';
+};
+
+interface TerminalPaneProps {
+  pane: TerminalPaneNode;
+  rect: PaneRect;
+  visible: boolean;
+  active: boolean;
+  // Dim inactive panes when the tab is split
+  dimmed: boolean;
+  isLight: boolean;
+  onFocus: (paneId: string) => void;
+  onDirectoryChange: (paneId: string, cwd: string) => void;
+  onExit: (paneId: string) => boolean;
 }
 
-const Terminal = () => {
+/**
+ * One xterm.js terminal with its own shell session
+ */
+const TerminalPane = (props: TerminalPaneProps) => {
+  const { pane, rect, visible, active, dimmed, isLight, onFocus } = props;
   const terminalRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<XTerminal | null>(null);
-  const shellRef = useRef<EnhancedTerminalShell | null>(null);
-  const resizeObserverRef = useRef<ResizeObserver | null>(null);
-  const { isLight } = useTheme();
+  // Latest props for the xterm and shell callbacks, which are set up once
+  const propsRef = useRef(props);
 
-  // Define theme colors based on current theme
-  const getTerminalTheme = (isLight: boolean) => ({
-    background: isLight ? '#ffffff' : '#000000',
-    foreground: isLight ? '#000000' : '#ffffff',
-    cursor: isLight ? '#000000' : '#ffffff',
-    cursorAccent: isLight ? '#ffffff' : '#000000',
-    selectionBackground: isLight ? 'rgba(0, 0, 0, 0.3)' : 'rgba(255, 255, 255, 0.3)',
-    black: isLight ? '#000000' : '#000000',
-    red: isLight ? '#dc2626' : '#ff6b6b',
-    green: isLight ? '#16a34a' : '#51cf66',
-    yellow: isLight ? '#ca8a04' : '#ffd93d',
-    blue: isLight ? '#2563eb' : '#74c0fc',
-    magenta: isLight ? '#dc2626' : '#f06292',
-    cyan: isLight ? '#0891b2' : '#4dd0e1',
-    white: isLight ? '#6b7280' : '#ffffff',
-    brightBlack: isLight ? '#374151' : '#6c757d',
-    brightRed: isLight ? '#ef4444' : '#ff8a80',
-    brightGreen: isLight ? '#22c55e' : '#69f0ae',
-    brightYellow: isLight ? '#eab308' : '#ffff8d',
-    brightBlue: isLight ? '#3b82f6' : '#82b1ff',
-    brightMagenta: isLight ? '#ef4444' : '#ff80ab',
-    brightCyan: isLight ? '#06b6d4' : '#84ffff',
-    brightWhite: isLight ? '#000000' : '#ffffff',
+  useEffect(() => {
+    propsRef.current = props;
   });
 
   useEffect(() => {
-    if (terminalRef.current && !xtermRef.current) {
-      // Initialize xterm.js terminal with enhanced configuration
-      const terminal = new XTerminal({
-        theme: getTerminalTheme(isLight),
-        fontFamily: '"Fira Code", "JetBrains Mono", "SF Mono", Monaco, "Cascadia Code", "Roboto Mono", Consolas, "Courier New", monospace',
-        fontSize: 14,
-        lineHeight: 1.2,
-        cursorBlink: true,
-        cursorStyle: 'block',
-        scrollback: 10000,
-        tabStopWidth: 4,
-        allowTransparency: false,
-        convertEol: true,
-        scrollOnUserInput: true,
-        fastScrollModifier: 'shift',
-        macOptionIsMeta: true,
-      });
+    const container = terminalRef.current;
+    if (!container) return;
+
+    const { pane: initialPane, isLight: initialLight } = propsRef.current;
+
+    // Initialize xterm.js terminal with enhanced configuration
+    const terminal = new XTerminal({
+      theme: getTerminalTheme(initialLight),
+      fontFamily: '"Fira Code", "JetBrains Mono", "SF Mono", Monaco, "Cascadia Code", "Roboto Mono", Consolas, "Courier New", monospace',
+      fontSize: 14,
+      lineHeight: 1.2,
+      cursorBlink: true,
+      cursorStyle: 'block',
+      scrollback: 10000,
+      tabStopWidth: 4,
+      allowTransparency: false,
+      convertEol: true,
+      scrollOnUserInput: true,
+      fastScrollModifier: 'shift',
+      macOptionIsMeta: true,
+    });
 
-      terminal.open(terminalRef.current);
-      
-      // Initialize enhanced shell with VFS integration
-      const shell = new EnhancedTerminalShell(terminal);
-      
-      // Handle key input
-      terminal.onKey(({ key, domEvent }) => {
-        shell.handleKey(key, domEvent);
-      });
+    terminal.open(container);
 
-      xtermRef.current = terminal;
-      shellRef.current = shell;
-
-      // Set up resize observer to handle window size changes
-      const handleResize = () => {
-        if (terminalRef.current && xtermRef.current) {
-          const container = terminalRef.current;
-          const rect = container.getBoundingClientRect();
-          
-          const availableWidth = rect.width - 16;
-          const availableHeight = rect.height - 16;
-          
-          const charWidth = 9;
-          const charHeight = 17;
-          
-          const cols = Math.floor(availableWidth / charWidth);
-          const rows = Math.floor(availableHeight / charHeight);
-          
-          if (cols > 0 && rows > 0 && (cols !== terminal.cols || rows !== terminal.rows)) {
-            terminal.resize(cols, rows);
-          }
-        }
-      };
+    // Initialize enhanced shell with VFS integration
+    const shell = new EnhancedTerminalShell(terminal, {
+      cwd: initialPane.cwd,
+      onDirectoryChange: cwd => propsRef.current.onDirectoryChange(initialPane.id, cwd),
+      onExit: () => propsRef.current.onExit(initialPane.id),
+    });
 
-      resizeObserverRef.current = new ResizeObserver(() => {
-        setTimeout(handleResize, 50);
-      });
+    // Handle key input
+    terminal.onKey(({ key, domEvent }) => {
+      shell.handleKey(key, domEvent);
+    });
 
-      if (terminalRef.current) {
-        resizeObserverRef.current.observe(terminalRef.current);
-      }
+    xtermRef.current = terminal;
 
-      setTimeout(handleResize, 100);
-      terminal.focus();
-    }
+    // Set up resize observer to handle pane size changes
+    const handleResize = () => {
+      const bounds = container.getBoundingClientRect();
 
-    return () => {
-      if (resizeObserverRef.current) {
-        resizeObserverRef.current.disconnect();
-        resizeObserverRef.current = null;
+      const availableWidth = bounds.width - 16;
+      const availableHeight = bounds.height - 16;
+
+      const charWidth = 9;
+      const charHeight = 17;
+
+      const cols = Math.floor(availableWidth / charWidth);
+      const rows = Math.floor(availableHeight / charHeight);
+
+      // Hidden tabs measure 0 and keep their size
+      if (cols > 0 && rows > 0 && (cols !== terminal.cols || rows !== terminal.rows)) {
+        terminal.resize(cols, rows);
       }
-      
-      if (xtermRef.current) {
-        xtermRef.current.dispose();
-        xtermRef.current = null;
-        shellRef.current = null;
+    };
+
+    const resizeObserver = new ResizeObserver(() => {
+      setTimeout(handleResize, 50);
+    });
+    resizeObserver.observe(container);
+    setTimeout(handleResize, 100);
+
+    const handleWindowFocus = () => {
+      if (propsRef.current.active && propsRef.current.visible) {
+        terminal.focus();
       }
     };
-  }, [isLight]);
+    window.addEventListener('focus', handleWindowFocus);
+
+    return () => {
+      window.removeEventListener('focus', handleWindowFocus);
+      resizeObserver.disconnect();
+      shell.dispose();
+      terminal.dispose();
+      xtermRef.current = null;
+    };
+  }, []);
 
   // Update terminal theme when theme changes
   useEffect(() => {
     if (xtermRef.current) {
       xtermRef.current.options.theme = getTerminalTheme(isLight);
     }
-  }, [isLight, getTerminalTheme]);
+  }, [isLight]);
+
+  useEffect(() => {
+    if (active && visible) {
+      xtermRef.current?.focus();
+    }
+  }, [active, visible]);
+
+  const divider = isLight ? '1px solid #d4d4d8' : '1px solid #3f3f46';
+
+  return (
+    <div
+      ref={terminalRef}
+      onMouseDown={() => onFocus(pane.id)}
+      style={{
+        position: 'absolute',
+        left: `${rect.left}%`,
+        top: `${rect.top}%`,
+        width: `${rect.width}%`,
+        height: `${rect.height}%`,
+        display: visible ? 'block' : 'none',
+        padding: '8px',
+        boxSizing: 'border-box',
+        overflow: 'auto',
+        borderLeft: rect.left > 0 ? divider : undefined,
+        borderTop: rect.top > 0 ? divider : undefined,
+        opacity: dimmed ? 0.7 : 1,
+      }}
+      className="scrollbar-thin"
+    />
+  );
+};
 
+interface TerminalProps {
+  windowId?: string;
+}
+
+const Terminal = ({ windowId }: TerminalProps) => {
+  const { isLight } = useTheme();
+  const label = useKeybindingLabels();
+  const [layout, setLayout] = useState<TerminalLayout>(() => {
+    const saved = useWindowStore.getState().windows.find(w => w.id === windowId)?.savedState?.customData?.terminal;
+    return isTerminalLayout(saved) ? saved : createLayout();
+  });
+  const layoutRef = useRef(layout);
+
+  // Keep the layout in the window so it is restored with it
   useEffect(() => {
-    const handleFocus = () => {
-      if (xtermRef.current) {
-        xtermRef.current.focus();
+    layoutRef.current = layout;
+    if (!windowId) return;
+
+    const { windows, updateWindowState } = useWindowStore.getState();
+    const customData = windows.find(w => w.id === windowId)?.savedState?.customData;
+    updateWindowState(windowId, { customData: { ...customData, terminal: layout } });
+  }, [windowId, layout]);
+
+  const activeTab = layout.tabs.find(tab => tab.id === layout.activeTabId)!;
+
+  const focusPane = (paneId: string) => {
+    setLayout(current => ({
+      ...current,
+      tabs: current.tabs.map(tab => findPane(tab.root, paneId) ? { ...tab, activePaneId: paneId } : tab),
+    }));
+  };
+
+  const updateDirectory = (paneId: string, cwd: string) => {
+    setLayout(current => ({
+      ...current,
+      tabs: current.tabs.map(tab => ({ ...tab, root: updatePane(tab.root, paneId, { cwd }) })),
+    }));
+  };
+
+  /**
+   * Close panes, then their tab when it has none left, then the window when
+   * no tabs are left
+   */
+  const closePanes = (paneIds: string[]) => {
+    const current = layoutRef.current;
+    const tabs = current.tabs.flatMap(tab => {
+      const root = paneIds.reduce<TerminalLayoutNode | null>((node, paneId) => node && removePane(node, paneId), tab.root);
+      if (!root) return [];
+      const activePaneId = findPane(root, tab.activePaneId) ? tab.activePaneId : getPanes(root)[0].id;
+      return [{ ...tab, root, activePaneId }];
+    });
+
+    if (tabs.length === 0) {
+      if (windowId) {
+        useWindowStore.getState().closeWindow(windowId);
       }
-    };
+      return;
+    }
 
-    window.addEventListener('focus', handleFocus);
-    return () => window.removeEventListener('focus', handleFocus);
-  }, []);
+    const closedIndex = current.tabs.findIndex(tab => tab.id === current.activeTabId);
+    const activeTabId = tabs.some(tab => tab.id === current.activeTabId)
+      ? current.activeTabId
+      : tabs[Math.min(closedIndex, tabs.length - 1)].id;
+    setLayout({ tabs, activeTabId });
+  };
+
+  // `exit` closes its pane unless it is the only one, which restarts instead
+  const handleExit = (paneId: string): boolean => {
+    const paneCount = layoutRef.current.tabs.reduce((count, tab) => count + getPanes(tab.root).length, 0);
+    if (paneCount <= 1) return false;
+
+    setTimeout(() => closePanes([paneId]), 0);
+    return true;
+  };
+
+  const handleAction = (action: TerminalAction) => {
+    const current = layoutRef.current;
+    const tab = current.tabs.find(t => t.id === current.activeTabId)!;
+    const cwd = findPane(tab.root, tab.activePaneId)?.cwd;
+
+    switch (action.type) {
+      case 'newTab': {
+        const newTab = createTab(cwd);
+        const index = current.tabs.indexOf(tab) + 1;
+        setLayout({ tabs: [...current.tabs.slice(0, index), newTab, ...current.tabs.slice(index)], activeTabId: newTab.id });
+        break;
+      }
+      case 'closePane':
+        closePanes([tab.activePaneId]);
+        break;
+      case 'split': {
+        const pane = createPane(cwd);
+        const root = splitPane(tab.root, tab.activePaneId, action.direction, pane);
+        setLayout({ ...current, tabs: current.tabs.map(t => t.id === tab.id ? { ...t, root, activePaneId: pane.id } : t) });
+        break;
+      }
+      case 'focusPane': {
+        const paneId = findPaneInDirection(tab.root, tab.activePaneId, action.direction);
+        if (paneId) focusPane(paneId);
+        break;
+      }
+      case 'cycleTab': {
+        const index = (current.tabs.indexOf(tab) + action.offset + current.tabs.length) % current.tabs.length;
+        setLayout({ ...current, activeTabId: current.tabs[index].id });
+        break;
+      }
+      case 'selectTab':
+        if (current.tabs[action.index]) {
+          setLayout({ ...current, activeTabId: current.tabs[action.index].id });
+        }
+        break;
+    }
+  };
+
+  // Window shortcuts are taken before they reach the shell
+  useKeybindings({
+    'terminal.newTab': () => handleAction({ type: 'newTab' }),
+    'terminal.closePane': () => handleAction({ type: 'closePane' }),
+    'terminal.splitRight': () => handleAction({ type: 'split', direction: 'row' }),
+    'terminal.splitDown': () => handleAction({ type: 'split', direction: 'column' }),
+    'terminal.focusLeft': () => handleAction({ type: 'focusPane', direction: 'left' }),
+    'terminal.focusRight': () => handleAction({ type: 'focusPane', direction: 'right' }),
+    'terminal.focusUp': () => handleAction({ type: 'focusPane', direction: 'up' }),
+    'terminal.focusDown': () => handleAction({ type: 'focusPane', direction: 'down' }),
+    'terminal.previousTab': () => handleAction({ type: 'cycleTab', offset: -1 }),
+    'terminal.nextTab': () => handleAction({ type: 'cycleTab', offset: 1 }),
+    ...Object.fromEntries(SELECT_TAB_COMMANDS.map((commandId, index) => [commandId, () => handleAction({ type: 'selectTab', index })])),
+  }, windowId);
 
   return (
-    <div 
+    <div
       style={{
         width: '100%',
         height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
         background: isLight ? '#ffffff' : '#000000',
         overflow: 'hidden',
       }}
-      className="scrollbar-thin"
     >
-      <div 
-        ref={terminalRef}
-        style={{
-          width: '100%',
-          height: '100%',
-          padding: '8px',
-          boxSizing: 'border-box',
-          overflow: 'auto',
-          position: 'relative',
-        }}
-        className="scrollbar-thin"
-      />
+      {layout.tabs.length > 1 && (
+        <div className={`flex items-center gap-1 px-2 py-1 border-b text-xs ${isLight ? 'bg-zinc-100 border-zinc-300' : 'bg-zinc-900 border-zinc-700'}`}>
+          {layout.tabs.map((tab, index) => {
+            const isActive = tab.id === layout.activeTabId;
+            const title = directoryName(findPane(tab.root, tab.activePaneId)?.cwd ?? '/');
+            return (
+              <div
+                key={tab.id}
+                onClick={() => setLayout(current => ({ ...current, activeTabId: tab.id }))}
+                title={index < SELECT_TAB_COMMANDS.length ? label(SELECT_TAB_COMMANDS[index]) : undefined}
+                className={`group flex items-center gap-2 px-3 py-1 rounded-md cursor-pointer ${
+                  isActive
+                    ? (isLight ? 'bg-white text-zinc-900 shadow-sm' : 'bg-zinc-700 text-white')
+                    : (isLight ? 'text-zinc-600 hover:bg-zinc-200' : 'text-zinc-400 hover:bg-zinc-800')
+                }`}
+              >
+                <span className="font-mono">{title}</span>
+                <button
+                  onClick={event => {
+                    event.stopPropagation();
+                    closePanes(getPanes(tab.root).map(pane => pane.id));
+                  }}
+                  className="opacity-0 group-hover:opacity-100 hover:text-red-400"
+                >
+                  ×
+                </button>
+              </div>
+            );
+          })}
+          <button
+            onClick={() => handleAction({ type: 'newTab' })}
+            title={`New tab (${label('terminal.newTab')})`}
+            className={`px-2 py-1 rounded-md ${isLight ? 'text-zinc-600 hover:bg-zinc-200' : 'text-zinc-400 hover:bg-zinc-800'}`}
+          >
+            +
+          </button>
+        </div>
+      )}
+
+      <div style={{ position: 'relative', flex: 1, minHeight: 0 }}>
+        {layout.tabs.flatMap(tab => {
+          const rects = getPaneRects(tab.root);
+          const isSplit = rects.size > 1;
+          return getPanes(tab.root).map(pane => (
+            <TerminalPane
+              key={pane.id}
+              pane={pane}
+              rect={rects.get(pane.id)!}
+              visible={tab.id === activeTab.id}
+              active={pane.id === tab.activePaneId}
+              dimmed={isSplit && pane.id !== tab.activePaneId}
+              isLight={isLight}
+              onFocus={focusPane}
+              onDirectoryChange={updateDirectory}
+              onExit={handleExit}
+            />
+          ));
+        })}
+      </div>
     </div>
   );
 };
@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { vfsSyncService } from '../services/vfsSyncService';
+import { getDraggedFiles, hasDraggedFiles } from '../services/fileDrag';
+import { openPath } from '../registry/fileAssociations';
 import { useWindowStore } from '../store/windowStore';
 import { useTheme, getThemeClasses } from '../hooks/useTheme';
 
@@ -12,11 +14,11 @@ interface TextEditorProps {
 
 const TextEditorEnhanced: React.FC<TextEditorProps> = ({ 
   filePath, 
-  initialContent = '', 
+  initialContent, 
   fileName = 'Untitled.txt',
   windowId
 }) => {
-  const { updateWindowState, windows } = useWindowStore();
+  const { updateWindowState, updateWindowProps, windows } = useWindowStore();
   const { isLight } = useTheme();
   const theme = getThemeClasses(isLight);
   
@@ -24,9 +26,9 @@ const TextEditorEnhanced: React.FC<TextEditorProps> = ({
   const currentWindow = windows.find(w => w.id === windowId);
   const editorState = currentWindow?.savedState?.customData?.editor as any;
   
-  const [content, setContent] = useState(editorState?.content || initialContent);
+  const [content, setContent] = useState(editorState?.content || initialContent || '');
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
-  const [lastSavedContent, setLastSavedContent] = useState(editorState?.content || initialContent);
+  const [lastSavedContent, setLastSavedContent] = useState(editorState?.content || initialContent || '');
   const [isAutoSave, setIsAutoSave] = useState(editorState?.isAutoSave ?? true);
   const [fontSize, setFontSize] = useState(editorState?.fontSize || 14);
   const [wordWrap, setWordWrap] = useState(editorState?.wordWrap ?? true);
@@ -56,6 +58,27 @@ const TextEditorEnhanced: React.FC<TextEditorProps> = ({
     }
   }, [windowId, content, isAutoSave, fontSize, wordWrap, showLineNumbers, cursorPosition, updateWindowState]);
 
+  // Restored sessions keep no file contents, read the file again. It goes
+  // back into the props so that the window does not read it twice.
+  useEffect(() => {
+    if (!filePath || initialContent !== undefined) return;
+
+    let cancelled = false;
+    vfsSyncService.getFileContent(filePath)
+      .then(text => {
+        if (cancelled) return;
+        setContent(text);
+        setLastSavedContent(text);
+        if (windowId) {
+          updateWindowProps(windowId, { initialContent: text });
+        }
+      })
+      .catch(error => console.error('Error loading file from VFS:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath, initialContent, windowId, updateWindowProps]);
+
   // Restore scroll position when component mounts
   useEffect(() => {
     if (textareaRef.current && editorState?.scrollPosition) {
@@ -277,8 +300,34 @@ const TextEditorEnhanced: React.FC<TextEditorProps> = ({
     class: 'class ClassName {\n    constructor() {\n        // Constructor code\n    }\n    \n    method() {\n        // Method code\n    }\n}'
   };
 
+  // Files dragged from Files or the desktop open in Text Editor windows of
+  // their own. Capturing keeps the textarea from pasting their paths.
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    getDraggedFiles(e.dataTransfer)
+      .filter(file => !file.isFolder)
+      .forEach(file => {
+        openPath(file.path, { appId: 'TextEditor', isFolder: false }).catch(error => {
+          showNotification(error instanceof Error ? error.message : 'Failed to open file', 'error');
+        });
+      });
+  };
+
   return (
-    <div className={`w-full h-full ${theme.bgPrimary} rounded-xl border ${theme.border} flex flex-col overflow-hidden`}>
+    <div
+      className={`w-full h-full ${theme.bgPrimary} rounded-xl border ${theme.border} flex flex-col overflow-hidden`}
+      onDragOverCapture={handleDragOver}
+      onDropCapture={handleDrop}
+    >
       {/* Toolbar */}
       <div className={`${theme.bgSecondary} border-b ${theme.border} p-4`}>
         <div className="flex items-center justify-between mb-4">
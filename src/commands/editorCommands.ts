@@ -0,0 +1,109 @@
+/**
+ * `edit`, `nano` and `vim`: open a VFS file in an editor window and wait for
+ * it to close, like `$EDITOR` does in a real shell
+ */
+
+import { useWindowStore } from '../store/windowStore';
+import { getAppConfig, launchApp } from '../registry/appRegistry';
+import { vfsSyncService } from '../services/vfsSyncService';
+import type { TerminalCommand } from '../registry/commandRegistry';
+
+const EDITOR_APPS = ['TextEditor', 'CodeEditor'];
+
+// Values accepted in $EDITOR besides the app IDs themselves
+const EDITOR_NAMES: Record<string, string> = {
+  text: 'TextEditor',
+  nano: 'TextEditor',
+  edit: 'TextEditor',
+  code: 'CodeEditor',
+  vi: 'CodeEditor',
+  vim: 'CodeEditor',
+};
+
+const resolveEditor = (name: string): string | undefined => {
+  const key = name.trim().split('/').pop()!.toLowerCase();
+  return EDITOR_APPS.find(app => app.toLowerCase() === key) ?? EDITOR_NAMES[key];
+};
+
+/**
+ * Resolve once the window has been closed, or when `signal` is aborted
+ */
+const waitForWindowClose = (windowId: string, signal: AbortSignal): Promise<void> => {
+  return new Promise(resolve => {
+    const isOpen = () => useWindowStore.getState().windows.some(w => w.id === windowId && w.isVisible);
+
+    const finish = () => {
+      unsubscribe();
+      signal.removeEventListener('abort', finish);
+      resolve();
+    };
+    const unsubscribe = useWindowStore.subscribe(() => {
+      if (!isOpen()) finish();
+    });
+    signal.addEventListener('abort', finish);
+
+    if (!isOpen() || signal.aborted) finish();
+  });
+};
+
+export const editorCommands: TerminalCommand[] = [
+  {
+    name: 'edit',
+    aliases: ['nano', 'vim'],
+    category: 'System',
+    summary: 'Edit a file',
+    usage: 'edit <file>',
+    manual: 'Opens the file in an editor window and waits until that window is closed. The editor is chosen by $EDITOR (TextEditor or CodeEditor, also text, code, nano or vim); without it `vim` opens the Code Editor and `edit` and `nano` the Text Editor. Files that do not exist yet are created when saved. Press Ctrl+C to stop waiting and keep the window open.',
+    args: { kind: 'file' },
+    handler: async ({ name, args, stdout, stderr, shell, signal }) => {
+      if (args.length === 0) {
+        stderr.writeln(`\x1b[31m${name}: missing file operand\x1b[0m`);
+        return 1;
+      }
+
+      const editorVariable = shell.getVariable('EDITOR');
+      const appId = editorVariable ? resolveEditor(editorVariable) : resolveEditor(name);
+      if (!appId) {
+        stderr.writeln(`\x1b[31m${name}: unknown editor '${editorVariable}' in $EDITOR\x1b[0m`);
+        return 1;
+      }
+
+      const filePath = shell.resolvePath(args[0]);
+      const fileName = filePath.split('/').pop() || filePath;
+      let content = '';
+      try {
+        if (await vfsSyncService.isFolder(filePath)) {
+          stderr.writeln(`\x1b[31m${name}: ${args[0]}: Is a directory\x1b[0m`);
+          return 1;
+        }
+        if (await vfsSyncService.exists(filePath)) {
+          content = await vfsSyncService.getFileContent(filePath);
+        }
+      } catch (error) {
+        stderr.writeln(`\x1b[31m${name}: ${args[0]}: ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+        return 1;
+      }
+
+      const appConfig = getAppConfig(appId);
+      // Every file gets its own window, so closing it means we are done
+      const windowId = launchApp(appId, { filePath, initialContent: content, fileName }, {
+        title: `${appConfig?.name ?? appId} - ${fileName}`,
+        instanceKey: `${appId}-${filePath}`,
+      });
+      if (!windowId) {
+        stderr.writeln(`\x1b[31m${name}: cannot open ${appId}\x1b[0m`);
+        return 1;
+      }
+
+      stdout.write(`\x1b[90mWaiting for ${appConfig?.name ?? appId} to close ${fileName}...\x1b[0m`);
+      await waitForWindowClose(windowId, signal);
+      if (stdout.isTTY) {
+        stdout.write('\r\x1b[K');
+      } else {
+        stdout.writeln();
+      }
+
+      return signal.aborted ? 130 : 0;
+    },
+  },
+];
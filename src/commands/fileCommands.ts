@@ -0,0 +1,524 @@
+/**
+ * File and directory commands for the Terminal, backed by the VFS
+ */
+
+import { vfsSyncService } from '../services/vfsSyncService';
+import type { TerminalCommand } from '../registry/commandRegistry';
+import { readInput } from './streams';
+
+export const fileCommands: TerminalCommand[] = [
+  {
+    name: 'ls',
+    aliases: ['dir'],
+    category: 'File Operations',
+    summary: 'List directory contents',
+    usage: 'ls [-l] [path]',
+    manual: 'Lists the files and folders in the given directory, or the current directory when no path is given. When the output is piped or redirected, one name is printed per line.',
+    args: {
+      kind: 'directory',
+      options: [
+        { flag: '-l', description: 'Use a long listing format' },
+        { flag: '-a', description: 'Accepted for compatibility' },
+      ],
+    },
+    handler: async ({ args, stdout, stderr, shell }) => {
+      const flags = args.filter(p => p.startsWith('-'));
+      const paths = args.filter(p => !p.startsWith('-'));
+      const targetPath = paths.length > 0 ? shell.resolvePath(paths[0]) : shell.cwd;
+
+      const longFormat = flags.includes('-l') || flags.includes('-la') || flags.includes('-al');
+
+      try {
+        const items = await vfsSyncService.listDir(targetPath);
+
+        if (items.length === 0) {
+          if (stdout.isTTY) {
+            stdout.writeln('\x1b[90m(empty directory)\x1b[0m');
+          }
+          return 0;
+        }
+
+        if (longFormat) {
+          stdout.writeln('\x1b[36mtotal ' + items.length + '\x1b[0m');
+
+          items.forEach(item => {
+            const permissions = item.type === 'folder' ? 'drwxr-xr-x' : '-rw-r--r--';
+            const size = item.type === 'file' ? String(item.size || 0).padStart(8) : '     dir';
+            const date = new Date().toLocaleDateString('en-US', {
+              month: 'short',
+              day: '2-digit',
+              hour: '2-digit',
+              minute: '2-digit'
+            });
+
+            const color = item.type === 'folder' ? '\x1b[34m' : '\x1b[37m';
+            const name = item.type === 'folder' ? item.name + '/' : item.name;
+
+            stdout.writeln(`${permissions} 1 user user ${size} ${date} ${color}${name}\x1b[0m`);
+          });
+        } else if (!stdout.isTTY) {
+          // One plain name per line when piped or redirected
+          items.forEach(item => stdout.writeln(item.name));
+        } else {
+          const columns = Math.floor(80 / 20); // Approximate column width
+          let currentColumn = 0;
+
+          items.forEach((item, index) => {
+            const color = item.type === 'folder' ? '\x1b[34m' : '\x1b[37m';
+            const name = (item.type === 'folder' ? item.name + '/' : item.name).padEnd(18);
+
+            stdout.write(`${color}${name}\x1b[0m  `);
+            currentColumn++;
+
+            if (currentColumn >= columns || index === items.length - 1) {
+              stdout.writeln('');
+              currentColumn = 0;
+            }
+          });
+        }
+        return 0;
+      } catch {
+        stderr.writeln(`\x1b[31mls: cannot access '${targetPath}': No such file or directory\x1b[0m`);
+        return 1;
+      }
+    },
+  },
+
+  {
+    name: 'cd',
+    category: 'File Operations',
+    summary: 'Change directory',
+    usage: 'cd [path]',
+    manual: 'Changes the current working directory. Without a path, returns to the home directory.',
+    args: { kind: 'directory' },
+    handler: async ({ args, stderr, shell }) => {
+      if (args.length === 0) {
+        shell.changeDirectory(shell.getVariable('HOME') || '/home/user');
+        return 0;
+      }
+
+      const targetPath = shell.resolvePath(args[0]);
+
+      try {
+        await vfsSyncService.listDir(targetPath);
+        shell.changeDirectory(targetPath);
+        return 0;
+      } catch {
+        stderr.writeln(`\x1b[31mcd: no such file or directory: ${targetPath}\x1b[0m`);
+        return 1;
+      }
+    },
+  },
+
+  {
+    name: 'pwd',
+    category: 'File Operations',
+    summary: 'Print working directory',
+    usage: 'pwd',
+    manual: 'Prints the absolute path of the current working directory.',
+    args: { kind: 'none' },
+    handler: ({ stdout, shell }) => {
+      stdout.writeln(`\x1b[37m${shell.cwd}\x1b[0m`);
+      return 0;
+    },
+  },
+
+  {
+    name: 'mkdir',
+    category: 'File Operations',
+    summary: 'Create directory',
+    usage: 'mkdir <dir>...',
+    manual: 'Creates each named directory in the VFS.',
+    args: { kind: 'directory' },
+    handler: async ({ args, stdout, stderr, shell }) => {
+      if (args.length === 0) {
+        stderr.writeln('\x1b[31mmkdir: missing operand\x1b[0m');
+        return 1;
+      }
+
+      const dirs = args.filter(p => !p.startsWith('-'));
+      let status = 0;
+
+      for (const dir of dirs) {
+        const targetPath = shell.resolvePath(dir);
+        try {
+          await vfsSyncService.createFolder(targetPath, 'terminal');
+          stdout.writeln(`\x1b[32mDirectory created: ${targetPath}\x1b[0m`);
+        } catch (error) {
+          stderr.writeln(`\x1b[31mmkdir: cannot create directory '${targetPath}': ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+          status = 1;
+        }
+      }
+      return status;
+    },
+  },
+
+  {
+    name: 'rmdir',
+    category: 'File Operations',
+    summary: 'Remove directory',
+    usage: 'rmdir <dir>...',
+    manual: 'Removes each named directory from the VFS.',
+    args: { kind: 'directory' },
+    handler: async ({ args, stdout, stderr, shell }) => {
+      if (args.length === 0) {
+        stderr.writeln('\x1b[31mrmdir: missing operand\x1b[0m');
+        return 1;
+      }
+
+      let status = 0;
+      for (const dir of args) {
+        const targetPath = shell.resolvePath(dir);
+        try {
+          await vfsSyncService.deleteNode(targetPath, 'terminal');
+          stdout.writeln(`\x1b[32mDirectory removed: ${targetPath}\x1b[0m`);
+        } catch (error) {
+          stderr.writeln(`\x1b[31mrmdir: failed to remove '${targetPath}': ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+          status = 1;
+        }
+      }
+      return status;
+    },
+  },
+
+  {
+    name: 'touch',
+    category: 'File Operations',
+    summary: 'Create empty file',
+    usage: 'touch <file>...',
+    manual: 'Creates each named file with empty content if it does not exist yet.',
+    args: { kind: 'file' },
+    handler: async ({ args, stdout, stderr, shell }) => {
+      if (args.length === 0) {
+        stderr.writeln('\x1b[31mtouch: missing file operand\x1b[0m');
+        return 1;
+      }
+
+      let status = 0;
+      for (const file of args) {
+        const targetPath = shell.resolvePath(file);
+        try {
+          // Check if file already exists
+          const exists = await vfsSyncService.exists(targetPath);
+          if (exists) {
+            // File exists, just update modified time (simulated)
+            stdout.writeln(`\x1b[33mFile already exists: ${targetPath}\x1b[0m`);
+          } else {
+            // File doesn't exist, create it
+            await vfsSyncService.createFile(targetPath, '', 'terminal');
+            stdout.writeln(`\x1b[32mFile created: ${targetPath}\x1b[0m`);
+          }
+        } catch (error) {
+          stderr.writeln(`\x1b[31mtouch: cannot create '${targetPath}': ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+          status = 1;
+        }
+      }
+      return status;
+    },
+  },
+
+  {
+    name: 'cat',
+    category: 'File Operations',
+    summary: 'Display file contents',
+    usage: 'cat [file...]',
+    manual: 'Concatenates the named files, or standard input when no file is given, and writes them to standard output.',
+    args: { kind: 'file' },
+    handler: async (context) => {
+      const content = await readInput(context, context.args);
+      if (content === null) return 1;
+
+      if (content) {
+        context.stdout.write(`\x1b[37m${content}\x1b[0m`);
+        if (!content.endsWith('\n')) {
+          context.stdout.writeln('');
+        }
+      }
+      return 0;
+    },
+  },
+
+  {
+    name: 'cp',
+    category: 'File Operations',
+    summary: 'Copy file',
+    usage: 'cp <src> <dest>',
+    manual: 'Copies the content of the source file to the destination path.',
+    args: { kind: 'path' },
+    handler: async ({ args, stdout, stderr, shell }) => {
+      if (args.length < 2) {
+        stderr.writeln('\x1b[31mcp: missing file operand\x1b[0m');
+        stderr.writeln('Usage: cp <source> <destination>');
+        return 1;
+      }
+
+      const sourcePath = shell.resolvePath(args[0]);
+      const destPath = shell.resolvePath(args[1]);
+
+      try {
+        const content = await vfsSyncService.getFileContent(sourcePath);
+        await vfsSyncService.createFile(destPath, content, 'terminal');
+        stdout.writeln(`\x1b[32mCopied: ${sourcePath} -> ${destPath}\x1b[0m`);
+        return 0;
+      } catch (error) {
+        stderr.writeln(`\x1b[31mcp: cannot copy '${sourcePath}': ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+        return 1;
+      }
+    },
+  },
+
+  {
+    name: 'mv',
+    category: 'File Operations',
+    summary: 'Move/rename file',
+    usage: 'mv <src> <dest>',
+    manual: 'Moves or renames a file by copying it to the destination and removing the source.',
+    args: { kind: 'path' },
+    handler: async ({ args, stdout, stderr, shell }) => {
+      if (args.length < 2) {
+        stderr.writeln('\x1b[31mmv: missing file operand\x1b[0m');
+        stderr.writeln('Usage: mv <source> <destination>');
+        return 1;
+      }
+
+      const sourcePath = shell.resolvePath(args[0]);
+      const destPath = shell.resolvePath(args[1]);
+
+      try {
+        // Copy the file first
+        const content = await vfsSyncService.getFileContent(sourcePath);
+        await vfsSyncService.createFile(destPath, content, 'terminal');
+
+        // Then delete the original
+        await vfsSyncService.deleteNode(sourcePath, 'terminal');
+
+        stdout.writeln(`\x1b[32mMoved: ${sourcePath} -> ${destPath}\x1b[0m`);
+        return 0;
+      } catch (error) {
+        stderr.writeln(`\x1b[31mmv: cannot move '${sourcePath}': ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+        return 1;
+      }
+    },
+  },
+
+  {
+    name: 'rm',
+    category: 'File Operations',
+    summary: 'Remove file',
+    usage: 'rm [-f] <file>...',
+    manual: 'Removes each named file from the VFS. Removed files go to the Trash, where Files can put them back.',
+    args: {
+      kind: 'path',
+      options: [{ flag: '-f', description: 'Ignore missing files and never report errors' }],
+    },
+    handler: async ({ args, stdout, stderr, shell }) => {
+      if (args.length === 0) {
+        stderr.writeln('\x1b[31mrm: missing operand\x1b[0m');
+        return 1;
+      }
+
+      const force = args.includes('-f');
+      const files = args.filter(p => !p.startsWith('-'));
+      let status = 0;
+
+      for (const file of files) {
+        const targetPath = shell.resolvePath(file);
+        try {
+          await vfsSyncService.deleteNode(targetPath, 'terminal');
+          stdout.writeln(`\x1b[32mRemoved: ${targetPath}\x1b[0m`);
+        } catch (error) {
+          if (!force) {
+            stderr.writeln(`\x1b[31mrm: cannot remove '${targetPath}': ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+            status = 1;
+          }
+        }
+      }
+      return status;
+    },
+  },
+
+  {
+    name: 'find',
+    category: 'File Operations',
+    summary: 'Find files',
+    usage: 'find <pattern> [path]',
+    manual: 'Recursively searches the given directory, or the current directory, for names containing the pattern and prints their full paths.',
+    args: { kind: 'directory' },
+    handler: async ({ args, stdout, stderr, shell }) => {
+      if (args.length === 0) {
+        stderr.writeln('\x1b[31mfind: missing search pattern\x1b[0m');
+        return 1;
+      }
+
+      const pattern = args[0];
+      const searchPath = args.length > 1 ? shell.resolvePath(args[1]) : shell.cwd;
+
+      if (stdout.isTTY) {
+        stdout.writeln(`\x1b[33mSearching for "${pattern}" in ${searchPath}...\x1b[0m`);
+      }
+
+      // Simple pattern matching (could be enhanced)
+      const findInDirectory = async (path: string, level: number = 0): Promise<void> => {
+        try {
+          const items = await vfsSyncService.listDir(path);
+          for (const item of items) {
+            const fullPath = path === '/' ? `/${item.name}` : `${path}/${item.name}`;
+
+            if (item.name.includes(pattern)) {
+              stdout.writeln(`\x1b[37m${fullPath}\x1b[0m`);
+            }
+
+            if (item.type === 'folder' && level < 10) { // Prevent infinite recursion
+              await findInDirectory(fullPath, level + 1);
+            }
+          }
+        } catch {
+          // Skip inaccessible directories
+        }
+      };
+
+      await findInDirectory(searchPath);
+      return 0;
+    },
+  },
+
+  {
+    name: 'du',
+    category: 'File Operations',
+    summary: 'Disk usage',
+    usage: 'du [path]',
+    manual: 'Prints the total size of the files directly inside the given directory.',
+    args: { kind: 'directory' },
+    handler: async ({ args, stdout, stderr, shell }) => {
+      const path = args.length > 0 ? shell.resolvePath(args[0]) : shell.cwd;
+
+      try {
+        const items = await vfsSyncService.listDir(path);
+        let totalSize = 0;
+
+        items.forEach(item => {
+          if (item.type === 'file') {
+            totalSize += item.size || 0;
+          }
+        });
+
+        stdout.writeln(`\x1b[37m${totalSize} bytes used in ${path}\x1b[0m`);
+        return 0;
+      } catch {
+        stderr.writeln(`\x1b[31mdu: cannot access '${path}': No such file or directory\x1b[0m`);
+        return 1;
+      }
+    },
+  },
+
+  {
+    name: 'tree',
+    category: 'File Operations',
+    summary: 'Show directory tree',
+    usage: 'tree [path]',
+    manual: 'Prints the directory hierarchy below the given path as a tree.',
+    args: { kind: 'directory' },
+    handler: async ({ args, stdout, shell }) => {
+      const startPath = args.length > 0 ? shell.resolvePath(args[0]) : shell.cwd;
+
+      const showTreeRecursive = async (path: string, prefix: string = '', isLast: boolean = true): Promise<void> => {
+        try {
+          const items = await vfsSyncService.listDir(path);
+
+          for (let index = 0; index < items.length; index++) {
+            const item = items[index];
+            const isLastItem = index === items.length - 1;
+            const currentPrefix = prefix + (isLast ? '└── ' : '├── ');
+            const nextPrefix = prefix + (isLast ? '    ' : '│   ');
+
+            const color = item.type === 'folder' ? '\x1b[34m' : '\x1b[37m';
+            const name = item.type === 'folder' ? item.name + '/' : item.name;
+
+            stdout.writeln(`${currentPrefix}${color}${name}\x1b[0m`);
+
+            if (item.type === 'folder') {
+              const fullPath = path === '/' ? `/${item.name}` : `${path}/${item.name}`;
+              await showTreeRecursive(fullPath, nextPrefix, isLastItem);
+            }
+          }
+        } catch {
+          // Skip inaccessible directories
+        }
+      };
+
+      stdout.writeln(`\x1b[36m${startPath}\x1b[0m`);
+      await showTreeRecursive(startPath);
+      return 0;
+    },
+  },
+
+  {
+    name: 'chmod',
+    category: 'File Operations',
+    summary: 'Change file permissions (simulated)',
+    usage: 'chmod <mode> <file>',
+    manual: 'Accepts a permission change for a file. Permissions are simulated and not enforced by the VFS.',
+    args: { kind: 'path' },
+    handler: ({ args, stdout, stderr, shell }) => {
+      if (args.length < 2) {
+        stderr.writeln('\x1b[31mchmod: missing operand\x1b[0m');
+        return 1;
+      }
+
+      const mode = args[0];
+      const filePath = shell.resolvePath(args[1]);
+      stdout.writeln(`\x1b[32mPermissions changed: ${mode} ${filePath}\x1b[0m`);
+      stdout.writeln('\x1b[90m(Simulated - file permissions not fully implemented)\x1b[0m');
+      return 0;
+    },
+  },
+
+  {
+    name: 'chown',
+    category: 'File Operations',
+    summary: 'Change file owner (simulated)',
+    usage: 'chown <owner> <file>',
+    manual: 'Accepts an ownership change for a file. Ownership is simulated and not enforced by the VFS.',
+    args: { kind: 'path' },
+    handler: ({ args, stdout, stderr, shell }) => {
+      if (args.length < 2) {
+        stderr.writeln('\x1b[31mchown: missing operand\x1b[0m');
+        return 1;
+      }
+
+      const owner = args[0];
+      const filePath = shell.resolvePath(args[1]);
+      stdout.writeln(`\x1b[32mOwnership changed: ${owner} ${filePath}\x1b[0m`);
+      stdout.writeln('\x1b[90m(Simulated - file ownership not fully implemented)\x1b[0m');
+      return 0;
+    },
+  },
+
+  {
+    name: 'tar',
+    category: 'File Operations',
+    summary: 'Archive files (not implemented)',
+    usage: 'tar -czf <archive> <files>',
+    manual: 'Archive operations are not implemented in this demo.',
+    args: { kind: 'path' },
+    handler: ({ stdout }) => {
+      stdout.writeln('\x1b[33mtar: Archive operations not implemented in this demo\x1b[0m');
+      stdout.writeln('\x1b[90mWould support: tar -czf archive.tar.gz files/\x1b[0m');
+      return 0;
+    },
+  },
+
+  {
+    name: 'zip',
+    category: 'File Operations',
+    summary: 'Compress files (not implemented)',
+    usage: 'zip <archive> <files>',
+    manual: 'Compression operations are not implemented in this demo.',
+    args: { kind: 'path' },
+    handler: ({ stdout }) => {
+      stdout.writeln('\x1b[33mzip: Compression operations not implemented in this demo\x1b[0m');
+      stdout.writeln('\x1b[90mWould support: zip archive.zip files/\x1b[0m');
+      return 0;
+    },
+  },
+];
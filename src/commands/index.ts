@@ -0,0 +1,34 @@
+/**
+ * Built-in Terminal commands
+ */
+
+import { commandRegistry } from '../registry/commandRegistry';
+import type { TerminalCommand } from '../registry/commandRegistry';
+import { editorCommands } from './editorCommands';
+import { fileCommands } from './fileCommands';
+import { openCommands } from './openCommands';
+import { processCommands } from './processCommands';
+import { scriptCommands } from './scriptCommands';
+import { systemCommands } from './systemCommands';
+import { textCommands } from './textCommands';
+
+export const BUILTIN_COMMANDS: TerminalCommand[] = [
+  ...fileCommands,
+  ...textCommands,
+  ...scriptCommands,
+  ...processCommands,
+  ...systemCommands,
+  ...editorCommands,
+  ...openCommands,
+];
+
+/**
+ * Register the built-in commands. Safe to call more than once.
+ */
+export const registerBuiltinCommands = (): void => {
+  BUILTIN_COMMANDS.forEach(command => {
+    if (!commandRegistry.has(command.name)) {
+      commandRegistry.register(command);
+    }
+  });
+};
@@ -0,0 +1,71 @@
+/**
+ * `open`: open VFS files and folders in their apps, like double-clicking
+ * them in Files
+ */
+
+import { getAllAppConfigs } from '../registry/appRegistry';
+import { openPath } from '../registry/fileAssociations';
+import { vfsSyncService } from '../services/vfsSyncService';
+import type { TerminalCommand } from '../registry/commandRegistry';
+
+// `-a` takes the ID or the name of an app, in any case
+const findApp = (name: string) => {
+  const key = name.toLowerCase();
+  return getAllAppConfigs().find(app => app.id.toLowerCase() === key || app.name.toLowerCase() === key);
+};
+
+export const openCommands: TerminalCommand[] = [
+  {
+    name: 'open',
+    category: 'System',
+    summary: 'Open files in their apps',
+    usage: 'open [-a app] <path>...',
+    manual: 'Opens each file or folder in the app that is the default for its type, as chosen in Files with Open With or in Settings → Files. Folders open in Files. With -a, opens them in the given app instead, named by its ID or name.',
+    args: {
+      kind: 'path',
+      options: [{ flag: '-a', description: 'Open with this app' }],
+    },
+    handler: async ({ name, args, stderr, shell }) => {
+      let appId: string | undefined;
+      const paths: string[] = [];
+      for (let i = 0; i < args.length; i++) {
+        if (args[i] === '-a') {
+          const appName = args[++i];
+          if (!appName) {
+            stderr.writeln(`\x1b[31m${name}: -a needs an app\x1b[0m`);
+            return 1;
+          }
+          appId = findApp(appName)?.id;
+          if (!appId) {
+            stderr.writeln(`\x1b[31m${name}: unknown app '${appName}'\x1b[0m`);
+            return 1;
+          }
+        } else {
+          paths.push(args[i]);
+        }
+      }
+
+      if (paths.length === 0) {
+        stderr.writeln(`\x1b[31m${name}: missing file operand\x1b[0m`);
+        return 1;
+      }
+
+      let status = 0;
+      for (const path of paths) {
+        const filePath = shell.resolvePath(path);
+        try {
+          if (!await vfsSyncService.exists(filePath)) {
+            stderr.writeln(`\x1b[31m${name}: ${path}: No such file or directory\x1b[0m`);
+            status = 1;
+            continue;
+          }
+          await openPath(filePath, { appId });
+        } catch (error) {
+          stderr.writeln(`\x1b[31m${name}: ${path}: ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+          status = 1;
+        }
+      }
+      return status;
+    },
+  },
+];
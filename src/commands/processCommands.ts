@@ -0,0 +1,208 @@
+/**
+ * Process and job control commands for the Terminal, backed by the process
+ * manager. Windows are processes too, so `kill` can close them.
+ */
+
+import { processManager, PROCESS_SIGNALS } from '../services/processManager';
+import type { ProcessSignal } from '../services/processManager';
+import type { CommandContext, JobInfo, ShellSession, TerminalCommand } from '../registry/commandRegistry';
+
+const formatElapsed = (startTime: number): string => {
+  const seconds = Math.floor((Date.now() - startTime) / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return `${String(minutes).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Accepts TERM, SIGTERM or 15
+const parseSignal = (value: string): ProcessSignal | undefined => {
+  const name = value.toUpperCase().replace(/^SIG/, '');
+  if (name in PROCESS_SIGNALS) {
+    return name as ProcessSignal;
+  }
+  return (Object.keys(PROCESS_SIGNALS) as ProcessSignal[]).find(signal => String(PROCESS_SIGNALS[signal]) === value);
+};
+
+const jobSpecs = (shell: ShellSession): string[] => shell.getJobs().map(job => `%${job.id}`);
+
+const formatJob = (job: JobInfo): string => {
+  const status = job.status === 'stopped' ? 'Stopped' : 'Running';
+  return `[${job.id}]  ${status.padEnd(8)}  ${job.command}`;
+};
+
+/**
+ * `fg` / `bg`: continue a stopped or background job
+ */
+const continueJob = (foreground: boolean): TerminalCommand['handler'] => {
+  return async ({ name, args, stdout, stderr, shell }: CommandContext) => {
+    const job = shell.findJob(args[0]);
+    if (!job) {
+      stderr.writeln(`\x1b[31m${name}: ${args[0] ?? 'current'}: no such job\x1b[0m`);
+      return 1;
+    }
+
+    if (foreground) {
+      stdout.writeln(job.command);
+      return shell.continueJob(job.id, true);
+    }
+
+    stdout.writeln(`[${job.id}]+ ${job.command} &`);
+    await shell.continueJob(job.id, false);
+    return 0;
+  };
+};
+
+export const processCommands: TerminalCommand[] = [
+  {
+    name: 'ps',
+    category: 'Processes',
+    summary: 'List processes',
+    usage: 'ps',
+    manual: 'Lists running processes: every open window and every job started from a Terminal. Stopped jobs and minimized windows are shown with status T, running ones with R.',
+    args: { kind: 'none' },
+    handler: ({ stdout, shell }) => {
+      const user = shell.getVariable('USER') ?? 'user';
+
+      stdout.writeln('\x1b[36m  PID  USER     STAT  TIME   CMD\x1b[0m');
+      processManager.list().forEach(process => {
+        const stat = process.status === 'stopped' ? 'T' : 'R';
+        const command = process.type === 'window' ? `\x1b[34m${process.command}\x1b[37m` : process.command;
+        stdout.writeln(`\x1b[37m${String(process.pid).padStart(5)}  ${user.padEnd(8)} ${stat.padEnd(5)} ${formatElapsed(process.startTime)}  ${command}\x1b[0m`);
+      });
+      return 0;
+    },
+  },
+
+  {
+    name: 'kill',
+    category: 'Processes',
+    summary: 'Terminate a process',
+    usage: 'kill [-SIGNAL] <pid|%job...>',
+    manual: 'Sends a signal (TERM by default) to each process or job. Killing a window process closes the window; STOP minimizes it and CONT brings it back. `kill -l` lists the signals.',
+    args: {
+      kind: 'none',
+      options: [
+        { flag: '-l', description: 'List signal names' },
+        { flag: '-9', description: 'Send KILL' },
+        { flag: '-STOP', description: 'Stop a job or minimize a window' },
+        { flag: '-CONT', description: 'Continue a job or restore a window' },
+      ],
+      complete: shell => [
+        ...processManager.list().filter(process => process.type !== 'system').map(process => String(process.pid)),
+        ...jobSpecs(shell),
+      ],
+    },
+    handler: ({ args, stdout, stderr, shell }) => {
+      if (args[0] === '-l') {
+        stdout.writeln(Object.entries(PROCESS_SIGNALS).map(([name, number]) => `${number}) SIG${name}`).join('  '));
+        return 0;
+      }
+
+      let signal: ProcessSignal = 'TERM';
+      let targets = args;
+      if (args[0] === '-s' && args.length > 1) {
+        const parsed = parseSignal(args[1]);
+        if (!parsed) {
+          stderr.writeln(`\x1b[31mkill: ${args[1]}: invalid signal specification\x1b[0m`);
+          return 1;
+        }
+        signal = parsed;
+        targets = args.slice(2);
+      } else if (args[0]?.startsWith('-')) {
+        const parsed = parseSignal(args[0].slice(1));
+        if (!parsed) {
+          stderr.writeln(`\x1b[31mkill: ${args[0].slice(1)}: invalid signal specification\x1b[0m`);
+          return 1;
+        }
+        signal = parsed;
+        targets = args.slice(1);
+      }
+
+      if (targets.length === 0) {
+        stderr.writeln('\x1b[31mkill: usage: kill [-SIGNAL] <pid|%job...>\x1b[0m');
+        return 1;
+      }
+
+      let status = 0;
+      targets.forEach(target => {
+        const pid = target.startsWith('%') ? shell.findJob(target)?.pid : parseInt(target, 10);
+        if (pid === undefined || isNaN(pid)) {
+          stderr.writeln(`\x1b[31mkill: ${target}: ${target.startsWith('%') ? 'no such job' : 'arguments must be process or job IDs'}\x1b[0m`);
+          status = 1;
+          return;
+        }
+
+        try {
+          processManager.kill(pid, signal);
+        } catch (error) {
+          stderr.writeln(`\x1b[31mkill: (${pid}) - ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+          status = 1;
+        }
+      });
+      return status;
+    },
+  },
+
+  {
+    name: 'jobs',
+    category: 'Processes',
+    summary: 'List background jobs',
+    usage: 'jobs [-l]',
+    manual: 'Lists the background and stopped jobs of this Terminal with their job numbers, for use with fg, bg and kill %n.',
+    args: {
+      kind: 'none',
+      options: [{ flag: '-l', description: 'Also print process IDs' }],
+    },
+    handler: ({ args, stdout, shell }) => {
+      shell.getJobs().forEach(job => {
+        const line = formatJob(job);
+        stdout.writeln(args.includes('-l') ? line.replace(']', `]  ${job.pid}`) : line);
+      });
+      return 0;
+    },
+  },
+
+  {
+    name: 'fg',
+    category: 'Processes',
+    summary: 'Bring a job to the foreground',
+    usage: 'fg [%job]',
+    manual: 'Continues the job (the most recent one by default) in the foreground and waits for it. Press Ctrl+C to cancel it or Ctrl+Z to stop it again.',
+    args: { kind: 'none', complete: jobSpecs },
+    handler: continueJob(true),
+  },
+
+  {
+    name: 'bg',
+    category: 'Processes',
+    summary: 'Continue a job in the background',
+    usage: 'bg [%job]',
+    manual: 'Continues a stopped job (the most recent one by default) in the background.',
+    args: { kind: 'none', complete: jobSpecs },
+    handler: continueJob(false),
+  },
+
+  {
+    name: 'sleep',
+    category: 'Processes',
+    summary: 'Wait for a number of seconds',
+    usage: 'sleep <seconds>',
+    manual: 'Waits for the given number of seconds, which may be fractional. Useful for trying out background jobs, e.g. `sleep 10 &`.',
+    args: { kind: 'none' },
+    handler: async ({ args, stderr, signal }) => {
+      const seconds = parseFloat(args[0]);
+      if (isNaN(seconds) || seconds < 0) {
+        stderr.writeln(`\x1b[31msleep: invalid time interval '${args[0] ?? ''}'\x1b[0m`);
+        return 1;
+      }
+
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, seconds * 1000);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          resolve();
+        }, { once: true });
+      });
+      return signal.aborted ? 130 : 0;
+    },
+  },
+];
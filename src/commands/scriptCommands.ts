@@ -0,0 +1,191 @@
+/**
+ * Scripting commands for the Terminal: running VFS scripts, conditions and
+ * loop control
+ */
+
+import { vfsSyncService } from '../services/vfsSyncService';
+import type { CommandContext, TerminalCommand } from '../registry/commandRegistry';
+
+/**
+ * `test` / `[`: string, integer and VFS file checks
+ */
+const testExpression = async ({ name, args: params, stderr, shell }: CommandContext): Promise<number> => {
+  let args = params;
+  if (name === '[') {
+    if (args[args.length - 1] !== ']') {
+      stderr.writeln("\x1b[31m[: missing `]'\x1b[0m");
+      return 2;
+    }
+    args = args.slice(0, -1);
+  }
+
+  const negate = args[0] === '!';
+  if (negate) {
+    args = args.slice(1);
+  }
+
+  let result: boolean;
+  if (args.length === 0) {
+    result = false;
+  } else if (args.length === 1) {
+    result = args[0] !== '';
+  } else if (args.length === 2) {
+    const [operator, operand] = args;
+    const path = shell.resolvePath(operand);
+    switch (operator) {
+      case '-z': result = operand === ''; break;
+      case '-n': result = operand !== ''; break;
+      case '-e': result = await vfsSyncService.exists(path); break;
+      case '-f': result = await vfsSyncService.isFile(path); break;
+      case '-d': result = await vfsSyncService.isFolder(path); break;
+      case '-s':
+        try {
+          result = (await vfsSyncService.getFileContent(path)).length > 0;
+        } catch {
+          result = false;
+        }
+        break;
+      default:
+        stderr.writeln(`\x1b[31m${name}: ${operator}: unary operator expected\x1b[0m`);
+        return 2;
+    }
+  } else if (args.length === 3) {
+    const [left, operator, right] = args;
+    const a = parseInt(left, 10);
+    const b = parseInt(right, 10);
+    if (operator.startsWith('-') && (isNaN(a) || isNaN(b))) {
+      stderr.writeln(`\x1b[31m${name}: integer expression expected\x1b[0m`);
+      return 2;
+    }
+    switch (operator) {
+      case '=':
+      case '==': result = left === right; break;
+      case '!=': result = left !== right; break;
+      case '-eq': result = a === b; break;
+      case '-ne': result = a !== b; break;
+      case '-lt': result = a < b; break;
+      case '-le': result = a <= b; break;
+      case '-gt': result = a > b; break;
+      case '-ge': result = a >= b; break;
+      default:
+        stderr.writeln(`\x1b[31m${name}: ${operator}: binary operator expected\x1b[0m`);
+        return 2;
+    }
+  } else {
+    stderr.writeln(`\x1b[31m${name}: too many arguments\x1b[0m`);
+    return 2;
+  }
+
+  return result !== negate ? 0 : 1;
+};
+
+const loopControl = (kind: 'break' | 'continue'): TerminalCommand['handler'] => {
+  return ({ args, stderr, shell }) => {
+    if (!shell.loopControl(kind, Math.max(parseInt(args[0] ?? '1', 10) || 1, 1))) {
+      stderr.writeln(`\x1b[31m${kind}: only meaningful in a \`for', \`while', or \`until' loop\x1b[0m`);
+    }
+    return 0;
+  };
+};
+
+export const scriptCommands: TerminalCommand[] = [
+  {
+    name: 'sh',
+    aliases: ['bash'],
+    category: 'Scripting',
+    summary: 'Run a script in a subshell',
+    usage: 'sh <script> [args...]',
+    manual: 'Runs a shell script stored in the VFS. Variables, the working directory and positional arguments changed by the script do not affect the calling shell. Scripts may use if/elif/else, for, while and until blocks, $1..$9, $#, $@ and $?, and end with `exit <status>`.',
+    args: { kind: 'file' },
+    handler: ({ name, args, stdin, stdout, stderr, signal, shell }) => shell.runScript(name, args, { stdin, stdout, stderr, signal }, true),
+  },
+
+  {
+    name: 'source',
+    aliases: ['.'],
+    category: 'Scripting',
+    summary: 'Run a script in the current shell',
+    usage: 'source <script> [args...]',
+    manual: 'Runs a shell script stored in the VFS in the current shell, so variables it sets and directories it changes to persist afterwards.',
+    args: { kind: 'file' },
+    handler: ({ name, args, stdin, stdout, stderr, signal, shell }) => shell.runScript(name, args, { stdin, stdout, stderr, signal }, false),
+  },
+
+  {
+    name: 'test',
+    aliases: ['['],
+    category: 'Scripting',
+    summary: 'Evaluate a condition',
+    usage: 'test <expr>  or  [ <expr> ]',
+    manual: 'Exits with status 0 when the expression is true and 1 when it is false. Supports -z/-n for strings, -e/-f/-d/-s for VFS paths, = and != for strings, -eq/-ne/-lt/-le/-gt/-ge for integers and a leading ! to negate.',
+    args: {
+      kind: 'path',
+      options: [
+        { flag: '-e', description: 'Path exists' },
+        { flag: '-f', description: 'Path is a file' },
+        { flag: '-d', description: 'Path is a directory' },
+        { flag: '-s', description: 'File is not empty' },
+        { flag: '-z', description: 'String is empty' },
+        { flag: '-n', description: 'String is not empty' },
+      ],
+    },
+    handler: testExpression,
+  },
+
+  {
+    name: 'true',
+    category: 'Scripting',
+    summary: 'Succeed',
+    usage: 'true',
+    manual: 'Does nothing and exits with status 0.',
+    args: { kind: 'none' },
+    handler: () => 0,
+  },
+
+  {
+    name: 'false',
+    category: 'Scripting',
+    summary: 'Fail',
+    usage: 'false',
+    manual: 'Does nothing and exits with status 1.',
+    args: { kind: 'none' },
+    handler: () => 1,
+  },
+
+  {
+    name: 'shift',
+    category: 'Scripting',
+    summary: 'Shift positional arguments',
+    usage: 'shift [n]',
+    manual: 'Drops the first n (1 by default) positional arguments, so $2 becomes $1.',
+    args: { kind: 'none' },
+    handler: ({ args, stderr, shell }) => {
+      const count = args.length > 0 ? parseInt(args[0], 10) : 1;
+      if (isNaN(count) || count < 0 || !shell.shiftArguments(count)) {
+        stderr.writeln(`\x1b[31mshift: ${args[0] ?? count}: shift count out of range\x1b[0m`);
+        return 1;
+      }
+      return 0;
+    },
+  },
+
+  {
+    name: 'break',
+    category: 'Scripting',
+    summary: 'Leave a loop',
+    usage: 'break [n]',
+    manual: 'Leaves the innermost n (1 by default) enclosing for, while or until loops.',
+    args: { kind: 'none' },
+    handler: loopControl('break'),
+  },
+
+  {
+    name: 'continue',
+    category: 'Scripting',
+    summary: 'Skip to the next loop iteration',
+    usage: 'continue [n]',
+    manual: 'Skips the rest of the current iteration of the nth (1 by default) enclosing loop.',
+    args: { kind: 'none' },
+    handler: loopControl('continue'),
+  },
+];
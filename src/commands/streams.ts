@@ -0,0 +1,91 @@
+/**
+ * Stream helpers shared by the Terminal shell and its commands
+ */
+
+import { vfsSyncService } from '../services/vfsSyncService';
+import type { CommandContext, InputStream, OutputStream } from '../registry/commandRegistry';
+
+const ANSI_ESCAPE = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*[A-Za-z]`, 'g');
+
+// Collects output for pipes and redirections, dropping terminal colors
+export class BufferedOutput implements OutputStream {
+  readonly isTTY = false;
+  private chunks: string[] = [];
+
+  write(text: string) {
+    this.chunks.push(text.replace(ANSI_ESCAPE, ''));
+  }
+
+  writeln(text: string = '') {
+    this.write(text + '\n');
+  }
+
+  toString() {
+    return this.chunks.join('');
+  }
+}
+
+/**
+ * Wrap piped or redirected content as stdin; null means nothing was piped in
+ */
+export const stringInput = (content: string | null): InputStream => ({
+  isTTY: content === null,
+  read: async () => content ?? '',
+});
+
+export const toLines = (content: string): string[] => {
+  if (content === '') return [];
+  return (content.endsWith('\n') ? content.slice(0, -1) : content).split('\n');
+};
+
+/**
+ * Read the named files, or stdin when no file is given. Returns null after
+ * reporting the error when nothing can be read.
+ */
+export const readInput = async (context: CommandContext, files: string[]): Promise<string | null> => {
+  const { name, stdin, stderr, shell } = context;
+
+  if (files.length === 0) {
+    if (stdin.isTTY) {
+      stderr.writeln(`\x1b[31m${name}: missing file operand\x1b[0m`);
+      return null;
+    }
+    return stdin.read();
+  }
+
+  let content = '';
+  for (const file of files) {
+    const filePath = shell.resolvePath(file);
+    try {
+      content += await vfsSyncService.getFileContent(filePath);
+    } catch {
+      stderr.writeln(`\x1b[31m${name}: ${filePath}: No such file or directory\x1b[0m`);
+      return null;
+    }
+  }
+  return content;
+};
+
+/**
+ * Extract a line count given as `-n 5`, `-n5` or `-5`, returning the
+ * remaining arguments
+ */
+export const parseLineCount = (params: string[], defaultCount: number): { count: number; rest: string[] } => {
+  let count = defaultCount;
+  const rest: string[] = [];
+
+  for (let i = 0; i < params.length; i++) {
+    const param = params[i];
+    if (param === '-n' && i + 1 < params.length) {
+      count = parseInt(params[++i], 10);
+    } else if (/^-n\d+$/.test(param)) {
+      count = parseInt(param.slice(2), 10);
+    } else if (/^-\d+$/.test(param)) {
+      count = parseInt(param.slice(1), 10);
+    } else {
+      rest.push(param);
+    }
+  }
+
+  return { count: isNaN(count) ? defaultCount : count, rest };
+};
@@ -0,0 +1,526 @@
+/**
+ * System, environment and help commands for the Terminal. `help`, `man` and
+ * `which` are generated from the command registry.
+ */
+
+import { commandRegistry } from '../registry/commandRegistry';
+import { shellHistoryService } from '../services/shellHistoryService';
+import { vfsSyncService } from '../services/vfsSyncService';
+import type { TerminalCommand } from '../registry/commandRegistry';
+import { keybindingService } from '../services/keybindingService';
+import type { KeybindingCommand } from '../registry/keybindingRegistry';
+import { formatChord } from '../utils/keyChords';
+import { formatBytes } from '../utils/helpers';
+import { MOUNT_TYPES } from '../services/vfsMountTable';
+import type { MountType } from '../services/vfsMountTable';
+
+const SHELL_SYNTAX: [string, string][] = [
+  ['cmd1 \x1b[32m|\x1b[0m cmd2', 'Pipe output into the next command'],
+  ['cmd \x1b[32m>\x1b[0m file', 'Write output to file'],
+  ['cmd \x1b[32m>>\x1b[0m file', 'Append output to file'],
+  ['cmd \x1b[32m<\x1b[0m file', 'Read input from file'],
+  ['cmd1 \x1b[32m&&\x1b[0m cmd2', 'Run cmd2 if cmd1 succeeds'],
+  ['cmd1 \x1b[32m||\x1b[0m cmd2', 'Run cmd2 if cmd1 fails'],
+  ['cmd1 \x1b[32m;\x1b[0m cmd2', 'Run commands in sequence'],
+  ['cmd \x1b[32m&\x1b[0m', 'Run cmd as a background job'],
+  ['\x1b[32m$VAR\x1b[0m, \x1b[32m$(cmd)\x1b[0m, \x1b[32m*.ts\x1b[0m', 'Variable, command and glob expansion'],
+  ['if/for/while/until', 'Control flow, e.g. for f in *.txt; do cat $f; done'],
+];
+
+// Where mount puts a file system when no folder is given
+const getDefaultMountPoint = (type: MountType, source: string): string => {
+  const name = source.split('/').filter(Boolean).pop() ?? '';
+  switch (type) {
+    case 'zip':
+      return `/mnt/${name.replace(/\.zip$/i, '')}`;
+    case 'shared':
+      return `/Shared/${source}`;
+    case 'repos':
+      return name ? `/Repos/${name}` : '/Repos';
+  }
+};
+
+const KEY_BINDINGS: [string, string][] = [
+  ['Tab', 'Complete commands, paths and arguments'],
+  ['Ctrl+A / Ctrl+E', 'Move to the start / end of the line'],
+  ['Alt+B / Alt+F', 'Move back / forward one word'],
+  ['Ctrl+U / Ctrl+K', 'Cut to the start / end of the line'],
+  ['Ctrl+W', 'Cut the previous word'],
+  ['Ctrl+Y', 'Paste the last cut text'],
+  ['Ctrl+R', 'Search the command history'],
+  ['Ctrl+C / Ctrl+Z', 'Interrupt / stop the running command'],
+];
+
+/**
+ * Window shortcuts of the Terminal as currently bound. Numbered commands
+ * such as `terminal.selectTab1` to `9` are folded into one line.
+ */
+const getTerminalShortcuts = (): [string, string][] => {
+  const chords = (command: KeybindingCommand) => keybindingService.getBindings(command.id).map(formatChord).join(' / ');
+  const shortcuts: [string, string][] = [];
+  const numbered = new Map<string, KeybindingCommand[]>();
+
+  keybindingService.getCommands()
+    .filter(command => command.appId === 'Terminal')
+    .forEach(command => {
+      const prefix = command.id.replace(/\d$/, '');
+      if (prefix !== command.id) {
+        numbered.set(prefix, [...(numbered.get(prefix) ?? []), command]);
+      } else if (chords(command)) {
+        shortcuts.push([chords(command), command.title]);
+      }
+    });
+
+  numbered.forEach(commands => {
+    const first = commands[0];
+    const last = commands[commands.length - 1];
+    if (chords(first) && chords(last)) {
+      shortcuts.push([`${chords(first)} … ${chords(last)}`, first.title.replace(/\d$/, `${first.id.slice(-1)}-${last.id.slice(-1)}`)]);
+    }
+  });
+  return shortcuts;
+};
+
+const HELP_COLUMN = 26;
+const ANSI_ESCAPE = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*[A-Za-z]`, 'g');
+
+// Pad a possibly colored string to the help column
+const padVisible = (text: string, width: number): string => {
+  const visible = text.replace(ANSI_ESCAPE, '').length;
+  return text + ' '.repeat(Math.max(width - visible, 1));
+};
+
+const highlightUsage = (usage: string): string => {
+  const [name, ...rest] = usage.split(' ');
+  return [`\x1b[32m${name}\x1b[0m`, ...rest].join(' ');
+};
+
+export const systemCommands: TerminalCommand[] = [
+  {
+    name: 'help',
+    category: 'System',
+    summary: 'List available commands',
+    usage: 'help',
+    manual: 'Lists every registered command grouped by category, followed by a summary of the shell syntax and the line editing keys. Use `man <command>` for details on a single command.',
+    args: { kind: 'none' },
+    handler: ({ stdout }) => {
+      stdout.writeln('\x1b[33mWeave OS Terminal - Available Commands:\x1b[0m');
+
+      commandRegistry.getByCategory().forEach(([category, commands]) => {
+        stdout.writeln('');
+        stdout.writeln(`\x1b[36m${category}:\x1b[0m`);
+        commands.forEach(command => {
+          stdout.writeln(`  ${padVisible(highlightUsage(command.usage), HELP_COLUMN)}- ${command.summary}`);
+        });
+      });
+
+      stdout.writeln('');
+      stdout.writeln('\x1b[36mShell:\x1b[0m');
+      SHELL_SYNTAX.forEach(([syntax, description]) => {
+        stdout.writeln(`  ${padVisible(syntax, HELP_COLUMN)}- ${description}`);
+      });
+
+      stdout.writeln('');
+      stdout.writeln('\x1b[36mKeys:\x1b[0m');
+      [...KEY_BINDINGS, ...getTerminalShortcuts()].forEach(([keys, description]) => {
+        stdout.writeln(`  ${padVisible(keys, HELP_COLUMN)}- ${description}`);
+      });
+      return 0;
+    },
+  },
+
+  {
+    name: 'man',
+    category: 'System',
+    summary: 'Show the manual for a command',
+    usage: 'man <command>',
+    manual: 'Shows the name, synopsis, description and options of a registered command.',
+    args: { kind: 'command' },
+    handler: ({ args, stdout, stderr }) => {
+      if (args.length === 0) {
+        stderr.writeln('\x1b[31mman: missing command\x1b[0m');
+        stderr.writeln('Usage: man <command>');
+        return 1;
+      }
+
+      const command = commandRegistry.get(args[0]);
+      if (!command) {
+        stderr.writeln(`\x1b[31mNo manual entry for ${args[0]}\x1b[0m`);
+        return 1;
+      }
+
+      stdout.writeln('\x1b[33mNAME\x1b[0m');
+      stdout.writeln(`     ${[command.name, ...(command.aliases ?? [])].join(', ')} - ${command.summary}`);
+      stdout.writeln('');
+      stdout.writeln('\x1b[33mSYNOPSIS\x1b[0m');
+      stdout.writeln(`     ${command.usage}`);
+      stdout.writeln('');
+      stdout.writeln('\x1b[33mDESCRIPTION\x1b[0m');
+      stdout.writeln(`     ${command.manual}`);
+
+      const options = command.args?.options ?? [];
+      if (options.length > 0) {
+        stdout.writeln('');
+        stdout.writeln('\x1b[33mOPTIONS\x1b[0m');
+        options.forEach(option => {
+          stdout.writeln(`     \x1b[32m${option.flag.padEnd(6)}\x1b[0m ${option.description}`);
+        });
+      }
+      return 0;
+    },
+  },
+
+  {
+    name: 'which',
+    category: 'System',
+    summary: 'Locate a command',
+    usage: 'which <command...>',
+    manual: 'Prints the path of each named command. Exits with status 1 when any of them is not a registered command.',
+    args: { kind: 'command' },
+    handler: ({ args, stdout, stderr }) => {
+      if (args.length === 0) {
+        stderr.writeln('\x1b[31mwhich: missing command\x1b[0m');
+        return 1;
+      }
+
+      let status = 0;
+      args.forEach(name => {
+        const command = commandRegistry.get(name);
+        if (command) {
+          stdout.writeln(`\x1b[37m/bin/${command.name}\x1b[0m`);
+        } else {
+          stderr.writeln(`\x1b[31mwhich: no ${name} in (/bin:/usr/bin)\x1b[0m`);
+          status = 1;
+        }
+      });
+      return status;
+    },
+  },
+
+  {
+    name: 'whoami',
+    category: 'System',
+    summary: 'Current user',
+    usage: 'whoami',
+    manual: 'Prints the name of the current user.',
+    args: { kind: 'none' },
+    handler: ({ stdout, shell }) => {
+      stdout.writeln(`\x1b[37m${shell.getVariable('USER') ?? 'user'}\x1b[0m`);
+      return 0;
+    },
+  },
+
+  {
+    name: 'date',
+    category: 'System',
+    summary: 'Current date/time',
+    usage: 'date',
+    manual: 'Prints the current date and time.',
+    args: { kind: 'none' },
+    handler: ({ stdout }) => {
+      stdout.writeln(`\x1b[37m${new Date().toString()}\x1b[0m`);
+      return 0;
+    },
+  },
+
+  {
+    name: 'uname',
+    category: 'System',
+    summary: 'System information',
+    usage: 'uname [-a]',
+    manual: 'Prints the name of the operating system.',
+    args: {
+      kind: 'none',
+      options: [{ flag: '-a', description: 'Print all system information' }],
+    },
+    handler: ({ args, stdout }) => {
+      if (args.includes('-a')) {
+        stdout.writeln('\x1b[37mWeave OS 1.0.0 weave x86_64 Browser/JavaScript\x1b[0m');
+      } else {
+        stdout.writeln('\x1b[37mWeave OS\x1b[0m');
+      }
+      return 0;
+    },
+  },
+
+  {
+    name: 'vfscache',
+    category: 'System',
+    summary: 'VFS cache statistics',
+    usage: 'vfscache [-c]',
+    manual: 'Prints how many VFS lookups the metadata cache answered (hits), how many fetched a folder listing (misses) and how many waited for a listing already being fetched (shared), and how many folders and nodes it holds. With -c, clears the cache so that everything is read again.',
+    args: {
+      kind: 'none',
+      options: [{ flag: '-c', description: 'Clear the cache' }],
+    },
+    handler: ({ args, stdout }) => {
+      if (args.includes('-c')) {
+        vfsSyncService.invalidateCache();
+        stdout.writeln('\x1b[37mVFS cache cleared\x1b[0m');
+        return 0;
+      }
+
+      const stats = vfsSyncService.getCacheStats();
+      const lookups = stats.hits + stats.misses + stats.shared;
+      const hitRate = lookups > 0 ? Math.round(((stats.hits + stats.shared) / lookups) * 100) : 0;
+      stdout.writeln(`\x1b[33mhits\x1b[0m     ${stats.hits}`);
+      stdout.writeln(`\x1b[33mmisses\x1b[0m   ${stats.misses}`);
+      stdout.writeln(`\x1b[33mshared\x1b[0m   ${stats.shared}`);
+      stdout.writeln(`\x1b[33mhit rate\x1b[0m ${hitRate}%`);
+      stdout.writeln(`\x1b[33mfolders\x1b[0m  ${stats.folders}`);
+      stdout.writeln(`\x1b[33mnodes\x1b[0m    ${stats.nodes}`);
+      return 0;
+    },
+  },
+
+  {
+    name: 'mount',
+    category: 'System',
+    summary: 'Mount a file system',
+    usage: 'mount [-t zip|shared|repos [source] [dir]]',
+    manual: 'Mounts a file system at a folder of the VFS. -t zip mounts a .zip file of the VFS as a read-only folder, at /mnt/<name> by default. -t shared mounts the items the user named as source shares with you, read-only, at /Shared/<user> by default. -t repos mounts a folder of the Code Editor\'s git file system, / by default, at /Repos, or at /Repos/<folder> for a folder in it. Without arguments, lists the mounted file systems.',
+    args: {
+      kind: 'path',
+      options: [{ flag: '-t', description: 'Type of the file system: zip, shared or repos' }],
+    },
+    handler: async ({ args, stdout, stderr, shell }) => {
+      if (args.length === 0) {
+        vfsSyncService.getMounts().forEach(mount => {
+          stdout.writeln(`\x1b[37m${mount.source}\x1b[0m on \x1b[34m${mount.path}\x1b[0m type \x1b[33m${mount.type}\x1b[0m (${mount.readOnly ? 'ro' : 'rw'})`);
+        });
+        return 0;
+      }
+
+      const [flag, type, ...operands] = args;
+      if (flag !== '-t' || !MOUNT_TYPES.includes(type as MountType)) {
+        stderr.writeln(`\x1b[31mmount: unknown file system type${type ? ` '${type}'` : ''}, expected one of ${MOUNT_TYPES.join(', ')}\x1b[0m`);
+        return 1;
+      }
+      const mountType = type as MountType;
+      if (mountType !== 'repos' && operands.length === 0) {
+        stderr.writeln('\x1b[31mmount: missing source\x1b[0m');
+        return 1;
+      }
+
+      // Archives are files of the VFS, repos are folders of the Code Editor
+      const [operand = '/', dir] = operands;
+      const source = mountType === 'zip' ? shell.resolvePath(operand) : operand;
+      const path = dir ? shell.resolvePath(dir) : getDefaultMountPoint(mountType, source);
+      try {
+        const mount = await vfsSyncService.mount(mountType, source, path);
+        stdout.writeln(`\x1b[32mMounted ${mount.source} on ${mount.path}\x1b[0m`);
+        return 0;
+      } catch (error) {
+        stderr.writeln(`\x1b[31mmount: cannot mount ${source} on ${path}: ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+        return 1;
+      }
+    },
+  },
+
+  {
+    name: 'umount',
+    category: 'System',
+    summary: 'Unmount a file system',
+    usage: 'umount <dir>...',
+    manual: 'Unmounts the file systems mounted at the given folders. What they hold is left as it is.',
+    args: { kind: 'directory' },
+    handler: ({ args, stdout, stderr, shell }) => {
+      if (args.length === 0) {
+        stderr.writeln('\x1b[31mumount: missing operand\x1b[0m');
+        return 1;
+      }
+
+      let status = 0;
+      args.forEach(dir => {
+        const path = shell.resolvePath(dir);
+        try {
+          vfsSyncService.unmount(path);
+          stdout.writeln(`\x1b[32mUnmounted ${path}\x1b[0m`);
+        } catch (error) {
+          stderr.writeln(`\x1b[31mumount: ${error instanceof Error ? error.message : 'Unknown error'}\x1b[0m`);
+          status = 1;
+        }
+      });
+      return status;
+    },
+  },
+
+  {
+    name: 'df',
+    category: 'System',
+    summary: 'Disk usage of file systems',
+    usage: 'df',
+    manual: 'Lists the file systems of the VFS: the backend at / and the mounted ones, with the bytes in their files. The usage of the backend is not known.',
+    args: { kind: 'none' },
+    handler: async ({ stdout }) => {
+      const rows: [string, string, string, string][] = [[vfsSyncService.getBackendKind(), 'vfs', '-', '/']];
+      for (const mount of vfsSyncService.getMounts()) {
+        const used = await vfsSyncService.getMountUsage(mount.path).then(formatBytes, () => '?');
+        rows.push([mount.source, mount.type, used, mount.path]);
+      }
+
+      const width = Math.max(10, ...rows.map(([source]) => source.length));
+      stdout.writeln(`\x1b[36m${'Filesystem'.padEnd(width)}  Type    Used        Mounted on\x1b[0m`);
+      rows.forEach(([source, type, used, path]) => {
+        stdout.writeln(`${source.padEnd(width)}  ${type.padEnd(6)}  ${used.padEnd(10)}  \x1b[34m${path}\x1b[0m`);
+      });
+      return 0;
+    },
+  },
+
+  {
+    name: 'env',
+    category: 'System',
+    summary: 'Environment variables',
+    usage: 'env',
+    manual: 'Prints every environment variable of the shell as NAME=value.',
+    args: { kind: 'none' },
+    handler: ({ stdout, shell }) => {
+      Object.entries(shell.getEnvironment()).forEach(([key, value]) => {
+        stdout.writeln(`\x1b[33m${key}\x1b[0m=\x1b[37m${value}\x1b[0m`);
+      });
+      return 0;
+    },
+  },
+
+  {
+    name: 'export',
+    category: 'System',
+    summary: 'Set environment variables',
+    usage: 'export [NAME=value...]',
+    manual: 'Sets the given environment variables. Without arguments, prints the environment like env.',
+    args: { kind: 'variable' },
+    handler: ({ args, stdout, shell }) => {
+      if (args.length === 0) {
+        Object.entries(shell.getEnvironment()).forEach(([key, value]) => {
+          stdout.writeln(`\x1b[33m${key}\x1b[0m=\x1b[37m${value}\x1b[0m`);
+        });
+        return 0;
+      }
+
+      args.forEach(param => {
+        const [key, ...valueParts] = param.split('=');
+        if (valueParts.length > 0) {
+          shell.setVariable(key, valueParts.join('='));
+          stdout.writeln(`\x1b[32mSet ${key}=${valueParts.join('=')}\x1b[0m`);
+        }
+      });
+      return 0;
+    },
+  },
+
+  {
+    name: 'unset',
+    category: 'System',
+    summary: 'Remove variables',
+    usage: 'unset <NAME...>',
+    manual: 'Removes the named shell variables.',
+    args: { kind: 'variable' },
+    handler: ({ args, shell }) => {
+      args.forEach(name => shell.unsetVariable(name));
+      return 0;
+    },
+  },
+
+  {
+    name: 'ping',
+    category: 'System',
+    summary: 'Ping a host',
+    usage: 'ping <host>',
+    manual: 'Simulates sending ICMP echo requests to a host.',
+    args: { kind: 'none' },
+    handler: ({ args, stdout, stderr }) => {
+      if (args.length === 0) {
+        stderr.writeln('\x1b[31mping: missing hostname\x1b[0m');
+        return 1;
+      }
+
+      const host = args[0];
+      stdout.writeln(`\x1b[33mPING ${host} (simulated)\x1b[0m`);
+      stdout.writeln(`\x1b[37m64 bytes from ${host}: icmp_seq=1 ttl=64 time=0.123 ms\x1b[0m`);
+      stdout.writeln(`\x1b[37m64 bytes from ${host}: icmp_seq=2 ttl=64 time=0.089 ms\x1b[0m`);
+      stdout.writeln('\x1b[32mPing simulation complete\x1b[0m');
+      return 0;
+    },
+  },
+
+  {
+    name: 'wget',
+    aliases: ['curl'],
+    category: 'System',
+    summary: 'Download a file',
+    usage: 'wget <url>',
+    manual: 'Simulates downloading a file from a URL.',
+    args: { kind: 'none' },
+    handler: ({ name, args, stdout, stderr }) => {
+      if (args.length === 0) {
+        stderr.writeln(`\x1b[31m${name}: missing URL\x1b[0m`);
+        return 1;
+      }
+
+      stdout.writeln(`\x1b[33mDownloading ${args[0]}...\x1b[0m`);
+      stdout.writeln('\x1b[90m(Simulated download - not actually downloading)\x1b[0m');
+      stdout.writeln('\x1b[32mDownload complete\x1b[0m');
+      return 0;
+    },
+  },
+
+  {
+    name: 'history',
+    category: 'System',
+    summary: 'Command history',
+    usage: 'history [-c] [count]',
+    manual: 'Prints the commands entered in any Terminal window, oldest first, from ~/.weave_history. Rerun them with !! (the last command), !n (command number n), !-n (n commands back) or !prefix (the last command starting with prefix), or search them with Ctrl+R. Duplicate handling and the number of commands kept are set in Settings > Terminal.',
+    args: {
+      kind: 'none',
+      options: [{ flag: '-c', description: 'Clear the history' }],
+    },
+    handler: async ({ args, stdout, stderr }) => {
+      if (args.includes('-c')) {
+        await shellHistoryService.clear();
+        return 0;
+      }
+
+      const count = args.length > 0 ? parseInt(args[0], 10) : Infinity;
+      if (isNaN(count) || count < 0) {
+        stderr.writeln(`\x1b[31mhistory: ${args[0]}: numeric argument required\x1b[0m`);
+        return 1;
+      }
+
+      const history = shellHistoryService.getEntries();
+      const first = Math.max(history.length - count, 0);
+      history.slice(first).forEach((cmd, index) => {
+        stdout.writeln(`\x1b[33m${(first + index + 1).toString().padStart(4)}\x1b[0m  \x1b[37m${cmd}\x1b[0m`);
+      });
+      return 0;
+    },
+  },
+
+  {
+    name: 'clear',
+    category: 'System',
+    summary: 'Clear terminal',
+    usage: 'clear',
+    manual: 'Clears the terminal screen.',
+    args: { kind: 'none' },
+    handler: ({ shell }) => {
+      shell.clear();
+      return 0;
+    },
+  },
+
+  {
+    name: 'exit',
+    category: 'System',
+    summary: 'Exit terminal',
+    usage: 'exit [status]',
+    manual: 'Ends the running script with the given status (the last exit status by default). At the prompt, ends the terminal session.',
+    args: { kind: 'none' },
+    handler: ({ args, stdout, shell }) => {
+      const code = args.length > 0 ? parseInt(args[0], 10) || 0 : undefined;
+      const status = shell.exit(code);
+      stdout.writeln('\x1b[33mGoodbye!\x1b[0m');
+      return status;
+    },
+  },
+];
@@ -0,0 +1,244 @@
+/**
+ * Text processing commands for the Terminal. Each one reads the named files,
+ * or standard input when no file is given, so they can be used in pipelines.
+ */
+
+import type { TerminalCommand } from '../registry/commandRegistry';
+import { parseLineCount, readInput, toLines } from './streams';
+
+const GREP_FLAGS = /^-[ivnc]+$/;
+
+export const textCommands: TerminalCommand[] = [
+  {
+    name: 'echo',
+    category: 'Text Processing',
+    summary: 'Display text',
+    usage: 'echo [-n] <text>',
+    manual: 'Writes its arguments to standard output, separated by spaces and followed by a newline.',
+    args: {
+      kind: 'none',
+      options: [{ flag: '-n', description: 'Do not print the trailing newline' }],
+    },
+    handler: ({ args, stdout }) => {
+      const noNewline = args[0] === '-n';
+      const text = (noNewline ? args.slice(1) : args).join(' ');
+
+      stdout.write(`\x1b[37m${text}\x1b[0m`);
+      if (!noNewline) {
+        stdout.writeln('');
+      }
+      return 0;
+    },
+  },
+
+  {
+    name: 'grep',
+    category: 'Text Processing',
+    summary: 'Search text in files',
+    usage: 'grep [-i] [-v] [-n] [-c] <pattern> [file...]',
+    manual: 'Prints the lines of the named files, or of standard input, that contain the pattern. Exits with status 1 when nothing matches.',
+    args: {
+      kind: 'file',
+      options: [
+        { flag: '-i', description: 'Ignore case' },
+        { flag: '-v', description: 'Print lines that do not match' },
+        { flag: '-n', description: 'Prefix each line with its line number' },
+        { flag: '-c', description: 'Print only the number of matching lines' },
+      ],
+    },
+    handler: async (context) => {
+      const { args, stdout, stderr } = context;
+      const flags = args.filter(p => GREP_FLAGS.test(p)).join('');
+      const [pattern, ...files] = args.filter(p => !GREP_FLAGS.test(p));
+
+      if (pattern === undefined) {
+        stderr.writeln('\x1b[31mgrep: missing pattern\x1b[0m');
+        stderr.writeln('Usage: grep [-i] [-v] [-n] [-c] <pattern> [file...]');
+        return 2;
+      }
+
+      const ignoreCase = flags.includes('i');
+      const invert = flags.includes('v');
+      const needle = ignoreCase ? pattern.toLowerCase() : pattern;
+      const sources = files.length > 0 ? files : [null];
+      let matchCount = 0;
+
+      for (const file of sources) {
+        const content = await readInput(context, file === null ? [] : [file]);
+        if (content === null) return 2;
+
+        const prefix = files.length > 1 ? `\x1b[35m${file}\x1b[0m:` : '';
+        let fileMatches = 0;
+
+        toLines(content).forEach((line, index) => {
+          const haystack = ignoreCase ? line.toLowerCase() : line;
+          if (haystack.includes(needle) === invert) return;
+
+          fileMatches++;
+          if (!flags.includes('c')) {
+            const lineNumber = flags.includes('n') ? `\x1b[33m${index + 1}:\x1b[0m` : '';
+            stdout.writeln(`${prefix}${lineNumber}\x1b[37m${line}\x1b[0m`);
+          }
+        });
+
+        if (flags.includes('c')) {
+          stdout.writeln(`${prefix}${fileMatches}`);
+        }
+        matchCount += fileMatches;
+      }
+
+      return matchCount > 0 ? 0 : 1;
+    },
+  },
+
+  {
+    name: 'head',
+    category: 'Text Processing',
+    summary: 'Show first lines',
+    usage: 'head [-n count] [file...]',
+    manual: 'Prints the first lines (10 by default) of the named files or of standard input.',
+    args: {
+      kind: 'file',
+      options: [{ flag: '-n', description: 'Number of lines to print' }],
+    },
+    handler: async (context) => {
+      const { count, rest } = parseLineCount(context.args, 10);
+      const content = await readInput(context, rest);
+      if (content === null) return 1;
+
+      toLines(content).slice(0, count).forEach(line => {
+        context.stdout.writeln(`\x1b[37m${line}\x1b[0m`);
+      });
+      return 0;
+    },
+  },
+
+  {
+    name: 'tail',
+    category: 'Text Processing',
+    summary: 'Show last lines',
+    usage: 'tail [-n count] [file...]',
+    manual: 'Prints the last lines (10 by default) of the named files or of standard input.',
+    args: {
+      kind: 'file',
+      options: [{ flag: '-n', description: 'Number of lines to print' }],
+    },
+    handler: async (context) => {
+      const { count, rest } = parseLineCount(context.args, 10);
+      const content = await readInput(context, rest);
+      if (content === null) return 1;
+
+      const lines = toLines(content);
+      lines.slice(Math.max(lines.length - count, 0)).forEach(line => {
+        context.stdout.writeln(`\x1b[37m${line}\x1b[0m`);
+      });
+      return 0;
+    },
+  },
+
+  {
+    name: 'wc',
+    category: 'Text Processing',
+    summary: 'Word count',
+    usage: 'wc [-l] [-w] [-c] [file...]',
+    manual: 'Prints the number of lines, words and characters in the named files or in standard input.',
+    args: {
+      kind: 'file',
+      options: [
+        { flag: '-l', description: 'Print the line count' },
+        { flag: '-w', description: 'Print the word count' },
+        { flag: '-c', description: 'Print the character count' },
+      ],
+    },
+    handler: async (context) => {
+      const { args, stdout, shell } = context;
+      const flags = args.filter(p => p.startsWith('-')).join('');
+      const files = args.filter(p => !p.startsWith('-'));
+      const content = await readInput(context, files);
+      if (content === null) return 1;
+
+      const counts = {
+        l: toLines(content).length,
+        w: content.split(/\s+/).filter(w => w.length > 0).length,
+        c: content.length,
+      };
+      const selected = (['l', 'w', 'c'] as const).filter(flag => flags.includes(flag));
+      const columns = (selected.length > 0 ? selected : (['l', 'w', 'c'] as const)).map(flag => counts[flag]);
+      const label = files.length > 0 ? ` ${files.map(file => shell.resolvePath(file)).join(' ')}` : '';
+
+      stdout.writeln(`\x1b[37m  ${columns.join('  ')}${label}\x1b[0m`);
+      return 0;
+    },
+  },
+
+  {
+    name: 'sort',
+    category: 'Text Processing',
+    summary: 'Sort lines',
+    usage: 'sort [-n] [-r] [-u] [file...]',
+    manual: 'Prints the lines of the named files, or of standard input, in sorted order.',
+    args: {
+      kind: 'file',
+      options: [
+        { flag: '-n', description: 'Compare lines as numbers' },
+        { flag: '-r', description: 'Reverse the order' },
+        { flag: '-u', description: 'Print each distinct line once' },
+      ],
+    },
+    handler: async (context) => {
+      const flags = context.args.filter(p => p.startsWith('-')).join('');
+      const content = await readInput(context, context.args.filter(p => !p.startsWith('-')));
+      if (content === null) return 1;
+
+      let lines = toLines(content);
+      lines = flags.includes('n')
+        ? lines.sort((a, b) => (parseFloat(a) || 0) - (parseFloat(b) || 0))
+        : lines.sort();
+      if (flags.includes('r')) {
+        lines.reverse();
+      }
+      if (flags.includes('u')) {
+        lines = [...new Set(lines)];
+      }
+
+      lines.forEach(line => {
+        context.stdout.writeln(`\x1b[37m${line}\x1b[0m`);
+      });
+      return 0;
+    },
+  },
+
+  {
+    name: 'uniq',
+    category: 'Text Processing',
+    summary: 'Filter repeated lines',
+    usage: 'uniq [-c] [file...]',
+    manual: 'Collapses adjacent identical lines of the named files, or of standard input, into one. Combine with sort to remove all duplicates.',
+    args: {
+      kind: 'file',
+      options: [{ flag: '-c', description: 'Prefix lines with their number of occurrences' }],
+    },
+    handler: async (context) => {
+      const showCounts = context.args.includes('-c');
+      const content = await readInput(context, context.args.filter(p => !p.startsWith('-')));
+      if (content === null) return 1;
+
+      // Like uniq(1), only adjacent duplicates are collapsed
+      const groups: { line: string; count: number }[] = [];
+      toLines(content).forEach(line => {
+        const last = groups[groups.length - 1];
+        if (last && last.line === line) {
+          last.count++;
+        } else {
+          groups.push({ line, count: 1 });
+        }
+      });
+
+      groups.forEach(({ line, count }) => {
+        const prefix = showCounts ? `${String(count).padStart(7)} ` : '';
+        context.stdout.writeln(`\x1b[37m${prefix}${line}\x1b[0m`);
+      });
+      return 0;
+    },
+  },
+];
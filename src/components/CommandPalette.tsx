@@ -0,0 +1,392 @@
+import React, { useState, useEffect } from 'react';
+import { useWindowStore } from '../store/windowStore';
+import type { WindowData } from '../store/windowStore';
+import { getAllAppConfigs, getAppConfig, launchApp } from '../registry/appRegistry';
+import { openPath } from '../registry/fileAssociations';
+import type { AppConfig } from '../registry/appRegistry';
+import { SETTINGS_PAGES } from '../registry/settingsPages';
+import type { SettingsPage } from '../registry/settingsPages';
+import { KEYBINDING_COMMANDS } from '../registry/keybindingRegistry';
+import type { KeybindingCommand } from '../registry/keybindingRegistry';
+import { keybindingService } from '../services/keybindingService';
+import { recentFilesService } from '../services/recentFilesService';
+import type { RecentFile } from '../services/recentFilesService';
+import { vfsSyncService } from '../services/vfsSyncService';
+import { fuzzyMatchAny } from '../utils/fuzzyMatch';
+
+type PaletteItem =
+  | { kind: 'window'; window: WindowData }
+  | { kind: 'app'; app: AppConfig }
+  | { kind: 'file'; file: RecentFile }
+  | { kind: 'setting'; page: SettingsPage }
+  | { kind: 'command'; command: KeybindingCommand };
+
+interface PaletteResult {
+  key: string;
+  item: PaletteItem;
+  title: string;
+  subtitle: string;
+  icon: string;
+  score: number;
+  // Matched characters of the title
+  indices: number[];
+}
+
+// Ties are broken in this order
+const KIND_ORDER: PaletteItem['kind'][] = ['window', 'app', 'setting', 'file', 'command'];
+const KIND_LABELS: Record<PaletteItem['kind'], string> = {
+  window: 'Window',
+  app: 'App',
+  file: 'File',
+  setting: 'Settings',
+  command: 'Command',
+};
+
+const MAX_RESULTS = 30;
+// Shown per kind before anything is typed
+const MAX_SUGGESTIONS = 5;
+const PREVIEW_LENGTH = 2000;
+
+const describeItem = (item: PaletteItem, workspaceName: (id: string) => string) => {
+  switch (item.kind) {
+    case 'window': {
+      const app = getAppConfig(item.window.appId);
+      const state = item.window.isMinimized ? ' · minimized' : '';
+      return {
+        key: `window:${item.window.id}`,
+        title: item.window.title,
+        subtitle: `${app?.name ?? item.window.appId} · ${workspaceName(item.window.workspaceId)}${state}`,
+        icon: app?.icon ?? '📱',
+        keywords: [app?.name ?? ''],
+      };
+    }
+    case 'app':
+      return { key: `app:${item.app.id}`, title: item.app.name, subtitle: item.app.description ?? '', icon: item.app.icon, keywords: [item.app.id] };
+    case 'file':
+      return { key: `file:${item.file.path}`, title: item.file.name, subtitle: item.file.path, icon: '📄', keywords: [item.file.path] };
+    case 'setting':
+      return { key: `setting:${item.page.id}`, title: item.page.name, subtitle: `Settings · ${item.page.description}`, icon: item.page.icon, keywords: ['settings', ...item.page.keywords] };
+    case 'command':
+      return { key: `command:${item.command.id}`, title: item.command.title, subtitle: item.command.category, icon: '⌘', keywords: [item.command.category] };
+  }
+};
+
+const openSettingsPage = (pageId: string) => {
+  const windowId = launchApp('Settings');
+  if (!windowId) return;
+
+  // Settings follows the page kept in its window state
+  const { windows, updateWindowState } = useWindowStore.getState();
+  const customData = windows.find(w => w.id === windowId)?.savedState?.customData;
+  updateWindowState(windowId, { customData: { ...customData, settings: { activeCategory: pageId } } });
+};
+
+const openFile = async (file: RecentFile) => {
+  try {
+    await openPath(file.path, { isFolder: false });
+  } catch (error) {
+    console.error('Failed to open file:', error);
+    // The file is gone, so it should not be suggested again
+    recentFilesService.remove(file.path);
+  }
+};
+
+const runItem = (item: PaletteItem) => {
+  switch (item.kind) {
+    case 'window':
+      useWindowStore.getState().focusWindow(item.window.id);
+      break;
+    case 'app':
+      launchApp(item.app.id);
+      break;
+    case 'file':
+      openFile(item.file);
+      break;
+    case 'setting':
+      openSettingsPage(item.page.id);
+      break;
+    case 'command':
+      keybindingService.execute(item.command.id);
+      break;
+  }
+};
+
+const HighlightedText = ({ text, indices }: { text: string; indices: number[] }) => {
+  if (indices.length === 0) return <>{text}</>;
+
+  const matched = new Set(indices);
+  return (
+    <>
+      {[...text].map((char, index) => (
+        matched.has(index)
+          ? <strong key={index} style={{ color: 'var(--accent-color, #60a5fa)' }}>{char}</strong>
+          : <React.Fragment key={index}>{char}</React.Fragment>
+      ))}
+    </>
+  );
+};
+
+/**
+ * Start of a file, loaded when it is selected
+ */
+const FilePreview = ({ file }: { file: RecentFile }) => {
+  const [loaded, setLoaded] = useState<{ path: string; content: string | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    vfsSyncService.getFileContent(file.path)
+      .then(content => {
+        if (!cancelled) setLoaded({ path: file.path, content: content.slice(0, PREVIEW_LENGTH) });
+      })
+      .catch(() => {
+        if (!cancelled) setLoaded({ path: file.path, content: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file.path]);
+
+  const isCurrent = loaded?.path === file.path;
+  return (
+    <pre
+      style={{
+        flex: 1,
+        margin: 0,
+        padding: '12px',
+        borderRadius: '8px',
+        backgroundColor: 'rgba(0, 0, 0, 0.3)',
+        fontSize: '11px',
+        lineHeight: 1.5,
+        overflow: 'hidden',
+        whiteSpace: 'pre-wrap',
+        wordBreak: 'break-all',
+        opacity: isCurrent ? 1 : 0.5,
+      }}
+    >
+      {!isCurrent ? 'Loading…' : loaded.content === null ? 'The file could not be read' : loaded.content || '(empty file)'}
+    </pre>
+  );
+};
+
+const PreviewPane = ({ result, windows }: { result: PaletteResult; windows: WindowData[] }) => {
+  const { item } = result;
+  const details: [string, string][] = [];
+  let body: React.ReactNode = null;
+
+  switch (item.kind) {
+    case 'window':
+      details.push(['Size', `${Math.round(item.window.width)} × ${Math.round(item.window.height)}`]);
+      details.push(['State', item.window.isMinimized ? 'Minimized' : item.window.isFullscreen ? 'Fullscreen' : item.window.snap ? 'Snapped' : 'Floating']);
+      break;
+    case 'app': {
+      const open = windows.filter(w => w.isVisible && w.appId === item.app.id).length;
+      details.push(['Open windows', String(open)]);
+      details.push(['Instances', item.app.allowMultiple ? 'Multiple windows' : 'Single window']);
+      break;
+    }
+    case 'file':
+      details.push(['Last used', new Date(item.file.usedAt).toLocaleString()]);
+      body = <FilePreview file={item.file} />;
+      break;
+    case 'setting':
+      details.push(['Contains', item.page.keywords.join(', ')]);
+      break;
+    case 'command': {
+      const shortcut = keybindingService.getLabel(item.command.id);
+      details.push(['Shortcut', shortcut || 'None']);
+      break;
+    }
+  }
+
+  return (
+    <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: '12px', padding: '16px', color: 'white' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+        <span style={{ fontSize: '40px' }}>{result.icon}</span>
+        <div style={{ minWidth: 0 }}>
+          <div style={{ fontSize: '16px', fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{result.title}</div>
+          <div style={{ fontSize: '12px', opacity: 0.6 }}>{KIND_LABELS[item.kind]}</div>
+        </div>
+      </div>
+      <div style={{ fontSize: '12px', opacity: 0.8 }}>{result.subtitle}</div>
+      {details.map(([label, value]) => (
+        <div key={label} style={{ display: 'flex', justifyContent: 'space-between', gap: '12px', fontSize: '12px' }}>
+          <span style={{ opacity: 0.6 }}>{label}</span>
+          <span style={{ textAlign: 'right' }}>{value}</span>
+        </div>
+      ))}
+      {body}
+    </div>
+  );
+};
+
+interface CommandPaletteProps {
+  onClose: () => void;
+}
+
+/**
+ * Spotlight style launcher: fuzzy search over apps, open windows, recent
+ * files, settings pages and commands, with a preview of the selection.
+ * Enter opens or focuses the selected result.
+ */
+const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose }) => {
+  const { windows, workspaces, getRecentWindows } = useWindowStore();
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const workspaceName = (id: string) => workspaces.find(ws => ws.id === id)?.name ?? '';
+  const trimmed = query.trim();
+
+  const items: PaletteItem[] = [
+    ...getRecentWindows().map((w): PaletteItem => ({ kind: 'window', window: w })),
+    ...getAllAppConfigs().map((app): PaletteItem => ({ kind: 'app', app })),
+    ...recentFilesService.getRecent().map((file): PaletteItem => ({ kind: 'file', file })),
+    ...(trimmed ? SETTINGS_PAGES.map((page): PaletteItem => ({ kind: 'setting', page })) : []),
+    ...(trimmed
+      ? KEYBINDING_COMMANDS
+          .filter(command => !command.keyOnly && keybindingService.canExecute(command.id))
+          .map((command): PaletteItem => ({ kind: 'command', command }))
+      : []),
+  ];
+
+  const suggestionCounts = new Map<PaletteItem['kind'], number>();
+  const results = items
+    .flatMap((item): PaletteResult[] => {
+      const { keywords, ...description } = describeItem(item, workspaceName);
+      const match = fuzzyMatchAny(trimmed, [description.title, ...keywords]);
+      return match ? [{ ...description, item, score: match.score, indices: match.indices }] : [];
+    })
+    .filter(result => {
+      if (trimmed) return true;
+      const count = suggestionCounts.get(result.item.kind) ?? 0;
+      suggestionCounts.set(result.item.kind, count + 1);
+      return count < MAX_SUGGESTIONS;
+    })
+    .sort((a, b) => b.score - a.score || KIND_ORDER.indexOf(a.item.kind) - KIND_ORDER.indexOf(b.item.kind))
+    .slice(0, MAX_RESULTS);
+
+  const selected = results[Math.min(selectedIndex, results.length - 1)];
+
+  const activate = (result: PaletteResult | undefined) => {
+    if (!result) return;
+    onClose();
+    runItem(result.item);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (results.length > 0) {
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSelectedIndex((Math.min(selectedIndex, results.length - 1) + step + results.length) % results.length);
+      }
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      activate(selected);
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 10002,
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'flex-start',
+        paddingTop: '12vh',
+        backgroundColor: 'rgba(0, 0, 0, 0.3)',
+      }}
+      onMouseDown={onClose}
+    >
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        style={{
+          width: 'min(760px, 90vw)',
+          borderRadius: '14px',
+          overflow: 'hidden',
+          backgroundColor: 'rgba(30, 30, 30, 0.9)',
+          backdropFilter: 'blur(20px)',
+          WebkitBackdropFilter: 'blur(20px)',
+          boxShadow: '0 20px 50px rgba(0, 0, 0, 0.5)',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+        }}
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setSelectedIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Search apps, windows, files, settings and commands"
+          style={{
+            width: '100%',
+            padding: '16px 20px',
+            border: 'none',
+            borderBottom: '1px solid rgba(255, 255, 255, 0.1)',
+            outline: 'none',
+            backgroundColor: 'transparent',
+            color: 'white',
+            fontSize: '18px',
+          }}
+        />
+
+        {results.length === 0 ? (
+          <div style={{ padding: '24px', color: 'rgba(255, 255, 255, 0.6)', fontSize: '14px', textAlign: 'center' }}>
+            No results for "{trimmed}"
+          </div>
+        ) : (
+          <div style={{ display: 'flex', height: '360px' }}>
+            <div style={{ width: '55%', overflowY: 'auto', padding: '6px', borderRight: '1px solid rgba(255, 255, 255, 0.1)' }}>
+              {results.map((result) => {
+                const isSelected = result === selected;
+                const shortcut = result.item.kind === 'command' ? keybindingService.getLabel(result.item.command.id) : '';
+                return (
+                  <div
+                    key={result.key}
+                    ref={isSelected ? (node) => node?.scrollIntoView({ block: 'nearest' }) : undefined}
+                    onMouseMove={() => {
+                      if (!isSelected) setSelectedIndex(results.indexOf(result));
+                    }}
+                    onClick={() => activate(result)}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '10px',
+                      padding: '8px 10px',
+                      borderRadius: '8px',
+                      cursor: 'pointer',
+                      color: 'white',
+                      backgroundColor: isSelected ? 'rgba(59, 130, 246, 0.35)' : 'transparent',
+                    }}
+                  >
+                    <span style={{ fontSize: '20px', width: '24px', textAlign: 'center' }}>{result.icon}</span>
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={{ fontSize: '13px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        <HighlightedText text={result.title} indices={result.indices} />
+                      </div>
+                      <div style={{ fontSize: '11px', opacity: 0.6, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {result.subtitle}
+                      </div>
+                    </div>
+                    <span style={{ fontSize: '11px', opacity: 0.6, whiteSpace: 'nowrap' }}>
+                      {shortcut || KIND_LABELS[result.item.kind]}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            {selected && <PreviewPane result={selected} windows={windows} />}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
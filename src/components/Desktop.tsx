@@ -3,15 +3,32 @@ import ContextMenu from './ContextMenu';
 import { WallpaperManager } from '../utils/wallpaperManager';
 import WindowManager from './WindowManager';
 import DesktopWidgets from './DesktopWidgets';
+import DesktopIcons from './DesktopIcons';
+import { notificationService } from '../services/notificationService';
+import { hasHostFiles } from '../services/fileDrag';
+import { useSettingsStore } from '../stores/settingsStore';
+import type { DesktopSortBy } from '../utils/desktopLayout';
 
 interface DesktopProps {
   children?: React.ReactNode;
-  onCreateFile?: () => void;
-  onCreateFolder?: () => void;
+  // Create an entry in the desktop folder and return its path
+  onCreateFile?: () => Promise<string>;
+  onCreateFolder?: () => Promise<string>;
 }
 
+const SORT_OPTIONS: { id: DesktopSortBy; label: string }[] = [
+  { id: 'name', label: 'Name' },
+  { id: 'type', label: 'Type' },
+  { id: 'size', label: 'Size' },
+  { id: 'modified', label: 'Date Modified' },
+];
+
 const Desktop: React.FC<DesktopProps> = ({ children, onCreateFile, onCreateFolder }) => {
   const [wallpaperManager] = useState(() => WallpaperManager.getInstance());
+  // New entries get their name edited right away
+  const [renamingPath, setRenamingPath] = useState<string | null>(null);
+  const { desktopAutoArrange, desktopSortBy } = useSettingsStore(state => state.settings);
+  const updateSettings = useSettingsStore(state => state.updateSettings);
   const [contextMenu, setContextMenu] = useState<{
     visible: boolean;
     position: { x: number; y: number };
@@ -35,6 +52,21 @@ const Desktop: React.FC<DesktopProps> = ({ children, onCreateFile, onCreateFolde
     };
   }, [wallpaperManager]);
 
+  // Files dropped where nothing takes them would replace the page with the file
+  useEffect(() => {
+    const preventHostDrop = (event: DragEvent) => {
+      if (event.dataTransfer && hasHostFiles(event.dataTransfer)) {
+        event.preventDefault();
+      }
+    };
+    window.addEventListener('dragover', preventHostDrop);
+    window.addEventListener('drop', preventHostDrop);
+    return () => {
+      window.removeEventListener('dragover', preventHostDrop);
+      window.removeEventListener('drop', preventHostDrop);
+    };
+  }, []);
+
   const handleRightClick = (e: React.MouseEvent) => {
     e.preventDefault();
     
@@ -51,22 +83,28 @@ const Desktop: React.FC<DesktopProps> = ({ children, onCreateFile, onCreateFolde
     setContextMenu({ ...contextMenu, visible: false });
   };
 
+  const createItem = (create?: () => Promise<string>) => {
+    create?.()
+      .then(setRenamingPath)
+      .catch(error => notificationService.show({
+        title: 'Could not create the item',
+        message: error instanceof Error ? error.message : undefined,
+        type: 'error',
+      }));
+  };
+
   const contextMenuItems = [
     {
       id: 'new-folder',
       label: 'New Folder',
       icon: '📁',
-      action: () => {
-        if (onCreateFolder) onCreateFolder();
-      },
+      action: () => createItem(onCreateFolder),
     },
     {
       id: 'new-file',
       label: 'New File',
       icon: '📄',
-      action: () => {
-        if (onCreateFile) onCreateFile();
-      },
+      action: () => createItem(onCreateFile),
     },
     {
       id: 'separator-1',
@@ -74,6 +112,32 @@ const Desktop: React.FC<DesktopProps> = ({ children, onCreateFile, onCreateFolde
       separator: true,
       action: () => {},
     },
+    // Sorting packs the icons in that order once, or for good with auto-arrange
+    ...SORT_OPTIONS.map(option => ({
+      id: `sort-${option.id}`,
+      label: `Sort by ${option.label}`,
+      icon: desktopSortBy === option.id ? '✓' : '',
+      action: () => updateSettings({ desktopSortBy: option.id, desktopIconPositions: {} }),
+    })),
+    {
+      id: 'auto-arrange',
+      label: 'Auto-arrange Icons',
+      icon: desktopAutoArrange ? '✓' : '',
+      action: () => updateSettings({ desktopAutoArrange: !desktopAutoArrange }),
+    },
+    {
+      id: 'clean-up',
+      label: 'Clean Up Icons',
+      icon: '🧹',
+      action: () => updateSettings({ desktopIconPositions: {} }),
+      disabled: desktopAutoArrange,
+    },
+    {
+      id: 'separator-sort',
+      label: '',
+      separator: true,
+      action: () => {},
+    },
     {
       id: 'refresh',
       label: 'Refresh Desktop',
@@ -147,6 +211,7 @@ const Desktop: React.FC<DesktopProps> = ({ children, onCreateFile, onCreateFolde
         <DesktopWidgets />
         {/* Desktop content area with WindowManager */}
         <div className="relative z-10 w-full h-full pt-8 pb-20">
+          <DesktopIcons renamingPath={renamingPath} onRenamingChange={setRenamingPath} />
           <WindowManager>
             {children}
           </WindowManager>
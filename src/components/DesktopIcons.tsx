@@ -0,0 +1,407 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import ContextMenu from './ContextMenu';
+import { vfsSyncService } from '../services/vfsSyncService';
+import type { VFSEventListener, VFSNode } from '../services/vfsSyncService';
+import { getDraggedFiles, hasDraggedFiles, hasHostFiles, moveFiles, setDraggedFiles, uploadFiles } from '../services/fileDrag';
+import type { TransferResult } from '../services/fileDrag';
+import { ensureDesktopFolder } from '../services/desktopFiles';
+import { notificationService } from '../services/notificationService';
+import { openPath } from '../registry/fileAssociations';
+import { useSettingsStore } from '../stores/settingsStore';
+import { DESKTOP_PATH, isValidFileName, joinPath, parsePath } from '../utils/helpers';
+import { getFileIcon } from '../utils/fileIcons';
+import { getWorkArea } from '../utils/windowLayout';
+import {
+  ICON_CELL_HEIGHT,
+  ICON_CELL_WIDTH,
+  compareDesktopItems,
+  getCellAt,
+  getCellPosition,
+  getGridSize,
+  layoutIcons,
+} from '../utils/desktopLayout';
+import type { GridCell } from '../utils/desktopLayout';
+
+interface DesktopIconsProps {
+  // Icon whose name is edited in place, e.g. right after New File
+  renamingPath: string | null;
+  onRenamingChange: (path: string | null) => void;
+}
+
+interface Band {
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+}
+
+const SOURCE = 'desktop';
+
+const reportErrors = (result: TransferResult, title: string) => {
+  if (result.errors.length > 0) {
+    notificationService.show({ title, message: result.errors[0], type: 'error' });
+  }
+};
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+/**
+ * Icons of the files in the desktop folder, on a grid below the windows.
+ * Empty space takes the desktop menu, rubber band selection and drops.
+ */
+const DesktopIcons = ({ renamingPath, onRenamingChange }: DesktopIconsProps) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  // Icon grabbed for a drag that started on the desktop
+  const grabbedRef = useRef<string | null>(null);
+  const [items, setItems] = useState<VFSNode[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [band, setBand] = useState<Band | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [menu, setMenu] = useState<{ x: number; y: number; name: string } | null>(null);
+  const [viewport, setViewport] = useState({ width: window.innerWidth, height: window.innerHeight });
+  const autoArrange = useSettingsStore(state => state.settings.desktopAutoArrange);
+  const sortBy = useSettingsStore(state => state.settings.desktopSortBy);
+  const positions = useSettingsStore(state => state.settings.desktopIconPositions);
+  const updateSettings = useSettingsStore(state => state.updateSettings);
+
+  const area = getWorkArea(viewport);
+  const grid = getGridSize(area);
+  const sortedNames = [...items].sort(compareDesktopItems(sortBy)).map(item => item.name);
+  const cells = layoutIcons(sortedNames, autoArrange ? {} : positions, grid);
+
+  const loadItems = useCallback(() => {
+    vfsSyncService.listDir(DESKTOP_PATH)
+      .then(nodes => setItems(nodes.filter(node => !node.name.startsWith('.'))))
+      .catch(() => setItems([]));
+  }, []);
+
+  useEffect(() => {
+    loadItems();
+    // Folder paths of events end with a slash
+    const isOnDesktop = (path: string) => parsePath(path).parent === DESKTOP_PATH || path.replace(/\/$/, '') === DESKTOP_PATH;
+    const reload = (...paths: string[]) => {
+      if (paths.some(isOnDesktop)) loadItems();
+    };
+    const listener: VFSEventListener = {
+      onFileCreated: path => reload(path),
+      onFileDeleted: path => reload(path),
+      onFolderCreated: path => reload(path),
+      onFolderDeleted: path => reload(path),
+      onFileMoved: (oldPath, newPath) => reload(oldPath, newPath),
+      onFileCopied: (_sourcePath, destPath) => reload(destPath),
+    };
+    vfsSyncService.addEventListener(listener);
+    return () => vfsSyncService.removeEventListener(listener);
+  }, [loadItems]);
+
+  useEffect(() => {
+    const handleResize = () => setViewport({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const getItem = (name: string) => items.find(item => item.name === name);
+
+  /**
+   * Put icons in cells, `names` first so that they win their cells and the
+   * others move aside. Saves the cells of all icons.
+   */
+  const placeIcons = (names: string[], targets: Record<string, GridCell>) => {
+    const others = sortedNames.filter(name => !names.includes(name));
+    updateSettings({ desktopIconPositions: layoutIcons([...names, ...others], { ...cells, ...targets }, grid) });
+  };
+
+  const openItem = (item: VFSNode) => {
+    openPath(joinPath(DESKTOP_PATH, item.name), { isFolder: item.type === 'folder' }).catch(error => {
+      notificationService.show({ title: `Could not open ${item.name}`, message: getErrorMessage(error), type: 'error' });
+    });
+  };
+
+  // Deleted items can be restored from the trash, so no confirmation
+  const deleteItems = async (names: string[]) => {
+    for (const name of names) {
+      if (vfsSyncService.getMount(joinPath(DESKTOP_PATH, name))) {
+        notificationService.show({ title: `Could not move ${name} to the Trash`, message: 'Mounted file systems have no Trash', type: 'error' });
+        continue;
+      }
+      try {
+        await vfsSyncService.deleteNode(joinPath(DESKTOP_PATH, name), SOURCE);
+      } catch (error) {
+        notificationService.show({ title: `Could not move ${name} to the Trash`, message: getErrorMessage(error), type: 'error' });
+      }
+    }
+    setSelected(new Set());
+  };
+
+  const renameItem = async (oldName: string, newName: string) => {
+    onRenamingChange(null);
+    newName = newName.trim();
+    if (newName === oldName) return;
+    if (!isValidFileName(newName)) {
+      notificationService.show({ title: `"${newName}" is not a valid name`, type: 'error' });
+      return;
+    }
+    try {
+      await vfsSyncService.renameNode(joinPath(DESKTOP_PATH, oldName), newName, SOURCE);
+      // The icon stays where it was
+      const desktopIconPositions = { ...useSettingsStore.getState().settings.desktopIconPositions, [newName]: cells[oldName] };
+      delete desktopIconPositions[oldName];
+      updateSettings({ desktopIconPositions });
+      setSelected(new Set([newName]));
+    } catch (error) {
+      notificationService.show({ title: `Could not rename ${oldName}`, message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  const handleIconMouseDown = (event: React.MouseEvent, name: string) => {
+    layerRef.current?.focus();
+    if (event.ctrlKey || event.metaKey) {
+      setSelected(current => {
+        const next = new Set(current);
+        if (!next.delete(name)) next.add(name);
+        return next;
+      });
+    } else if (!selected.has(name)) {
+      setSelected(new Set([name]));
+    }
+  };
+
+  // Rubber band selection from empty space
+  const handleLayerMouseDown = (event: React.MouseEvent) => {
+    if (event.target !== layerRef.current || event.button !== 0) return;
+    layerRef.current.focus();
+    const rect = layerRef.current.getBoundingClientRect();
+    const startX = event.clientX - rect.left;
+    const startY = event.clientY - rect.top;
+    const base = event.ctrlKey || event.metaKey || event.shiftKey ? new Set(selected) : new Set<string>();
+    setSelected(base);
+    setBand({ startX, startY, x: startX, y: startY });
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const x = moveEvent.clientX - rect.left;
+      const y = moveEvent.clientY - rect.top;
+      const left = Math.min(startX, x);
+      const right = Math.max(startX, x);
+      const top = Math.min(startY, y);
+      const bottom = Math.max(startY, y);
+      const hits = Object.entries(cells)
+        .filter(([, cell]) => {
+          const position = getCellPosition(cell);
+          return position.left < right && position.left + ICON_CELL_WIDTH > left
+            && position.top < bottom && position.top + ICON_CELL_HEIGHT > top;
+        })
+        .map(([name]) => name);
+      setSelected(new Set([...base, ...hits]));
+      setBand({ startX, startY, x, y });
+    };
+    const handleMouseUp = () => {
+      setBand(null);
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (renamingPath) return;
+    const names = sortedNames.filter(name => selected.has(name));
+    if (event.key === 'Enter') {
+      names.map(getItem).forEach(item => item && openItem(item));
+    } else if (event.key === 'Delete') {
+      deleteItems(names);
+    } else if (event.key === 'F2' && names.length === 1) {
+      onRenamingChange(joinPath(DESKTOP_PATH, names[0]));
+    } else if (event.key === 'a' && (event.ctrlKey || event.metaKey)) {
+      setSelected(new Set(sortedNames));
+    } else if (event.key === 'Escape') {
+      setSelected(new Set());
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  // Drag the selection, or only the icon when it is not selected
+  const handleDragStart = (event: React.DragEvent, name: string) => {
+    const names = selected.has(name) ? sortedNames.filter(other => selected.has(other)) : [name];
+    setSelected(new Set(names));
+    grabbedRef.current = name;
+    setDraggedFiles(event.dataTransfer, names.map(other => ({
+      path: joinPath(DESKTOP_PATH, other),
+      isFolder: getItem(other)?.type === 'folder',
+    })));
+  };
+
+  const handleDragEnd = () => {
+    grabbedRef.current = null;
+    setDropTarget(null);
+  };
+
+  const acceptsDrop = (event: React.DragEvent) => hasDraggedFiles(event.dataTransfer) || hasHostFiles(event.dataTransfer);
+
+  const handleFolderDragOver = (event: React.DragEvent, name: string) => {
+    // A folder cannot take itself
+    if (!acceptsDrop(event) || (grabbedRef.current && selected.has(name))) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer.dropEffect = hasDraggedFiles(event.dataTransfer) ? 'move' : 'copy';
+    setDropTarget(name);
+  };
+
+  const handleFolderDrop = async (event: React.DragEvent, name: string) => {
+    if (!acceptsDrop(event) || (grabbedRef.current && selected.has(name))) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTarget(null);
+    const folder = joinPath(DESKTOP_PATH, name);
+    const result = hasDraggedFiles(event.dataTransfer)
+      ? await moveFiles(getDraggedFiles(event.dataTransfer), folder, SOURCE)
+      : await uploadFiles(Array.from(event.dataTransfer.files), folder, SOURCE);
+    reportErrors(result, `Some files could not be put in ${name}`);
+  };
+
+  const handleLayerDragOver = (event: React.DragEvent) => {
+    if (!acceptsDrop(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = hasDraggedFiles(event.dataTransfer) ? 'move' : 'copy';
+  };
+
+  // Icons dragged on the desktop move to the cell they are dropped on, files
+  // from elsewhere are moved or uploaded into the desktop folder
+  const handleLayerDrop = async (event: React.DragEvent) => {
+    if (!acceptsDrop(event) || !layerRef.current) return;
+    event.preventDefault();
+    const rect = layerRef.current.getBoundingClientRect();
+    const dropCell = getCellAt(event.clientX - rect.left, event.clientY - rect.top, grid);
+    const grabbed = grabbedRef.current;
+
+    if (grabbed && cells[grabbed]) {
+      if (autoArrange) return;
+      const names = sortedNames.filter(name => selected.has(name));
+      const columnOffset = dropCell.column - cells[grabbed].column;
+      const rowOffset = dropCell.row - cells[grabbed].row;
+      placeIcons(names, Object.fromEntries(names.map(name => [name, {
+        column: cells[name].column + columnOffset,
+        row: cells[name].row + rowOffset,
+      }])));
+      return;
+    }
+
+    const dragged = hasDraggedFiles(event.dataTransfer) ? getDraggedFiles(event.dataTransfer) : null;
+    const hostFiles = Array.from(event.dataTransfer.files);
+    const names = dragged ? dragged.map(file => parsePath(file.path).filename) : hostFiles.map(file => file.name);
+    try {
+      await ensureDesktopFolder();
+      const result = dragged
+        ? await moveFiles(dragged, DESKTOP_PATH, SOURCE)
+        : await uploadFiles(hostFiles, DESKTOP_PATH, SOURCE);
+      reportErrors(result, 'Some files could not be put on the desktop');
+      if (!autoArrange && names.length > 0) {
+        placeIcons(names, { [names[0]]: dropCell });
+      }
+    } catch (error) {
+      notificationService.show({ title: 'Could not put files on the desktop', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  const menuItems = menu ? [
+    { id: 'open', label: 'Open', icon: '📂', action: () => sortedNames.filter(name => selected.has(name)).map(getItem).forEach(item => item && openItem(item)) },
+    { id: 'rename', label: 'Rename', icon: '✏️', action: () => onRenamingChange(joinPath(DESKTOP_PATH, menu.name)), disabled: selected.size > 1 },
+    { id: 'separator', label: '', separator: true, action: () => {} },
+    { id: 'delete', label: 'Move to Trash', icon: '🗑️', action: () => deleteItems(sortedNames.filter(name => selected.has(name))) },
+  ] : [];
+
+  return (
+    <>
+      <div
+        ref={layerRef}
+        tabIndex={-1}
+        className="desktop-clickable outline-none"
+        style={{ position: 'fixed', top: area.top, left: area.left, width: area.width, height: area.height, zIndex: 0 }}
+        onMouseDown={handleLayerMouseDown}
+        onKeyDown={handleKeyDown}
+        onDragOver={handleLayerDragOver}
+        onDrop={handleLayerDrop}
+      >
+        {items.map(item => {
+          const cell = cells[item.name];
+          if (!cell) return null;
+          const path = joinPath(DESKTOP_PATH, item.name);
+          const isSelected = selected.has(item.name);
+          const isFolder = item.type === 'folder';
+          return (
+            <div
+              key={item.name}
+              draggable={renamingPath !== path}
+              onMouseDown={(e) => handleIconMouseDown(e, item.name)}
+              onDoubleClick={() => openItem(item)}
+              onContextMenu={(e) => {
+                e.preventDefault();
+                if (!isSelected) setSelected(new Set([item.name]));
+                setMenu({ x: e.clientX, y: e.clientY, name: item.name });
+              }}
+              onDragStart={(e) => handleDragStart(e, item.name)}
+              onDragEnd={handleDragEnd}
+              onDragOver={isFolder ? (e) => handleFolderDragOver(e, item.name) : undefined}
+              onDragLeave={isFolder ? () => setDropTarget(null) : undefined}
+              onDrop={isFolder ? (e) => handleFolderDrop(e, item.name) : undefined}
+              className={`absolute flex flex-col items-center gap-1 p-1 rounded-lg border select-none ${
+                dropTarget === item.name
+                  ? 'bg-blue-500/30 border-blue-400'
+                  : isSelected
+                  ? 'bg-blue-500/25 border-blue-400/50'
+                  : 'border-transparent hover:bg-white/10'
+              }`}
+              style={{ ...getCellPosition(cell), width: ICON_CELL_WIDTH, height: ICON_CELL_HEIGHT }}
+            >
+              <div className="text-4xl drop-shadow">{getFileIcon(item)}</div>
+              {renamingPath === path ? (
+                <input
+                  autoFocus
+                  defaultValue={item.name}
+                  onFocus={(e) => {
+                    // Select the name without its extension
+                    const dot = item.name.lastIndexOf('.');
+                    e.target.setSelectionRange(0, !isFolder && dot > 0 ? dot : item.name.length);
+                  }}
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onKeyDown={(e) => {
+                    e.stopPropagation();
+                    if (e.key === 'Escape') e.currentTarget.value = item.name;
+                    if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+                  }}
+                  onBlur={(e) => renameItem(item.name, e.target.value)}
+                  className="w-full px-1 text-xs text-center text-white bg-zinc-900/90 border border-blue-400 rounded outline-none"
+                />
+              ) : (
+                <div
+                  className={`w-full text-xs text-center text-white break-words leading-tight ${isSelected ? '' : 'line-clamp-2'}`}
+                  style={{ textShadow: '0 1px 3px rgba(0, 0, 0, 0.8)' }}
+                >
+                  {item.name}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {band && (
+          <div
+            className="absolute border border-blue-400 bg-blue-500/20 pointer-events-none"
+            style={{
+              left: Math.min(band.startX, band.x),
+              top: Math.min(band.startY, band.y),
+              width: Math.abs(band.x - band.startX),
+              height: Math.abs(band.y - band.startY),
+            }}
+          />
+        )}
+      </div>
+
+      <ContextMenu items={menuItems} position={menu ?? { x: 0, y: 0 }} visible={!!menu} onClose={() => setMenu(null)} />
+    </>
+  );
+};
+
+export default DesktopIcons;
@@ -1,8 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useWindowStore } from '../store/windowStore';
-import Files from '../apps/Files';
-import Terminal from '../apps/Terminal';
-import Settings from '../apps/Settings';
+import { launchApp } from '../registry/appRegistry';
 
 interface WidgetProps {
   title: string;
@@ -210,39 +207,8 @@ const WeatherWidget: React.FC = () => {
 };
 
 const QuickActionsWidget: React.FC = () => {
-  const { openWindow } = useWindowStore();
-
-  const handleOpenApp = (appName: string) => {
-    const apps = {
-      'Files': () => openWindow('files', { 
-        title: 'Files', 
-        content: <Files />, 
-        top: 100, 
-        left: 100, 
-        width: 1000, 
-        height: 700 
-      }),
-      'Terminal': () => openWindow('terminal', { 
-        title: 'Terminal', 
-        content: <Terminal />, 
-        top: 120, 
-        left: 120, 
-        width: 800, 
-        height: 500 
-      }),
-      'Settings': () => openWindow('settings', { 
-        title: 'Settings', 
-        content: <Settings />, 
-        top: 80, 
-        left: 80, 
-        width: 900, 
-        height: 600 
-      }),
-    };
-    
-    if (apps[appName as keyof typeof apps]) {
-      apps[appName as keyof typeof apps]();
-    }
+  const handleOpenApp = (appId: string) => {
+    launchApp(appId);
   };
 
   const ActionButton = ({ icon, label, onClick }: { icon: string; label: string; onClick: () => void }) => (
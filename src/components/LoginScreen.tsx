@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Eye, EyeOff, User, Mail, Lock, Loader2 } from 'lucide-react';
 import useAuthStore from '../stores/authStore';
+import { ENV } from '../config/environment';
 
 interface LoginScreenProps {
   onAuthenticated: () => void;
@@ -21,7 +22,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onAuthenticated }) => {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [currentTime, setCurrentTime] = useState(new Date());
 
-  const { login, register, isLoading, error, clearError, isAuthenticated } = useAuthStore();
+  const { login, register, loginAsGuest, isLoading, error, clearError, isAuthenticated } = useAuthStore();
 
   // Update time every second
   useEffect(() => {
@@ -391,6 +392,18 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onAuthenticated }) => {
           </button>
         </form>
 
+        {/* Files kept in this browser need no account */}
+        {ENV.vfsBackend !== 'remote' && (
+          <button
+            type="button"
+            onClick={loginAsGuest}
+            disabled={isLoading}
+            className="w-full mt-4 border border-gray-600 hover:border-gray-400 text-gray-300 hover:text-white font-medium py-3 px-4 rounded-lg transition-all duration-200 disabled:cursor-not-allowed"
+          >
+            Continue as Guest
+          </button>
+        )}
+
         {/* Professional Footer */}
         <div className="mt-8 text-center text-gray-400 text-sm">
           {isLogin ? (
@@ -1,147 +1,104 @@
 import React, { useState, useEffect } from 'react';
 import { useWindowStore } from '../store/windowStore';
-import { getAppConfig } from '../registry/appRegistry';
+import { getAppConfig, launchApp, DOCK_APPS } from '../registry/appRegistry';
 import { UbuntuIcon } from './UbuntuIcon';
 import type { IconType } from './UbuntuIcon';
-import Terminal from '../apps/Terminal';
-import Files from '../apps/Files';
-import Calculator from '../apps/Calculator';
-import Settings from '../apps/Settings';
-import TextEditor from '../apps/TextEditor';
-import Browser from '../apps/Browser';
-import IconDemoApp from '../apps/IconDemoApp';
-import CodeEditor from '../apps/CodeEditor';
+import { vfsSyncService } from '../services/vfsSyncService';
+import { getDraggedFiles, hasDraggedFiles, trashFiles } from '../services/fileDrag';
+import { notificationService } from '../services/notificationService';
+import { TRASH_PATH } from '../utils/helpers';
 
 interface DockItem {
   id: string;
   name: string;
   icon: IconType;
+  allowMultiple: boolean;
 }
 
-// App component mapping
-const createAppComponent = (appName: string, windowId?: string, props?: any) => {
-  switch (appName) {
-    case 'Files':
-      return <Files 
-        {...props} 
-        windowId={windowId}
-        onOpenFile={(fileName: string, filePath: string, content: string) => {
-          const { openWindow } = useWindowStore.getState();
-          const appConfig = getAppConfig('CodeEditor');
-          
-          if (appConfig) {
-            openWindow(`CodeEditor-${filePath}`, {
-              title: `${appConfig.name} - ${fileName}`,
-              content: <CodeEditor filePath={filePath} initialContent={content} fileName={fileName} />,
-              width: appConfig.width || 1200,
-              height: appConfig.height || 800,
-              top: 120 + Math.random() * 100,
-              left: 120 + Math.random() * 100,
-            });
-          }
+/**
+ * Opens the trash in Files, and deletes the files dropped on it. The icon
+ * shows whether the trash is empty.
+ */
+const DockTrash: React.FC = () => {
+  const [isEmpty, setIsEmpty] = useState(true);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  useEffect(() => {
+    const update = () => {
+      vfsSyncService.listTrash()
+        .then(listing => setIsEmpty(listing.items.length === 0))
+        .catch(error => console.error('❌ Failed to check the Trash:', error));
+    };
+    update();
+    return vfsSyncService.onTrashChange(update);
+  }, []);
+
+  const handleDrop = async (event: React.DragEvent) => {
+    if (!hasDraggedFiles(event.dataTransfer)) return;
+    event.preventDefault();
+    setIsDropTarget(false);
+    const result = await trashFiles(getDraggedFiles(event.dataTransfer), 'dock');
+    if (result.errors.length > 0) {
+      notificationService.show({ title: 'Could not move to the Trash', message: result.errors[0], type: 'error' });
+    }
+  };
+
+  return (
+    <div className="relative group">
+      <button
+        onClick={() => launchApp('Files', { filePath: TRASH_PATH }, { title: 'Trash', instanceKey: `Files-${TRASH_PATH}` })}
+        onDragOver={(e) => {
+          if (!hasDraggedFiles(e.dataTransfer)) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = 'move';
+          setIsDropTarget(true);
         }}
-      />;
-    case 'Terminal':
-      return <Terminal {...props} windowId={windowId} />;
-    case 'Calculator':
-      return <Calculator {...props} windowId={windowId} />;
-    case 'Settings':
-      return <Settings {...props} windowId={windowId} />;
-    case 'CodeEditor':
-      return <CodeEditor {...props} windowId={windowId} />;
-    case 'TextEditor':
-      return <TextEditor {...props} windowId={windowId} />;
-    case 'Text Editor':
-      return <TextEditor {...props} windowId={windowId} />;
-    case 'Browser':
-      return <Browser {...props} windowId={windowId} />;
-    case 'IconDemo':
-      return <IconDemoApp {...props} windowId={windowId} />;
-    default:
-      return <div className="p-4">App not found: {appName}</div>;
-  }
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={handleDrop}
+        className={`dock-item
+          flex items-center justify-center w-16 h-16 rounded-xl
+          transition-all duration-200 ease-out
+          hover:scale-110 hover:-translate-y-1 hover:bg-white/10
+          ${isDropTarget ? 'bg-white/20 scale-110' : ''}
+        `}
+      >
+        <UbuntuIcon
+          name={isEmpty ? 'trash-empty' : 'trash-full'}
+          size="w-10 h-10"
+          className="filter drop-shadow-sm"
+          alt="Trash"
+        />
+      </button>
+
+      {/* Trash tooltip */}
+      <div className="absolute bottom-full mb-2 left-1/2 transform -translate-x-1/2 
+        bg-gray-900 text-white text-xs px-2 py-1 rounded whitespace-nowrap pointer-events-none z-10
+        opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+        {isEmpty ? 'Trash' : 'Trash (not empty)'}
+        <div className="absolute top-full left-1/2 transform -translate-x-1/2 
+          border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-900"></div>
+      </div>
+    </div>
+  );
 };
 
 const MacDock: React.FC = () => {
-  const { windows, openWindow, focusWindow } = useWindowStore();
+  const { windows, focusWindow } = useWindowStore();
   const [autoHide, setAutoHide] = useState(false);
   const [isHidden, setIsHidden] = useState(false);
   const [hoveredApp, setHoveredApp] = useState<string | null>(null);
   const [showMinimizedList, setShowMinimizedList] = useState<string | null>(null);
 
-  const dockItems: DockItem[] = [
-    { id: 'Files', name: 'Files', icon: 'file-manager' },
-    { id: 'Terminal', name: 'Terminal', icon: 'terminal' },
-    { id: 'CodeEditor', name: 'Code Editor', icon: 'file' },
-    { id: 'Calculator', name: 'Calculator', icon: 'calculator' },
-    { id: 'Browser', name: 'Browser', icon: 'browser' },
-    { id: 'Settings', name: 'Settings', icon: 'settings' },
-    { id: 'IconDemo', name: 'Icon Gallery', icon: 'palette' },
-  ];
+  const dockItems: DockItem[] = DOCK_APPS.flatMap(appId => {
+    const appConfig = getAppConfig(appId);
+    return appConfig?.dockIcon
+      ? [{ id: appId, name: appConfig.name, icon: appConfig.dockIcon, allowMultiple: appConfig.allowMultiple }]
+      : [];
+  });
 
+  // Multi-instance apps get a new window, others are focused or opened
   const handleAppClick = (appId: string) => {
-    // Apps that support multiple instances
-    const multiInstanceApps = ['Terminal', 'Files', 'TextEditor', 'CodeEditor'];
-    const supportsMultiple = multiInstanceApps.includes(appId);
-    
-    // Find all windows for this app (including minimized for single-instance apps)
-    const appWindows = windows.filter((w: any) => w.app === appId);
-    const visibleAppWindows = appWindows.filter((w: any) => !w.isMinimized);
-    
-    if (appWindows.length === 0) {
-      // No windows exist, create new one
-      const appConfig = getAppConfig(appId);
-      
-      if (appConfig) {
-        const windowId = openWindow(appId, {
-          title: appConfig.name,
-          content: null, // Temporary placeholder
-          width: appConfig.width || 800,
-          height: appConfig.height || 600,
-          top: 100 + Math.random() * 200,
-          left: 100 + Math.random() * 200,
-          allowMultiple: supportsMultiple,
-        });
-        
-        // Update with the actual component now that we have the window ID
-        const { updateWindowContent } = useWindowStore.getState();
-        updateWindowContent(windowId, createAppComponent(appId, windowId));
-      }
-    } else if (supportsMultiple) {
-      // For multi-instance apps, always create a new window
-      const appConfig = getAppConfig(appId);
-      
-      if (appConfig) {
-        const windowId = openWindow(appId, {
-          title: `${appConfig.name} ${appWindows.length + 1}`,
-          content: null, // Temporary placeholder
-          width: appConfig.width || 800,
-          height: appConfig.height || 600,
-          top: 100 + Math.random() * 200,
-          left: 100 + Math.random() * 200,
-          allowMultiple: true,
-        });
-        
-        // Update with the actual component now that we have the window ID
-        const { updateWindowContent } = useWindowStore.getState();
-        updateWindowContent(windowId, createAppComponent(appId, windowId));
-      }
-    } else {
-      // For single-instance apps, restore/focus existing window
-      if (visibleAppWindows.length > 0) {
-        // Focus the most recent visible window
-        const mostRecentWindow = visibleAppWindows.reduce((latest, current) => 
-          (current.zIndex || 0) > (latest.zIndex || 0) ? current : latest
-        );
-        focusWindow(mostRecentWindow.id);
-      } else {
-        // All windows are minimized, restore the most recent one
-        const mostRecentWindow = appWindows.reduce((latest, current) => 
-          (current.zIndex || 0) > (latest.zIndex || 0) ? current : latest
-        );
-        focusWindow(mostRecentWindow.id); // This should also unminimize
-      }
-    }
+    launchApp(appId);
   };
 
   // Auto-hide functionality
@@ -175,11 +132,11 @@ const MacDock: React.FC = () => {
   }, [autoHide]);
 
   const getRunningApps = () => {
-    return [...new Set(windows.filter(w => w.isVisible).map(w => w.app))];
+    return [...new Set(windows.filter(w => w.isVisible).map(w => w.appId))];
   };
 
   const getMinimizedWindows = (appId: string) => {
-    return windows.filter(w => w.app === appId && w.isMinimized && w.isVisible);
+    return windows.filter(w => w.appId === appId && w.isMinimized && w.isVisible);
   };
 
   const runningApps = getRunningApps();
@@ -272,21 +229,8 @@ const MacDock: React.FC = () => {
                   onContextMenu={(e) => {
                     e.preventDefault();
                     // Right-click always creates a new instance for multi-instance apps
-                    const multiInstanceApps = ['Terminal', 'Files', 'TextEditor', 'CodeEditor'];
-                    if (multiInstanceApps.includes(item.id)) {
-                      const appConfig = getAppConfig(item.id);
-                      if (appConfig) {
-                        const existingWindows = windows.filter((w: any) => w.app === item.id);
-                        openWindow(item.id, {
-                          title: `${appConfig.name} ${existingWindows.length + 1}`,
-                          content: createAppComponent(item.id),
-                          width: appConfig.width || 800,
-                          height: appConfig.height || 600,
-                          top: 100 + Math.random() * 200,
-                          left: 100 + Math.random() * 200,
-                          allowMultiple: true,
-                        });
-                      }
+                    if (item.allowMultiple) {
+                      launchApp(item.id);
                     }
                   }}
                   className={`dock-item
@@ -312,9 +256,8 @@ const MacDock: React.FC = () => {
                 {isRunning && (
                   <div className="absolute -bottom-1 left-1/2 transform -translate-x-1/2">
                     {(() => {
-                      const multiInstanceApps = ['Terminal', 'Files', 'TextEditor', 'CodeEditor'];
-                      const isMultiInstance = multiInstanceApps.includes(item.id);
-                      const instanceCount = windows.filter((w: any) => w.app === item.id && w.isVisible).length;
+                      const isMultiInstance = item.allowMultiple;
+                      const instanceCount = windows.filter(w => w.appId === item.id && w.isVisible).length;
                       
                       if (isMultiInstance && instanceCount > 1) {
                         return (
@@ -340,9 +283,8 @@ const MacDock: React.FC = () => {
                     bg-gray-900 text-white text-xs px-2 py-1 rounded whitespace-nowrap pointer-events-none z-10
                     animate-in fade-in-0 zoom-in-95 duration-200">
                     {(() => {
-                      const multiInstanceApps = ['Terminal', 'Files', 'TextEditor', 'CodeEditor'];
-                      const isMultiInstance = multiInstanceApps.includes(item.id);
-                      const instanceCount = windows.filter((w: any) => w.app === item.id && w.isVisible).length;
+                      const isMultiInstance = item.allowMultiple;
+                      const instanceCount = windows.filter(w => w.appId === item.id && w.isVisible).length;
                       
                       if (hasMinimized) {
                         return `${item.name} (${minimizedWindows.length} minimized) • Click to restore`;
@@ -391,6 +333,8 @@ const MacDock: React.FC = () => {
                 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-900"></div>
             </div>
           </div>
+
+          <DockTrash />
         </div>
       </div>
     </div>
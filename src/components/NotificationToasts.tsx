@@ -0,0 +1,93 @@
+import React, { useSyncExternalStore } from 'react';
+import { notificationService } from '../services/notificationService';
+import type { NotificationType } from '../services/notificationService';
+import { TOP_BAR_HEIGHT } from '../utils/windowLayout';
+
+const ACCENT_COLORS: Record<NotificationType, string> = {
+  info: '#60a5fa',
+  success: '#4ade80',
+  warning: '#facc15',
+  error: '#f87171',
+};
+
+const DEFAULT_ICONS: Record<NotificationType, string> = {
+  info: 'ℹ️',
+  success: '✅',
+  warning: '⚠️',
+  error: '❌',
+};
+
+const subscribe = (listener: () => void) => notificationService.onChange(listener);
+const getNotifications = () => notificationService.getNotifications();
+
+const NotificationToasts: React.FC = () => {
+  const notifications = useSyncExternalStore(subscribe, getNotifications);
+
+  if (notifications.length === 0) return null;
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: TOP_BAR_HEIGHT + 12,
+        right: '16px',
+        zIndex: 10003,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        width: '340px',
+      }}
+    >
+      {notifications.map(notification => (
+        <div
+          key={notification.id}
+          role="status"
+          style={{
+            display: 'flex',
+            gap: '12px',
+            padding: '12px 14px',
+            borderRadius: '12px',
+            backgroundColor: 'rgba(30, 30, 30, 0.92)',
+            backdropFilter: 'blur(20px)',
+            WebkitBackdropFilter: 'blur(20px)',
+            boxShadow: '0 10px 30px rgba(0, 0, 0, 0.4)',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            borderLeft: `3px solid ${ACCENT_COLORS[notification.type]}`,
+            color: 'white',
+          }}
+        >
+          <span style={{ fontSize: '20px', lineHeight: '24px' }}>{notification.icon ?? DEFAULT_ICONS[notification.type]}</span>
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div style={{ fontSize: '14px', fontWeight: 600 }}>{notification.title}</div>
+            {notification.message && (
+              <div style={{ fontSize: '13px', color: 'rgba(255, 255, 255, 0.75)', marginTop: '2px', wordBreak: 'break-word' }}>
+                {notification.message}
+              </div>
+            )}
+            {notification.source && (
+              <div style={{ fontSize: '11px', color: 'rgba(255, 255, 255, 0.45)', marginTop: '4px' }}>
+                {notification.source}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => notificationService.dismiss(notification.id)}
+            title="Dismiss"
+            style={{
+              alignSelf: 'flex-start',
+              background: 'none',
+              border: 'none',
+              color: 'rgba(255, 255, 255, 0.6)',
+              fontSize: '16px',
+              cursor: 'pointer',
+            }}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default NotificationToasts;
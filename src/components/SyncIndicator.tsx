@@ -0,0 +1,51 @@
+import React, { useSyncExternalStore } from 'react';
+import { vfsSyncService } from '../services/vfsSyncService';
+
+const subscribe = (listener: () => void) => vfsSyncService.onSyncStatusChange(listener);
+const getSyncStatus = () => vfsSyncService.getSyncStatus();
+
+/**
+ * Top bar item telling whether files are saved on the server. Clicking it
+ * while offline retries the connection.
+ */
+const SyncIndicator: React.FC = () => {
+  const { online, pending, syncing } = useSyncExternalStore(subscribe, getSyncStatus);
+
+  // Files kept in this browser are always saved
+  if (vfsSyncService.getBackendKind() !== 'remote') return null;
+
+  let icon = '☁️';
+  let label = '';
+  let title = 'Online, all changes are saved';
+  if (!online) {
+    icon = '📴';
+    label = pending > 0 ? `Offline · ${pending}` : 'Offline';
+    title = `Offline, ${pending} change(s) waiting to be sent. Click to retry.`;
+  } else if (pending > 0) {
+    icon = '🔄';
+    label = `${pending}`;
+    title = syncing ? `Sending ${pending} change(s) made offline` : `${pending} change(s) waiting to be sent`;
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+        fontSize: '12px',
+        cursor: online ? 'default' : 'pointer',
+        opacity: online && pending === 0 ? 0.7 : 1,
+      }}
+      onClick={() => {
+        if (!online) vfsSyncService.reconnect();
+      }}
+      title={title}
+    >
+      <span>{icon}</span>
+      {label && <span>{label}</span>}
+    </div>
+  );
+};
+
+export default SyncIndicator;
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useWindowStore } from '../store/windowStore';
+import { getAppConfig } from '../registry/appRegistry';
 
 const TaskBar: React.FC = () => {
   const { windows, focusWindow, closeWindow } = useWindowStore();
@@ -13,18 +14,8 @@ const TaskBar: React.FC = () => {
     return null;
   }
 
-  const getAppIcon = (app: string) => {
-    const icons: { [key: string]: string } = {
-      'Files': '📁',
-      'Terminal': '💻',
-      'Settings': '⚙️',
-      'Calculator': '🧮',
-      'TextEditor': '📝',
-      'Text Editor': '📝',
-      'Browser': '🌐',
-      'Media Player': '🎵',
-    };
-    return icons[app] || '📱';
+  const getAppIcon = (appId: string) => {
+    return getAppConfig(appId)?.icon ?? '📱';
   };
 
   const restoreWindow = (windowId: string) => {
@@ -70,7 +61,7 @@ const TaskBar: React.FC = () => {
               >
                 {/* App Icon */}
                 <div className="w-8 h-8 flex items-center justify-center text-lg">
-                  {getAppIcon(window.app)}
+                  {getAppIcon(window.appId)}
                 </div>
 
                 {/* Window Info */}
@@ -4,11 +4,11 @@ import { ThemeManager } from '../utils/wallpaperManager';
 import useAuthStore from '../stores/authStore';
 import AuthModal from './AuthModal';
 import UserProfile from './UserProfile';
-import Settings from '../apps/Settings';
-import Files from '../apps/Files';
-import Terminal from '../apps/Terminal';
-import TextEditorEnhanced from '../apps/TextEditor';
-import Calculator from '../apps/Calculator';
+import SyncIndicator from './SyncIndicator';
+import { useKeybindings, useKeybindingLabels } from '../hooks/useKeybindings';
+import type { KeybindingCommandId } from '../registry/keybindingRegistry';
+import { keybindingService } from '../services/keybindingService';
+import { launchApp } from '../registry/appRegistry';
 
 interface TopBarProps {}
 
@@ -21,8 +21,9 @@ const TopBar: React.FC<TopBarProps> = () => {
   const [showControlCenter, setShowControlCenter] = useState(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [showUserProfile, setShowUserProfile] = useState(false);
-  const { openWindow } = useWindowStore();
+  const { tilingLayout, setTilingLayout, windows, workspaces, activeWorkspaceId, switchWorkspace } = useWindowStore();
   const { user, isAuthenticated, logout } = useAuthStore();
+  const label = useKeybindingLabels();
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -68,55 +69,17 @@ const TopBar: React.FC<TopBarProps> = () => {
     });
   };
 
-  const handleOpenApp = (appName: string) => {
-    const apps = {
-      'Settings': () => openWindow('settings', { 
-        title: 'Settings', 
-        content: <Settings />, 
-        top: 100, 
-        left: 100, 
-        width: 900, 
-        height: 600 
-      }),
-      'Files': () => openWindow('files', { 
-        title: 'Files', 
-        content: <Files />, 
-        top: 120, 
-        left: 120, 
-        width: 1000, 
-        height: 700 
-      }),
-      'Terminal': () => openWindow('terminal', { 
-        title: 'Terminal', 
-        content: <Terminal />, 
-        top: 140, 
-        left: 140, 
-        width: 800, 
-        height: 500 
-      }),
-      'TextEditor': () => openWindow('texteditor', { 
-        title: 'Text Editor', 
-        content: <TextEditorEnhanced />, 
-        top: 160, 
-        left: 160, 
-        width: 900, 
-        height: 600 
-      }),
-      'Calculator': () => openWindow('calculator', { 
-        title: 'Calculator', 
-        content: <Calculator />, 
-        top: 180, 
-        left: 180, 
-        width: 320, 
-        height: 480 
-      }),
-    };
-    
-    if (apps[appName as keyof typeof apps]) {
-      apps[appName as keyof typeof apps]();
-    }
+  const handleOpenApp = (appId: string) => {
+    launchApp(appId);
   };
 
+  // The shortcuts of the File menu
+  useKeybindings({
+    'apps.openFiles': () => handleOpenApp('Files'),
+    'apps.newDocument': () => handleOpenApp('TextEditor'),
+    'apps.openTerminal': () => handleOpenApp('Terminal'),
+  });
+
   const handleRestart = () => {
     if (confirm('Are you sure you want to restart Weave OS?')) {
       window.location.reload();
@@ -280,10 +243,10 @@ const TopBar: React.FC<TopBarProps> = () => {
               
               {showFileMenu && (
                 <DropdownMenu>
-                  <MenuItem onClick={() => handleOpenApp('Files')} shortcut="⌘O">Open Files</MenuItem>
-                  <MenuItem onClick={() => handleOpenApp('TextEditor')} shortcut="⌘N">New Document</MenuItem>
+                  <MenuItem onClick={() => handleOpenApp('Files')} shortcut={label('apps.openFiles')}>Open Files</MenuItem>
+                  <MenuItem onClick={() => handleOpenApp('TextEditor')} shortcut={label('apps.newDocument')}>New Document</MenuItem>
                   <div style={{ height: '1px', backgroundColor: 'var(--border-color)', margin: '8px 0' }} />
-                  <MenuItem onClick={() => handleOpenApp('Terminal')} shortcut="⌘T">Open Terminal</MenuItem>
+                  <MenuItem onClick={() => handleOpenApp('Terminal')} shortcut={label('apps.openTerminal')}>Open Terminal</MenuItem>
                 </DropdownMenu>
               )}
             </div>
@@ -321,6 +284,16 @@ const TopBar: React.FC<TopBarProps> = () => {
                   <MenuItem onClick={handleThemeToggle}>Toggle Theme</MenuItem>
                   <MenuItem onClick={() => handleOpenApp('Calculator')}>Calculator</MenuItem>
                   <div style={{ height: '1px', backgroundColor: 'var(--border-color)', margin: '8px 0' }} />
+                  <MenuItem onClick={() => setTilingLayout('master-stack')} shortcut={label('desktop.cycleTiling')}>
+                    {tilingLayout === 'master-stack' ? '✓ ' : ''}Tile: Master and Stack
+                  </MenuItem>
+                  <MenuItem onClick={() => setTilingLayout('grid')}>
+                    {tilingLayout === 'grid' ? '✓ ' : ''}Tile: Grid
+                  </MenuItem>
+                  <MenuItem onClick={() => setTilingLayout(null)}>
+                    {tilingLayout === null ? '✓ ' : ''}Floating Windows
+                  </MenuItem>
+                  <div style={{ height: '1px', backgroundColor: 'var(--border-color)', margin: '8px 0' }} />
                   <MenuItem onClick={() => handleOpenApp('Settings')}>Preferences</MenuItem>
                 </DropdownMenu>
               )}
@@ -330,6 +303,53 @@ const TopBar: React.FC<TopBarProps> = () => {
 
         {/* Right side - System indicators */}
         <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+          {/* Command palette */}
+          <button
+            onClick={(e) => { e.stopPropagation(); keybindingService.execute('desktop.commandPalette'); }}
+            style={{
+              background: 'none',
+              border: 'none',
+              color: 'var(--text-primary)',
+              fontSize: '13px',
+              cursor: 'pointer',
+              padding: '2px 4px',
+            }}
+            title={`Search${label('desktop.commandPalette') ? ` (${label('desktop.commandPalette')})` : ''}`}
+          >
+            🔍
+          </button>
+
+          {/* Workspace switcher */}
+          <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            {workspaces.map((workspace, index) => {
+              const isActive = workspace.id === activeWorkspaceId;
+              const windowCount = windows.filter(w => w.isVisible && w.workspaceId === workspace.id).length;
+              const shortcut = index < 9 ? label(`workspace.switchTo${index + 1}` as KeybindingCommandId) : '';
+              return (
+                <button
+                  key={workspace.id}
+                  onClick={(e) => { e.stopPropagation(); switchWorkspace(workspace.id); }}
+                  style={{
+                    minWidth: '20px',
+                    height: '18px',
+                    borderRadius: '4px',
+                    border: isActive ? 'none' : '1px solid var(--border-color)',
+                    backgroundColor: isActive ? 'var(--accent-color)' : 'transparent',
+                    color: isActive ? 'white' : 'var(--text-primary)',
+                    fontSize: '11px',
+                    fontWeight: windowCount > 0 ? '600' : '400',
+                    opacity: isActive || windowCount > 0 ? 1 : 0.6,
+                    cursor: 'pointer',
+                    padding: '0 4px',
+                  }}
+                  title={`${workspace.name} (${windowCount} window${windowCount !== 1 ? 's' : ''})${shortcut ? ` - ${shortcut}` : ''}`}
+                >
+                  {index + 1}
+                </button>
+              );
+            })}
+          </div>
+
           {/* User Authentication Area */}
           {isAuthenticated && user ? (
             <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
@@ -575,6 +595,9 @@ const TopBar: React.FC<TopBarProps> = () => {
             )}
           </div>
 
+          {/* Sync status of the files */}
+          <SyncIndicator />
+
           {/* Battery */}
           <div style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '12px' }}>
             <span>🔋</span>
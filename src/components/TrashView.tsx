@@ -0,0 +1,222 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import ContextMenu from './ContextMenu';
+import { vfsSyncService } from '../services/vfsSyncService';
+import type { TrashItem, TrashListing } from '../services/vfsSyncService';
+import { getDraggedFiles, hasDraggedFiles, trashFiles } from '../services/fileDrag';
+import { formatBytes, formatDateShort, generateUniqueFileName } from '../utils/helpers';
+import { getFileIcon } from '../utils/fileIcons';
+
+interface TrashViewProps {
+  onNotify: (message: string, type: 'success' | 'error') => void;
+}
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+/**
+ * The Trash location of Files: deleted items with the folder they came
+ * from, to restore or delete for good
+ */
+const TrashView: React.FC<TrashViewProps> = ({ onNotify }) => {
+  // null while loading
+  const [listing, setListing] = useState<TrashListing | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [menu, setMenu] = useState<{ x: number; y: number } | null>(null);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const next = await vfsSyncService.listTrash();
+      setListing(next);
+      // Keep the selection of items that are still there
+      setSelected(current => new Set(next.items.filter(item => current.has(item.id)).map(item => item.id)));
+    } catch (error) {
+      console.error('❌ Failed to load the Trash:', error);
+      setListing({ items: [], retentionDays: 0 });
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    return vfsSyncService.onTrashChange(load);
+  }, [load]);
+
+  const items = listing?.items ?? [];
+  const selectedItems = items.filter(item => selected.has(item.id));
+
+  // Put an item back, under a new name when another one took its place
+  const restoreItem = async (item: TrashItem): Promise<boolean> => {
+    const siblings = await vfsSyncService.listDir(item.originalPath).catch(() => []);
+    const names = siblings.map(sibling => sibling.name);
+    let newName: string | undefined;
+    if (names.includes(item.name)) {
+      newName = generateUniqueFileName(item.name, names);
+      if (!confirm(`An item named "${item.name}" already exists in ${item.originalPath}. Restore this one as "${newName}"?`)) {
+        return false;
+      }
+    }
+    await vfsSyncService.restoreFromTrash(item, newName);
+    return true;
+  };
+
+  const restoreItems = async (toRestore: TrashItem[]) => {
+    let restored = 0;
+    for (const item of toRestore) {
+      try {
+        if (await restoreItem(item)) restored++;
+      } catch (error) {
+        onNotify(`Failed to restore ${item.name}: ${getErrorMessage(error)}`, 'error');
+        return;
+      }
+    }
+    if (restored > 0) onNotify(`Restored ${restored} item(s)`, 'success');
+  };
+
+  const deleteItems = async (toDelete: TrashItem[]) => {
+    if (toDelete.length === 0 || !confirm(`Delete ${toDelete.length} item(s) permanently? This cannot be undone.`)) return;
+    try {
+      for (const item of toDelete) {
+        await vfsSyncService.deleteFromTrash(item);
+      }
+      onNotify(`Deleted ${toDelete.length} item(s) permanently`, 'success');
+    } catch (error) {
+      onNotify(`Failed to delete: ${getErrorMessage(error)}`, 'error');
+    }
+  };
+
+  const emptyTrash = async () => {
+    if (!confirm(`Permanently delete all ${items.length} item(s) in the Trash? This cannot be undone.`)) return;
+    try {
+      await vfsSyncService.emptyTrash();
+      onNotify('Emptied the Trash', 'success');
+    } catch (error) {
+      onNotify(`Failed to empty the Trash: ${getErrorMessage(error)}`, 'error');
+    }
+  };
+
+  const handleItemClick = (item: TrashItem, event: React.MouseEvent) => {
+    if (event.ctrlKey || event.metaKey) {
+      const next = new Set(selected);
+      if (!next.delete(item.id)) next.add(item.id);
+      setSelected(next);
+    } else {
+      setSelected(new Set([item.id]));
+    }
+  };
+
+  // Files dragged here from Files windows and the desktop are deleted
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!hasDraggedFiles(event.dataTransfer)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    setIsDropTarget(true);
+  };
+
+  const handleDrop = async (event: React.DragEvent) => {
+    if (!hasDraggedFiles(event.dataTransfer)) return;
+    event.preventDefault();
+    setIsDropTarget(false);
+    const result = await trashFiles(getDraggedFiles(event.dataTransfer), 'filemanager');
+    if (result.errors.length > 0) onNotify(result.errors[0], 'error');
+  };
+
+  const menuItems = [
+    { id: 'restore', label: 'Put Back', icon: '↩️', action: () => restoreItems(selectedItems) },
+    { id: 'separator', label: '', separator: true, action: () => {} },
+    { id: 'delete', label: 'Delete Permanently', icon: '❌', action: () => deleteItems(selectedItems) },
+  ];
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Trash Controls */}
+      <div className="bg-theme-bg-secondary border-b border-theme-border px-4 py-2 flex items-center gap-2">
+        <button
+          onClick={() => restoreItems(selectedItems)}
+          disabled={selectedItems.length === 0}
+          className="px-3 py-1 rounded text-sm text-theme-text-primary bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Put Back
+        </button>
+        <button
+          onClick={() => deleteItems(selectedItems)}
+          disabled={selectedItems.length === 0}
+          className="px-3 py-1 rounded text-sm text-red-400 hover:bg-red-500/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Delete Permanently
+        </button>
+        {listing && listing.retentionDays > 0 && (
+          <span className="text-theme-text-muted text-sm ml-2">
+            Items are deleted permanently after {listing.retentionDays} days
+          </span>
+        )}
+        <button
+          onClick={emptyTrash}
+          disabled={items.length === 0}
+          className="ml-auto px-3 py-1 rounded text-sm text-red-400 border border-red-400/40 hover:bg-red-500/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Empty Trash
+        </button>
+      </div>
+
+      {/* Trashed items, a drop target for deleting files */}
+      <div
+        className={`flex-1 p-4 overflow-auto ${isDropTarget ? 'bg-red-500/10 ring-2 ring-inset ring-red-400/50' : ''}`}
+        onClick={(e) => {
+          if (e.target === e.currentTarget) setSelected(new Set());
+        }}
+        onDragOver={handleDragOver}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDropTarget(false);
+        }}
+        onDrop={handleDrop}
+      >
+        {!listing ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="text-white/70">Loading...</div>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="text-white/70">The Trash is empty</div>
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <div className="px-2 flex items-center gap-3 text-xs text-white/50">
+              <div className="w-6" />
+              <div className="flex-1">Name</div>
+              <div className="w-48">Original Location</div>
+              <div className="w-20 text-right">Size</div>
+              <div className="w-40 text-right">Date Deleted</div>
+            </div>
+            {items.map(item => (
+              <div
+                key={item.id}
+                onClick={(e) => handleItemClick(item, e)}
+                onDoubleClick={() => restoreItems([item])}
+                onContextMenu={(e) => {
+                  e.preventDefault();
+                  if (!selected.has(item.id)) setSelected(new Set([item.id]));
+                  setMenu({ x: e.clientX, y: e.clientY });
+                }}
+                className={`p-2 flex items-center gap-3 cursor-pointer transition-all rounded-lg border ${
+                  selected.has(item.id) ? 'bg-blue-500/20 border-blue-400/50' : 'hover:bg-white/5 border-transparent'
+                }`}
+                title="Double-click to put back"
+              >
+                <div className="w-6 text-xl">{getFileIcon(item)}</div>
+                <div className="flex-1 font-medium truncate text-theme-text-primary">{item.name}</div>
+                <div className="w-48 text-sm text-white/50 truncate">{item.originalPath}</div>
+                <div className="w-20 text-sm text-white/50 text-right">
+                  {item.type === 'file' ? formatBytes(item.size) : 'Folder'}
+                </div>
+                <div className="w-40 text-sm text-white/50 text-right">{formatDateShort(item.deletedAt)}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ContextMenu items={menuItems} position={menu ?? { x: 0, y: 0 }} visible={!!menu} onClose={() => setMenu(null)} />
+    </div>
+  );
+};
+
+export default TrashView;
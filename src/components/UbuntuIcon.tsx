@@ -15,6 +15,8 @@ import desktopIcon from '../assets/icons/desktop.svg';
 import calculatorIcon from '../assets/icons/calculator.svg';
 import mediaPlayerIcon from '../assets/icons/media-player.svg';
 import paletteIcon from '../assets/icons/palette.svg';
+import trashEmptyIcon from '../assets/icons/trash-empty.svg';
+import trashFullIcon from '../assets/icons/trash-full.svg';
 
 // Define available icon types
 export type IconType = 
@@ -31,7 +33,9 @@ export type IconType =
   | 'desktop'
   | 'calculator'
   | 'media-player'
-  | 'palette';
+  | 'palette'
+  | 'trash-empty'
+  | 'trash-full';
 
 // Icon mapping object
 const iconMap: Record<IconType, string> = {
@@ -49,6 +53,8 @@ const iconMap: Record<IconType, string> = {
   'calculator': calculatorIcon,
   'media-player': mediaPlayerIcon,
   'palette': paletteIcon,
+  'trash-empty': trashEmptyIcon,
+  'trash-full': trashFullIcon,
 };
 
 interface UbuntuIconProps {
@@ -1,5 +1,12 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { UbuntuIcon } from './UbuntuIcon';
+import ContextMenu from './ContextMenu';
+import { getSnapBounds, getSnapZoneAt } from '../utils/windowLayout';
+import type { SnapZone, WindowBounds } from '../utils/windowLayout';
+import type { Workspace } from '../store/windowStore';
+
+// Pixels the pointer must move before a title bar press becomes a drag
+const DRAG_THRESHOLD = 4;
 
 interface WindowProps {
   id: string;
@@ -16,6 +23,15 @@ interface WindowProps {
   isMinimized?: boolean;
   isFullscreen?: boolean;
   onToggleFullscreen: (id: string) => void;
+  snap?: SnapZone;
+  restoreBounds?: WindowBounds;
+  onBoundsChange?: (id: string, bounds: WindowBounds) => void;
+  onSnap?: (id: string, zone: SnapZone | null) => void;
+  onToggleMaximize?: (id: string) => void;
+  isHidden?: boolean; // On another workspace: kept mounted so the app keeps its state
+  workspaceId?: string;
+  workspaces?: Workspace[];
+  onMoveToWorkspace?: (id: string, workspaceId: string) => void;
 }
 
 const Window: React.FC<WindowProps> = ({
@@ -33,6 +49,15 @@ const Window: React.FC<WindowProps> = ({
   isMinimized = false,
   isFullscreen = false,
   onToggleFullscreen,
+  snap,
+  restoreBounds,
+  onBoundsChange,
+  onSnap,
+  onToggleMaximize,
+  isHidden = false,
+  workspaceId,
+  workspaces = [],
+  onMoveToWorkspace,
 }) => {
   const windowRef = useRef<HTMLDivElement>(null);
   const [position, setPosition] = useState({ top: initialTop, left: initialLeft });
@@ -42,11 +67,22 @@ const Window: React.FC<WindowProps> = ({
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [resizeStart, setResizeStart] = useState({ x: 0, y: 0, width: 0, height: 0 });
   const [resizeDirection, setResizeDirection] = useState<string>('');
+  const [snapPreview, setSnapPreview] = useState<SnapZone | null>(null);
+  const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
+  const hasMovedRef = useRef(false);
+  const isMaximized = snap === 'maximize';
+
+  // Follow geometry set by the store, e.g. when the window is snapped or tiled
+  useEffect(() => {
+    setPosition({ top: initialTop, left: initialLeft });
+    setSize({ width, height });
+  }, [initialTop, initialLeft, width, height]);
 
   // Handle viewport resize for responsiveness
   useEffect(() => {
     const handleViewportResize = () => {
-      if (isFullscreen) return;
+      // Snapped windows are laid out again by the store
+      if (isFullscreen || snap) return;
 
       const maxWidth = window.innerWidth;
       const maxHeight = window.innerHeight - 32; // Account for top bar
@@ -70,34 +106,7 @@ const Window: React.FC<WindowProps> = ({
 
     window.addEventListener('resize', handleViewportResize);
     return () => window.removeEventListener('resize', handleViewportResize);
-  }, [position, size, isFullscreen]);
-
-  // Keyboard shortcuts
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Only handle shortcuts when this window is focused (highest z-index)
-      if (windowRef.current && document.activeElement && windowRef.current.contains(document.activeElement)) {
-        // Cmd/Ctrl + M to minimize
-        if ((e.metaKey || e.ctrlKey) && e.key === 'm') {
-          e.preventDefault();
-          onMinimize(id);
-        }
-        // Cmd/Ctrl + W to close
-        if ((e.metaKey || e.ctrlKey) && e.key === 'w') {
-          e.preventDefault();
-          onClose(id);
-        }
-        // F11 or Cmd/Ctrl + Enter to toggle fullscreen
-        if (e.key === 'F11' || ((e.metaKey || e.ctrlKey) && e.key === 'Enter')) {
-          e.preventDefault();
-          onToggleFullscreen(id);
-        }
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [id, onMinimize, onClose, onToggleFullscreen]);
+  }, [position, size, isFullscreen, snap]);
 
   // Dispatch resize events when window size or fullscreen state changes
   useEffect(() => {
@@ -117,15 +126,34 @@ const Window: React.FC<WindowProps> = ({
       x: e.clientX - position.left,
       y: e.clientY - position.top,
     });
+    hasMovedRef.current = false;
     onFocus(id);
     e.preventDefault();
   }, [position, id, onFocus]);
 
   const handleMouseMove = useCallback((e: MouseEvent) => {
+    if (isDragging && !isFullscreen && !hasMovedRef.current) {
+      const distance = Math.abs(e.clientX - position.left - dragStart.x) + Math.abs(e.clientY - position.top - dragStart.y);
+      if (distance < DRAG_THRESHOLD) return;
+      hasMovedRef.current = true;
+
+      // Dragging a snapped window restores its size under the pointer
+      if (snap && restoreBounds) {
+        const ratio = dragStart.x / size.width;
+        const left = e.clientX - ratio * restoreBounds.width;
+        setPosition({ top: position.top, left });
+        setSize({ width: restoreBounds.width, height: restoreBounds.height });
+        setDragStart({ x: e.clientX - left, y: dragStart.y });
+        onBoundsChange?.(id, { top: position.top, left, width: restoreBounds.width, height: restoreBounds.height });
+        return;
+      }
+    }
+
     if (isDragging && !isFullscreen) {
       const newLeft = Math.max(0, Math.min(window.innerWidth - size.width, e.clientX - dragStart.x));
       const newTop = Math.max(32, Math.min(window.innerHeight - size.height, e.clientY - dragStart.y));
       setPosition({ top: newTop, left: newLeft });
+      setSnapPreview(onSnap ? getSnapZoneAt(e.clientX, e.clientY) : null);
     }
 
     if (isResizing) {
@@ -155,13 +183,19 @@ const Window: React.FC<WindowProps> = ({
       setSize({ width: newWidth, height: newHeight });
       setPosition({ top: newTop, left: newLeft });
     }
-  }, [isDragging, isResizing, dragStart, resizeStart, resizeDirection, position, size, isFullscreen]);
+  }, [isDragging, isResizing, dragStart, resizeStart, resizeDirection, position, size, isFullscreen, snap, restoreBounds, id, onSnap, onBoundsChange]);
 
   const handleMouseUp = useCallback(() => {
+    if (snapPreview) {
+      onSnap?.(id, snapPreview);
+    } else if (isResizing || hasMovedRef.current) {
+      onBoundsChange?.(id, { ...position, ...size });
+    }
     setIsDragging(false);
     setIsResizing(false);
     setResizeDirection('');
-  }, []);
+    setSnapPreview(null);
+  }, [id, position, size, snapPreview, isResizing, onSnap, onBoundsChange]);
 
   useEffect(() => {
     if (isDragging || isResizing) {
@@ -210,10 +244,54 @@ const Window: React.FC<WindowProps> = ({
   console.log(`🪟 Window ${id} rendering at:`, windowStyle);
   console.log(`🪟 Window ${id} props:`, { isMinimized, isFullscreen, title, zIndex });
 
+  const preview = snapPreview && getSnapBounds(snapPreview);
+
+  // Window menu, opened from the title bar
+  const menuItems = [
+    {
+      id: 'maximize',
+      label: isMaximized ? 'Restore' : 'Maximize',
+      action: () => onToggleMaximize?.(id),
+      disabled: isFullscreen || !onToggleMaximize,
+    },
+    { id: 'minimize', label: 'Minimize', action: () => onMinimize(id) },
+    ...(onMoveToWorkspace && workspaces.length > 1
+      ? [
+          { id: 'workspace-separator', label: '', action: () => {}, separator: true },
+          ...workspaces.map((workspace, index) => ({
+            id: `workspace-${workspace.id}`,
+            label: `Move to ${workspace.name}`,
+            icon: workspace.id === workspaceId ? '✓' : `${index + 1}`,
+            action: () => onMoveToWorkspace(id, workspace.id),
+            disabled: workspace.id === workspaceId,
+          })),
+        ]
+      : []),
+    { id: 'close-separator', label: '', action: () => {}, separator: true },
+    { id: 'close', label: 'Close', action: () => onClose(id) },
+  ];
+
   return (
+    <>
+    {preview && !isHidden && (
+      <div
+        style={{
+          position: 'fixed',
+          ...preview,
+          zIndex: zIndex - 1,
+          borderRadius: '12px',
+          backgroundColor: 'rgba(59, 130, 246, 0.2)',
+          border: '2px solid rgba(59, 130, 246, 0.6)',
+          pointerEvents: 'none',
+          transition: 'all 0.15s ease',
+        }}
+      />
+    )}
     <div
       ref={windowRef}
+      data-window-id={id}
       style={{
+        display: isHidden ? 'none' : undefined,
         position: 'fixed',
         top: isFullscreen ? 32 : position.top, // Account for top bar when fullscreen
         left: isFullscreen ? 0 : position.left,
@@ -221,11 +299,15 @@ const Window: React.FC<WindowProps> = ({
         height: isFullscreen ? (window.innerHeight - 32 - 80) : size.height, // Account for top bar and dock
         zIndex: zIndex,
         boxShadow: isFullscreen ? 'none' : '0 20px 50px rgba(0, 0, 0, 0.25)',
-        borderRadius: isFullscreen ? '0px' : '12px',
+        borderRadius: isFullscreen || isMaximized ? '0px' : '12px',
         overflow: 'hidden',
         backgroundColor: 'var(--bg-primary)',
         border: isFullscreen ? 'none' : '1px solid var(--border-color)',
-        transition: isFullscreen ? 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)' : 'box-shadow 0.2s ease',
+        transition: isFullscreen
+          ? 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)'
+          : isDragging || isResizing
+            ? 'box-shadow 0.2s ease'
+            : 'box-shadow 0.2s ease, top 0.2s ease, left 0.2s ease, width 0.2s ease, height 0.2s ease',
         backdropFilter: 'blur(20px)',
         WebkitBackdropFilter: 'blur(20px)'
       }}
@@ -250,9 +332,19 @@ const Window: React.FC<WindowProps> = ({
           zIndex: 1000, // Ensure title bar is always on top
         }}
         onMouseDown={isFullscreen ? undefined : handleMouseDown}
+        onDoubleClick={(e) => {
+          if ((e.target as HTMLElement).closest('.window-controls')) return;
+          if (onToggleMaximize) onToggleMaximize(id);
+        }}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          onFocus(id);
+          setMenuPosition({ x: e.clientX, y: e.clientY });
+        }}
       >
         {/* Ubuntu-style Window Controls */}
-        <div style={{ display: 'flex', gap: '4px', alignItems: 'center', position: 'relative', zIndex: 1001 }}>
+        <div className="window-controls" style={{ display: 'flex', gap: '4px', alignItems: 'center', position: 'relative', zIndex: 1001 }}>
           {/* Minimize */}
           <button
             onClick={(e) => {
@@ -288,7 +380,11 @@ const Window: React.FC<WindowProps> = ({
           <button
             onClick={(e) => {
               e.stopPropagation();
-              onToggleFullscreen(id);
+              if (onToggleMaximize && !isFullscreen) {
+                onToggleMaximize(id);
+              } else {
+                onToggleFullscreen(id);
+              }
             }}
             style={{
               width: '20px',
@@ -310,7 +406,7 @@ const Window: React.FC<WindowProps> = ({
             onMouseLeave={(e) => {
               e.currentTarget.style.backgroundColor = 'rgba(226, 221, 221, 0.94)';
             }}
-            title={isFullscreen ? "Restore" : "Maximize"}
+            title={isFullscreen || isMaximized ? "Restore" : "Maximize"}
           >
             <UbuntuIcon name="maximize" size="w-4 h-4" className="text-white" />
           </button>
@@ -363,8 +459,33 @@ const Window: React.FC<WindowProps> = ({
           {title}
         </div>
 
-        {/* Right side placeholder for symmetry */}
-        <div style={{ width: '60px' }} />
+        {/* Window menu */}
+        <div className="window-controls" style={{ width: '60px', display: 'flex', justifyContent: 'flex-end', position: 'relative', zIndex: 1001 }}>
+          <button
+            // Keep the menu's outside-click handler from closing it before the toggle
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => {
+              e.stopPropagation();
+              const rect = e.currentTarget.getBoundingClientRect();
+              setMenuPosition(menuPosition ? null : { x: rect.right - 180, y: rect.bottom + 4 });
+            }}
+            style={{
+              width: '20px',
+              height: '20px',
+              borderRadius: '4px',
+              backgroundColor: 'transparent',
+              border: 'none',
+              cursor: 'pointer',
+              color: 'var(--text-secondary)',
+              fontSize: '14px',
+              lineHeight: '20px',
+              padding: 0,
+            }}
+            title="Window Menu"
+          >
+            ⋯
+          </button>
+        </div>
       </div>
 
       {/* Window Body */}
@@ -484,6 +605,13 @@ const Window: React.FC<WindowProps> = ({
         </>
       )}
     </div>
+    <ContextMenu
+      items={menuItems}
+      position={menuPosition ?? { x: 0, y: 0 }}
+      onClose={() => setMenuPosition(null)}
+      visible={!!menuPosition && !isHidden}
+    />
+    </>
   );
 };
 
@@ -1,24 +1,121 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useWindowStore } from '../store/windowStore';
+import type { WindowData } from '../store/windowStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import type { SnapZone, TilingLayout } from '../utils/windowLayout';
+import WindowOverview from './WindowOverview';
+import WindowSwitcher from './WindowSwitcher';
+import CommandPalette from './CommandPalette';
+import { useKeybindings } from '../hooks/useKeybindings';
+import type { KeybindingHandlers } from '../hooks/useKeybindings';
+import type { KeybindingContext, KeybindingHandler } from '../services/keybindingService';
+
+// Window commands act on the focused window and let the key through without one
+const onFocusedWindow = (action: (id: string) => void): KeybindingHandler => ({ windowId }) => {
+  if (!windowId) return false;
+  action(windowId);
+};
+
+const snapFocused = (zone: SnapZone | null) => onFocusedWindow(id => useWindowStore.getState().snapWindow(id, zone));
+
+const WINDOW_COMMANDS: KeybindingHandlers = {
+  'window.minimize': onFocusedWindow(id => useWindowStore.getState().minimizeWindow(id)),
+  'window.close': onFocusedWindow(id => useWindowStore.getState().closeWindow(id)),
+  'window.toggleFullscreen': onFocusedWindow(id => useWindowStore.getState().toggleFullscreen(id)),
+  'window.maximize': onFocusedWindow(id => useWindowStore.getState().toggleMaximize(id)),
+  'window.restore': snapFocused(null),
+  'window.snapLeft': snapFocused('left'),
+  'window.snapRight': snapFocused('right'),
+  'window.snapTopLeft': snapFocused('top-left'),
+  'window.snapTopRight': snapFocused('top-right'),
+  'window.snapBottomLeft': snapFocused('bottom-left'),
+  'window.snapBottomRight': snapFocused('bottom-right'),
+  // Make the focused window the master of the tiling layout
+  'window.promote': onFocusedWindow(id => useWindowStore.getState().promoteWindow(id)),
+};
+
+// The tiling shortcut cycles through these
+const TILING_CYCLE: (TilingLayout | null)[] = [null, 'master-stack', 'grid'];
+
+/**
+ * Switch to the workspace at `target`, relative to the active one or an
+ * index. With `takeWindow` the focused window is moved there too.
+ */
+const goToWorkspace = (target: number, relative: boolean, takeWindow: boolean, windowId?: string) => {
+  const { workspaces, activeWorkspaceId, switchWorkspace, moveWindowToWorkspace, focusWindow } = useWindowStore.getState();
+  const index = relative ? workspaces.findIndex(ws => ws.id === activeWorkspaceId) + target : target;
+  const workspace = workspaces[index];
+  if (!workspace) return;
+
+  if (takeWindow && windowId) {
+    moveWindowToWorkspace(windowId, workspace.id);
+    focusWindow(windowId);
+  } else {
+    switchWorkspace(workspace.id);
+  }
+};
+
+const WORKSPACE_DIGIT_COMMANDS: KeybindingHandlers = Object.fromEntries(
+  [1, 2, 3, 4, 5, 6, 7, 8, 9].flatMap(digit => [
+    [`workspace.switchTo${digit}`, () => goToWorkspace(digit - 1, false, false)],
+    [`workspace.moveWindowTo${digit}`, ({ windowId }: KeybindingContext) => goToWorkspace(digit - 1, false, true, windowId)],
+  ])
+);
 
 interface WindowManagerProps {
   children: React.ReactNode;
 }
 
+// Windows listed by the Alt+Tab switcher and the one that is selected
+interface SwitcherState {
+  windowIds: string[];
+  index: number;
+}
+
 const WindowManager: React.FC<WindowManagerProps> = ({ children }) => {
   const { windows } = useWindowStore();
+  const hotCorners = useSettingsStore(state => state.settings.hotCorners);
   const [isOverviewMode, setIsOverviewMode] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [switcher, setSwitcher] = useState<SwitcherState | null>(null);
+  // Read by the key handlers, which are attached once
+  const switcherRef = useRef<SwitcherState | null>(null);
+
+  const updateSwitcher = useCallback((next: SwitcherState | null) => {
+    switcherRef.current = next;
+    setSwitcher(next);
+  }, []);
+
+  const finishSwitching = useCallback((activate: boolean) => {
+    const current = switcherRef.current;
+    updateSwitcher(null);
+    if (activate && current) {
+      useWindowStore.getState().focusWindow(current.windowIds[current.index]);
+    }
+  }, [updateSwitcher]);
+
+  // Windows closed while switching leave the list, so that the one shown
+  // selected is the one focused. The selection stays on its window.
+  useEffect(() => useWindowStore.subscribe(({ windows: current }) => {
+    const state = switcherRef.current;
+    if (!state) return;
+
+    const windowIds = state.windowIds.filter(id => current.some(w => w.id === id && w.isVisible));
+    if (windowIds.length === state.windowIds.length) return;
+    if (windowIds.length === 0) {
+      updateSwitcher(null);
+      return;
+    }
+    const selected = windowIds.indexOf(state.windowIds[state.index]);
+    updateSwitcher({ windowIds, index: selected !== -1 ? selected : Math.min(state.index, windowIds.length - 1) });
+  }), [updateSwitcher]);
 
-  // Mission Control style overview mode
+  // Escape to exit overview mode
   useEffect(() => {
+    if (!isOverviewMode) return;
+
     const handleKeyDown = (e: KeyboardEvent) => {
-      // F3 or Ctrl+Up Arrow for Mission Control
-      if (e.key === 'F3' || (e.ctrlKey && e.key === 'ArrowUp')) {
-        e.preventDefault();
-        setIsOverviewMode(!isOverviewMode);
-      }
-      // Escape to exit overview mode
-      if (e.key === 'Escape' && isOverviewMode) {
+      if (e.key === 'Escape') {
         setIsOverviewMode(false);
       }
     };
@@ -27,10 +124,86 @@ const WindowManager: React.FC<WindowManagerProps> = ({ children }) => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [isOverviewMode]);
 
+  // Snapped and tiled windows follow the size of the screen
+  useEffect(() => {
+    const handleResize = () => useWindowStore.getState().relayout();
+
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // The first press selects the window that was active before the current
+  // one, the next ones cycle through the windows of the workspace
+  const stepSwitcher = (step: number) => {
+    const current = switcherRef.current;
+    if (current) {
+      const count = current.windowIds.length;
+      updateSwitcher({ ...current, index: (current.index + step + count) % count });
+      return;
+    }
+
+    const { getRecentWindows, activeWorkspaceId } = useWindowStore.getState();
+    const windowIds = getRecentWindows(activeWorkspaceId).map(w => w.id);
+    if (windowIds.length === 0) return;
+    updateSwitcher({ windowIds, index: (step + windowIds.length) % windowIds.length });
+  };
+
+  useKeybindings({
+    ...WINDOW_COMMANDS,
+    'desktop.cycleTiling': () => {
+      const { tilingLayout, setTilingLayout } = useWindowStore.getState();
+      setTilingLayout(TILING_CYCLE[(TILING_CYCLE.indexOf(tilingLayout) + 1) % TILING_CYCLE.length]);
+    },
+    'desktop.toggleOverview': () => setIsOverviewMode(open => !open),
+    'desktop.showOverview': () => setIsOverviewMode(true),
+    'desktop.hideOverview': () => setIsOverviewMode(false),
+    'desktop.switchWindow': () => stepSwitcher(1),
+    'desktop.switchWindowBack': () => stepSwitcher(-1),
+    'desktop.commandPalette': () => setIsPaletteOpen(open => !open),
+    'workspace.previous': ({ windowId }) => goToWorkspace(-1, true, false, windowId),
+    'workspace.next': ({ windowId }) => goToWorkspace(1, true, false, windowId),
+    'workspace.moveWindowPrevious': ({ windowId }) => goToWorkspace(-1, true, true, windowId),
+    'workspace.moveWindowNext': ({ windowId }) => goToWorkspace(1, true, true, windowId),
+    ...WORKSPACE_DIGIT_COMMANDS,
+  });
+
+  // Releasing the modifiers of the switcher shortcut focuses the selected
+  // window. Handled while capturing so that apps do not get the Escape.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (switcherRef.current && e.key === 'Escape') {
+        e.preventDefault();
+        e.stopPropagation();
+        finishSwitching(false);
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (switcherRef.current && !e.altKey && !e.ctrlKey && !e.metaKey && !e.shiftKey) {
+        finishSwitching(true);
+      }
+    };
+
+    // The keys may be released outside of the page
+    const handleBlur = () => {
+      if (switcherRef.current) {
+        finishSwitching(false);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    window.addEventListener('keyup', handleKeyUp, true);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('keyup', handleKeyUp, true);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [finishSwitching]);
+
   // Hot corners detection
   useEffect(() => {
-    const hotCornersEnabled = localStorage.getItem('weave-hot-corners') === 'true';
-    if (!hotCornersEnabled) return;
+    if (!hotCorners) return;
 
     let cornerTimer: NodeJS.Timeout;
     
@@ -54,126 +227,27 @@ const WindowManager: React.FC<WindowManagerProps> = ({ children }) => {
       window.removeEventListener('mousemove', handleMouseMove);
       clearTimeout(cornerTimer);
     };
-  }, []);
-
-  if (isOverviewMode) {
-    const visibleWindows = windows.filter(w => w.isVisible && !w.isMinimized);
-    
-    return (
-      <div
-        style={{
-          position: 'fixed',
-          inset: 0,
-          backgroundColor: 'rgba(0, 0, 0, 0.8)',
-          zIndex: 10000,
-          display: 'flex',
-          flexWrap: 'wrap',
-          justifyContent: 'center',
-          alignItems: 'center',
-          gap: '20px',
-          padding: '60px 40px',
-          backdropFilter: 'blur(10px)',
-          WebkitBackdropFilter: 'blur(10px)',
-        }}
-        onClick={() => setIsOverviewMode(false)}
-      >
-        <div style={{
-          position: 'absolute',
-          top: '20px',
-          left: '50%',
-          transform: 'translateX(-50%)',
-          color: 'white',
-          fontSize: '24px',
-          fontWeight: '600',
-          textAlign: 'center',
-        }}>
-          Mission Control
-          <div style={{ fontSize: '14px', fontWeight: '400', marginTop: '8px', opacity: 0.7 }}>
-            Click a window to focus, press Escape to exit
-          </div>
-        </div>
-        
-        {visibleWindows.map((window) => (
-          <div
-            key={window.id}
-            style={{
-              width: '280px',
-              height: '200px',
-              backgroundColor: 'white',
-              borderRadius: '12px',
-              overflow: 'hidden',
-              cursor: 'pointer',
-              transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
-              transform: 'scale(1)',
-              boxShadow: '0 10px 30px rgba(0, 0, 0, 0.3)',
-              border: '2px solid rgba(255, 255, 255, 0.2)',
-            }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.transform = 'scale(1.05)';
-              e.currentTarget.style.boxShadow = '0 15px 40px rgba(0, 0, 0, 0.4)';
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.transform = 'scale(1)';
-              e.currentTarget.style.boxShadow = '0 10px 30px rgba(0, 0, 0, 0.3)';
-            }}
-            onClick={(e) => {
-              e.stopPropagation();
-              setIsOverviewMode(false);
-              // Focus the window
-              const { focusWindow } = useWindowStore.getState();
-              focusWindow(window.id);
-            }}
-          >
-            {/* Mini title bar */}
-            <div style={{
-              height: '30px',
-              backgroundColor: 'rgba(245, 245, 247, 0.9)',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              fontSize: '12px',
-              fontWeight: '500',
-              color: '#1d1d1f',
-              borderBottom: '1px solid rgba(0, 0, 0, 0.1)',
-            }}>
-              {window.title}
-            </div>
-            
-            {/* Mini window content */}
-            <div style={{
-              height: '170px',
-              backgroundColor: '#f8f9fa',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              fontSize: '40px',
-              opacity: 0.6,
-            }}>
-              {window.app === 'Files' && '📁'}
-              {window.app === 'Terminal' && '💻'}
-              {window.app === 'Settings' && '⚙️'}
-              {window.app === 'Calculator' && '🧮'}
-              {window.app === 'Text Editor' && '📝'}
-              {!['Files', 'Terminal', 'Settings', 'Calculator', 'Text Editor'].includes(window.app) && '📱'}
-            </div>
-          </div>
-        ))}
-        
-        {visibleWindows.length === 0 && (
-          <div style={{
-            color: 'white',
-            fontSize: '18px',
-            opacity: 0.7,
-            textAlign: 'center',
-          }}>
-            No open windows
-          </div>
-        )}
-      </div>
-    );
-  }
+  }, [hotCorners]);
 
-  return <>{children}</>;
+  // The windows stay mounted underneath the overview
+  return (
+    <>
+      {children}
+      {isOverviewMode && <WindowOverview onClose={() => setIsOverviewMode(false)} />}
+      {isPaletteOpen && <CommandPalette onClose={() => setIsPaletteOpen(false)} />}
+      {switcher && (
+        <WindowSwitcher
+          windows={switcher.windowIds.map(id => windows.find(w => w.id === id) as WindowData)}
+          selectedIndex={switcher.index}
+          onSelect={(index) => updateSwitcher({ ...switcher, index })}
+          onActivate={(index) => {
+            updateSwitcher({ ...switcher, index });
+            finishSwitching(true);
+          }}
+        />
+      )}
+    </>
+  );
 };
 
 export default WindowManager;
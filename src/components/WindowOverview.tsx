@@ -0,0 +1,484 @@
+import React, { useState } from 'react';
+import { useWindowStore } from '../store/windowStore';
+import type { WindowData, Workspace } from '../store/windowStore';
+import { getAppConfig } from '../registry/appRegistry';
+import { getWorkArea } from '../utils/windowLayout';
+
+// Drag type of the window cards in the overview, dropped on a workspace
+const WINDOW_DRAG_TYPE = 'application/x-weave-window';
+
+const THUMBNAIL_WIDTH = 200;
+// Space taken by the heading and the workspaces above the window grid
+const GRID_TOP = 300;
+const GRID_PADDING = 40;
+const CARD_GAP = 24;
+// Height of the title under every window
+const CARD_LABEL_HEIGHT = 40;
+
+/**
+ * Number of grid columns that gives `count` cells the most room for
+ * windows of roughly 4:3
+ */
+const getGridColumns = (count: number, width: number, height: number): number => {
+  let best = 1;
+  let bestSize = 0;
+  for (let columns = 1; columns <= count; columns++) {
+    const rows = Math.ceil(count / columns);
+    const size = Math.min(width / columns, (height / rows) * 4 / 3);
+    if (size > bestSize) {
+      best = columns;
+      bestSize = size;
+    }
+  }
+  return best;
+};
+
+const matchesFilter = (w: WindowData, query: string): boolean => {
+  const text = `${w.title} ${getAppConfig(w.appId)?.name ?? w.appId}`.toLowerCase();
+  return query.toLowerCase().split(/\s+/).every(word => text.includes(word));
+};
+
+interface WorkspaceThumbnailProps {
+  workspace: Workspace;
+  index: number;
+  windows: WindowData[];
+  isActive: boolean;
+  canRemove: boolean;
+  onSelect: () => void;
+  onDropWindow: (windowId: string) => void;
+  onRename: (name: string) => void;
+  onRemove: () => void;
+}
+
+/**
+ * Miniature of a workspace with its windows drawn as outlines at their
+ * place on the screen
+ */
+const WorkspaceThumbnail: React.FC<WorkspaceThumbnailProps> = ({
+  workspace,
+  index,
+  windows,
+  isActive,
+  canRemove,
+  onSelect,
+  onDropWindow,
+  onRename,
+  onRemove,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const scale = THUMBNAIL_WIDTH / window.innerWidth;
+  const area = getWorkArea();
+
+  return (
+    <div
+      style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '6px' }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div
+        style={{
+          position: 'relative',
+          width: `${THUMBNAIL_WIDTH}px`,
+          height: `${window.innerHeight * scale}px`,
+          borderRadius: '8px',
+          overflow: 'hidden',
+          cursor: 'pointer',
+          backgroundColor: 'rgba(255, 255, 255, 0.08)',
+          border: isActive || isDropTarget ? '2px solid var(--accent-color, #3b82f6)' : '2px solid rgba(255, 255, 255, 0.2)',
+          boxShadow: isDropTarget ? '0 0 0 4px rgba(59, 130, 246, 0.3)' : 'none',
+          transition: 'border-color 0.2s ease, box-shadow 0.2s ease',
+        }}
+        onClick={onSelect}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes(WINDOW_DRAG_TYPE)) return;
+          e.preventDefault();
+          setIsDropTarget(true);
+        }}
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDropTarget(false);
+          const windowId = e.dataTransfer.getData(WINDOW_DRAG_TYPE);
+          if (windowId) onDropWindow(windowId);
+        }}
+      >
+        {windows
+          .filter(w => !w.isMinimized)
+          .sort((a, b) => a.zIndex - b.zIndex)
+          .map(w => {
+            const bounds = w.isFullscreen ? area : w;
+            return (
+              <div
+                key={w.id}
+                style={{
+                  position: 'absolute',
+                  top: `${bounds.top * scale}px`,
+                  left: `${bounds.left * scale}px`,
+                  width: `${bounds.width * scale}px`,
+                  height: `${bounds.height * scale}px`,
+                  borderRadius: '3px',
+                  backgroundColor: 'rgba(245, 245, 247, 0.9)',
+                  border: '1px solid rgba(0, 0, 0, 0.2)',
+                  fontSize: '8px',
+                  color: '#1d1d1f',
+                  padding: '1px 3px',
+                  overflow: 'hidden',
+                  whiteSpace: 'nowrap',
+                  textOverflow: 'ellipsis',
+                  pointerEvents: 'none',
+                }}
+              >
+                {w.title}
+              </div>
+            );
+          })}
+        {canRemove && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemove();
+            }}
+            style={{
+              position: 'absolute',
+              top: '4px',
+              right: '4px',
+              width: '18px',
+              height: '18px',
+              borderRadius: '50%',
+              border: 'none',
+              backgroundColor: 'rgba(0, 0, 0, 0.6)',
+              color: 'white',
+              fontSize: '11px',
+              lineHeight: '18px',
+              padding: 0,
+              cursor: 'pointer',
+            }}
+            title="Remove workspace; its windows move to the one before it"
+          >
+            ×
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <input
+          autoFocus
+          defaultValue={workspace.name}
+          onBlur={(e) => {
+            onRename(e.currentTarget.value);
+            setIsEditing(false);
+          }}
+          onKeyDown={(e) => {
+            // Keep Escape from closing the overview while renaming
+            e.stopPropagation();
+            if (e.key === 'Enter') e.currentTarget.blur();
+            if (e.key === 'Escape') setIsEditing(false);
+          }}
+          style={{
+            width: `${THUMBNAIL_WIDTH - 40}px`,
+            fontSize: '13px',
+            textAlign: 'center',
+            borderRadius: '4px',
+            border: '1px solid rgba(255, 255, 255, 0.4)',
+            backgroundColor: 'rgba(0, 0, 0, 0.4)',
+            color: 'white',
+          }}
+        />
+      ) : (
+        <div
+          style={{ color: 'white', fontSize: '13px', fontWeight: isActive ? '600' : '400', opacity: isActive ? 1 : 0.8, cursor: 'text' }}
+          onDoubleClick={() => setIsEditing(true)}
+          title="Double-click to rename"
+        >
+          {index + 1}. {workspace.name}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface WindowOverviewProps {
+  onClose: () => void;
+}
+
+/**
+ * Mission Control: the workspaces, and every open window scaled into a grid
+ * with minimized ones dimmed. Typing filters the windows by title.
+ */
+const WindowOverview: React.FC<WindowOverviewProps> = ({ onClose }) => {
+  const {
+    windows,
+    workspaces,
+    activeWorkspaceId,
+    focusWindow,
+    switchWorkspace,
+    moveWindowToWorkspace,
+    addWorkspace,
+    renameWorkspace,
+    removeWorkspace,
+    getRecentWindows,
+  } = useWindowStore();
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const matches = getRecentWindows().filter(w => matchesFilter(w, query.trim()));
+
+  const gridWidth = window.innerWidth - GRID_PADDING * 2;
+  const gridHeight = window.innerHeight - GRID_TOP - GRID_PADDING;
+  const columns = getGridColumns(Math.max(matches.length, 1), gridWidth, gridHeight);
+  const rows = Math.ceil(matches.length / columns);
+  const cellWidth = gridWidth / columns;
+  const cellHeight = rows > 0 ? gridHeight / rows : gridHeight;
+
+  const activate = (w: WindowData | undefined) => {
+    if (!w) return;
+    onClose();
+    focusWindow(w.id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const moves: Record<string, number> = { ArrowLeft: -1, ArrowRight: 1, ArrowUp: -columns, ArrowDown: columns };
+
+    if (e.key in moves && matches.length > 0) {
+      e.preventDefault();
+      setSelectedIndex(Math.min(Math.max(selectedIndex + moves[e.key], 0), matches.length - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      activate(matches[selectedIndex]);
+    } else if (e.key === 'Escape') {
+      // The first Escape clears the filter
+      e.stopPropagation();
+      if (query) {
+        setQuery('');
+      } else {
+        onClose();
+      }
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        zIndex: 10000,
+        backdropFilter: 'blur(10px)',
+        WebkitBackdropFilter: 'blur(10px)',
+      }}
+      onClick={onClose}
+    >
+      <div style={{
+        position: 'absolute',
+        top: '20px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        color: 'white',
+        fontSize: '24px',
+        fontWeight: '600',
+        textAlign: 'center',
+      }}>
+        Mission Control
+        <div style={{ fontSize: '14px', fontWeight: '400', marginTop: '8px', opacity: 0.7 }}>
+          Type to filter, click a window to focus, drag it onto a workspace to move it, press Escape to exit
+        </div>
+      </div>
+
+      {/* Workspaces */}
+      <div
+        style={{
+          position: 'absolute',
+          top: '90px',
+          left: 0,
+          right: 0,
+          display: 'flex',
+          justifyContent: 'center',
+          alignItems: 'flex-start',
+          gap: '16px',
+          padding: '0 40px',
+          overflowX: 'auto',
+        }}
+      >
+        {workspaces.map((workspace, index) => (
+          <WorkspaceThumbnail
+            key={workspace.id}
+            workspace={workspace}
+            index={index}
+            windows={windows.filter(w => w.isVisible && w.workspaceId === workspace.id)}
+            isActive={workspace.id === activeWorkspaceId}
+            canRemove={workspaces.length > 1}
+            onSelect={() => switchWorkspace(workspace.id)}
+            onDropWindow={(windowId) => moveWindowToWorkspace(windowId, workspace.id)}
+            onRename={(name) => renameWorkspace(workspace.id, name)}
+            onRemove={() => removeWorkspace(workspace.id)}
+          />
+        ))}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            addWorkspace();
+          }}
+          style={{
+            width: '48px',
+            height: `${window.innerHeight * THUMBNAIL_WIDTH / window.innerWidth}px`,
+            borderRadius: '8px',
+            border: '2px dashed rgba(255, 255, 255, 0.3)',
+            backgroundColor: 'transparent',
+            color: 'white',
+            fontSize: '24px',
+            cursor: 'pointer',
+          }}
+          title="Add workspace"
+        >
+          +
+        </button>
+      </div>
+
+      {/* Filter */}
+      <input
+        autoFocus
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setSelectedIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => e.stopPropagation()}
+        placeholder="Filter windows..."
+        style={{
+          position: 'absolute',
+          top: `${GRID_TOP - 52}px`,
+          left: '50%',
+          transform: 'translateX(-50%)',
+          width: '320px',
+          padding: '8px 14px',
+          borderRadius: '18px',
+          border: '1px solid rgba(255, 255, 255, 0.25)',
+          backgroundColor: 'rgba(255, 255, 255, 0.1)',
+          color: 'white',
+          fontSize: '14px',
+          outline: 'none',
+        }}
+      />
+
+      {/* Windows */}
+      <div
+        style={{
+          position: 'absolute',
+          top: `${GRID_TOP}px`,
+          left: `${GRID_PADDING}px`,
+          width: `${gridWidth}px`,
+          height: `${gridHeight}px`,
+          display: 'grid',
+          gridTemplateColumns: `repeat(${columns}, ${cellWidth}px)`,
+          gridAutoRows: `${cellHeight}px`,
+          justifyContent: 'center',
+        }}
+      >
+        {matches.map((w, index) => {
+          const isSelected = index === selectedIndex;
+          const workspace = workspaces.find(ws => ws.id === w.workspaceId);
+          const bounds = w.isFullscreen ? getWorkArea() : w;
+          const scale = Math.min(
+            (cellWidth - CARD_GAP) / bounds.width,
+            (cellHeight - CARD_GAP - CARD_LABEL_HEIGHT) / bounds.height,
+            0.5
+          );
+
+          return (
+            <div
+              key={w.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(WINDOW_DRAG_TYPE, w.id);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onMouseEnter={() => setSelectedIndex(index)}
+              onClick={(e) => {
+                e.stopPropagation();
+                activate(w);
+              }}
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '8px',
+                cursor: 'pointer',
+                minWidth: 0,
+              }}
+            >
+              <div
+                style={{
+                  width: `${Math.max(bounds.width * scale, 80)}px`,
+                  height: `${Math.max(bounds.height * scale, 60)}px`,
+                  backgroundColor: 'white',
+                  borderRadius: '10px',
+                  overflow: 'hidden',
+                  opacity: w.isMinimized ? 0.55 : 1,
+                  transform: isSelected ? 'scale(1.05)' : 'scale(1)',
+                  transition: 'all 0.2s cubic-bezier(0.4, 0, 0.2, 1)',
+                  boxShadow: isSelected ? '0 15px 40px rgba(0, 0, 0, 0.4)' : '0 10px 30px rgba(0, 0, 0, 0.3)',
+                  border: isSelected ? '3px solid var(--accent-color, #3b82f6)' : '2px solid rgba(255, 255, 255, 0.2)',
+                  display: 'flex',
+                  flexDirection: 'column',
+                }}
+              >
+                {/* Mini title bar */}
+                <div style={{
+                  height: '18px',
+                  flexShrink: 0,
+                  backgroundColor: 'rgba(245, 245, 247, 0.9)',
+                  borderBottom: '1px solid rgba(0, 0, 0, 0.1)',
+                }} />
+
+                {/* Mini window content */}
+                <div style={{
+                  flex: 1,
+                  backgroundColor: '#f8f9fa',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  fontSize: `${Math.min(Math.max(bounds.height * scale / 3, 20), 48)}px`,
+                }}>
+                  {getAppConfig(w.appId)?.icon ?? '📱'}
+                </div>
+              </div>
+
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px', maxWidth: '100%', color: 'white', fontSize: '13px' }}>
+                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', fontWeight: isSelected ? '600' : '400' }}>
+                  {w.title}
+                </span>
+                {w.isMinimized && (
+                  <span style={{ fontSize: '11px', opacity: 0.7, whiteSpace: 'nowrap' }}>Minimized</span>
+                )}
+                {w.workspaceId !== activeWorkspaceId && workspace && (
+                  <span style={{ fontSize: '11px', padding: '1px 6px', borderRadius: '8px', backgroundColor: 'rgba(255, 255, 255, 0.15)', whiteSpace: 'nowrap' }}>
+                    {workspace.name}
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {matches.length === 0 && (
+        <div style={{
+          position: 'absolute',
+          top: `${GRID_TOP + 60}px`,
+          left: 0,
+          right: 0,
+          color: 'white',
+          fontSize: '18px',
+          opacity: 0.7,
+          textAlign: 'center',
+        }}>
+          {query ? `No windows match "${query}"` : 'No open windows'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WindowOverview;
@@ -0,0 +1,82 @@
+import React from 'react';
+import type { WindowData } from '../store/windowStore';
+import { getAppConfig } from '../registry/appRegistry';
+
+interface WindowSwitcherProps {
+  windows: WindowData[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  onActivate: (index: number) => void;
+}
+
+/**
+ * Alt+Tab panel listing the windows of the workspace, most recently
+ * active first. The selected one is focused when Alt is released.
+ */
+const WindowSwitcher: React.FC<WindowSwitcherProps> = ({ windows, selectedIndex, onSelect, onActivate }) => {
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 10001,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        pointerEvents: 'none',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          gap: '8px',
+          maxWidth: '90vw',
+          overflowX: 'auto',
+          padding: '16px',
+          borderRadius: '16px',
+          backgroundColor: 'rgba(30, 30, 30, 0.85)',
+          backdropFilter: 'blur(20px)',
+          WebkitBackdropFilter: 'blur(20px)',
+          boxShadow: '0 20px 50px rgba(0, 0, 0, 0.4)',
+          pointerEvents: 'auto',
+        }}
+      >
+        {windows.map((w, index) => (
+          <div
+            key={w.id}
+            onMouseEnter={() => onSelect(index)}
+            onClick={() => onActivate(index)}
+            style={{
+              width: '112px',
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              gap: '8px',
+              padding: '12px 8px',
+              borderRadius: '10px',
+              cursor: 'pointer',
+              backgroundColor: index === selectedIndex ? 'rgba(255, 255, 255, 0.18)' : 'transparent',
+              opacity: w.isMinimized ? 0.6 : 1,
+            }}
+          >
+            <span style={{ fontSize: '40px' }}>{getAppConfig(w.appId)?.icon ?? '📱'}</span>
+            <span
+              style={{
+                maxWidth: '100%',
+                color: 'white',
+                fontSize: '12px',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {w.title}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WindowSwitcher;
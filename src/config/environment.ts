@@ -3,8 +3,14 @@
  * Validates that all required environment variables are present
  */
 
+// Where files are kept: on the server, in this browser only, or in memory
+export type VFSBackendKind = 'remote' | 'local' | 'memory';
+
+const VFS_BACKENDS: VFSBackendKind[] = ['remote', 'local', 'memory'];
+
 export interface AppEnvironment {
   apiBaseUrl: string;
+  vfsBackend: VFSBackendKind;
   nodeEnv: string;
   isProduction: boolean;
   isDevelopment: boolean;
@@ -30,8 +36,16 @@ export const validateEnvironment = (): AppEnvironment => {
     }
   }
 
+  // Tests run without a server
+  let vfsBackend = import.meta.env.VITE_VFS_BACKEND || (nodeEnv === 'test' ? 'memory' : 'remote');
+  if (!VFS_BACKENDS.includes(vfsBackend)) {
+    console.warn(`⚠️ Unknown VITE_VFS_BACKEND "${vfsBackend}", using remote`);
+    vfsBackend = 'remote';
+  }
+
   const environment: AppEnvironment = {
     apiBaseUrl,
+    vfsBackend,
     nodeEnv,
     isProduction,
     isDevelopment,
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { keybindingService } from '../services/keybindingService';
+import type { KeybindingHandler } from '../services/keybindingService';
+import type { KeybindingCommandId } from '../registry/keybindingRegistry';
+import { useSettingsStore } from '../stores/settingsStore';
+
+export type KeybindingHandlers = Partial<Record<KeybindingCommandId, KeybindingHandler>>;
+
+/**
+ * Handle keybinding commands while the component is mounted. With a
+ * window ID the handlers only run while that window is focused. The
+ * latest handlers are always called, so they may use current state.
+ */
+export const useKeybindings = (handlers: KeybindingHandlers, windowId?: string) => {
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  const commandIds = Object.keys(handlers).sort().join(',');
+
+  useEffect(() => {
+    const unregister = (commandIds.split(',').filter(Boolean) as KeybindingCommandId[]).map(commandId =>
+      keybindingService.registerHandler(commandId, context => {
+        const handler = handlersRef.current[commandId];
+        return handler ? handler(context) : false;
+      }, { windowId })
+    );
+    return () => unregister.forEach(stop => stop());
+  }, [commandIds, windowId]);
+};
+
+/**
+ * Display label of a command's first chord, updated when it is rebound
+ */
+export const useKeybindingLabels = (): ((commandId: KeybindingCommandId) => string) => {
+  // Re-render when bindings change
+  useSettingsStore(state => state.settings.keybindings);
+  return (commandId) => keybindingService.getLabel(commandId);
+};
@@ -1,12 +1,13 @@
 import { useCallback } from 'react';
 import { useWindowStore } from '../store/windowStore';
 import type { WindowData } from '../store/windowStore';
-import type { ReactNode } from 'react';
+import type { SnapZone, WindowBounds } from '../utils/windowLayout';
 
 // App configuration interface
 export interface AppConfig {
   title: string;
-  content: ReactNode;
+  appId: string;
+  props?: Record<string, unknown>;
   width: number;
   height: number;
   allowMultiple?: boolean;
@@ -20,6 +21,12 @@ export const useWindowManager = () => {
     focusWindow: storeFocusWindow,
     minimizeWindow: storeMinimizeWindow,
     toggleFullscreen: storeToggleFullscreen,
+    setWindowBounds: storeSetWindowBounds,
+    snapWindow: storeSnapWindow,
+    toggleMaximize: storeToggleMaximize,
+    moveWindowToWorkspace: storeMoveWindowToWorkspace,
+    workspaces,
+    activeWorkspaceId,
     isAppOpen,
     getWindowsByApp,
     getVisibleWindows,
@@ -29,11 +36,10 @@ export const useWindowManager = () => {
   const openWindow = useCallback((app: string, config: AppConfig): string => {
     return storeOpenWindow(app, {
       title: config.title,
-      content: config.content,
+      appId: config.appId,
+      props: config.props,
       width: config.width,
       height: config.height,
-      top: 0, // Will be overridden by smart positioning
-      left: 0, // Will be overridden by smart positioning
       allowMultiple: config.allowMultiple,
     });
   }, [storeOpenWindow]);
@@ -54,6 +60,22 @@ export const useWindowManager = () => {
     storeToggleFullscreen(id);
   }, [storeToggleFullscreen]);
 
+  const setWindowBounds = useCallback((id: string, bounds: WindowBounds) => {
+    storeSetWindowBounds(id, bounds);
+  }, [storeSetWindowBounds]);
+
+  const snapWindow = useCallback((id: string, zone: SnapZone | null) => {
+    storeSnapWindow(id, zone);
+  }, [storeSnapWindow]);
+
+  const toggleMaximize = useCallback((id: string) => {
+    storeToggleMaximize(id);
+  }, [storeToggleMaximize]);
+
+  const moveWindowToWorkspace = useCallback((id: string, workspaceId: string) => {
+    storeMoveWindowToWorkspace(id, workspaceId);
+  }, [storeMoveWindowToWorkspace]);
+
   // Enhanced utility functions
   const getAppWindowCount = useCallback((app: string): number => {
     return getWindowsByApp(app).length;
@@ -75,6 +97,8 @@ export const useWindowManager = () => {
   return {
     // State
     windows: getVisibleWindows(),
+    workspaces,
+    activeWorkspaceId,
     
     // Core operations
     openWindow,
@@ -82,6 +106,10 @@ export const useWindowManager = () => {
     focusWindow,
     minimizeWindow,
     toggleFullscreen,
+    setWindowBounds,
+    snapWindow,
+    toggleMaximize,
+    moveWindowToWorkspace,
     
     // Utility functions
     isAppOpen,
@@ -1,12 +1,44 @@
+/**
+ * App Registry
+ *
+ * Every app is one entry here: how to load its component, its icons, the
+ * default window size, whether it may have several windows and which
+ * files it opens. Launchers open apps with `launchApp`, and windows render
+ * them with `renderAppContent`, so adding an app means adding an entry.
+ */
+
+import { createElement, lazy, Suspense } from 'react';
+import type { ComponentType, LazyExoticComponent, ReactNode } from 'react';
+import { useWindowStore } from '../store/windowStore';
+import type { WindowData } from '../store/windowStore';
+import type { IconType } from '../components/UbuntuIcon';
+
+// Files an app can open, see fileAssociations.ts
+export interface AppFileTypes {
+  // Without the dot, e.g. 'md'
+  extensions?: string[];
+  // Exact types or patterns such as 'text/*'
+  mimeTypes?: string[];
+}
+
+// Props of an app window: its ID, and the props it was launched with
+export type AppWindowProps = { windowId?: string } & Record<string, unknown>;
+
 // App configuration interface
 export interface AppConfig {
   id: string;
   name: string;
   icon: string;
+  // Icon in the dock
+  dockIcon?: IconType;
+  // Instance policy: several windows, or one window that is focused again
   allowMultiple: boolean;
   width: number;
   height: number;
   description?: string;
+  fileTypes?: AppFileTypes;
+  // Loads the component on first use
+  load: () => Promise<{ default: ComponentType<AppWindowProps> }>;
 }
 
 // Central App Registry Configuration
@@ -15,50 +47,62 @@ export const APP_REGISTRY: Record<string, AppConfig> = {
     id: 'Terminal',
     name: 'Terminal',
     icon: '🖥️',
+    dockIcon: 'terminal',
     allowMultiple: true,
     width: 700,
     height: 500,
     description: 'Command line interface with xterm.js',
+    load: () => import('../apps/Terminal'),
   },
   
   Files: {
     id: 'Files',
     name: 'Files',
     icon: '📁',
+    dockIcon: 'file-manager',
     allowMultiple: true,
     width: 800,
     height: 600,
     description: 'File manager with virtual file system',
+    // Folders opened with `open` or from the command palette
+    fileTypes: { mimeTypes: ['inode/directory'] },
+    load: () => import('../apps/Files'),
   },
   
   Calculator: {
     id: 'Calculator',
     name: 'Calculator',
     icon: '🧮',
+    dockIcon: 'calculator',
     allowMultiple: false,
     width: 350,
     height: 500,
     description: 'Basic calculator application',
+    load: () => import('../apps/Calculator'),
   },
   
   Settings: {
     id: 'Settings',
     name: 'Settings',
     icon: '⚙️',
+    dockIcon: 'settings',
     allowMultiple: false,
     width: 900,
     height: 650,
     description: 'System settings and preferences',
+    load: () => import('../apps/Settings'),
   },
   
   Browser: {
     id: 'Browser',
     name: 'Browser',
     icon: '🌐',
+    dockIcon: 'browser',
     allowMultiple: true,
     width: 1200,
     height: 800,
     description: 'Full-featured web browser with tabs, bookmarks, and navigation',
+    load: () => import('../apps/Browser'),
   },
   
   TextEditor: {
@@ -69,29 +113,58 @@ export const APP_REGISTRY: Record<string, AppConfig> = {
     width: 800,
     height: 600,
     description: 'Text editor with syntax highlighting support',
+    fileTypes: { mimeTypes: ['text/*'] },
+    load: () => import('../apps/TextEditor'),
   },
   
   CodeEditor: {
     id: 'CodeEditor',
     name: 'Code Editor',
     icon: '👨‍💻',
+    dockIcon: 'file',
     allowMultiple: true,
     width: 1200,
     height: 800,
     description: 'Advanced code editor with Monaco, Vim mode, and Git integration',
+    fileTypes: {
+      extensions: ['txt', 'md', 'csv', 'js', 'mjs', 'jsx', 'ts', 'tsx', 'css', 'scss', 'html', 'json', 'xml', 'yml', 'yaml', 'py', 'java', 'c', 'h', 'cpp', 'php', 'sh'],
+      mimeTypes: ['text/*', 'application/json', 'application/xml'],
+    },
+    load: () => import('../apps/CodeEditor'),
   },
   
   IconDemo: {
     id: 'IconDemo',
     name: 'Icon Gallery',
     icon: '🎨',
+    dockIcon: 'palette',
     allowMultiple: false,
     width: 900,
     height: 700,
     description: 'Showcase of Papirus Ubuntu icons',
+    load: () => import('../apps/IconDemoApp'),
   },
 };
 
+// Plugins from /Applications are registered at runtime under this prefix
+export const PLUGIN_APP_PREFIX = 'plugin:';
+
+export const isPluginApp = (appId: string): boolean => appId.startsWith(PLUGIN_APP_PREFIX);
+
+// All plugins run in the same host, which finds the plugin by the app ID of its window
+export const loadPluginHost = () => import('../apps/PluginHost');
+
+/**
+ * Add an app at runtime, replacing an app with the same ID
+ */
+export const registerApp = (config: AppConfig): void => {
+  APP_REGISTRY[config.id] = config;
+};
+
+export const unregisterApp = (appId: string): void => {
+  delete APP_REGISTRY[appId];
+};
+
 // Helper functions for working with the registry
 export const getAppConfig = (appName: string): AppConfig | undefined => {
   return APP_REGISTRY[appName];
@@ -111,12 +184,88 @@ export const getSingleInstanceApps = (): AppConfig[] => {
 
 // Apps that appear in the dock (main applications)
 export const DOCK_APPS = [
-  'Terminal',
   'Files',
+  'Terminal',
   'CodeEditor',
-  'Browser',
   'Calculator',
+  'Browser',
   'Settings',
+  'IconDemo',
 ];
 
+export interface LaunchOptions {
+  title?: string;
+  // Windows opened with the same key are one instance, e.g. one editor per file
+  instanceKey?: string;
+  workspaceId?: string;
+}
+
+/**
+ * Open an app with `props`. A single-instance app, or a window with the
+ * same `instanceKey`, is focused instead when it is already open, with the
+ * new props merged in. Returns the window ID, or null for unknown apps.
+ */
+export const launchApp = (appId: string, props?: Record<string, unknown>, options: LaunchOptions = {}): string | null => {
+  const appConfig = getAppConfig(appId);
+  if (!appConfig) {
+    console.warn(`Unknown app: ${appId}`);
+    return null;
+  }
+
+  const { windows, openWindow, focusWindow, updateWindowProps } = useWindowStore.getState();
+  const appWindows = windows.filter(w => w.isVisible && w.appId === appId);
+  const existing = options.instanceKey
+    ? appWindows.find(w => w.app === options.instanceKey)
+    : !appConfig.allowMultiple ? appWindows[0] : undefined;
+
+  if (existing) {
+    if (props) {
+      updateWindowProps(existing.id, props);
+    }
+    focusWindow(existing.id);
+    return existing.id;
+  }
+
+  // Further windows of an app are numbered
+  const title = options.title ?? (appWindows.length > 0 ? `${appConfig.name} ${appWindows.length + 1}` : appConfig.name);
+  return openWindow(options.instanceKey ?? appId, {
+    title,
+    appId,
+    props,
+    width: appConfig.width,
+    height: appConfig.height,
+    allowMultiple: appConfig.allowMultiple,
+    workspaceId: options.workspaceId,
+  });
+};
+
+// By loader, so that all plugins share one component
+const lazyComponents = new Map<AppConfig['load'], LazyExoticComponent<ComponentType<AppWindowProps>>>();
+
+const getAppComponent = (load: AppConfig['load']) => {
+  let component = lazyComponents.get(load);
+  if (!component) {
+    component = lazy(load);
+    lazyComponents.set(load, component);
+  }
+  return component;
+};
+
+/**
+ * Render the app of a window with its props and the window ID
+ */
+export const renderAppContent = (window: WindowData): ReactNode => {
+  const appConfig = getAppConfig(window.appId);
+  // Plugin windows of a restored session render before /Applications is read
+  const load = appConfig?.load ?? (isPluginApp(window.appId) ? loadPluginHost : undefined);
+  if (!load) {
+    return createElement('div', { className: 'p-4' }, `App not found: ${window.appId}`);
+  }
+
+  const fallback = createElement('div', { className: 'p-4 text-sm opacity-60' }, `Loading ${appConfig?.name ?? window.title}…`);
+  return createElement(Suspense, { fallback },
+    createElement(getAppComponent(load), { ...window.props, windowId: window.id })
+  );
+};
+
 export default APP_REGISTRY;
@@ -0,0 +1,173 @@
+/**
+ * Terminal Command Registry
+ *
+ * Every Terminal command is a `TerminalCommand` registered here. The shell
+ * dispatches through the registry, and `help`, `man`, `which` and tab
+ * completion are generated from it, so apps and plugins can add commands
+ * with a single `registerCommand` call.
+ */
+
+// Output stream handed to a command: the terminal, a pipe or a redirected file
+export interface OutputStream {
+  readonly isTTY: boolean;
+  write(text: string): void;
+  writeln(text?: string): void;
+}
+
+// Input stream handed to a command. `isTTY` is true when nothing was piped
+// or redirected in, in which case `read` resolves to an empty string.
+export interface InputStream {
+  readonly isTTY: boolean;
+  read(): Promise<string>;
+}
+
+export interface CommandIO {
+  stdin: InputStream;
+  stdout: OutputStream;
+  stderr: OutputStream;
+  // Aborted when the user presses Ctrl+C or the job is killed
+  signal: AbortSignal;
+}
+
+// A job started from a shell, as listed by `jobs`
+export interface JobInfo {
+  id: number;
+  pid: number;
+  command: string;
+  status: 'running' | 'stopped';
+}
+
+// What the shell exposes to commands that need more than their streams
+export interface ShellSession {
+  readonly cwd: string;
+  resolvePath(path: string): string;
+  changeDirectory(path: string): void;
+  getVariable(name: string): string | undefined;
+  setVariable(name: string, value: string): void;
+  unsetVariable(name: string): void;
+  getEnvironment(): Record<string, string>;
+  shiftArguments(count: number): boolean;
+  runScript(command: string, params: string[], io: CommandIO, subshell: boolean): Promise<number>;
+  clear(): void;
+  // Ends the current script, or the session when typed at the prompt
+  exit(code?: number): number;
+  // Unwinds `levels` enclosing loops; returns false outside of a loop
+  loopControl(kind: 'break' | 'continue', levels: number): boolean;
+  getJobs(): JobInfo[];
+  // Looks a job up by `%n`, `n` or, without a spec, the most recent one
+  findJob(spec?: string): JobInfo | undefined;
+  // Continues a job, waiting for it when brought to the foreground
+  continueJob(id: number, foreground: boolean): Promise<number>;
+}
+
+export interface CommandContext extends CommandIO {
+  // Name the command was invoked as, which may be an alias
+  name: string;
+  args: string[];
+  shell: ShellSession;
+}
+
+export type ArgumentKind = 'path' | 'file' | 'directory' | 'command' | 'variable' | 'none';
+
+export interface CommandOption {
+  flag: string;
+  description: string;
+}
+
+// Describes the arguments of a command for completion and the man page
+export interface ArgumentSpec {
+  kind: ArgumentKind;
+  options?: CommandOption[];
+  // Fixed values offered by completion, e.g. subcommands
+  values?: string[];
+  // Values that depend on the session, e.g. job specs
+  complete?: (shell: ShellSession) => string[];
+}
+
+export interface TerminalCommand {
+  name: string;
+  aliases?: string[];
+  category: string;
+  summary: string;
+  usage: string;
+  manual: string;
+  args?: ArgumentSpec;
+  handler: (context: CommandContext) => Promise<number> | number;
+}
+
+// Order in which `help` lists categories; others follow alphabetically
+export const COMMAND_CATEGORIES = ['File Operations', 'Text Processing', 'Scripting', 'Processes', 'System'];
+
+class CommandRegistry {
+  private commands = new Map<string, TerminalCommand>();
+  private aliases = new Map<string, string>();
+
+  /**
+   * Register a command. Returns a function that unregisters it again.
+   */
+  register(command: TerminalCommand): () => void {
+    const names = [command.name, ...(command.aliases ?? [])];
+    const taken = names.find(name => this.get(name));
+    if (taken) {
+      throw new Error(`Terminal command "${taken}" is already registered`);
+    }
+
+    this.commands.set(command.name.toLowerCase(), command);
+    command.aliases?.forEach(alias => this.aliases.set(alias.toLowerCase(), command.name.toLowerCase()));
+
+    return () => this.unregister(command.name);
+  }
+
+  unregister(name: string): void {
+    const command = this.get(name);
+    if (!command) return;
+
+    this.commands.delete(command.name.toLowerCase());
+    command.aliases?.forEach(alias => this.aliases.delete(alias.toLowerCase()));
+  }
+
+  get(name: string): TerminalCommand | undefined {
+    const key = name.toLowerCase();
+    return this.commands.get(this.aliases.get(key) ?? key);
+  }
+
+  has(name: string): boolean {
+    return this.get(name) !== undefined;
+  }
+
+  getAll(): TerminalCommand[] {
+    return [...this.commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * All names a command can be invoked by, including aliases
+   */
+  getNames(): string[] {
+    return [...this.commands.values()]
+      .flatMap(command => [command.name, ...(command.aliases ?? [])])
+      .sort();
+  }
+
+  getByCategory(): [string, TerminalCommand[]][] {
+    const groups = new Map<string, TerminalCommand[]>();
+    this.getAll().forEach(command => {
+      groups.set(command.category, [...(groups.get(command.category) ?? []), command]);
+    });
+
+    const rank = (category: string) => {
+      const index = COMMAND_CATEGORIES.indexOf(category);
+      return index === -1 ? COMMAND_CATEGORIES.length : index;
+    };
+    return [...groups.entries()].sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b));
+  }
+}
+
+// Create and export singleton instance
+export const commandRegistry = new CommandRegistry();
+
+export const registerCommand = (command: TerminalCommand): (() => void) => {
+  return commandRegistry.register(command);
+};
+
+// Export the class for testing
+export { CommandRegistry };
@@ -0,0 +1,150 @@
+/**
+ * File Associations
+ *
+ * Which apps open which files. Apps declare the extensions and MIME types
+ * they handle in the app registry, and the user can pick the default app
+ * for a file type, kept in `settings.fileAssociations`. Files, the command
+ * palette and the `open` command all open files through `openPath`.
+ *
+ * Types are keyed by extension (`.md`), or by MIME type for folders and
+ * files without an extension.
+ */
+
+import { getAllAppConfigs, getAppConfig, isPluginApp, launchApp } from './appRegistry';
+import type { AppConfig } from './appRegistry';
+import { useSettingsStore } from '../stores/settingsStore';
+import { vfsSyncService } from '../services/vfsSyncService';
+import { recentFilesService } from '../services/recentFilesService';
+import { FOLDER_MIME_TYPE, getExtension, getKnownExtensions, getMimeType, getMimeTypeOfExtension, matchesMimeType } from '../utils/mimeTypes';
+import { parsePath } from '../utils/helpers';
+
+export const getFileTypeKey = (fileName: string, isFolder = false): string => {
+  if (isFolder) return FOLDER_MIME_TYPE;
+  const extension = getExtension(fileName);
+  return extension ? `.${extension}` : getMimeType(fileName);
+};
+
+/**
+ * How well an app fits a file: an extension it names beats an exact MIME
+ * type, which beats a pattern such as `text/*`. Zero when it cannot open it.
+ */
+const getMatchRank = (app: AppConfig, extension: string, mimeType: string): number => {
+  const { extensions = [], mimeTypes = [] } = app.fileTypes ?? {};
+  if (extension && extensions.includes(extension)) return 3;
+  if (mimeTypes.includes(mimeType)) return 2;
+  if (mimeTypes.some(pattern => matchesMimeType(mimeType, pattern))) return 1;
+  return 0;
+};
+
+const getAppsFor = (extension: string, mimeType: string): AppConfig[] => {
+  return getAllAppConfigs()
+    .map(app => ({ app, rank: getMatchRank(app, extension, mimeType) }))
+    .filter(({ rank }) => rank > 0)
+    .sort((a, b) => b.rank - a.rank)
+    .map(({ app }) => app);
+};
+
+/**
+ * Apps that can open files of a type, the best fitting first
+ */
+export const getAppsForType = (typeKey: string): AppConfig[] => {
+  if (typeKey.startsWith('.')) {
+    const extension = typeKey.slice(1);
+    return getAppsFor(extension, getMimeTypeOfExtension(extension));
+  }
+  return getAppsFor('', typeKey);
+};
+
+/**
+ * Apps that can open a file, the best fitting first
+ */
+export const getAppsForFile = (fileName: string, isFolder = false): AppConfig[] => {
+  return getAppsForType(getFileTypeKey(fileName, isFolder));
+};
+
+/**
+ * The app the user chose for a type, or else the best fitting one
+ */
+export const getDefaultAppForType = (typeKey: string): AppConfig | undefined => {
+  const apps = getAppsForType(typeKey);
+  const preferred = useSettingsStore.getState().settings.fileAssociations[typeKey];
+  return apps.find(app => app.id === preferred) ?? apps[0];
+};
+
+export const getDefaultApp = (fileName: string, isFolder = false): AppConfig | undefined => {
+  return getDefaultAppForType(getFileTypeKey(fileName, isFolder));
+};
+
+/**
+ * Types where the user has a choice: more than one app opens them, or a
+ * default was picked before. Extensions first, then MIME types.
+ */
+export const getSelectableFileTypes = (): string[] => {
+  const preferences = useSettingsStore.getState().settings.fileAssociations;
+  const declared = getAllAppConfigs().flatMap(app => app.fileTypes?.extensions ?? []);
+  const keys = new Set([
+    ...[...getKnownExtensions(), ...declared].map(extension => `.${extension}`),
+    // Files without an extension
+    getFileTypeKey(''),
+    FOLDER_MIME_TYPE,
+    ...Object.keys(preferences),
+  ]);
+  return [...keys]
+    .filter(key => getAppsForType(key).length > 1 || key in preferences)
+    .sort((a, b) => Number(!a.startsWith('.')) - Number(!b.startsWith('.')) || a.localeCompare(b));
+};
+
+/**
+ * Open files of a type with `appId` from now on, or with the best fitting
+ * app again when `appId` is null
+ */
+export const setDefaultApp = (typeKey: string, appId: string | null): void => {
+  const { settings, updateSettings } = useSettingsStore.getState();
+  const fileAssociations = { ...settings.fileAssociations };
+  if (appId) {
+    fileAssociations[typeKey] = appId;
+  } else {
+    delete fileAssociations[typeKey];
+  }
+  updateSettings({ fileAssociations });
+};
+
+export interface OpenPathOptions {
+  // Open with this app instead of the default one
+  appId?: string;
+  // Looked up in the VFS when not given
+  isFolder?: boolean;
+}
+
+/**
+ * Open a file or folder of the VFS in its default app, or in
+ * `options.appId`. Each file gets one window in apps with several windows.
+ * Returns the window ID; throws when no app can open the file.
+ */
+export const openPath = async (path: string, options: OpenPathOptions = {}): Promise<string> => {
+  const name = parsePath(path).filename || path;
+  const isFolder = options.isFolder ?? await vfsSyncService.isFolder(path);
+
+  const appConfig = options.appId ? getAppConfig(options.appId) : getDefaultApp(name, isFolder);
+  if (!appConfig) {
+    throw new Error(options.appId ? `Unknown app: ${options.appId}` : `No app can open ${name}`);
+  }
+
+  // Plugins read files through the plugin bridge, the editors start with the content
+  const props: Record<string, unknown> = { filePath: path, fileName: name };
+  if (!isFolder && !isPluginApp(appConfig.id)) {
+    props.initialContent = await vfsSyncService.getFileContent(path);
+  }
+  if (!isFolder) {
+    recentFilesService.add(path);
+  }
+
+  const windowId = launchApp(appConfig.id, props, {
+    title: `${appConfig.name} - ${name}`,
+    instanceKey: appConfig.allowMultiple ? `${appConfig.id}-${path}` : undefined,
+  });
+  if (!windowId) {
+    throw new Error(`Cannot open ${appConfig.name}`);
+  }
+  return windowId;
+};
@@ -0,0 +1,183 @@
+/**
+ * Keybinding Registry
+ *
+ * Every keyboard shortcut of the desktop is a command listed here with a
+ * typed ID, a scope and its default chords. Handlers are attached at
+ * runtime through the keybinding service, and users can rebind any
+ * command in Settings.
+ *
+ * Scopes decide when a command applies:
+ * - `global` works anywhere on the desktop
+ * - `window` acts on the focused window, whatever its app
+ * - `app` only works while a window of `appId` is focused
+ */
+
+import { normalizeChord } from '../utils/keyChords';
+
+export type KeybindingScope = 'global' | 'window' | 'app';
+
+type Digit = '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+
+export type KeybindingCommandId =
+  | 'window.minimize'
+  | 'window.close'
+  | 'window.toggleFullscreen'
+  | 'window.maximize'
+  | 'window.restore'
+  | 'window.snapLeft'
+  | 'window.snapRight'
+  | 'window.snapTopLeft'
+  | 'window.snapTopRight'
+  | 'window.snapBottomLeft'
+  | 'window.snapBottomRight'
+  | 'window.promote'
+  | 'desktop.cycleTiling'
+  | 'desktop.toggleOverview'
+  | 'desktop.showOverview'
+  | 'desktop.hideOverview'
+  | 'desktop.switchWindow'
+  | 'desktop.switchWindowBack'
+  | 'desktop.commandPalette'
+  | 'workspace.previous'
+  | 'workspace.next'
+  | 'workspace.moveWindowPrevious'
+  | 'workspace.moveWindowNext'
+  | `workspace.switchTo${Digit}`
+  | `workspace.moveWindowTo${Digit}`
+  | 'apps.openFiles'
+  | 'apps.newDocument'
+  | 'apps.openTerminal'
+  | 'terminal.newTab'
+  | 'terminal.closePane'
+  | 'terminal.splitRight'
+  | 'terminal.splitDown'
+  | 'terminal.focusLeft'
+  | 'terminal.focusRight'
+  | 'terminal.focusUp'
+  | 'terminal.focusDown'
+  | 'terminal.previousTab'
+  | 'terminal.nextTab'
+  | `terminal.selectTab${Digit}`
+  | 'codeEditor.save'
+  | 'codeEditor.saveAs'
+  | 'codeEditor.open'
+  | 'codeEditor.newFile';
+
+export interface KeybindingCommand {
+  id: KeybindingCommandId;
+  title: string;
+  category: string;
+  scope: KeybindingScope;
+  // App the command belongs to when its scope is `app`
+  appId?: string;
+  defaultKeys: string[];
+  // Only makes sense from the keyboard, so left out of the command palette
+  keyOnly?: boolean;
+}
+
+// Order of the categories in Settings
+export const KEYBINDING_CATEGORIES = ['Windows', 'Desktop', 'Workspaces', 'Apps', 'Terminal', 'Code Editor'];
+
+const DIGITS: Digit[] = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+export const KEYBINDING_COMMANDS: KeybindingCommand[] = [
+  { id: 'window.minimize', title: 'Minimize window', category: 'Windows', scope: 'window', defaultKeys: ['Mod+M'] },
+  // Not Mod+W: browsers keep Ctrl+W, and readline in the Terminal cuts a word with it
+  { id: 'window.close', title: 'Close window', category: 'Windows', scope: 'window', defaultKeys: ['Alt+Shift+W'] },
+  { id: 'window.toggleFullscreen', title: 'Toggle fullscreen', category: 'Windows', scope: 'window', defaultKeys: ['F11', 'Mod+Enter'] },
+  { id: 'window.maximize', title: 'Maximize or restore window', category: 'Windows', scope: 'window', defaultKeys: ['Alt+Shift+ArrowUp'] },
+  { id: 'window.restore', title: 'Unsnap window', category: 'Windows', scope: 'window', defaultKeys: ['Alt+Shift+ArrowDown'] },
+  { id: 'window.snapLeft', title: 'Snap to left half', category: 'Windows', scope: 'window', defaultKeys: ['Alt+Shift+ArrowLeft'] },
+  { id: 'window.snapRight', title: 'Snap to right half', category: 'Windows', scope: 'window', defaultKeys: ['Alt+Shift+ArrowRight'] },
+  { id: 'window.snapTopLeft', title: 'Snap to top left quarter', category: 'Windows', scope: 'window', defaultKeys: ['Alt+Shift+U'] },
+  { id: 'window.snapTopRight', title: 'Snap to top right quarter', category: 'Windows', scope: 'window', defaultKeys: ['Alt+Shift+I'] },
+  { id: 'window.snapBottomLeft', title: 'Snap to bottom left quarter', category: 'Windows', scope: 'window', defaultKeys: ['Alt+Shift+J'] },
+  { id: 'window.snapBottomRight', title: 'Snap to bottom right quarter', category: 'Windows', scope: 'window', defaultKeys: ['Alt+Shift+K'] },
+  { id: 'window.promote', title: 'Make master of the tiling layout', category: 'Windows', scope: 'window', defaultKeys: ['Alt+Shift+Enter'] },
+
+  { id: 'desktop.cycleTiling', title: 'Cycle tiling layouts', category: 'Desktop', scope: 'global', defaultKeys: ['Alt+Shift+T'] },
+  { id: 'desktop.toggleOverview', title: 'Toggle window overview', category: 'Desktop', scope: 'global', defaultKeys: ['F3', 'Ctrl+ArrowUp'] },
+  { id: 'desktop.showOverview', title: 'Show window overview', category: 'Desktop', scope: 'global', defaultKeys: ['Ctrl+Alt+ArrowUp'] },
+  { id: 'desktop.hideOverview', title: 'Hide window overview', category: 'Desktop', scope: 'global', defaultKeys: ['Ctrl+Alt+ArrowDown'] },
+  { id: 'desktop.switchWindow', title: 'Switch to next window', category: 'Desktop', scope: 'global', defaultKeys: ['Alt+Tab'], keyOnly: true },
+  { id: 'desktop.switchWindowBack', title: 'Switch to previous window', category: 'Desktop', scope: 'global', defaultKeys: ['Alt+Shift+Tab'], keyOnly: true },
+  { id: 'desktop.commandPalette', title: 'Open command palette', category: 'Desktop', scope: 'global', defaultKeys: ['Mod+Space'], keyOnly: true },
+
+  { id: 'workspace.previous', title: 'Previous workspace', category: 'Workspaces', scope: 'global', defaultKeys: ['Ctrl+Alt+ArrowLeft'] },
+  { id: 'workspace.next', title: 'Next workspace', category: 'Workspaces', scope: 'global', defaultKeys: ['Ctrl+Alt+ArrowRight'] },
+  { id: 'workspace.moveWindowPrevious', title: 'Move window to previous workspace', category: 'Workspaces', scope: 'global', defaultKeys: ['Ctrl+Alt+Shift+ArrowLeft'] },
+  { id: 'workspace.moveWindowNext', title: 'Move window to next workspace', category: 'Workspaces', scope: 'global', defaultKeys: ['Ctrl+Alt+Shift+ArrowRight'] },
+  ...DIGITS.map((digit): KeybindingCommand => ({
+    id: `workspace.switchTo${digit}`, title: `Switch to workspace ${digit}`, category: 'Workspaces', scope: 'global', defaultKeys: [`Ctrl+Alt+${digit}`],
+  })),
+  ...DIGITS.map((digit): KeybindingCommand => ({
+    id: `workspace.moveWindowTo${digit}`, title: `Move window to workspace ${digit}`, category: 'Workspaces', scope: 'global', defaultKeys: [`Ctrl+Alt+Shift+${digit}`],
+  })),
+
+  { id: 'apps.openFiles', title: 'Open Files', category: 'Apps', scope: 'global', defaultKeys: ['Mod+Alt+O'] },
+  { id: 'apps.newDocument', title: 'New document', category: 'Apps', scope: 'global', defaultKeys: ['Mod+Alt+N'] },
+  { id: 'apps.openTerminal', title: 'Open Terminal', category: 'Apps', scope: 'global', defaultKeys: ['Mod+Alt+T'] },
+
+  // On Alt since browsers keep Ctrl+T, Ctrl+W and Ctrl+Tab for themselves
+  { id: 'terminal.newTab', title: 'New tab', category: 'Terminal', scope: 'app', appId: 'Terminal', defaultKeys: ['Alt+T'] },
+  { id: 'terminal.closePane', title: 'Close pane', category: 'Terminal', scope: 'app', appId: 'Terminal', defaultKeys: ['Alt+W'] },
+  { id: 'terminal.splitRight', title: 'Split side by side', category: 'Terminal', scope: 'app', appId: 'Terminal', defaultKeys: ['Alt+D'] },
+  { id: 'terminal.splitDown', title: 'Split stacked', category: 'Terminal', scope: 'app', appId: 'Terminal', defaultKeys: ['Alt+Shift+D'] },
+  { id: 'terminal.focusLeft', title: 'Focus pane on the left', category: 'Terminal', scope: 'app', appId: 'Terminal', defaultKeys: ['Alt+ArrowLeft'] },
+  { id: 'terminal.focusRight', title: 'Focus pane on the right', category: 'Terminal', scope: 'app', appId: 'Terminal', defaultKeys: ['Alt+ArrowRight'] },
+  { id: 'terminal.focusUp', title: 'Focus pane above', category: 'Terminal', scope: 'app', appId: 'Terminal', defaultKeys: ['Alt+ArrowUp'] },
+  { id: 'terminal.focusDown', title: 'Focus pane below', category: 'Terminal', scope: 'app', appId: 'Terminal', defaultKeys: ['Alt+ArrowDown'] },
+  { id: 'terminal.previousTab', title: 'Previous tab', category: 'Terminal', scope: 'app', appId: 'Terminal', defaultKeys: ['Alt+['] },
+  { id: 'terminal.nextTab', title: 'Next tab', category: 'Terminal', scope: 'app', appId: 'Terminal', defaultKeys: ['Alt+]'] },
+  ...DIGITS.map((digit): KeybindingCommand => ({
+    id: `terminal.selectTab${digit}`, title: `Go to tab ${digit}`, category: 'Terminal', scope: 'app', appId: 'Terminal', defaultKeys: [`Alt+${digit}`],
+  })),
+
+  { id: 'codeEditor.save', title: 'Save', category: 'Code Editor', scope: 'app', appId: 'CodeEditor', defaultKeys: ['Mod+S'] },
+  { id: 'codeEditor.saveAs', title: 'Save as', category: 'Code Editor', scope: 'app', appId: 'CodeEditor', defaultKeys: ['Mod+Shift+S'] },
+  { id: 'codeEditor.open', title: 'Open file', category: 'Code Editor', scope: 'app', appId: 'CodeEditor', defaultKeys: ['Mod+O'] },
+  { id: 'codeEditor.newFile', title: 'New file', category: 'Code Editor', scope: 'app', appId: 'CodeEditor', defaultKeys: ['Mod+N'] },
+];
+
+const COMMANDS_BY_ID = new Map(KEYBINDING_COMMANDS.map(command => [command.id, command]));
+
+export const getKeybindingCommand = (id: KeybindingCommandId): KeybindingCommand | undefined => COMMANDS_BY_ID.get(id);
+
+/**
+ * Whether two commands can be triggered from the same place. Only commands
+ * of two different apps never meet.
+ */
+export const scopesOverlap = (a: KeybindingCommand, b: KeybindingCommand): boolean => {
+  return !(a.scope === 'app' && b.scope === 'app' && a.appId !== b.appId);
+};
+
+export interface KeybindingConflict {
+  chord: string;
+  commands: KeybindingCommand[];
+}
+
+/**
+ * Chords bound to more than one command in overlapping scopes. An app
+ * command wins over a window or global one, but that still hides the
+ * other command while the app is focused, so it is reported too.
+ */
+export const findConflicts = (getKeys: (command: KeybindingCommand) => string[]): KeybindingConflict[] => {
+  const byChord = new Map<string, KeybindingCommand[]>();
+  KEYBINDING_COMMANDS.forEach(command => {
+    getKeys(command).forEach(keys => {
+      const chord = normalizeChord(keys);
+      if (chord) {
+        byChord.set(chord, [...(byChord.get(chord) ?? []), command]);
+      }
+    });
+  });
+
+  const conflicts: KeybindingConflict[] = [];
+  byChord.forEach((commands, chord) => {
+    const clashing = commands.filter(command => commands.some(other => other !== command && scopesOverlap(command, other)));
+    if (clashing.length > 1) {
+      conflicts.push({ chord, commands: clashing });
+    }
+  });
+  return conflicts;
+};
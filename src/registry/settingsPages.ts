@@ -0,0 +1,29 @@
+/**
+ * Settings pages
+ *
+ * The pages of the Settings app, shared with the command palette so that
+ * a page can be opened directly. Keywords help finding a page by what it
+ * contains rather than by its name.
+ */
+
+export interface SettingsPage {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  keywords: string[];
+}
+
+export const SETTINGS_PAGES: SettingsPage[] = [
+  { id: 'appearance', name: 'Appearance', icon: '🎨', description: 'Theme and wallpaper', keywords: ['theme', 'dark mode', 'light mode', 'wallpaper', 'background'] },
+  { id: 'system', name: 'System', icon: '⚙️', description: 'Display, sound, language and desktop behavior', keywords: ['brightness', 'font size', 'icon size', 'volume', 'sound', 'language', 'taskbar', 'animations', 'hot corners'] },
+  { id: 'files', name: 'Files', icon: '📁', description: 'How files are shown and opened', keywords: ['extensions', 'double-click', 'icons', 'default apps', 'open with', 'file associations'] },
+  { id: 'terminal', name: 'Terminal', icon: '💻', description: 'Command history of the Terminal', keywords: ['history', 'shell', 'duplicates'] },
+  { id: 'keyboard', name: 'Keyboard', icon: '⌨️', description: 'View and change keyboard shortcuts', keywords: ['shortcuts', 'keybindings', 'hotkeys', 'keys'] },
+  { id: 'plugins', name: 'Plugins', icon: '🧩', description: 'Plugins installed in /Applications and their permissions', keywords: ['apps', 'applications', 'permissions', 'extensions', 'sdk'] },
+  { id: 'about', name: 'About', icon: 'ℹ️', description: 'Version and system information', keywords: ['version', 'info'] },
+];
+
+export const getSettingsPage = (id: string): SettingsPage | undefined => {
+  return SETTINGS_PAGES.find(page => page.id === id);
+};
@@ -11,6 +11,27 @@ export interface FileItem {
   uploadDate: string;
   parent?: string | null;
   mimeType?: string;
+  metadata?: {
+    version?: number;
+  };
+}
+
+export interface TrashFile {
+  id: string;
+  filename: string;
+  originalName: string;
+  path: string;
+  size: number;
+  mimeType: string;
+  isDirectory: boolean;
+  deletedAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TrashResponse {
+  files: TrashFile[];
+  retentionDays: number;
 }
 
 export interface UserData {
@@ -38,6 +59,24 @@ export interface FilesResponse {
   message?: string;
 }
 
+// An item another user shares with the current one
+export interface SharedFile {
+  id: string;
+  filename: string;
+  originalName: string;
+  path: string;
+  size: number;
+  mimeType: string;
+  isDirectory: boolean;
+  owner: { _id: string; username: string; firstName?: string; lastName?: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SharedFilesResponse {
+  files: SharedFile[];
+}
+
 export interface ApiResponse {
   success: boolean;
   data?: any;
@@ -47,6 +86,7 @@ export interface ApiResponse {
 
 declare class ApiClient {
   token: string | null;
+  clientId: string;
 
   constructor();
   
@@ -68,7 +108,8 @@ declare class ApiClient {
   searchUsers(query: string, limit?: number): Promise<ApiResponse>;
 
   // File management methods
-  getFiles(parentId?: string | null): Promise<FilesResponse>;
+  // With an owner, the files of another user in a folder they share
+  getFiles(path?: string, owner?: string): Promise<FilesResponse>;
   uploadFile(file: File, parentId?: string | null): Promise<ApiResponse>;
   downloadFile(fileId: string): Promise<Blob>;
   getFileContent(fileId: string): Promise<{ content: string; filename: string; path: string; size: number; mimeType: string }>;
@@ -76,12 +117,20 @@ declare class ApiClient {
   createFolder(name: string, parentId?: string | null): Promise<ApiResponse>;
   deleteFile(fileId: string): Promise<ApiResponse>;
   renameFile(fileId: string, newName: string): Promise<ApiResponse>;
-  moveFile(fileId: string, newParentId: string): Promise<ApiResponse>;
+  moveFile(fileId: string, newPath: string): Promise<ApiResponse>;
+
+  getFileEvents(signal?: AbortSignal): Promise<ReadableStream<Uint8Array>>;
+
+  // Trash methods
+  getTrash(): Promise<TrashResponse>;
+  restoreFromTrash(fileId: string, newName?: string): Promise<ApiResponse>;
+  deleteFromTrash(fileId: string): Promise<ApiResponse>;
+  emptyTrash(): Promise<ApiResponse>;
 
   // File sharing methods
   shareFile(fileId: string, userId: string, permissions: any): Promise<ApiResponse>;
   revokeFileSharing(fileId: string, userId: string): Promise<ApiResponse>;
-  getSharedWithMe(): Promise<ApiResponse>;
+  getSharedWithMe(): Promise<SharedFilesResponse>;
   getSharedByMe(): Promise<ApiResponse>;
 
   // Admin methods
@@ -29,15 +29,28 @@ console.log('🔧 API Configuration:', {
   hostname: window.location.hostname
 });
 
+// Names this browser in file change events, so that its tabs can skip the
+// changes they made themselves
+const getClientId = () => {
+  let clientId = localStorage.getItem('weave-client-id');
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    localStorage.setItem('weave-client-id', clientId);
+  }
+  return clientId;
+};
+
 class ApiClient {
   constructor() {
     this.token = localStorage.getItem('authToken');
+    this.clientId = getClientId();
   }
 
   // Helper method to get headers
   getHeaders(includeAuth = true) {
     const headers = {
       'Content-Type': 'application/json',
+      'X-Client-Id': this.clientId,
     };
 
     if (includeAuth && this.token) {
@@ -211,8 +224,10 @@ class ApiClient {
   }
 
   // File management methods
-  async getFiles(path = '/') {
-    const url = `${API_BASE_URL}/files?path=${encodeURIComponent(path)}`;
+  async getFiles(path = '/', owner = null) {
+    const params = new URLSearchParams({ path });
+    if (owner) params.append('owner', owner);
+    const url = `${API_BASE_URL}/files?${params}`;
       
     const response = await fetch(url, {
       headers: this.getHeaders(),
@@ -231,6 +246,7 @@ class ApiClient {
       method: 'POST',
       headers: {
         Authorization: `Bearer ${this.token}`,
+        'X-Client-Id': this.clientId,
       },
       body: formData,
       credentials: 'include'
@@ -294,21 +310,77 @@ class ApiClient {
   }
 
   async renameFile(fileId, newName) {
-    const response = await fetch(`${API_BASE_URL}/files/${fileId}`, {
+    const response = await fetch(`${API_BASE_URL}/files/${fileId}/rename`, {
       method: 'PUT',
       headers: this.getHeaders(),
-      body: JSON.stringify({ filename: newName }),
+      body: JSON.stringify({ newName }),
       credentials: 'include'
     });
     
     return this.handleResponse(response);
   }
 
-  async moveFile(fileId, newParentId) {
+  async moveFile(fileId, newPath) {
     const response = await fetch(`${API_BASE_URL}/files/${fileId}/move`, {
       method: 'PUT',
       headers: this.getHeaders(),
-      body: JSON.stringify({ newParent: newParentId }),
+      body: JSON.stringify({ newPath }),
+      credentials: 'include'
+    });
+    
+    return this.handleResponse(response);
+  }
+
+  // Changes to the user's files, as a stream of server-sent events
+  async getFileEvents(signal) {
+    const response = await fetch(`${API_BASE_URL}/files/events`, {
+      headers: { ...this.getHeaders(), Accept: 'text/event-stream' },
+      credentials: 'include',
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      await this.handleResponse(response);
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.body;
+  }
+
+  // Trash methods
+  async getTrash() {
+    const response = await fetch(`${API_BASE_URL}/files/trash`, {
+      headers: this.getHeaders(),
+      credentials: 'include'
+    });
+    
+    return this.handleResponse(response);
+  }
+
+  async restoreFromTrash(fileId, newName) {
+    const response = await fetch(`${API_BASE_URL}/files/trash/${fileId}/restore`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(newName ? { newName } : {}),
+      credentials: 'include'
+    });
+    
+    return this.handleResponse(response);
+  }
+
+  async deleteFromTrash(fileId) {
+    const response = await fetch(`${API_BASE_URL}/files/trash/${fileId}`, {
+      method: 'DELETE',
+      headers: this.getHeaders(),
+      credentials: 'include'
+    });
+    
+    return this.handleResponse(response);
+  }
+
+  async emptyTrash() {
+    const response = await fetch(`${API_BASE_URL}/files/trash`, {
+      method: 'DELETE',
+      headers: this.getHeaders(),
       credentials: 'include'
     });
     
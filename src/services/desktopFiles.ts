@@ -0,0 +1,30 @@
+/**
+ * The desktop folder, whose files the desktop shows as icons. It is
+ * created the first time something is put on the desktop.
+ */
+
+import { vfsSyncService } from './vfsSyncService';
+import { DESKTOP_PATH, generateUniqueFileName, joinPath } from '../utils/helpers';
+
+export const ensureDesktopFolder = async (): Promise<void> => {
+  if (!await vfsSyncService.exists(DESKTOP_PATH)) {
+    await vfsSyncService.createFolder(DESKTOP_PATH, 'desktop');
+  }
+};
+
+/**
+ * New File and New Folder of the desktop menu. Returns the path of the
+ * new entry, named so that it does not replace another one.
+ */
+export const createDesktopItem = async (type: 'file' | 'folder'): Promise<string> => {
+  await ensureDesktopFolder();
+  const names = (await vfsSyncService.listDir(DESKTOP_PATH)).map(item => item.name);
+  const path = joinPath(DESKTOP_PATH, generateUniqueFileName(type === 'folder' ? 'New Folder' : 'New File.txt', names));
+
+  if (type === 'folder') {
+    await vfsSyncService.createFolder(path, 'desktop');
+  } else {
+    await vfsSyncService.createFile(path, '', 'desktop');
+  }
+  return path;
+};
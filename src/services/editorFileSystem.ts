@@ -0,0 +1,20 @@
+/**
+ * Code Editor file system
+ *
+ * The LightningFS file system in IndexedDB the Code Editor keeps its git
+ * repositories in. Every user of it shares one instance, since each
+ * instance caches the tree and would not see the changes of the others.
+ */
+
+import FS from '@isomorphic-git/lightning-fs';
+
+const FS_NAME = 'WeaveCodeEditor';
+
+let editorFS: FS | null = null;
+
+export const getEditorFS = (): FS => {
+  if (!editorFS) {
+    editorFS = new FS(FS_NAME);
+  }
+  return editorFS;
+};
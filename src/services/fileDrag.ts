@@ -0,0 +1,105 @@
+/**
+ * Drag and drop of VFS files between Files windows, the desktop and the
+ * editors. Dragged files travel in the DataTransfer under their own type,
+ * so drags from other pages are told apart from ours. Files dragged in
+ * from the host carry the standard 'Files' type instead.
+ */
+
+import { vfsSyncService } from './vfsSyncService';
+import { parsePath } from '../utils/helpers';
+
+export interface DraggedFile {
+  path: string;
+  isFolder: boolean;
+}
+
+const VFS_FILES_TYPE = 'application/x-weave-files';
+
+export const setDraggedFiles = (dataTransfer: DataTransfer, files: DraggedFile[]): void => {
+  dataTransfer.setData(VFS_FILES_TYPE, JSON.stringify(files));
+  // Other drop targets, such as text fields, get the paths
+  dataTransfer.setData('text/plain', files.map(file => file.path).join('\n'));
+  // Folders move the files, editors open them
+  dataTransfer.effectAllowed = 'copyMove';
+};
+
+/**
+ * Whether VFS files are dragged. Their data can only be read on drop.
+ */
+export const hasDraggedFiles = (dataTransfer: DataTransfer): boolean => dataTransfer.types.includes(VFS_FILES_TYPE);
+
+export const getDraggedFiles = (dataTransfer: DataTransfer): DraggedFile[] => {
+  try {
+    const files = JSON.parse(dataTransfer.getData(VFS_FILES_TYPE) || '[]');
+    return Array.isArray(files)
+      ? files.filter(file => typeof file?.path === 'string').map(file => ({ path: file.path, isFolder: file.isFolder === true }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Whether files of the host, e.g. from its file manager, are dragged
+ */
+export const hasHostFiles = (dataTransfer: DataTransfer): boolean => dataTransfer.types.includes('Files');
+
+export interface TransferResult {
+  done: number;
+  errors: string[];
+}
+
+/**
+ * Move dragged files into a folder. Files that are in it already, and a
+ * folder dropped on itself, stay where they are.
+ */
+export const moveFiles = async (files: DraggedFile[], destFolder: string, source: string): Promise<TransferResult> => {
+  const result: TransferResult = { done: 0, errors: [] };
+  for (const { path } of files) {
+    if (path === destFolder || parsePath(path).parent === destFolder) continue;
+    try {
+      await vfsSyncService.moveNode(path, destFolder, source);
+      result.done++;
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : `Failed to move ${path}`);
+    }
+  }
+  return result;
+};
+
+/**
+ * Move files to the trash, e.g. when dropped on it
+ */
+export const trashFiles = async (files: DraggedFile[], source: string): Promise<TransferResult> => {
+  const result: TransferResult = { done: 0, errors: [] };
+  for (const { path } of files) {
+    // Mounted file systems have no Trash to put things back from
+    if (vfsSyncService.getMount(path)) {
+      result.errors.push(`${path} is on a mounted file system and cannot be moved to the Trash`);
+      continue;
+    }
+    try {
+      await vfsSyncService.deleteNode(path, source);
+      result.done++;
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : `Failed to move ${path} to the Trash`);
+    }
+  }
+  return result;
+};
+
+/**
+ * Upload files of the host into a folder
+ */
+export const uploadFiles = async (files: File[], destFolder: string, source: string): Promise<TransferResult> => {
+  const result: TransferResult = { done: 0, errors: [] };
+  for (const file of files) {
+    try {
+      await vfsSyncService.uploadFile(file, destFolder, source);
+      result.done++;
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : `Failed to upload ${file.name}`);
+    }
+  }
+  return result;
+};
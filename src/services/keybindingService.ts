@@ -0,0 +1,233 @@
+/**
+ * Keybinding Service
+ *
+ * Dispatches key presses to the commands of the keybinding registry.
+ * Components register handlers for command IDs, and the service finds the
+ * command bound to a chord in the current context: the command of the
+ * focused app first, then window commands, then global ones. A handler
+ * that returns false lets the next command have the key.
+ *
+ * Rebound chords are kept in `settings.keybindings`.
+ */
+
+import { useWindowStore } from '../store/windowStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { KEYBINDING_COMMANDS, getKeybindingCommand, findConflicts, scopesOverlap } from '../registry/keybindingRegistry';
+import type { KeybindingCommand, KeybindingCommandId, KeybindingConflict, KeybindingScope } from '../registry/keybindingRegistry';
+import { eventToChord, normalizeChord, formatChord } from '../utils/keyChords';
+
+export interface KeybindingContext {
+  // Focused window, if any, and its app
+  windowId?: string;
+  appId?: string;
+  // Missing when the command was run from the command palette
+  event?: KeyboardEvent;
+}
+
+export type KeybindingHandler = (context: KeybindingContext) => boolean | void;
+
+interface RegisteredHandler {
+  handler: KeybindingHandler;
+  // Only called while this window is focused
+  windowId?: string;
+}
+
+const SCOPE_ORDER: KeybindingScope[] = ['app', 'window', 'global'];
+
+/**
+ * The window that holds the keyboard focus, or else the topmost window of
+ * the active workspace
+ */
+const getFocusedWindow = () => {
+  const { windows, activeWorkspaceId } = useWindowStore.getState();
+  const active = windows.filter(w => w.isVisible && !w.isMinimized && w.workspaceId === activeWorkspaceId);
+
+  const element = document.activeElement?.closest('[data-window-id]');
+  const focusedId = element?.getAttribute('data-window-id');
+  return active.find(w => w.id === focusedId)
+    ?? active.reduce<typeof active[number] | undefined>((top, w) => (!top || w.zIndex > top.zIndex ? w : top), undefined);
+};
+
+class KeybindingService {
+  private handlers = new Map<KeybindingCommandId, RegisteredHandler[]>();
+  private suspended = 0;
+
+  /**
+   * Listen for key presses while capturing, so that shortcuts also work
+   * when an app such as the Terminal or the Code Editor would consume the
+   * keys. Returns a function that stops again.
+   */
+  start(): () => void {
+    const handleKeyDown = (e: KeyboardEvent) => this.dispatch(e);
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }
+
+  /**
+   * Handle a command. The handler is removed by the returned function.
+   */
+  registerHandler(commandId: KeybindingCommandId, handler: KeybindingHandler, options: { windowId?: string } = {}): () => void {
+    const entry: RegisteredHandler = { handler, windowId: options.windowId };
+    this.handlers.set(commandId, [...(this.handlers.get(commandId) ?? []), entry]);
+
+    return () => {
+      const remaining = (this.handlers.get(commandId) ?? []).filter(other => other !== entry);
+      if (remaining.length > 0) {
+        this.handlers.set(commandId, remaining);
+      } else {
+        this.handlers.delete(commandId);
+      }
+    };
+  }
+
+  /**
+   * Stop dispatching, e.g. while Settings records a new chord. Returns a
+   * function that resumes.
+   */
+  suspend(): () => void {
+    this.suspended++;
+    let resumed = false;
+    return () => {
+      if (!resumed) {
+        resumed = true;
+        this.suspended--;
+      }
+    };
+  }
+
+  getCommands(): KeybindingCommand[] {
+    return KEYBINDING_COMMANDS;
+  }
+
+  /**
+   * Chords bound to a command, rebound ones or else the defaults
+   */
+  getBindings(commandId: KeybindingCommandId): string[] {
+    const overrides = useSettingsStore.getState().settings.keybindings;
+    return overrides[commandId] ?? getKeybindingCommand(commandId)?.defaultKeys ?? [];
+  }
+
+  isCustomized(commandId: KeybindingCommandId): boolean {
+    return commandId in useSettingsStore.getState().settings.keybindings;
+  }
+
+  /**
+   * First chord of a command for menus and tooltips, empty when unbound
+   */
+  getLabel(commandId: KeybindingCommandId): string {
+    const [chord] = this.getBindings(commandId);
+    return chord ? formatChord(chord) : '';
+  }
+
+  setBinding(commandId: KeybindingCommandId, chords: string[]): void {
+    const { settings, updateSettings } = useSettingsStore.getState();
+    const normalized = chords.map(normalizeChord).filter((chord): chord is string => !!chord);
+    updateSettings({ keybindings: { ...settings.keybindings, [commandId]: [...new Set(normalized)] } });
+  }
+
+  resetBinding(commandId: KeybindingCommandId): void {
+    const { settings, updateSettings } = useSettingsStore.getState();
+    const keybindings = { ...settings.keybindings };
+    delete keybindings[commandId];
+    updateSettings({ keybindings });
+  }
+
+  resetAll(): void {
+    useSettingsStore.getState().updateSettings({ keybindings: {} });
+  }
+
+  /**
+   * Every chord that triggers more than one command in the same place
+   */
+  getConflicts(): KeybindingConflict[] {
+    return findConflicts(command => this.getBindings(command.id));
+  }
+
+  /**
+   * Commands that would clash with binding `chord` to `commandId`
+   */
+  getConflictsFor(commandId: KeybindingCommandId, chord: string): KeybindingCommand[] {
+    const command = getKeybindingCommand(commandId);
+    const normalized = normalizeChord(chord);
+    if (!command || !normalized) return [];
+
+    return KEYBINDING_COMMANDS.filter(other => other.id !== commandId
+      && scopesOverlap(command, other)
+      && this.getBindings(other.id).some(keys => normalizeChord(keys) === normalized));
+  }
+
+  /**
+   * Bind `chord` to `commandId` only, removing it from clashing commands
+   */
+  reassign(commandId: KeybindingCommandId, chord: string): void {
+    const normalized = normalizeChord(chord);
+    if (!normalized) return;
+
+    this.getConflictsFor(commandId, normalized).forEach(other => {
+      this.setBinding(other.id, this.getBindings(other.id).filter(keys => normalizeChord(keys) !== normalized));
+    });
+    this.setBinding(commandId, [normalized]);
+  }
+
+  /**
+   * Whether a command can run in the current context: it has a handler
+   * and, for app commands, a window of its app is focused
+   */
+  canExecute(commandId: KeybindingCommandId): boolean {
+    const command = getKeybindingCommand(commandId);
+    const context = this.getContext();
+    return !!command && this.isAvailable(command, context) && this.getHandlers(command, context).length > 0;
+  }
+
+  /**
+   * Run a command as if its shortcut was pressed. Returns whether a
+   * handler took it.
+   */
+  execute(commandId: KeybindingCommandId): boolean {
+    const command = getKeybindingCommand(commandId);
+    const context = this.getContext();
+    return !!command && this.isAvailable(command, context) && this.runHandlers(command, context);
+  }
+
+  private getContext(event?: KeyboardEvent): KeybindingContext {
+    const focused = getFocusedWindow();
+    return { windowId: focused?.id, appId: focused?.appId, event };
+  }
+
+  private isAvailable(command: KeybindingCommand, context: KeybindingContext): boolean {
+    return command.scope !== 'app' || command.appId === context.appId;
+  }
+
+  private getHandlers(command: KeybindingCommand, context: KeybindingContext): RegisteredHandler[] {
+    return (this.handlers.get(command.id) ?? [])
+      .filter(entry => !entry.windowId || entry.windowId === context.windowId);
+  }
+
+  private runHandlers(command: KeybindingCommand, context: KeybindingContext): boolean {
+    return this.getHandlers(command, context).some(({ handler }) => handler(context) !== false);
+  }
+
+  private dispatch(e: KeyboardEvent): void {
+    if (this.suspended > 0 || e.defaultPrevented) return;
+
+    const chord = eventToChord(e);
+    if (!chord) return;
+
+    const context = this.getContext(e);
+    const commands = KEYBINDING_COMMANDS
+      .filter(command => this.isAvailable(command, context))
+      .filter(command => this.getBindings(command.id).some(keys => normalizeChord(keys) === chord))
+      .sort((a, b) => SCOPE_ORDER.indexOf(a.scope) - SCOPE_ORDER.indexOf(b.scope));
+
+    if (commands.some(command => this.runHandlers(command, context))) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+  }
+}
+
+// Create and export singleton instance
+export const keybindingService = new KeybindingService();
+
+// Export the class for testing
+export { KeybindingService };
@@ -0,0 +1,82 @@
+/**
+ * Notification Service
+ *
+ * Desktop notifications shown in the top right corner until they are
+ * dismissed or time out. Plugins post them through the plugin bridge.
+ */
+
+export type NotificationType = 'info' | 'success' | 'warning' | 'error';
+
+export interface DesktopNotification {
+  id: number;
+  title: string;
+  message?: string;
+  type: NotificationType;
+  icon?: string;
+  // Who posted the notification, e.g. the name of a plugin
+  source?: string;
+  createdAt: number;
+}
+
+export type NotificationOptions = Omit<DesktopNotification, 'id' | 'type' | 'createdAt'> & { type?: NotificationType };
+
+const DISMISS_DELAY = 6000;
+const MAX_NOTIFICATIONS = 5;
+
+class NotificationService {
+  private notifications: DesktopNotification[] = [];
+  private listeners: (() => void)[] = [];
+  private timers = new Map<number, ReturnType<typeof setTimeout>>();
+  private nextId = 1;
+
+  onChange(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Current notifications, oldest first. The array is replaced on every
+   * change, so it can be compared by identity.
+   */
+  getNotifications(): DesktopNotification[] {
+    return this.notifications;
+  }
+
+  show(options: NotificationOptions): number {
+    const notification: DesktopNotification = { ...options, type: options.type ?? 'info', id: this.nextId++, createdAt: Date.now() };
+
+    // The oldest notifications make room for new ones
+    const dropped = this.notifications.slice(0, Math.max(0, this.notifications.length - MAX_NOTIFICATIONS + 1));
+    dropped.forEach(old => this.clearTimer(old.id));
+
+    this.notifications = [...this.notifications.slice(dropped.length), notification];
+    this.timers.set(notification.id, setTimeout(() => this.dismiss(notification.id), DISMISS_DELAY));
+    this.notifyListeners();
+    return notification.id;
+  }
+
+  dismiss(id: number): void {
+    if (!this.notifications.some(notification => notification.id === id)) return;
+
+    this.clearTimer(id);
+    this.notifications = this.notifications.filter(notification => notification.id !== id);
+    this.notifyListeners();
+  }
+
+  private clearTimer(id: number): void {
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+  }
+
+  private notifyListeners(): void {
+    [...this.listeners].forEach(listener => listener());
+  }
+}
+
+// Create and export singleton instance
+export const notificationService = new NotificationService();
+
+// Export the class for testing
+export { NotificationService };
@@ -0,0 +1,239 @@
+/**
+ * Plugin Bridge
+ *
+ * Answers the requests a plugin posts from its iframe through the SDK.
+ * There is one bridge per plugin window. Each method needs a permission
+ * that the user granted, checked on every call so that revoking takes
+ * effect at once, and file access stays within the granted folders and
+ * the file the window was opened with.
+ */
+
+import { vfsSyncService } from './vfsSyncService';
+import { notificationService } from './notificationService';
+import type { NotificationType } from './notificationService';
+import { pluginService, isWithinFolder, expandHome } from './pluginService';
+import type { InstalledPlugin, PluginPermission } from './pluginService';
+import { PLUGIN_CHANNEL, isPluginRequest } from './pluginSdk';
+import { useWindowStore } from '../store/windowStore';
+import { normalizePath } from '../utils/helpers';
+
+type Params = Record<string, unknown>;
+
+interface BridgeMethod {
+  permission?: PluginPermission;
+  run: (params: Params) => unknown;
+}
+
+const NOTIFICATION_TYPES: NotificationType[] = ['info', 'success', 'warning', 'error'];
+const MAX_TITLE_LENGTH = 200;
+const MIN_WINDOW_WIDTH = 200;
+const MIN_WINDOW_HEIGHT = 150;
+
+const getString = (params: Params, key: string): string => {
+  const value = params[key];
+  if (typeof value !== 'string') {
+    throw new Error(`"${key}" must be a string`);
+  }
+  return value;
+};
+
+const getNumber = (params: Params, key: string): number => {
+  const value = params[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`"${key}" must be a number`);
+  }
+  return value;
+};
+
+class PluginBridge {
+  private plugin: InstalledPlugin;
+  private windowId: string;
+  private frame: HTMLIFrameElement;
+  private methods: Record<string, BridgeMethod>;
+
+  constructor(plugin: InstalledPlugin, windowId: string, frame: HTMLIFrameElement) {
+    this.plugin = plugin;
+    this.windowId = windowId;
+    this.frame = frame;
+    this.methods = this.createMethods();
+  }
+
+  /**
+   * Answer the requests of the iframe. Returns a function that stops again.
+   */
+  start(): () => void {
+    const handleMessage = (event: MessageEvent) => {
+      // Only the plugin of this window, other frames are not ours
+      if (event.source !== this.frame.contentWindow || !isPluginRequest(event.data)) return;
+      this.handleRequest(event.data.id, event.data.method, event.data.params ?? {});
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }
+
+  /**
+   * Run a method for the plugin, checking its permission first
+   */
+  async call(method: string, params: Params): Promise<unknown> {
+    const bridgeMethod = Object.hasOwn(this.methods, method) ? this.methods[method] : undefined;
+    if (!bridgeMethod) {
+      throw new Error(`Unknown method: ${method}`);
+    }
+    if (bridgeMethod.permission && !pluginService.hasPermission(this.plugin, bridgeMethod.permission)) {
+      throw new Error(`Permission denied: ${method} needs the "${bridgeMethod.permission}" permission`);
+    }
+    return bridgeMethod.run(params);
+  }
+
+  private async handleRequest(id: number, method: string, params: Params): Promise<void> {
+    try {
+      const result = await this.call(method, params);
+      this.reply({ id, result: result ?? null });
+    } catch (error) {
+      this.reply({ id, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  private reply(message: { id: number; result?: unknown; error?: string }): void {
+    // Sandboxed frames have an opaque origin, so there is no origin to name
+    this.frame.contentWindow?.postMessage({ channel: PLUGIN_CHANNEL, ...message }, '*');
+  }
+
+  /**
+   * The file the window was opened with through Open With, if any
+   */
+  private getOpenedFile(): string | undefined {
+    const props = useWindowStore.getState().windows.find(w => w.id === this.windowId)?.props;
+    return typeof props?.filePath === 'string' ? props.filePath : undefined;
+  }
+
+  /**
+   * The path of a request, which must be inside a granted folder or the
+   * file the window was opened with
+   */
+  private resolvePath(params: Params): string {
+    const path = normalizePath(expandHome(getString(params, 'path')));
+    if (path === this.getOpenedFile()) return path;
+    if (!pluginService.getFolders(this.plugin).some(folder => isWithinFolder(path, folder))) {
+      throw new Error(`Access denied: ${path}`);
+    }
+    return path;
+  }
+
+  private createMethods(): Record<string, BridgeMethod> {
+    const source = this.plugin.appId;
+    const windowStore = () => useWindowStore.getState();
+
+    return {
+      'app.getInfo': {
+        run: () => {
+          const { id, name, version } = this.plugin.manifest;
+          return {
+            id,
+            name,
+            version,
+            permissions: this.plugin.manifest.permissions.filter(permission => pluginService.hasPermission(this.plugin, permission)),
+            folders: pluginService.getFolders(this.plugin),
+            file: this.getOpenedFile() ?? null,
+          };
+        },
+      },
+
+      'files.list': {
+        permission: 'files.read',
+        run: async params => {
+          const nodes = await vfsSyncService.listDir(this.resolvePath(params));
+          return nodes.map(node => ({ name: node.name, type: node.type, size: node.size, modified: node.modified.toISOString() }));
+        },
+      },
+      'files.read': {
+        permission: 'files.read',
+        run: params => vfsSyncService.getFileContent(this.resolvePath(params)),
+      },
+      'files.write': {
+        permission: 'files.write',
+        run: async params => {
+          const path = this.resolvePath(params);
+          const content = getString(params, 'content');
+          if (await vfsSyncService.exists(path)) {
+            await vfsSyncService.updateFile(path, content, source);
+          } else {
+            await vfsSyncService.createFile(path, content, source);
+          }
+        },
+      },
+      'files.createFolder': {
+        permission: 'files.write',
+        run: params => vfsSyncService.createFolder(this.resolvePath(params), source),
+      },
+      'files.delete': {
+        permission: 'files.write',
+        run: params => {
+          const path = this.resolvePath(params);
+          if (pluginService.getFolders(this.plugin).includes(path)) {
+            throw new Error(`Access denied: ${path} is a granted folder`);
+          }
+          return vfsSyncService.deleteNode(path, source);
+        },
+      },
+
+      'notifications.show': {
+        permission: 'notifications',
+        run: params => {
+          const type = params.type ?? 'info';
+          if (!NOTIFICATION_TYPES.includes(type as NotificationType)) {
+            throw new Error(`"type" must be one of ${NOTIFICATION_TYPES.join(', ')}`);
+          }
+          return notificationService.show({
+            title: getString(params, 'title'),
+            message: params.message === undefined ? undefined : getString(params, 'message'),
+            type: type as NotificationType,
+            icon: this.plugin.manifest.icon,
+            source: this.plugin.manifest.name,
+          });
+        },
+      },
+
+      'clipboard.readText': {
+        permission: 'clipboard.read',
+        run: () => navigator.clipboard.readText(),
+      },
+      'clipboard.writeText': {
+        permission: 'clipboard.write',
+        run: params => navigator.clipboard.writeText(getString(params, 'text')),
+      },
+
+      'window.setTitle': {
+        permission: 'window',
+        run: params => windowStore().setWindowTitle(this.windowId, getString(params, 'title').slice(0, MAX_TITLE_LENGTH)),
+      },
+      'window.setSize': {
+        permission: 'window',
+        run: params => {
+          const w = windowStore().windows.find(other => other.id === this.windowId);
+          if (!w) return;
+          windowStore().setWindowBounds(this.windowId, {
+            top: w.top,
+            left: w.left,
+            width: Math.min(Math.max(getNumber(params, 'width'), MIN_WINDOW_WIDTH), window.innerWidth),
+            height: Math.min(Math.max(getNumber(params, 'height'), MIN_WINDOW_HEIGHT), window.innerHeight),
+          });
+        },
+      },
+      'window.minimize': {
+        permission: 'window',
+        run: () => windowStore().minimizeWindow(this.windowId),
+      },
+      'window.toggleFullscreen': {
+        permission: 'window',
+        run: () => windowStore().toggleFullscreen(this.windowId),
+      },
+      'window.close': {
+        permission: 'window',
+        run: () => windowStore().closeWindow(this.windowId),
+      },
+    };
+  }
+}
+
+export { PluginBridge };
@@ -0,0 +1,78 @@
+/**
+ * Plugin SDK
+ *
+ * The script that every plugin bundle gets in front of its own code. It
+ * defines `window.weave`, whose methods post requests to the desktop and
+ * resolve with the answers of the plugin bridge. The protocol is plain
+ * postMessage: `{ channel, id, method, params }` out, and
+ * `{ channel, id, result }` or `{ channel, id, error }` back.
+ */
+
+export const PLUGIN_CHANNEL = 'weave-plugin';
+
+export interface PluginRequest {
+  channel: typeof PLUGIN_CHANNEL;
+  id: number;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export const isPluginRequest = (data: unknown): data is PluginRequest => {
+  const request = data as PluginRequest | null;
+  return !!request
+    && request.channel === PLUGIN_CHANNEL
+    && typeof request.id === 'number'
+    && typeof request.method === 'string'
+    && (request.params === undefined || (typeof request.params === 'object' && request.params !== null));
+};
+
+export const PLUGIN_SDK_SCRIPT = `(() => {
+  const CHANNEL = ${JSON.stringify(PLUGIN_CHANNEL)};
+  const pending = new Map();
+  let nextId = 1;
+
+  const call = (method, params) => new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    window.parent.postMessage({ channel: CHANNEL, id, method, params }, '*');
+  });
+
+  window.addEventListener('message', (event) => {
+    const data = event.data;
+    if (event.source !== window.parent || !data || data.channel !== CHANNEL || !pending.has(data.id)) return;
+    const { resolve, reject } = pending.get(data.id);
+    pending.delete(data.id);
+    if ('error' in data) {
+      reject(new Error(data.error));
+    } else {
+      resolve(data.result);
+    }
+  });
+
+  window.weave = Object.freeze({
+    app: {
+      getInfo: () => call('app.getInfo'),
+    },
+    files: {
+      list: (path) => call('files.list', { path }),
+      read: (path) => call('files.read', { path }),
+      write: (path, content) => call('files.write', { path, content }),
+      createFolder: (path) => call('files.createFolder', { path }),
+      delete: (path) => call('files.delete', { path }),
+    },
+    notifications: {
+      show: (options) => call('notifications.show', typeof options === 'string' ? { title: options } : options),
+    },
+    clipboard: {
+      readText: () => call('clipboard.readText'),
+      writeText: (text) => call('clipboard.writeText', { text }),
+    },
+    window: {
+      setTitle: (title) => call('window.setTitle', { title }),
+      setSize: (width, height) => call('window.setSize', { width, height }),
+      minimize: () => call('window.minimize'),
+      toggleFullscreen: () => call('window.toggleFullscreen'),
+      close: () => call('window.close'),
+    },
+  });
+})();`;
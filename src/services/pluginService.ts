@@ -0,0 +1,433 @@
+/**
+ * Plugin Service
+ *
+ * Finds the plugins installed in /Applications: every folder there with a
+ * manifest.json next to an HTML bundle. Each plugin becomes an app of the
+ * registry and runs in a sandboxed iframe, talking to the desktop through
+ * the plugin bridge. The permissions a manifest asks for have to be
+ * approved by the user before the plugin starts; approvals are kept in
+ * `settings.pluginGrants`.
+ */
+
+import { vfsSyncService } from './vfsSyncService';
+import type { VFSEventListener } from './vfsSyncService';
+import { PLUGIN_SDK_SCRIPT } from './pluginSdk';
+import useAuthStore from '../stores/authStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import type { PluginGrant } from '../stores/settingsStore';
+import { registerApp, unregisterApp, loadPluginHost, PLUGIN_APP_PREFIX } from '../registry/appRegistry';
+import { HOME_PATH, joinPath, normalizePath, parsePath } from '../utils/helpers';
+
+export const APPLICATIONS_PATH = '/Applications';
+const MANIFEST_FILE = 'manifest.json';
+
+// Copying a plugin into /Applications fires an event per file
+const REFRESH_DELAY = 300;
+
+export type PluginPermission = 'files.read' | 'files.write' | 'notifications' | 'clipboard.read' | 'clipboard.write' | 'window';
+
+// What each permission allows, as shown when asking the user
+export const PLUGIN_PERMISSIONS: Record<PluginPermission, string> = {
+  'files.read': 'Read files and folders',
+  'files.write': 'Create, change and delete files and folders',
+  'notifications': 'Show notifications',
+  'clipboard.read': 'Read the clipboard',
+  'clipboard.write': 'Copy to the clipboard',
+  'window': 'Rename, resize, minimize and close its window',
+};
+
+export interface PluginManifest {
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  icon: string;
+  // HTML page of the bundle, relative to the plugin folder
+  entry: string;
+  permissions: PluginPermission[];
+  // The only folders the files permissions reach, besides the opened file
+  folders: string[];
+  // Files the plugin can open, see the file types of the app registry
+  extensions: string[];
+  mimeTypes: string[];
+  width: number;
+  height: number;
+  allowMultiple: boolean;
+}
+
+export interface InstalledPlugin {
+  manifest: PluginManifest;
+  // Folder of the plugin in /Applications
+  path: string;
+  appId: string;
+}
+
+export interface PluginError {
+  path: string;
+  message: string;
+}
+
+const PLUGIN_ID_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isPermission = (value: unknown): value is PluginPermission => typeof value === 'string' && value in PLUGIN_PERMISSIONS;
+
+export const expandHome = (path: string): string => (path === '~' || path.startsWith('~/') ? HOME_PATH + path.slice(1) : path);
+
+/**
+ * Whether `path` is `folder` or inside it
+ */
+export const isWithinFolder = (path: string, folder: string): boolean => {
+  return folder === '/' || path === folder || path.startsWith(folder + '/');
+};
+
+// Scripts and stylesheets from elsewhere are blocked by the content security policy anyway
+const isBundleReference = (reference: string): boolean => !/^([a-z][a-z0-9+.-]*:|\/\/)/i.test(reference);
+
+// Plugins may only talk to the desktop, not to the network. Form targets
+// and the base URL do not fall back to default-src, so they are closed too.
+const CONTENT_SECURITY_POLICY = "default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; img-src data: blob:; font-src data:; media-src data: blob:; form-action 'none'; base-uri 'none'";
+
+/**
+ * Check a manifest.json and fill in the defaults
+ */
+export const parseManifest = (text: string, pluginPath: string): PluginManifest => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${MANIFEST_FILE} is not valid JSON`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`${MANIFEST_FILE} must contain an object`);
+  }
+
+  const { id, name, version, description, icon, entry = 'index.html', permissions = [], folders = [], extensions = [], mimeTypes = [], width = 800, height = 600, allowMultiple = false } = data;
+
+  if (typeof id !== 'string' || !PLUGIN_ID_PATTERN.test(id)) {
+    throw new Error('"id" must be letters, digits, dots, dashes or underscores');
+  }
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new Error('"name" is missing');
+  }
+  if (version !== undefined && typeof version !== 'string') {
+    throw new Error('"version" must be a string');
+  }
+  if (typeof entry !== 'string' || !isWithinFolder(normalizePath(joinPath(pluginPath, entry)), pluginPath)) {
+    throw new Error('"entry" must be a file of the plugin');
+  }
+  if (!Array.isArray(permissions)) {
+    throw new Error('"permissions" must be a list');
+  }
+  const unknownPermission = permissions.find(permission => !isPermission(permission));
+  if (unknownPermission !== undefined) {
+    throw new Error(`Unknown permission: ${unknownPermission}`);
+  }
+  if (!Array.isArray(folders) || folders.some(folder => typeof folder !== 'string' || !expandHome(folder).startsWith('/'))) {
+    throw new Error('"folders" must be a list of absolute paths');
+  }
+  if (!isStringList(extensions) || !isStringList(mimeTypes)) {
+    throw new Error('"extensions" and "mimeTypes" must be lists of strings');
+  }
+  // Without folders, the files permissions only reach the files opened with the plugin
+  if (folders.length === 0 && extensions.length === 0 && mimeTypes.length === 0
+    && permissions.some(permission => permission.startsWith('files.'))) {
+    throw new Error('Files permissions need the folders they apply to in "folders", or file types in "extensions" or "mimeTypes"');
+  }
+  if (typeof width !== 'number' || typeof height !== 'number' || width <= 0 || height <= 0) {
+    throw new Error('"width" and "height" must be positive numbers');
+  }
+
+  return {
+    id,
+    name: name.trim(),
+    version: version ?? '0.0.0',
+    description: typeof description === 'string' ? description : undefined,
+    icon: typeof icon === 'string' && icon ? icon : '🧩',
+    entry: normalizePath(entry).slice(1),
+    permissions: [...new Set(permissions as PluginPermission[])],
+    folders: [...new Set((folders as string[]).map(folder => normalizePath(expandHome(folder))))],
+    extensions: [...new Set(extensions.map(extension => extension.replace(/^\./, '').toLowerCase()))],
+    mimeTypes: [...new Set(mimeTypes.map(mimeType => mimeType.toLowerCase()))],
+    width,
+    height,
+    allowMultiple: allowMultiple === true,
+  };
+};
+
+const getSignedInUserId = (): string | null => {
+  const { isAuthenticated, user } = useAuthStore.getState();
+  return isAuthenticated ? user?.id ?? null : null;
+};
+
+class PluginService {
+  private plugins: InstalledPlugin[] = [];
+  private errors: PluginError[] = [];
+  private loaded = false;
+  private userId: string | null = null;
+  private listeners: (() => void)[] = [];
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshing: Promise<void> | null = null;
+  private refreshAgain = false;
+
+  /**
+   * Read /Applications for the signed-in user and again whenever it
+   * changes. Returns a function that stops again.
+   */
+  start(): () => void {
+    this.handleUserChange(getSignedInUserId());
+    const unsubscribeAuth = useAuthStore.subscribe(() => this.handleUserChange(getSignedInUserId()));
+
+    const handleChange = (path: string, newPath?: string) => {
+      if ([path, newPath].some(changed => changed && isWithinFolder(changed.replace(/\/$/, ''), APPLICATIONS_PATH))) {
+        this.scheduleRefresh();
+      }
+    };
+    const listener: VFSEventListener = {
+      onFileCreated: path => handleChange(path),
+      onFileUpdated: path => handleChange(path),
+      onFileDeleted: path => handleChange(path),
+      onFileMoved: (oldPath, newPath) => handleChange(oldPath, newPath),
+      onFileCopied: (_, destPath) => handleChange(destPath),
+      onFolderCreated: path => handleChange(path),
+      onFolderDeleted: path => handleChange(path),
+    };
+    vfsSyncService.addEventListener(listener);
+
+    return () => {
+      unsubscribeAuth();
+      vfsSyncService.removeEventListener(listener);
+      if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    };
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Installed plugins. The array is replaced on every change, so it can be
+   * compared by identity.
+   */
+  getPlugins(): InstalledPlugin[] {
+    return this.plugins;
+  }
+
+  getPluginByAppId(appId: string): InstalledPlugin | undefined {
+    return this.plugins.find(plugin => plugin.appId === appId);
+  }
+
+  /**
+   * Plugin folders that could not be loaded, with the reason
+   */
+  getErrors(): PluginError[] {
+    return this.errors;
+  }
+
+  /**
+   * Whether /Applications was read since the user signed in
+   */
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Read /Applications again. Calls during a refresh are folded into one
+   * more refresh afterwards.
+   */
+  refresh(): Promise<void> {
+    if (this.refreshing) {
+      this.refreshAgain = true;
+      return this.refreshing;
+    }
+
+    this.refreshing = (async () => {
+      do {
+        this.refreshAgain = false;
+        const userId = this.userId;
+        const { plugins, errors } = userId ? await this.readApplications() : { plugins: [], errors: [] };
+        // Signed out or switched users meanwhile
+        if (userId === this.userId) {
+          this.setPlugins(plugins, errors, !!userId);
+        }
+      } while (this.refreshAgain);
+      this.refreshing = null;
+    })();
+    return this.refreshing;
+  }
+
+  getGrant(pluginId: string): PluginGrant | undefined {
+    return useSettingsStore.getState().settings.pluginGrants[pluginId];
+  }
+
+  /**
+   * Whether the manifest asks for anything the user has not approved yet
+   */
+  needsApproval(plugin: InstalledPlugin): boolean {
+    const grant = this.getGrant(plugin.manifest.id);
+    return !grant
+      || plugin.manifest.permissions.some(permission => !grant.permissions.includes(permission))
+      || plugin.manifest.folders.some(folder => !grant.folders.includes(folder));
+  }
+
+  approve(plugin: InstalledPlugin): void {
+    const { settings, updateSettings } = useSettingsStore.getState();
+    const grant: PluginGrant = { permissions: [...plugin.manifest.permissions], folders: [...plugin.manifest.folders] };
+    updateSettings({ pluginGrants: { ...settings.pluginGrants, [plugin.manifest.id]: grant } });
+  }
+
+  /**
+   * Take back the permissions of a plugin; it asks again on its next start
+   */
+  revoke(pluginId: string): void {
+    const { settings, updateSettings } = useSettingsStore.getState();
+    const pluginGrants = { ...settings.pluginGrants };
+    delete pluginGrants[pluginId];
+    updateSettings({ pluginGrants });
+  }
+
+  /**
+   * Whether the plugin asks for a permission and the user granted it
+   */
+  hasPermission(plugin: InstalledPlugin, permission: PluginPermission): boolean {
+    return plugin.manifest.permissions.includes(permission) && !!this.getGrant(plugin.manifest.id)?.permissions.includes(permission);
+  }
+
+  /**
+   * Folders the plugin asks for and the user granted
+   */
+  getFolders(plugin: InstalledPlugin): string[] {
+    const granted = this.getGrant(plugin.manifest.id)?.folders ?? [];
+    return plugin.manifest.folders.filter(folder => granted.includes(folder));
+  }
+
+  /**
+   * The HTML page of a plugin, ready for the `srcdoc` of its iframe: the
+   * SDK comes first, and the scripts and stylesheets of the bundle are
+   * inlined since the iframe has no URL to load them from.
+   */
+  async loadBundle(plugin: InstalledPlugin): Promise<string> {
+    const entryPath = joinPath(plugin.path, plugin.manifest.entry);
+    const html = await vfsSyncService.getFileContent(entryPath);
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const baseFolder = parsePath(entryPath).parent;
+
+    for (const script of Array.from(doc.querySelectorAll('script[src]'))) {
+      const src = script.getAttribute('src') ?? '';
+      if (!isBundleReference(src)) continue;
+      script.removeAttribute('src');
+      // A closing tag inside the code would end the inlined script early
+      script.textContent = (await this.readBundleFile(plugin, baseFolder, src)).replace(/<\/script/gi, '<\\/script');
+    }
+
+    for (const link of Array.from(doc.querySelectorAll('link[rel="stylesheet"][href]'))) {
+      const href = link.getAttribute('href') ?? '';
+      if (!isBundleReference(href)) continue;
+      const style = doc.createElement('style');
+      style.textContent = await this.readBundleFile(plugin, baseFolder, href);
+      link.replaceWith(style);
+    }
+
+    const policy = doc.createElement('meta');
+    policy.setAttribute('http-equiv', 'Content-Security-Policy');
+    policy.setAttribute('content', CONTENT_SECURITY_POLICY);
+    const sdk = doc.createElement('script');
+    sdk.textContent = PLUGIN_SDK_SCRIPT;
+    doc.head.prepend(policy, sdk);
+
+    return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+  }
+
+  private async readBundleFile(plugin: InstalledPlugin, baseFolder: string, reference: string): Promise<string> {
+    const path = normalizePath(joinPath(baseFolder, reference.split(/[?#]/)[0]));
+    if (!isWithinFolder(path, plugin.path)) {
+      throw new Error(`${reference} is outside of the plugin`);
+    }
+    return vfsSyncService.getFileContent(path);
+  }
+
+  private async readApplications(): Promise<{ plugins: InstalledPlugin[]; errors: PluginError[] }> {
+    const plugins: InstalledPlugin[] = [];
+    const errors: PluginError[] = [];
+
+    let folders: string[] = [];
+    try {
+      const entries = await vfsSyncService.listDir(APPLICATIONS_PATH);
+      folders = entries.filter(entry => entry.type === 'folder').map(entry => joinPath(APPLICATIONS_PATH, entry.name));
+    } catch {
+      // No /Applications yet, so no plugins
+      return { plugins, errors };
+    }
+
+    for (const path of folders) {
+      try {
+        let text: string;
+        try {
+          text = await vfsSyncService.getFileContent(joinPath(path, MANIFEST_FILE));
+        } catch {
+          throw new Error(`No ${MANIFEST_FILE}`);
+        }
+        const manifest = parseManifest(text, path);
+        const other = plugins.find(plugin => plugin.manifest.id === manifest.id);
+        if (other) {
+          throw new Error(`${other.path} already uses the ID ${manifest.id}`);
+        }
+        plugins.push({ manifest, path, appId: PLUGIN_APP_PREFIX + manifest.id });
+      } catch (error) {
+        errors.push({ path, message: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return { plugins, errors };
+  }
+
+  private setPlugins(found: InstalledPlugin[], errors: PluginError[], loaded: boolean): void {
+    // Unchanged plugins keep their identity, so that their windows keep running
+    const plugins = found.map(plugin => this.plugins.find(old => old.path === plugin.path
+      && JSON.stringify(old.manifest) === JSON.stringify(plugin.manifest)) ?? plugin);
+
+    this.plugins.forEach(plugin => unregisterApp(plugin.appId));
+    plugins.forEach(({ manifest, appId }) => registerApp({
+      id: appId,
+      name: manifest.name,
+      icon: manifest.icon,
+      allowMultiple: manifest.allowMultiple,
+      fileTypes: { extensions: manifest.extensions, mimeTypes: manifest.mimeTypes },
+      width: manifest.width,
+      height: manifest.height,
+      description: manifest.description,
+      load: loadPluginHost,
+    }));
+
+    this.plugins = plugins;
+    this.errors = errors;
+    this.loaded = loaded;
+    [...this.listeners].forEach(listener => listener());
+  }
+
+  private handleUserChange(userId: string | null): void {
+    if (userId === this.userId) return;
+
+    this.userId = userId;
+    this.setPlugins([], [], false);
+    this.refresh();
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh();
+    }, REFRESH_DELAY);
+  }
+}
+
+// Create and export singleton instance
+export const pluginService = new PluginService();
+
+// Export the class for testing
+export { PluginService };
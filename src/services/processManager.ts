@@ -0,0 +1,221 @@
+/**
+ * Process Manager
+ *
+ * Keeps the process table behind `ps`, `kill` and Terminal job control.
+ * Every open window in useWindowStore shows up as a process automatically;
+ * shell jobs are spawned by the Terminal and cancelled through the
+ * AbortSignal of their handle.
+ */
+
+import { useWindowStore } from '../store/windowStore';
+import type { WindowData } from '../store/windowStore';
+
+export type ProcessType = 'system' | 'window' | 'job';
+export type ProcessStatus = 'running' | 'stopped';
+export type ProcessSignal = 'INT' | 'TERM' | 'KILL' | 'STOP' | 'CONT';
+
+export const PROCESS_SIGNALS: Record<ProcessSignal, number> = {
+  INT: 2,
+  KILL: 9,
+  TERM: 15,
+  CONT: 18,
+  STOP: 19,
+};
+
+export interface ProcessInfo {
+  pid: number;
+  type: ProcessType;
+  command: string;
+  status: ProcessStatus;
+  startTime: number;
+  // Window backing a 'window' process
+  windowId?: string;
+}
+
+export interface ProcessHandle {
+  readonly pid: number;
+  // Aborted when the process is interrupted or killed
+  readonly signal: AbortSignal;
+}
+
+interface ProcessEntry extends ProcessInfo {
+  controller?: AbortController;
+  resumeWaiters: (() => void)[];
+}
+
+const INIT_PID = 1;
+const FIRST_PID = 100;
+
+class ProcessManager {
+  private processes = new Map<number, ProcessEntry>();
+  private windowPids = new Map<string, number>();
+  private signalPids = new WeakMap<AbortSignal, number>();
+  private listeners: (() => void)[] = [];
+  private nextPid = FIRST_PID;
+
+  constructor() {
+    this.processes.set(INIT_PID, {
+      pid: INIT_PID,
+      type: 'system',
+      command: '/weave/os/init',
+      status: 'running',
+      startTime: Date.now(),
+      resumeWaiters: [],
+    });
+
+    this.syncWindows(useWindowStore.getState().windows);
+    useWindowStore.subscribe(state => this.syncWindows(state.windows));
+  }
+
+  /**
+   * Event Management
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notifyListeners(): void {
+    [...this.listeners].forEach(listener => listener());
+  }
+
+  /**
+   * Mirror the open windows into the process table, keeping their PIDs stable
+   */
+  private syncWindows(windows: WindowData[]): void {
+    const openWindows = windows.filter(w => w.isVisible);
+    const openIds = new Set(openWindows.map(w => w.id));
+
+    this.windowPids.forEach((pid, windowId) => {
+      if (!openIds.has(windowId)) {
+        this.processes.delete(pid);
+        this.windowPids.delete(windowId);
+      }
+    });
+
+    openWindows.forEach(w => {
+      let pid = this.windowPids.get(w.id);
+      if (pid === undefined) {
+        pid = this.nextPid++;
+        this.windowPids.set(w.id, pid);
+      }
+
+      const existing = this.processes.get(pid);
+      this.processes.set(pid, {
+        pid,
+        type: 'window',
+        command: w.app,
+        status: w.isMinimized ? 'stopped' : 'running',
+        startTime: existing?.startTime ?? Date.now(),
+        windowId: w.id,
+        resumeWaiters: [],
+      });
+    });
+
+    this.notifyListeners();
+  }
+
+  /**
+   * Process table
+   */
+  list(): ProcessInfo[] {
+    return [...this.processes.values()]
+      .map(({ pid, type, command, status, startTime, windowId }) => ({ pid, type, command, status, startTime, windowId }))
+      .sort((a, b) => a.pid - b.pid);
+  }
+
+  get(pid: number): ProcessInfo | undefined {
+    return this.list().find(p => p.pid === pid);
+  }
+
+  /**
+   * Register a new job. The caller runs it and must call `exit` when done.
+   */
+  spawn(command: string): ProcessHandle {
+    const pid = this.nextPid++;
+    const controller = new AbortController();
+
+    this.processes.set(pid, {
+      pid,
+      type: 'job',
+      command,
+      status: 'running',
+      startTime: Date.now(),
+      controller,
+      resumeWaiters: [],
+    });
+    this.signalPids.set(controller.signal, pid);
+    this.notifyListeners();
+
+    return { pid, signal: controller.signal };
+  }
+
+  exit(pid: number): void {
+    const entry = this.processes.get(pid);
+    if (!entry || entry.type !== 'job') return;
+
+    this.processes.delete(pid);
+    entry.resumeWaiters.forEach(resume => resume());
+    this.notifyListeners();
+  }
+
+  /**
+   * Send a signal to a process. Windows are closed by INT/TERM/KILL,
+   * minimized by STOP and restored by CONT.
+   */
+  kill(pid: number, signal: ProcessSignal = 'TERM'): void {
+    const entry = this.processes.get(pid);
+    if (!entry) {
+      throw new Error('No such process');
+    }
+    if (entry.type === 'system') {
+      throw new Error('Operation not permitted');
+    }
+
+    if (entry.type === 'window') {
+      const { closeWindow, minimizeWindow, focusWindow } = useWindowStore.getState();
+      if (signal === 'STOP') {
+        minimizeWindow(entry.windowId!);
+      } else if (signal === 'CONT') {
+        focusWindow(entry.windowId!);
+      } else {
+        closeWindow(entry.windowId!);
+      }
+      return;
+    }
+
+    if (signal === 'STOP') {
+      entry.status = 'stopped';
+    } else {
+      entry.status = 'running';
+      if (signal !== 'CONT') {
+        entry.controller?.abort();
+      }
+      entry.resumeWaiters.forEach(resume => resume());
+      entry.resumeWaiters = [];
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Resolve once the job owning `signal` is no longer stopped. Jobs call
+   * this between steps so STOP and CONT take effect.
+   */
+  waitWhileStopped(signal: AbortSignal): Promise<void> {
+    const pid = this.signalPids.get(signal);
+    const entry = pid === undefined ? undefined : this.processes.get(pid);
+    if (!entry || entry.status !== 'stopped') {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => entry.resumeWaiters.push(resolve));
+  }
+}
+
+// Create and export singleton instance
+export const processManager = new ProcessManager();
+
+// Export the class for testing
+export { ProcessManager };
@@ -0,0 +1,105 @@
+/**
+ * Recent Files Service
+ *
+ * Remembers the files the signed-in user recently opened, created or
+ * saved, newest first, for the command palette. Changes made through the
+ * VFS are picked up from its events; apps record files they open with
+ * `add`. The list is kept in localStorage per user.
+ */
+
+import { vfsSyncService } from './vfsSyncService';
+import useAuthStore from '../stores/authStore';
+
+export interface RecentFile {
+  path: string;
+  name: string;
+  usedAt: number;
+}
+
+const STORAGE_PREFIX = 'weave-recent-files-';
+const MAX_RECENT_FILES = 50;
+
+const fileName = (path: string): string => path.split('/').filter(Boolean).pop() ?? path;
+
+// Dotfiles such as ~/.weave_history change all the time and are not opened by hand
+const isTracked = (path: string): boolean => !fileName(path).startsWith('.');
+
+class RecentFilesService {
+  private files: RecentFile[] = [];
+  private userId: string | null = null;
+
+  constructor() {
+    this.load(useAuthStore.getState().user?.id ?? null);
+    useAuthStore.subscribe(state => {
+      const userId = state.user?.id ?? null;
+      if (userId !== this.userId) {
+        this.load(userId);
+      }
+    });
+
+    vfsSyncService.addEventListener({
+      onFileCreated: path => this.add(path),
+      onFileUpdated: path => this.add(path),
+      onFileDeleted: path => this.remove(path),
+      onFileMoved: (oldPath, newPath) => {
+        this.remove(oldPath);
+        this.add(newPath);
+      },
+    });
+  }
+
+  getRecent(limit: number = MAX_RECENT_FILES): RecentFile[] {
+    return this.files.slice(0, limit);
+  }
+
+  /**
+   * Move a file to the top of the list
+   */
+  add(path: string): void {
+    if (!this.userId || !isTracked(path)) return;
+
+    this.files = [
+      { path, name: fileName(path), usedAt: Date.now() },
+      ...this.files.filter(file => file.path !== path),
+    ].slice(0, MAX_RECENT_FILES);
+    this.save();
+  }
+
+  remove(path: string): void {
+    if (!this.files.some(file => file.path === path)) return;
+
+    this.files = this.files.filter(file => file.path !== path);
+    this.save();
+  }
+
+  private load(userId: string | null): void {
+    this.userId = userId;
+    this.files = [];
+    if (!userId) return;
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_PREFIX + userId) ?? '[]');
+      if (Array.isArray(stored)) {
+        this.files = stored.filter((file): file is RecentFile => typeof file?.path === 'string' && typeof file?.usedAt === 'number');
+      }
+    } catch (error) {
+      console.warn('Failed to load recent files:', error);
+    }
+  }
+
+  private save(): void {
+    if (!this.userId) return;
+
+    try {
+      localStorage.setItem(STORAGE_PREFIX + this.userId, JSON.stringify(this.files));
+    } catch (error) {
+      console.warn('Failed to save recent files:', error);
+    }
+  }
+}
+
+// Create and export singleton instance
+export const recentFilesService = new RecentFilesService();
+
+// Export the class for testing
+export { RecentFilesService };
@@ -0,0 +1,188 @@
+/**
+ * Session Service
+ *
+ * Saves the open windows of the signed-in user to localStorage and brings
+ * them back after the next login or reload: app and props, geometry,
+ * z-order, minimized and fullscreen state, the app state kept in
+ * `savedState`, and the workspaces they are on. File contents are left
+ * out; the editors read them again from their `filePath`.
+ */
+
+import { useWindowStore } from '../store/windowStore';
+import type { WindowData, WindowSession, Workspace } from '../store/windowStore';
+import useAuthStore from '../stores/authStore';
+import { getAppConfig, isPluginApp } from '../registry/appRegistry';
+import { TOP_BAR_HEIGHT } from '../utils/windowLayout';
+
+const STORAGE_PREFIX = 'weave-session-';
+const SESSION_VERSION = 1;
+
+// Window changes come in bursts while dragging or typing
+const SAVE_DELAY = 1000;
+
+// Part of a restored window that stays on screen when the screen got smaller
+const MIN_VISIBLE = 100;
+
+interface StoredSession extends WindowSession {
+  version: number;
+  savedAt: number;
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isRestorableWindow = (value: unknown): value is WindowData => {
+  const w = value as WindowData | null;
+  return !!w
+    && typeof w.id === 'string'
+    && typeof w.app === 'string'
+    && typeof w.workspaceId === 'string'
+    // Apps that were removed since the session was saved are skipped;
+    // plugins are only known once /Applications has been read
+    && typeof w.appId === 'string' && (!!getAppConfig(w.appId) || isPluginApp(w.appId))
+    && [w.top, w.left, w.width, w.height, w.zIndex].every(isFiniteNumber);
+};
+
+const isWorkspace = (value: unknown): value is Workspace => {
+  const workspace = value as Workspace | null;
+  return !!workspace && typeof workspace.id === 'string' && typeof workspace.name === 'string';
+};
+
+/**
+ * Keep the title bar of a window within reach on the current screen
+ */
+const clampToScreen = (w: WindowData): WindowData => ({
+  ...w,
+  top: Math.min(Math.max(w.top, TOP_BAR_HEIGHT), Math.max(window.innerHeight - MIN_VISIBLE, TOP_BAR_HEIGHT)),
+  left: Math.min(Math.max(w.left, MIN_VISIBLE - w.width), Math.max(window.innerWidth - MIN_VISIBLE, 0)),
+});
+
+/**
+ * A window without the file contents the editors keep in its props and
+ * saved state, which would soon fill the localStorage quota
+ */
+const withoutFileContents = (w: WindowData): WindowData => {
+  // Fields set to undefined are dropped by JSON.stringify
+  const props = w.props && { ...w.props, initialContent: undefined };
+  const customData = w.savedState?.customData;
+  if (!customData?.editor) {
+    return { ...w, props };
+  }
+  return {
+    ...w,
+    props,
+    savedState: { ...w.savedState, customData: { ...customData, editor: { ...customData.editor, content: undefined } } },
+  };
+};
+
+const getSignedInUserId = (): string | null => {
+  const { isAuthenticated, user } = useAuthStore.getState();
+  return isAuthenticated ? user?.id ?? null : null;
+};
+
+class SessionService {
+  private userId: string | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Follow the signed-in user: restore their session when they sign in,
+   * save it while windows change and close their windows when they sign
+   * out. Returns a function that stops again.
+   */
+  start(): () => void {
+    this.handleUserChange(getSignedInUserId());
+
+    const unsubscribeAuth = useAuthStore.subscribe(() => this.handleUserChange(getSignedInUserId()));
+    const unsubscribeWindows = useWindowStore.subscribe(() => this.scheduleSave());
+    const handleUnload = () => this.flush();
+    window.addEventListener('beforeunload', handleUnload);
+
+    return () => {
+      this.flush();
+      unsubscribeAuth();
+      unsubscribeWindows();
+      window.removeEventListener('beforeunload', handleUnload);
+      this.userId = null;
+    };
+  }
+
+  /**
+   * Save the session right away instead of after the pending delay
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.save();
+    }
+  }
+
+  private handleUserChange(userId: string | null): void {
+    if (userId === this.userId) return;
+
+    // Save the windows of the previous user before they are closed
+    this.flush();
+    const hadUser = this.userId !== null;
+    this.userId = userId;
+    if (hadUser) {
+      useWindowStore.getState().resetSession();
+    }
+    if (userId) {
+      this.restore(userId);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.userId) return;
+
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY);
+  }
+
+  private save(): void {
+    if (!this.userId) return;
+
+    const { windows, ...rest } = useWindowStore.getState().getSession();
+    const session: StoredSession = {
+      ...rest,
+      windows: windows.map(withoutFileContents),
+      version: SESSION_VERSION,
+      savedAt: Date.now(),
+    };
+    try {
+      localStorage.setItem(STORAGE_PREFIX + this.userId, JSON.stringify(session));
+    } catch (error) {
+      // Quota exceeded or props that cannot be serialized
+      console.warn('Failed to save the session:', error);
+    }
+  }
+
+  private restore(userId: string): void {
+    const stored = localStorage.getItem(STORAGE_PREFIX + userId);
+    if (!stored) return;
+
+    try {
+      const session = JSON.parse(stored) as Partial<StoredSession>;
+      if (session.version !== SESSION_VERSION || !Array.isArray(session.windows)) return;
+
+      useWindowStore.getState().restoreSession({
+        windows: session.windows.filter(isRestorableWindow).map(w => clampToScreen({ ...w, isVisible: true })),
+        workspaces: Array.isArray(session.workspaces) ? session.workspaces.filter(isWorkspace) : [],
+        activeWorkspaceId: String(session.activeWorkspaceId),
+        tilingLayout: session.tilingLayout === 'master-stack' || session.tilingLayout === 'grid' ? session.tilingLayout : null,
+      });
+    } catch (error) {
+      console.warn('Failed to restore the session:', error);
+    }
+  }
+}
+
+// Create and export singleton instance
+export const sessionService = new SessionService();
+
+// Export the class for testing
+export { SessionService };
@@ -0,0 +1,210 @@
+/**
+ * Shell History Service
+ *
+ * Terminal command history, shared by every Terminal window and saved to
+ * ~/.weave_history in the VFS with one command per line, a moment after
+ * the last command. Deduplication and the size limit come from AppSettings.
+ */
+
+import { vfsSyncService } from './vfsSyncService';
+import { useSettingsStore } from '../stores/settingsStore';
+import useAuthStore from '../stores/authStore';
+
+export const HISTORY_FILE = '/home/user/.weave_history';
+
+// `!!`, `!-n`, `!n` or `!prefix`, without the leading `!`
+const EVENT_DESIGNATOR = /^(!|-?\d+|[^\s!=()'";|&<>]+)/;
+
+// A history file that was never written. Other read errors, such as being
+// offline, must not let a save replace the file with this session's commands.
+const isMissingFile = (error: unknown): boolean =>
+  error instanceof Error && error.message === `File not found: ${HISTORY_FILE}`;
+
+// Commands come in bursts from scripts and pasted lines
+const SAVE_DELAY = 1000;
+
+class ShellHistoryService {
+  private entries: string[] = [];
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private userId: string | null;
+
+  constructor() {
+    // The VFS belongs to the signed-in user, so reload when they change
+    this.userId = useAuthStore.getState().user?.id ?? null;
+    useAuthStore.subscribe(state => {
+      const userId = state.user?.id ?? null;
+      if (userId !== this.userId) {
+        // The VFS is the new user's already, the last commands of the
+        // previous one cannot be written to their file anymore
+        this.cancelSave();
+        this.userId = userId;
+        this.entries = [];
+        this.loading = null;
+      }
+    });
+    window.addEventListener('beforeunload', () => this.flush());
+  }
+
+  /**
+   * Load the history file once. Commands added before it finished loading
+   * are kept after the saved ones. Rejects when the file cannot be read,
+   * and reads it again next time.
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = vfsSyncService.getFileContent(HISTORY_FILE)
+        .then(content => {
+          const saved = content.split('\n').filter(line => line.trim());
+          this.entries = [...saved, ...this.entries].slice(-this.getLimit());
+        })
+        .catch(error => {
+          // No history saved yet
+          if (isMissingFile(error)) return;
+          this.loading = null;
+          throw error;
+        });
+    }
+    return this.loading;
+  }
+
+  getEntries(): string[] {
+    return [...this.entries];
+  }
+
+  add(command: string): void {
+    const { terminalHistoryDedupe } = useSettingsStore.getState().settings;
+
+    if (terminalHistoryDedupe === 'consecutive' && this.entries[this.entries.length - 1] === command) {
+      return;
+    }
+    if (terminalHistoryDedupe === 'all') {
+      this.entries = this.entries.filter(entry => entry !== command);
+    }
+
+    this.entries = [...this.entries, command].slice(-this.getLimit());
+    this.scheduleSave();
+  }
+
+  clear(): Promise<void> {
+    this.entries = [];
+    this.cancelSave();
+    return this.save();
+  }
+
+  /**
+   * Write the history right away instead of after the pending delay
+   */
+  flush(): Promise<void> {
+    if (!this.saveTimer) return this.saving;
+
+    this.cancelSave();
+    return this.save();
+  }
+
+  /**
+   * Index of the most recent entry before `before` that contains `query`,
+   * or -1 when there is none
+   */
+  search(query: string, before: number = this.entries.length): number {
+    for (let i = Math.min(before, this.entries.length) - 1; i >= 0; i--) {
+      if (this.entries[i].includes(query)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Expand `!!`, `!n`, `!-n` and `!prefix` references outside single
+   * quotes. Throws when a referenced command is not in the history.
+   */
+  expand(line: string): string {
+    let result = '';
+    let quote: string | null = null;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+
+      if (char === '\\' && quote !== "'") {
+        result += char + (line[i + 1] ?? '');
+        i++;
+        continue;
+      }
+      if ((char === "'" || char === '"') && (quote === null || quote === char)) {
+        quote = quote === null ? char : null;
+      }
+
+      const match = char === '!' && quote !== "'" ? EVENT_DESIGNATOR.exec(line.slice(i + 1)) : null;
+      if (!match) {
+        result += char;
+        continue;
+      }
+
+      result += this.resolveEvent(match[1]);
+      i += match[1].length;
+    }
+
+    return result;
+  }
+
+  private resolveEvent(designator: string): string {
+    let entry: string | undefined;
+
+    if (designator === '!') {
+      entry = this.entries[this.entries.length - 1];
+    } else if (/^-\d+$/.test(designator)) {
+      entry = this.entries[this.entries.length + parseInt(designator, 10)];
+    } else if (/^\d+$/.test(designator)) {
+      entry = this.entries[parseInt(designator, 10) - 1];
+    } else {
+      entry = [...this.entries].reverse().find(e => e.startsWith(designator));
+    }
+
+    if (entry === undefined) {
+      throw new Error(`!${designator}: event not found`);
+    }
+    return entry;
+  }
+
+  private getLimit(): number {
+    return Math.max(useSettingsStore.getState().settings.terminalHistorySize, 1);
+  }
+
+  private scheduleSave(): void {
+    this.cancelSave();
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY);
+  }
+
+  private cancelSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+
+  /**
+   * Write the history file, one save at a time and never before it has
+   * been loaded, so saved commands are not overwritten. When it cannot be
+   * loaded nothing is written; the commands wait for the next save.
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .then(() => this.load())
+      .then(() => vfsSyncService.updateFile(HISTORY_FILE, this.entries.join('\n') + '\n', 'terminal'))
+      .catch(error => {
+        console.error('❌ History: Failed to save shell history:', error);
+      });
+    return this.saving;
+  }
+}
+
+// Create and export singleton instance
+export const shellHistoryService = new ShellHistoryService();
+
+// Export the class for testing
+export { ShellHistoryService };
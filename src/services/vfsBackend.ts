@@ -0,0 +1,61 @@
+/**
+ * VFS Backends
+ *
+ * Where vfsSyncService keeps the files. The remote backend is the Express
+ * server; the local one keeps everything in IndexedDB, for guests and
+ * demos without a server; the memory one forgets everything on reload and
+ * serves tests. config/environment.ts picks one.
+ */
+
+import type { VFSBackendKind } from '../config/environment';
+import type { TrashItem, TrashListing, VFSNode } from './vfsSyncService';
+import { HttpVFSBackend } from './vfsHttpBackend';
+import { MemoryVFSBackend } from './vfsMemoryBackend';
+import { createLocalBackend } from './vfsLocalBackend';
+
+/**
+ * Storage of a VFS. Paths are full paths of folders; nodes are the ones
+ * listFolder returned, which identify the item to change.
+ */
+export interface VFSBackend {
+  readonly kind: VFSBackendKind;
+  // Whether the files are on a server that may be unreachable, so that an
+  // offline replica of them is needed
+  readonly remote: boolean;
+
+  listFolder(path: string): Promise<VFSNode[]>;
+  readFile(node: VFSNode): Promise<string>;
+  // The content as it is, for binary files
+  readBlob(node: VFSNode): Promise<Blob>;
+  writeFile(node: VFSNode, content: string): Promise<void>;
+  uploadFile(file: File, folder: string): Promise<void>;
+  createFolder(name: string, folder: string): Promise<void>;
+  // Deleted items go to the trash
+  deleteNode(node: VFSNode): Promise<void>;
+  moveNode(node: VFSNode, destFolder: string): Promise<void>;
+  renameNode(node: VFSNode, newName: string): Promise<void>;
+
+  listTrash(): Promise<TrashListing>;
+  restoreFromTrash(item: TrashItem, newName?: string): Promise<void>;
+  deleteFromTrash(item: TrashItem): Promise<void>;
+  emptyTrash(): Promise<void>;
+
+  // Resolves when the backend can be reached
+  ping(): Promise<void>;
+  // Forget what was read, after another tab changed the files
+  reload?(): void;
+  // Changes made by other browsers, as a stream of server-sent events.
+  // Backends only this browser uses have none.
+  getEvents?(signal: AbortSignal): Promise<ReadableStream<Uint8Array>>;
+}
+
+export const createVFSBackend = (kind: VFSBackendKind): VFSBackend => {
+  switch (kind) {
+    case 'local':
+      return createLocalBackend();
+    case 'memory':
+      return new MemoryVFSBackend();
+    default:
+      return new HttpVFSBackend();
+  }
+};
@@ -0,0 +1,156 @@
+/**
+ * VFS Event Channel
+ *
+ * Brings the changes made to the VFS outside this tab into vfsSyncService:
+ * those of the other tabs of the browser over a BroadcastChannel, and
+ * those of other browsers and devices over the stream of server-sent
+ * events of the backend, when it has one. The server leaves out the
+ * changes made in this browser, its tabs already heard about them.
+ */
+
+import useAuthStore from '../stores/authStore';
+import type { VFSBackend } from './vfsBackend';
+import type { VFSOperation } from './vfsSyncService';
+
+// A change as the server sends it, with the full path of the node
+interface FileEvent {
+  type: 'create' | 'update' | 'delete' | 'move';
+  path: string;
+  newPath?: string;
+  isDirectory: boolean;
+  timestamp: number;
+}
+
+const CHANNEL_PREFIX = 'weave-vfs-';
+const MIN_RETRY_DELAY = 2 * 1000;
+const MAX_RETRY_DELAY = 60 * 1000;
+
+// Folders are marked with a trailing slash, except in moves
+const toOperation = (event: FileEvent): VFSOperation => ({
+  type: event.type,
+  path: event.isDirectory && event.type !== 'move' ? `${event.path}/` : event.path,
+  newPath: event.newPath,
+  timestamp: event.timestamp,
+  source: 'remote',
+});
+
+class VFSEventChannel {
+  private channel: BroadcastChannel | null = null;
+  private stream: AbortController | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = MIN_RETRY_DELAY;
+  // Whether the stream was lost, so that changes may have been missed
+  private dropped = false;
+  private userId: string | null = null;
+  private getBackend: () => VFSBackend;
+  private onOperation: (operation: VFSOperation) => void;
+  private onResync: () => void;
+
+  constructor(getBackend: () => VFSBackend, onOperation: (operation: VFSOperation) => void, onResync: () => void) {
+    this.getBackend = getBackend;
+    this.onOperation = onOperation;
+    this.onResync = onResync;
+
+    // Each user hears about their own files only
+    const getUserId = () => {
+      const state = useAuthStore.getState();
+      return state.isAuthenticated ? state.user?.id ?? null : null;
+    };
+    this.connect(getUserId());
+    useAuthStore.subscribe(() => {
+      const userId = getUserId();
+      if (userId !== this.userId) {
+        this.connect(userId);
+      }
+    });
+  }
+
+  /**
+   * Tell the other tabs about an operation done in this one
+   */
+  publish(operation: VFSOperation): void {
+    this.channel?.postMessage(operation);
+  }
+
+  private connect(userId: string | null): void {
+    this.disconnect();
+    this.userId = userId;
+    if (!userId) return;
+
+    this.channel = new BroadcastChannel(`${CHANNEL_PREFIX}${userId}`);
+    this.channel.onmessage = (event: MessageEvent<VFSOperation>) => this.onOperation(event.data);
+    this.openStream();
+  }
+
+  private disconnect(): void {
+    this.channel?.close();
+    this.channel = null;
+    this.stream?.abort();
+    this.stream = null;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.retryDelay = MIN_RETRY_DELAY;
+    this.dropped = false;
+  }
+
+  private async openStream(): Promise<void> {
+    const backend = this.getBackend();
+    if (!backend.getEvents) return;
+    const controller = new AbortController();
+    this.stream = controller;
+
+    try {
+      const body = await backend.getEvents(controller.signal);
+      const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+      if (this.dropped) {
+        this.dropped = false;
+        this.onResync();
+      }
+      this.retryDelay = MIN_RETRY_DELAY;
+
+      // Events are separated by blank lines, and may arrive in pieces
+      let buffer = '';
+      let chunk = await reader.read();
+      while (!chunk.done) {
+        buffer += chunk.value;
+        const messages = buffer.split('\n\n');
+        buffer = messages.pop() ?? '';
+        messages.forEach(message => this.handleMessage(message));
+        chunk = await reader.read();
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.warn('⚠️ VFS: File event stream failed:', error);
+      }
+    }
+    if (controller.signal.aborted) return;
+
+    // The server closed the stream or could not be reached
+    this.dropped = true;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.openStream();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+  }
+
+  private handleMessage(message: string): void {
+    // Lines starting with a colon are comments that keep the stream alive
+    const data = message
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trim())
+      .join('\n');
+    if (!data) return;
+
+    try {
+      this.onOperation(toOperation(JSON.parse(data)));
+    } catch (error) {
+      console.warn('⚠️ VFS: Invalid file event:', data, error);
+    }
+  }
+}
+
+export { VFSEventChannel };
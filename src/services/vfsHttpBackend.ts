@@ -0,0 +1,112 @@
+/**
+ * HTTP VFS Backend
+ *
+ * Files kept by the Express server in MongoDB GridFS, through apiClient.
+ */
+
+import apiClient from './apiClient';
+import type { VFSBackend } from './vfsBackend';
+import type { TrashItem, TrashListing, VFSNode } from './vfsSyncService';
+
+// The API finds items by ID. Nodes created offline have none until the
+// server has them.
+const getId = (node: VFSNode): string => {
+  if (!node.id) {
+    throw new Error(`File not found: ${node.name}`);
+  }
+  return node.id;
+};
+
+/**
+ * Convert backend response to VFS nodes
+ */
+export const convertBackendToVFS = (backendFile: any): VFSNode => ({
+  id: backendFile.id || backendFile._id,
+  name: backendFile.originalName || backendFile.filename,
+  type: backendFile.isDirectory ? 'folder' : 'file',
+  size: backendFile.size || 0,
+  extension: backendFile.isDirectory ? undefined : (backendFile.originalName || backendFile.filename).split('.').pop() || '',
+  created: backendFile.createdAt ? new Date(backendFile.createdAt) : new Date(),
+  modified: backendFile.updatedAt ? new Date(backendFile.updatedAt) : new Date(),
+  path: backendFile.path || '',
+  parent: backendFile.parent,
+  version: backendFile.metadata?.version
+});
+
+class HttpVFSBackend implements VFSBackend {
+  readonly kind = 'remote';
+  readonly remote = true;
+
+  async listFolder(path: string): Promise<VFSNode[]> {
+    const response = await apiClient.getFiles(path);
+    const backendFiles = response.files || [];
+    return backendFiles.map(file => convertBackendToVFS(file));
+  }
+
+  async readFile(node: VFSNode): Promise<string> {
+    // Use the content-specific endpoint for better performance
+    const response = await apiClient.getFileContent(getId(node));
+    return response.content;
+  }
+
+  readBlob(node: VFSNode): Promise<Blob> {
+    return apiClient.downloadFile(getId(node));
+  }
+
+  async writeFile(node: VFSNode, content: string): Promise<void> {
+    await apiClient.updateFileContent(getId(node), content);
+  }
+
+  async uploadFile(file: File, folder: string): Promise<void> {
+    await apiClient.uploadFile(file, folder);
+  }
+
+  async createFolder(name: string, folder: string): Promise<void> {
+    await apiClient.createFolder(name, folder);
+  }
+
+  async deleteNode(node: VFSNode): Promise<void> {
+    await apiClient.deleteFile(getId(node));
+  }
+
+  async moveNode(node: VFSNode, destFolder: string): Promise<void> {
+    await apiClient.moveFile(getId(node), destFolder);
+  }
+
+  async renameNode(node: VFSNode, newName: string): Promise<void> {
+    await apiClient.renameFile(getId(node), newName);
+  }
+
+  async listTrash(): Promise<TrashListing> {
+    const response = await apiClient.getTrash();
+    const items = (response.files || []).map(file => ({
+      ...convertBackendToVFS(file),
+      id: file.id,
+      originalPath: file.path,
+      deletedAt: new Date(file.deletedAt),
+    }));
+    return { items, retentionDays: response.retentionDays };
+  }
+
+  async restoreFromTrash(item: TrashItem, newName?: string): Promise<void> {
+    await apiClient.restoreFromTrash(item.id, newName);
+  }
+
+  async deleteFromTrash(item: TrashItem): Promise<void> {
+    await apiClient.deleteFromTrash(item.id);
+  }
+
+  async emptyTrash(): Promise<void> {
+    await apiClient.emptyTrash();
+  }
+
+  async ping(): Promise<void> {
+    await apiClient.healthCheck();
+  }
+
+  getEvents(signal: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+    return apiClient.getFileEvents(signal);
+  }
+}
+
+export { HttpVFSBackend };
@@ -0,0 +1,69 @@
+/**
+ * Local VFS Backend
+ *
+ * Files kept in IndexedDB only, for guests and demos without a server.
+ * The tree is the one of a MemoryVFSBackend, loaded from the database of
+ * the user on first use and saved there on each change.
+ */
+
+import useAuthStore from '../stores/authStore';
+import type { VFSBackend } from './vfsBackend';
+import { MemoryVFSBackend } from './vfsMemoryBackend';
+import type { StoredNode, VFSNodeStorage } from './vfsMemoryBackend';
+
+const DB_PREFIX = 'weave-files-';
+const DB_VERSION = 1;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+class IndexedDBNodeStorage implements VFSNodeStorage {
+  private db: Promise<IDBDatabase> | null = null;
+  private name: string;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const req = indexedDB.open(this.name, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore('nodes', { keyPath: 'id' });
+      };
+      this.db = request(req);
+    }
+    return this.db;
+  }
+
+  async load(): Promise<StoredNode[]> {
+    const db = await this.open();
+    return request(db.transaction('nodes').objectStore('nodes').getAll());
+  }
+
+  async save(changed: StoredNode[], removed: string[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('nodes', 'readwrite');
+    const store = tx.objectStore('nodes');
+    changed.forEach(node => store.put(node));
+    removed.forEach(id => store.delete(id));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+}
+
+/**
+ * Backend for the files of the signed in user, or of the guest
+ */
+export const createLocalBackend = (): VFSBackend => {
+  const userId = useAuthStore.getState().user?.id ?? 'guest';
+  return new MemoryVFSBackend(new IndexedDBNodeStorage(`${DB_PREFIX}${userId}`), 'local');
+};
+
+export { IndexedDBNodeStorage };
@@ -0,0 +1,269 @@
+/**
+ * Memory VFS Backend
+ *
+ * Files kept in a Map, with a trash like the server's. On its own it
+ * forgets everything on reload, which suits tests; with a storage it
+ * saves each change there and loads the tree back on first use.
+ */
+
+import type { VFSBackendKind } from '../config/environment';
+import type { VFSBackend } from './vfsBackend';
+import type { TrashItem, TrashListing, VFSNode } from './vfsSyncService';
+
+export interface StoredNode {
+  id: string;
+  name: string;
+  // Full path of the folder the node is in
+  folder: string;
+  isDirectory: boolean;
+  content?: Blob;
+  size: number;
+  created: number;
+  modified: number;
+  version: number;
+  deletedAt?: number;
+  // ID of the folder it was deleted with, for the contents of a folder in
+  // the trash
+  deletedWith?: string;
+}
+
+/**
+ * Where a MemoryVFSBackend keeps its nodes between sessions
+ */
+export interface VFSNodeStorage {
+  load(): Promise<StoredNode[]>;
+  save(changed: StoredNode[], removed: string[]): Promise<void>;
+}
+
+const getChildPath = (folder: string, name: string): string => (folder === '/' ? `/${name}` : `${folder}/${name}`);
+
+const getFullPath = (node: StoredNode): string => getChildPath(node.folder, node.name);
+
+const toVFSNode = (node: StoredNode): VFSNode => ({
+  id: node.id,
+  name: node.name,
+  type: node.isDirectory ? 'folder' : 'file',
+  size: node.size,
+  extension: node.isDirectory ? undefined : node.name.split('.').pop() || '',
+  created: new Date(node.created),
+  modified: new Date(node.modified),
+  path: node.folder,
+  version: node.version,
+});
+
+class MemoryVFSBackend implements VFSBackend {
+  readonly kind: VFSBackendKind;
+  readonly remote = false;
+  private nodes = new Map<string, StoredNode>();
+  private storage: VFSNodeStorage | null;
+  private loaded: Promise<void> | null = null;
+
+  constructor(storage: VFSNodeStorage | null = null, kind: VFSBackendKind = 'memory') {
+    this.storage = storage;
+    this.kind = kind;
+  }
+
+  async listFolder(path: string): Promise<VFSNode[]> {
+    await this.load();
+    return this.getChildren(path).map(toVFSNode);
+  }
+
+  async readFile(node: VFSNode): Promise<string> {
+    const stored = await this.find(node);
+    if (stored.isDirectory) {
+      throw new Error(`${stored.name} is a folder`);
+    }
+    return stored.content ? stored.content.text() : '';
+  }
+
+  async readBlob(node: VFSNode): Promise<Blob> {
+    const stored = await this.find(node);
+    if (stored.isDirectory) {
+      throw new Error(`${stored.name} is a folder`);
+    }
+    return stored.content ?? new Blob([]);
+  }
+
+  async writeFile(node: VFSNode, content: string): Promise<void> {
+    const stored = await this.find(node);
+    if (stored.isDirectory) {
+      throw new Error('Cannot update content of a directory');
+    }
+    const blob = new Blob([content]);
+    Object.assign(stored, { content: blob, size: blob.size, modified: Date.now(), version: stored.version + 1 });
+    await this.save([stored]);
+  }
+
+  async uploadFile(file: File, folder: string): Promise<void> {
+    await this.load();
+    this.checkFree(file.name, folder, 'File already exists');
+    await this.save([this.add(file.name, folder, false, file)]);
+  }
+
+  async createFolder(name: string, folder: string): Promise<void> {
+    await this.load();
+    this.checkFree(name, folder, 'Folder already exists');
+    await this.save([this.add(name, folder, true)]);
+  }
+
+  async deleteNode(node: VFSNode): Promise<void> {
+    const stored = await this.find(node);
+    const now = Date.now();
+    const children = this.getDescendants(stored);
+    stored.deletedAt = now;
+    children.forEach(child => Object.assign(child, { deletedAt: now, deletedWith: stored.id }));
+    await this.save([stored, ...children]);
+  }
+
+  async moveNode(node: VFSNode, destFolder: string): Promise<void> {
+    const stored = await this.find(node);
+    const path = getFullPath(stored);
+    if (stored.isDirectory && (destFolder === path || destFolder.startsWith(`${path}/`))) {
+      throw new Error('A folder cannot be moved into itself');
+    }
+    this.checkFree(stored.name, destFolder, 'A file with this name already exists at the destination');
+    await this.relocate(stored, destFolder, stored.name);
+  }
+
+  async renameNode(node: VFSNode, newName: string): Promise<void> {
+    const stored = await this.find(node);
+    this.checkFree(newName, stored.folder, 'A file with this name already exists');
+    await this.relocate(stored, stored.folder, newName);
+  }
+
+  async listTrash(): Promise<TrashListing> {
+    await this.load();
+    const items: TrashItem[] = [...this.nodes.values()]
+      .filter(node => node.deletedAt && !node.deletedWith)
+      .map(node => ({ ...toVFSNode(node), id: node.id, originalPath: node.folder, deletedAt: new Date(node.deletedAt ?? 0) }));
+    // Nothing is purged automatically
+    return { items, retentionDays: 0 };
+  }
+
+  async restoreFromTrash(item: TrashItem, newName?: string): Promise<void> {
+    await this.load();
+    const stored = this.nodes.get(item.id);
+    if (!stored?.deletedAt) {
+      throw new Error('File not found in trash');
+    }
+    const name = newName || stored.name;
+    this.checkFree(name, stored.folder, `An item named ${name} already exists in ${stored.folder}`);
+
+    // Recreate the folders of the original location that are gone since
+    const changed: StoredNode[] = [];
+    let parentPath = '/';
+    for (const part of stored.folder.split('/').filter(Boolean)) {
+      if (!this.getChildren(parentPath).some(node => node.name === part && node.isDirectory)) {
+        changed.push(this.add(part, parentPath, true));
+      }
+      parentPath = getChildPath(parentPath, part);
+    }
+
+    const oldPath = getFullPath(stored);
+    Object.assign(stored, { name, deletedAt: undefined });
+    const newPath = getFullPath(stored);
+    const children = [...this.nodes.values()].filter(node => node.deletedWith === stored.id);
+    children.forEach(child => {
+      Object.assign(child, { folder: newPath + child.folder.slice(oldPath.length), deletedAt: undefined, deletedWith: undefined });
+    });
+    await this.save([...changed, stored, ...children]);
+  }
+
+  async deleteFromTrash(item: TrashItem): Promise<void> {
+    await this.load();
+    const stored = this.nodes.get(item.id);
+    if (!stored?.deletedAt) {
+      throw new Error('File not found in trash');
+    }
+    await this.remove([stored, ...[...this.nodes.values()].filter(node => node.deletedWith === stored.id)]);
+  }
+
+  async emptyTrash(): Promise<void> {
+    await this.load();
+    await this.remove([...this.nodes.values()].filter(node => node.deletedAt));
+  }
+
+  async ping(): Promise<void> {
+    await this.load();
+  }
+
+  reload(): void {
+    if (!this.storage) return;
+    this.nodes.clear();
+    this.loaded = null;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.storage
+        ? this.storage.load().then(nodes => nodes.forEach(node => this.nodes.set(node.id, node)))
+        : Promise.resolve();
+    }
+    return this.loaded;
+  }
+
+  private async save(changed: StoredNode[]): Promise<void> {
+    await this.storage?.save(changed, []);
+  }
+
+  private async remove(nodes: StoredNode[]): Promise<void> {
+    nodes.forEach(node => this.nodes.delete(node.id));
+    await this.storage?.save([], nodes.map(node => node.id));
+  }
+
+  private async find(node: VFSNode): Promise<StoredNode> {
+    await this.load();
+    const stored = node.id ? this.nodes.get(node.id) : undefined;
+    if (!stored || stored.deletedAt) {
+      throw new Error(`File not found: ${node.name}`);
+    }
+    return stored;
+  }
+
+  private getChildren(path: string): StoredNode[] {
+    return [...this.nodes.values()].filter(node => node.folder === path && !node.deletedAt);
+  }
+
+  private getDescendants(folder: StoredNode): StoredNode[] {
+    if (!folder.isDirectory) return [];
+    const path = getFullPath(folder);
+    return [...this.nodes.values()].filter(node => !node.deletedAt && (node.folder === path || node.folder.startsWith(`${path}/`)));
+  }
+
+  private checkFree(name: string, folder: string, message: string): void {
+    if (this.getChildren(folder).some(node => node.name === name)) {
+      throw new Error(message);
+    }
+  }
+
+  private add(name: string, folder: string, isDirectory: boolean, content?: Blob): StoredNode {
+    const now = Date.now();
+    const node: StoredNode = {
+      id: crypto.randomUUID(),
+      name,
+      folder,
+      isDirectory,
+      content,
+      size: content?.size ?? 0,
+      created: now,
+      modified: now,
+      version: 1,
+    };
+    this.nodes.set(node.id, node);
+    return node;
+  }
+
+  // Move or rename a node, with everything inside it
+  private async relocate(node: StoredNode, folder: string, name: string): Promise<void> {
+    const children = this.getDescendants(node);
+    const oldPath = getFullPath(node);
+    Object.assign(node, { folder, name, modified: Date.now() });
+    const newPath = getFullPath(node);
+    children.forEach(child => {
+      child.folder = newPath + child.folder.slice(oldPath.length);
+    });
+    await this.save([node, ...children]);
+  }
+}
+
+export { MemoryVFSBackend };
@@ -0,0 +1,204 @@
+/**
+ * VFS Metadata Cache
+ *
+ * Keeps the listings of the folders the VFS has read, with an index from
+ * paths to their nodes, so that finding a file and its ID for the API does
+ * not cost a round trip each time. Listings expire after a TTL, and the
+ * operations of vfsSyncService drop the folders they change. Concurrent
+ * reads of a folder share one request.
+ */
+
+import type { VFSNode, VFSOperation } from './vfsSyncService';
+
+export interface VFSCacheStats {
+  // Lookups answered from the cache
+  hits: number;
+  // Lookups that fetched a listing
+  misses: number;
+  // Lookups that waited for a listing another one was fetching
+  shared: number;
+  folders: number;
+  nodes: number;
+}
+
+interface CachedFolder {
+  nodes: VFSNode[];
+  expiresAt: number;
+}
+
+export const DEFAULT_CACHE_TTL = 30 * 1000;
+
+const getParentPath = (path: string): string => path.slice(0, path.lastIndexOf('/')) || '/';
+
+const getChildPath = (folder: string, name: string): string => (folder === '/' ? `/${name}` : `${folder}/${name}`);
+
+// Operations mark folders with a trailing slash
+const trimFolderPath = (path: string): string => (path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path);
+
+class VFSMetadataCache {
+  private folders = new Map<string, CachedFolder>();
+  private index = new Map<string, VFSNode>();
+  private pending = new Map<string, Promise<VFSNode[]>>();
+  // Bumped on invalidation, so that listings fetched before are neither
+  // kept nor shared
+  private generation = 0;
+  private hits = 0;
+  private misses = 0;
+  private shared = 0;
+  private fetchFolder: (path: string) => Promise<VFSNode[]>;
+  private ttl: number;
+
+  constructor(fetchFolder: (path: string) => Promise<VFSNode[]>, ttl: number = DEFAULT_CACHE_TTL) {
+    this.fetchFolder = fetchFolder;
+    this.ttl = ttl;
+  }
+
+  /**
+   * Nodes in a folder. The array is shared with the cache, copy it before
+   * changing it.
+   */
+  async listFolder(path: string): Promise<VFSNode[]> {
+    const cached = this.getFresh(path);
+    if (cached) {
+      this.hits++;
+      return cached.nodes;
+    }
+
+    const pending = this.pending.get(path);
+    if (pending) {
+      this.shared++;
+      return pending;
+    }
+
+    this.misses++;
+    const generation = this.generation;
+    const request = this.fetchFolder(path)
+      .then(nodes => {
+        if (generation === this.generation) {
+          this.store(path, nodes);
+        }
+        return nodes;
+      })
+      .finally(() => {
+        if (this.pending.get(path) === request) this.pending.delete(path);
+      });
+    this.pending.set(path, request);
+    return request;
+  }
+
+  /**
+   * Node at a path, or undefined when there is none
+   */
+  async getNode(path: string): Promise<VFSNode | undefined> {
+    if (path === '/') return undefined;
+
+    const parent = getParentPath(path);
+    if (this.getFresh(parent)) {
+      this.hits++;
+      return this.index.get(path);
+    }
+    const nodes = await this.listFolder(parent);
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    return this.index.get(path) ?? nodes.find(node => node.name === name);
+  }
+
+  /**
+   * Nodes at several paths. Each folder among them is listed once.
+   */
+  async getNodes(paths: string[]): Promise<Map<string, VFSNode | undefined>> {
+    const folders = [...new Set(paths.filter(path => path !== '/').map(getParentPath))];
+    await Promise.all(folders.map(folder => this.listFolder(folder)));
+    const nodes = await Promise.all(paths.map(path => this.getNode(path)));
+    return new Map(paths.map((path, i) => [path, nodes[i]]));
+  }
+
+  /**
+   * Drop what an operation of the VFS changed
+   */
+  apply(operation: VFSOperation): void {
+    const path = trimFolderPath(operation.path);
+    const newPath = operation.newPath ? trimFolderPath(operation.newPath) : undefined;
+    this.bumpGeneration();
+
+    switch (operation.type) {
+      case 'create':
+      case 'update':
+        this.dropFolder(getParentPath(path));
+        break;
+      case 'delete':
+        this.invalidate(path);
+        break;
+      case 'move':
+        this.invalidate(path);
+        if (newPath) this.invalidate(newPath);
+        break;
+      case 'copy':
+        if (newPath) this.invalidate(newPath);
+        break;
+    }
+  }
+
+  /**
+   * Drop a path with everything below it, or the whole cache
+   */
+  invalidate(path: string = '/'): void {
+    this.bumpGeneration();
+    if (path === '/') {
+      this.folders.clear();
+      this.index.clear();
+      return;
+    }
+
+    this.dropFolder(getParentPath(path));
+    for (const folder of [...this.folders.keys()]) {
+      if (folder === path || folder.startsWith(`${path}/`)) {
+        this.dropFolder(folder);
+      }
+    }
+  }
+
+  getStats(): VFSCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      shared: this.shared,
+      folders: this.folders.size,
+      nodes: this.index.size,
+    };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.shared = 0;
+  }
+
+  private bumpGeneration(): void {
+    this.generation++;
+    this.pending.clear();
+  }
+
+  private getFresh(path: string): CachedFolder | undefined {
+    const cached = this.folders.get(path);
+    if (cached && cached.expiresAt <= Date.now()) {
+      this.dropFolder(path);
+      return undefined;
+    }
+    return cached;
+  }
+
+  private store(path: string, nodes: VFSNode[]): void {
+    this.dropFolder(path);
+    this.folders.set(path, { nodes, expiresAt: Date.now() + this.ttl });
+    nodes.forEach(node => this.index.set(getChildPath(path, node.name), node));
+  }
+
+  private dropFolder(path: string): void {
+    const cached = this.folders.get(path);
+    if (!cached) return;
+    this.folders.delete(path);
+    cached.nodes.forEach(node => this.index.delete(getChildPath(path, node.name)));
+  }
+}
+
+export { VFSMetadataCache };
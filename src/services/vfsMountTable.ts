@@ -0,0 +1,265 @@
+/**
+ * VFS Mount Table
+ *
+ * File systems mounted into the VFS at a path: a zip archive of the VFS,
+ * the folders another user shares, or the git working trees of the Code
+ * Editor. Paths at and below a mount point go to its file system instead
+ * of the backend. The table is kept in localStorage per user.
+ */
+
+import useAuthStore from '../stores/authStore';
+import type { VFSNode } from './vfsSyncService';
+import { ZipFileSystem } from './vfsZipMount';
+import { SharedFileSystem } from './vfsSharedMount';
+import { RepoFileSystem } from './vfsRepoMount';
+
+export type MountType = 'zip' | 'shared' | 'repos';
+
+export const MOUNT_TYPES: MountType[] = ['zip', 'shared', 'repos'];
+
+export interface MountInfo {
+  // Where it is mounted in the VFS
+  path: string;
+  type: MountType;
+  // VFS path of the archive, user name of the owner, or folder of the
+  // Code Editor file system
+  source: string;
+  readOnly: boolean;
+}
+
+/**
+ * A file system that can be mounted. Paths are its own, starting at '/'.
+ * Read-only ones reject the writes.
+ */
+export interface MountedFileSystem {
+  readonly readOnly: boolean;
+
+  list(path: string): Promise<VFSNode[]>;
+  read(path: string): Promise<Blob>;
+  write(path: string, content: Blob): Promise<void>;
+  mkdir(path: string): Promise<void>;
+  // Deleted for good, mounted file systems have no trash
+  remove(path: string): Promise<void>;
+  rename(path: string, newPath: string): Promise<void>;
+}
+
+export interface MountedPath {
+  mount: MountInfo;
+  fs: MountedFileSystem;
+  // Path in the mounted file system
+  innerPath: string;
+}
+
+interface Mount {
+  info: MountInfo;
+  fs: MountedFileSystem;
+}
+
+type StoredMount = Pick<MountInfo, 'path' | 'type' | 'source'>;
+
+const STORAGE_PREFIX = 'weave-mounts-';
+
+const trimPath = (path: string): string => path.replace(/\/+$/, '') || '/';
+
+const isInside = (path: string, folder: string): boolean =>
+  path === folder || path.startsWith(folder === '/' ? '/' : `${folder}/`);
+
+/**
+ * File system of a mount. Archives are read through the VFS, which may
+ * have them in another mount.
+ */
+export const createMountedFileSystem = (type: MountType, source: string, readFile: (path: string) => Promise<Blob>): MountedFileSystem => {
+  switch (type) {
+    case 'zip':
+      return new ZipFileSystem(() => readFile(source));
+    case 'shared':
+      return new SharedFileSystem(source);
+    case 'repos':
+      return new RepoFileSystem(source);
+  }
+};
+
+class VFSMountTable {
+  private mounts: Mount[] = [];
+  private listeners = new Set<() => void>();
+  private userId: string | null = null;
+  private createFileSystem: (type: MountType, source: string) => MountedFileSystem;
+
+  constructor(createFileSystem: (type: MountType, source: string) => MountedFileSystem) {
+    this.createFileSystem = createFileSystem;
+
+    // Each user has their own mounts
+    this.load(useAuthStore.getState().user?.id ?? null);
+    useAuthStore.subscribe(state => {
+      const userId = state.user?.id ?? null;
+      if (userId !== this.userId) {
+        this.load(userId);
+        this.notify();
+      }
+    });
+    // Mounts made in other tabs
+    window.addEventListener('storage', event => {
+      if (this.userId && event.key === STORAGE_PREFIX + this.userId) {
+        this.load(this.userId);
+        this.notify();
+      }
+    });
+  }
+
+  list(): MountInfo[] {
+    return this.mounts.map(mount => mount.info);
+  }
+
+  /**
+   * Mount a file system, and keep it in the table once the check, which
+   * reads it through the table, succeeds
+   */
+  async mount(type: MountType, source: string, mountPoint: string, check: (info: MountInfo) => Promise<unknown>): Promise<MountInfo> {
+    const path = trimPath(mountPoint);
+    if (path === '/') {
+      throw new Error('Cannot mount over the root folder');
+    }
+    // Mounts do not nest, so that a path is in one at most
+    const clash = this.mounts.find(mount => isInside(path, mount.info.path) || isInside(mount.info.path, path));
+    if (clash) {
+      throw new Error(clash.info.path === path ? `${path} is already a mount point` : `${path} overlaps the mount point ${clash.info.path}`);
+    }
+    if (type === 'zip' && this.readsThrough(trimPath(source), path)) {
+      throw new Error(`${source} cannot be mounted at ${path}, it would be read through the mount itself`);
+    }
+
+    const info = this.add({ path, type, source });
+    this.notify();
+    try {
+      await check(info);
+    } catch (error) {
+      this.mounts = this.mounts.filter(mount => mount.info !== info);
+      this.notify();
+      throw error;
+    }
+    this.save();
+    return info;
+  }
+
+  unmount(mountPoint: string): MountInfo {
+    const path = trimPath(mountPoint);
+    const mount = this.mounts.find(({ info }) => info.path === path);
+    if (!mount) {
+      throw new Error(`${path} is not a mount point`);
+    }
+    this.mounts = this.mounts.filter(other => other !== mount);
+    this.save();
+    this.notify();
+    return mount.info;
+  }
+
+  /**
+   * The mount a path is in, if any
+   */
+  resolve(path: string): MountedPath | null {
+    const mount = this.mounts.find(({ info }) => isInside(path, info.path));
+    if (!mount) return null;
+    return { mount: mount.info, fs: mount.fs, innerPath: path.slice(mount.info.path.length) || '/' };
+  }
+
+  /**
+   * Children of a folder that are mount points, or folders on the way to
+   * one, by name. The latter have no mount.
+   */
+  getMountsBelow(folder: string): Map<string, MountInfo | null> {
+    const prefix = folder === '/' ? '/' : `${folder}/`;
+    const below = new Map<string, MountInfo | null>();
+    this.mounts
+      .filter(({ info }) => info.path.startsWith(prefix))
+      .forEach(({ info }) => {
+        const rest = info.path.slice(prefix.length);
+        const name = rest.split('/')[0];
+        if (rest === name) {
+          below.set(name, info);
+        } else if (!below.has(name)) {
+          below.set(name, null);
+        }
+      });
+    return below;
+  }
+
+  /**
+   * Bytes in the files of a mount
+   */
+  async getUsage(path: string): Promise<number> {
+    const mounted = this.resolve(path);
+    if (!mounted) {
+      throw new Error(`${path} is not a mount point`);
+    }
+    const walk = async (folder: string): Promise<number> => {
+      const nodes = await mounted.fs.list(folder);
+      const sizes = await Promise.all(nodes.map(node => {
+        const nodePath = folder === '/' ? `/${node.name}` : `${folder}/${node.name}`;
+        return node.type === 'folder' ? walk(nodePath) : node.size;
+      }));
+      return sizes.reduce((total, size) => total + size, 0);
+    };
+    return walk(mounted.innerPath);
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Whether reading an archive would go through a path, directly or
+  // through the archives of the zip mounts it is in
+  private readsThrough(source: string, path: string): boolean {
+    let archive: string | null = source;
+    for (let hops = 0; archive && hops <= this.mounts.length; hops++) {
+      if (isInside(archive, path)) return true;
+      const current: string = archive;
+      const mount = this.mounts.find(({ info }) => isInside(current, info.path));
+      archive = mount?.info.type === 'zip' ? mount.info.source : null;
+    }
+    return false;
+  }
+
+  private add(stored: StoredMount): MountInfo {
+    const fs = this.createFileSystem(stored.type, stored.source);
+    const info: MountInfo = { ...stored, readOnly: fs.readOnly };
+    this.mounts = [...this.mounts, { info, fs }].sort((a, b) => a.info.path.localeCompare(b.info.path));
+    return info;
+  }
+
+  private load(userId: string | null): void {
+    this.userId = userId;
+    this.mounts = [];
+    if (!userId) return;
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_PREFIX + userId) ?? '[]');
+      if (Array.isArray(stored)) {
+        stored
+          .filter((mount): mount is StoredMount => typeof mount?.path === 'string' && typeof mount?.source === 'string' && MOUNT_TYPES.includes(mount?.type))
+          // An archive read through its own mount would hang every listing
+          .filter(mount => mount.type !== 'zip' || !this.readsThrough(trimPath(mount.source), mount.path))
+          .forEach(mount => this.add(mount));
+      }
+    } catch (error) {
+      console.warn('Failed to load the mount table:', error);
+    }
+  }
+
+  private save(): void {
+    if (!this.userId) return;
+
+    try {
+      const stored: StoredMount[] = this.mounts.map(({ info }) => ({ path: info.path, type: info.type, source: info.source }));
+      localStorage.setItem(STORAGE_PREFIX + this.userId, JSON.stringify(stored));
+    } catch (error) {
+      console.warn('Failed to save the mount table:', error);
+    }
+  }
+}
+
+export { VFSMountTable };
@@ -0,0 +1,253 @@
+/**
+ * VFS Replica
+ *
+ * A copy of the VFS in IndexedDB that vfsSyncService reads from while the
+ * backend is unreachable: the listings of the folders it has read, and the
+ * content of the files it has opened. Writes made offline are applied to
+ * the replica and kept in a queue, in order, until they are sent. Each user
+ * has a database of their own.
+ */
+
+import useAuthStore from '../stores/authStore';
+import type { VFSNode, VFSOperation } from './vfsSyncService';
+
+/**
+ * An operation made offline. The version and modification time of the node
+ * when it was changed tell whether it changed on the server since.
+ */
+export interface QueuedOperation extends VFSOperation {
+  baseVersion?: number;
+  baseModified?: number;
+}
+
+// An operation in the queue, with the key it is stored under
+export interface QueueEntry extends QueuedOperation {
+  id: number;
+}
+
+interface NodeRecord {
+  path: string;
+  parent: string;
+  node: VFSNode;
+  // Only for files that were opened or written
+  content?: string;
+}
+
+const DB_PREFIX = 'weave-vfs-';
+const DB_VERSION = 1;
+
+const getParentPath = (path: string): string => path.slice(0, path.lastIndexOf('/')) || '/';
+
+const getChildPath = (folder: string, name: string): string => (folder === '/' ? `/${name}` : `${folder}/${name}`);
+
+// Keys of everything below a folder
+const getSubtreeRange = (path: string): IDBKeyRange => IDBKeyRange.bound(`${path}/`, `${path}/\uffff`);
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+class VFSReplica {
+  private db: Promise<IDBDatabase> | null = null;
+  private userId: string | null = null;
+
+  constructor() {
+    this.userId = useAuthStore.getState().user?.id ?? null;
+    useAuthStore.subscribe(state => {
+      const userId = state.user?.id ?? null;
+      if (userId !== this.userId) {
+        this.userId = userId;
+        this.db?.then(db => db.close()).catch(() => {});
+        this.db = null;
+      }
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const req = indexedDB.open(`${DB_PREFIX}${this.userId ?? 'guest'}`, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        const nodes = db.createObjectStore('nodes', { keyPath: 'path' });
+        nodes.createIndex('parent', 'parent');
+        // Folders whose listing is known
+        db.createObjectStore('folders', { keyPath: 'path' });
+        db.createObjectStore('queue', { keyPath: 'id', autoIncrement: true });
+      };
+      this.db = request(req);
+    }
+    return this.db;
+  }
+
+  /**
+   * Listing of a folder, or undefined when it was never read
+   */
+  async getListing(path: string): Promise<VFSNode[] | undefined> {
+    const db = await this.open();
+    const tx = db.transaction(['nodes', 'folders'], 'readonly');
+    const folder = await request(tx.objectStore('folders').get(path));
+    if (!folder) return undefined;
+    const records: NodeRecord[] = await request(tx.objectStore('nodes').index('parent').getAll(path));
+    return records.map(record => record.node);
+  }
+
+  /**
+   * Replace the listing of a folder with the one of the server. Content of
+   * files that did not change is kept.
+   */
+  async putListing(path: string, nodes: VFSNode[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(['nodes', 'folders'], 'readwrite');
+    const store = tx.objectStore('nodes');
+    const existing: NodeRecord[] = await request(store.index('parent').getAll(path));
+    const names = new Set(nodes.map(node => node.name));
+
+    existing.filter(record => !names.has(record.node.name)).forEach(record => this.deleteTree(tx, record.path));
+    nodes.forEach(node => {
+      const childPath = getChildPath(path, node.name);
+      const previous = existing.find(record => record.path === childPath);
+      const unchanged = previous?.node.modified.getTime() === node.modified.getTime();
+      store.put({ path: childPath, parent: path, node, content: unchanged ? previous?.content : undefined });
+    });
+    tx.objectStore('folders').put({ path });
+    await done(tx);
+  }
+
+  async getContent(path: string): Promise<string | undefined> {
+    const db = await this.open();
+    const record: NodeRecord | undefined = await request(db.transaction('nodes').objectStore('nodes').get(path));
+    return record?.content;
+  }
+
+  async putContent(path: string, content: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('nodes', 'readwrite');
+    const store = tx.objectStore('nodes');
+    const record: NodeRecord | undefined = await request(store.get(path));
+    if (record) {
+      store.put({ ...record, content });
+    }
+    await done(tx);
+  }
+
+  /**
+   * Make the same change as an operation of the VFS
+   */
+  async apply(operation: VFSOperation): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(['nodes', 'folders'], 'readwrite');
+    const store = tx.objectStore('nodes');
+    const isFolder = operation.path.endsWith('/');
+    const path = isFolder && operation.path !== '/' ? operation.path.slice(0, -1) : operation.path;
+    const now = new Date(operation.timestamp);
+
+    switch (operation.type) {
+      case 'create': {
+        const name = path.slice(path.lastIndexOf('/') + 1);
+        const parent = getParentPath(path);
+        const node: VFSNode = {
+          name,
+          type: isFolder ? 'folder' : 'file',
+          size: operation.content?.length ?? 0,
+          extension: isFolder ? undefined : name.split('.').pop() || '',
+          created: now,
+          modified: now,
+          path: parent,
+        };
+        store.put({ path, parent, node, content: isFolder ? undefined : operation.content ?? '' });
+        if (isFolder) {
+          tx.objectStore('folders').put({ path });
+        }
+        break;
+      }
+      case 'update': {
+        const record: NodeRecord | undefined = await request(store.get(path));
+        if (record) {
+          const content = operation.content ?? '';
+          store.put({ ...record, node: { ...record.node, size: content.length, modified: now }, content });
+        }
+        break;
+      }
+      case 'delete':
+        this.deleteTree(tx, path);
+        break;
+      case 'move': {
+        if (!operation.newPath) break;
+        const newPath = operation.newPath;
+        const record: NodeRecord | undefined = await request(store.get(path));
+        const children: NodeRecord[] = await request(store.getAll(getSubtreeRange(path)));
+        const folders: { path: string }[] = await request(tx.objectStore('folders').getAll(getSubtreeRange(path)));
+        const listed = await request(tx.objectStore('folders').get(path));
+        this.deleteTree(tx, path);
+
+        if (record) {
+          const name = newPath.slice(newPath.lastIndexOf('/') + 1);
+          const parent = getParentPath(newPath);
+          store.put({ ...record, path: newPath, parent, node: { ...record.node, name, path: parent } });
+        }
+        children.forEach(child => {
+          const childPath = newPath + child.path.slice(path.length);
+          const parent = getParentPath(childPath);
+          store.put({ ...child, path: childPath, parent, node: { ...child.node, path: parent } });
+        });
+        [...folders, ...(listed ? [listed] : [])].forEach(folder => {
+          tx.objectStore('folders').put({ path: newPath + folder.path.slice(path.length) });
+        });
+        break;
+      }
+    }
+    await done(tx);
+  }
+
+  private deleteTree(tx: IDBTransaction, path: string): void {
+    const store = tx.objectStore('nodes');
+    const folders = tx.objectStore('folders');
+    store.delete(path);
+    store.delete(getSubtreeRange(path));
+    folders.delete(path);
+    folders.delete(getSubtreeRange(path));
+  }
+
+  /**
+   * Queue of operations made offline, oldest first
+   */
+  async enqueue(operation: QueuedOperation): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('queue', 'readwrite');
+    tx.objectStore('queue').add(operation);
+    await done(tx);
+  }
+
+  async getFirst(): Promise<QueueEntry | undefined> {
+    const db = await this.open();
+    const cursor = await request(db.transaction('queue').objectStore('queue').openCursor());
+    return cursor?.value;
+  }
+
+  async dequeue(id: number): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('queue', 'readwrite');
+    tx.objectStore('queue').delete(id);
+    await done(tx);
+  }
+
+  async countQueue(): Promise<number> {
+    const db = await this.open();
+    return request(db.transaction('queue').objectStore('queue').count());
+  }
+}
+
+// Create and export singleton instance
+export const vfsReplica = new VFSReplica();
+
+// Export the class for testing
+export { VFSReplica };
@@ -0,0 +1,77 @@
+/**
+ * Repos Mount
+ *
+ * A folder of the Code Editor's LightningFS file system, with the git
+ * working trees in it, as a writable folder of the VFS. Changes show up
+ * in the Code Editor and in git status there.
+ */
+
+import { getEditorFS } from './editorFileSystem';
+import type { MountedFileSystem } from './vfsMountTable';
+import type { VFSNode } from './vfsSyncService';
+
+class RepoFileSystem implements MountedFileSystem {
+  readonly readOnly = false;
+  // Folder of the LightningFS file system that is mounted
+  private root: string;
+
+  constructor(root: string) {
+    this.root = root.length > 1 && root.endsWith('/') ? root.slice(0, -1) : root;
+  }
+
+  async list(path: string): Promise<VFSNode[]> {
+    const fs = getEditorFS().promises;
+    const names = await fs.readdir(this.toFSPath(path));
+    return Promise.all(names.map(async name => {
+      const stats = await fs.stat(this.toFSPath(path === '/' ? `/${name}` : `${path}/${name}`));
+      const isFile = stats.type === 'file';
+      return {
+        name,
+        type: isFile ? 'file' : 'folder',
+        size: isFile ? stats.size : 0,
+        extension: isFile ? name.split('.').pop() || '' : undefined,
+        created: new Date(stats.ctimeMs),
+        modified: new Date(stats.mtimeMs),
+        path,
+      };
+    }));
+  }
+
+  async read(path: string): Promise<Blob> {
+    const data = await getEditorFS().promises.readFile(this.toFSPath(path));
+    return new Blob([data]);
+  }
+
+  async write(path: string, content: Blob): Promise<void> {
+    await getEditorFS().promises.writeFile(this.toFSPath(path), new Uint8Array(await content.arrayBuffer()));
+  }
+
+  async mkdir(path: string): Promise<void> {
+    await getEditorFS().promises.mkdir(this.toFSPath(path));
+  }
+
+  async remove(path: string): Promise<void> {
+    const fs = getEditorFS().promises;
+    const fsPath = this.toFSPath(path);
+    if ((await fs.stat(fsPath)).type === 'file') {
+      await fs.unlink(fsPath);
+      return;
+    }
+    // Folders have to be emptied first
+    for (const name of await fs.readdir(fsPath)) {
+      await this.remove(path === '/' ? `/${name}` : `${path}/${name}`);
+    }
+    await fs.rmdir(fsPath);
+  }
+
+  async rename(path: string, newPath: string): Promise<void> {
+    await getEditorFS().promises.rename(this.toFSPath(path), this.toFSPath(newPath));
+  }
+
+  private toFSPath(path: string): string {
+    if (this.root === '/') return path;
+    return path === '/' ? this.root : `${this.root}${path}`;
+  }
+}
+
+export { RepoFileSystem };
@@ -0,0 +1,80 @@
+/**
+ * Shared Mount
+ *
+ * The items another user shares with the signed in one, as a read-only
+ * folder. Shared folders are browsed on the server in the owner's tree.
+ */
+
+import apiClient from './apiClient';
+import type { SharedFile } from './apiClient';
+import { convertBackendToVFS } from './vfsHttpBackend';
+import type { MountedFileSystem } from './vfsMountTable';
+import type { VFSNode } from './vfsSyncService';
+
+const getParentPath = (path: string): string => path.slice(0, path.lastIndexOf('/')) || '/';
+
+const readOnly = (): Promise<never> => Promise.reject(new Error('Read-only file system'));
+
+class SharedFileSystem implements MountedFileSystem {
+  readonly readOnly = true;
+  // User name of the owner
+  private owner: string;
+
+  constructor(owner: string) {
+    this.owner = owner;
+  }
+
+  async list(path: string): Promise<VFSNode[]> {
+    const shares = await this.getShares();
+    if (path === '/') {
+      return [...shares.values()].map(share => ({ ...convertBackendToVFS(share), path: '/' }));
+    }
+
+    // The first name is the shared folder, the rest is inside it
+    const [name, ...rest] = path.split('/').filter(Boolean);
+    const share = shares.get(name);
+    if (!share?.isDirectory) {
+      throw new Error(`Folder not found: ${path}`);
+    }
+    const sharePath = share.path === '/' ? `/${share.filename}` : `${share.path}/${share.filename}`;
+    const response = await apiClient.getFiles([sharePath, ...rest].join('/'), share.owner._id);
+    return (response.files || []).map(file => ({ ...convertBackendToVFS(file), path }));
+  }
+
+  async read(path: string): Promise<Blob> {
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    const node = (await this.list(getParentPath(path))).find(item => item.name === name);
+    if (node?.type !== 'file' || !node.id) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return apiClient.downloadFile(node.id);
+  }
+
+  write(): Promise<void> {
+    return readOnly();
+  }
+
+  mkdir(): Promise<void> {
+    return readOnly();
+  }
+
+  remove(): Promise<void> {
+    return readOnly();
+  }
+
+  rename(): Promise<void> {
+    return readOnly();
+  }
+
+  // Items the owner shares with the user, by name
+  private async getShares(): Promise<Map<string, SharedFile>> {
+    const response = await apiClient.getSharedWithMe();
+    const shares = (response.files || []).filter(file => file.owner?.username === this.owner);
+    if (shares.length === 0) {
+      throw new Error(`${this.owner} shares nothing with you`);
+    }
+    return new Map(shares.map(share => [share.originalName || share.filename, share]));
+  }
+}
+
+export { SharedFileSystem };
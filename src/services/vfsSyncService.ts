@@ -1,11 +1,24 @@
 /**
- * VFS Synchronization Service with MongoDB GridFS Backend
+ * VFS Synchronization Service
  * 
- * This service provides the same interface as the original VFS but uses
- * MongoDB GridFS for storage instead of localStorage
+ * This service provides the same interface as the original VFS but keeps
+ * the files in a VFSBackend: MongoDB GridFS through the server by default,
+ * IndexedDB or memory as configured in config/environment.ts
  */
 
-import apiClient from './apiClient';
+import { ENV } from '../config/environment';
+import { createVFSBackend } from './vfsBackend';
+import type { VFSBackend } from './vfsBackend';
+import { VFSMetadataCache } from './vfsMetadataCache';
+import type { VFSCacheStats } from './vfsMetadataCache';
+import { VFSEventChannel } from './vfsEventChannel';
+import { VFSMountTable, createMountedFileSystem } from './vfsMountTable';
+import type { MountInfo, MountType, MountedPath } from './vfsMountTable';
+import { vfsReplica } from './vfsReplica';
+import type { QueuedOperation } from './vfsReplica';
+import { notificationService } from './notificationService';
+import useAuthStore from '../stores/authStore';
+import { generateUniqueFileName } from '../utils/helpers';
 
 export interface VFSOperation {
   type: 'create' | 'read' | 'update' | 'delete' | 'move' | 'copy';
@@ -39,12 +52,88 @@ export interface VFSNode {
   id?: string;
   path?: string;
   parent?: string | null;
+  // Bumped by the server each time the content changes
+  version?: number;
+  // What is mounted there, for mount points
+  mount?: MountType;
 }
 
+// An item in the trash, with the folder it was deleted from
+export interface TrashItem extends VFSNode {
+  id: string;
+  originalPath: string;
+  deletedAt: Date;
+}
+
+export interface TrashListing {
+  items: TrashItem[];
+  // Days before items in the trash are deleted for good
+  retentionDays: number;
+}
+
+export interface VFSSyncStatus {
+  // Whether the backend can be reached
+  online: boolean;
+  // Operations made offline that were not sent yet
+  pending: number;
+  // Whether they are being sent
+  syncing: boolean;
+}
+
+// How often to check whether the backend is back while offline
+const RECONNECT_INTERVAL = 15 * 1000;
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+// Name for the version of a file kept when it changed on both sides
+const getConflictName = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? `${name.slice(0, dot)} (offline copy)${name.slice(dot)}` : `${name} (offline copy)`;
+};
+
 class VFSSyncService {
+  private backend: VFSBackend = createVFSBackend(ENV.vfsBackend);
   private listeners: VFSEventListener[] = [];
+  private trashListeners = new Set<() => void>();
+  private statusListeners = new Set<() => void>();
+  // Listings and nodes by path, so that lookups need no listing every time
+  private cache = new VFSMetadataCache(path => this.fetchDir(path));
+  // Operations of other tabs and devices, with the cache dropped when
+  // some may have been missed
+  private events = new VFSEventChannel(() => this.backend, operation => this.receive(operation), () => this.cache.invalidate());
+  // Other file systems shown at a path, whose archives are read through
+  // the VFS
+  private mounts = new VFSMountTable((type, source) => createMountedFileSystem(type, source, path => this.getFileBlob(path)));
   private operationHistory: VFSOperation[] = [];
   private currentFolderId: string | null = null;
+  private status: VFSSyncStatus = { online: !this.backend.remote || navigator.onLine, pending: 0, syncing: false };
+  private reconnectTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    this.mounts.onChange(() => this.cache.invalidate());
+
+    // Another user has other files, and other changes waiting to be sent
+    let userId = useAuthStore.getState().user?.id ?? null;
+    useAuthStore.subscribe(state => {
+      if ((state.user?.id ?? null) !== userId) {
+        userId = state.user?.id ?? null;
+        this.backend = createVFSBackend(ENV.vfsBackend);
+        this.cache.invalidate();
+        this.loadQueue();
+      }
+    });
+    console.log(`💾 VFS: Using the ${this.backend.kind} backend`);
+    this.loadQueue();
+
+    // Files only this browser has are always there
+    if (!this.backend.remote) return;
+
+    window.addEventListener('online', () => this.reconnect());
+    window.addEventListener('offline', () => this.goOffline());
+    if (!this.status.online) {
+      this.startReconnecting();
+    }
+  }
 
   /**
    * Event Management
@@ -61,7 +150,24 @@ class VFSSyncService {
   }
 
   private notifyListeners(operation: VFSOperation): void {
+    this.dispatch(operation);
+    // Other tabs show the change too
+    this.events.publish(operation);
+  }
+
+  // Operations done in other tabs and on other devices
+  private receive(operation: VFSOperation): void {
+    this.backend.reload?.();
+    this.dispatch(operation);
+    // Deleted items went to the trash, created ones may have left it
+    if (operation.type === 'delete' || operation.type === 'create') {
+      this.notifyTrashListeners();
+    }
+  }
+
+  private dispatch(operation: VFSOperation): void {
     this.operationHistory.push(operation);
+    this.cache.apply(operation);
     
     this.listeners.forEach(listener => {
       switch (operation.type) {
@@ -92,40 +198,84 @@ class VFSSyncService {
     });
   }
 
-  /**
-   * Convert backend response to VFS nodes
-   */
-  private convertBackendToVFS(backendFile: any): VFSNode {
-    return {
-      id: backendFile.id || backendFile._id,
-      name: backendFile.originalName || backendFile.filename,
-      type: backendFile.isDirectory ? 'folder' : 'file',
-      size: backendFile.size || 0,
-      extension: backendFile.isDirectory ? undefined : (backendFile.originalName || backendFile.filename).split('.').pop() || '',
-      created: backendFile.createdAt ? new Date(backendFile.createdAt) : new Date(),
-      modified: backendFile.updatedAt ? new Date(backendFile.updatedAt) : new Date(),
-      path: backendFile.path || '',
-      parent: backendFile.parent
-    };
-  }
-
   /**
    * File system operations (API compatible with original VFS)
    */
   async listDir(path: string): Promise<VFSNode[]> {
     try {
-      const response = await apiClient.getFiles(path);
-      const backendFiles = response.files || [];
-      
-      const vfsNodes = backendFiles.map((file: any) => this.convertBackendToVFS(file));
-      
-      return vfsNodes;
+      // Callers sort and filter the list they get
+      return [...await this.cache.listFolder(path)];
     } catch (error) {
       console.error(`❌ VFS: Failed to list directory ${path}:`, error);
       throw error;
     }
   }
 
+  private async fetchDir(path: string): Promise<VFSNode[]> {
+    const mounted = this.mounts.resolve(path);
+    if (mounted) {
+      const nodes = await mounted.fs.list(mounted.innerPath);
+      return nodes.map(node => ({ ...node, path }));
+    }
+    return this.addMountPoints(path, await this.fetchBackendDir(path));
+  }
+
+  private async fetchBackendDir(path: string): Promise<VFSNode[]> {
+    if (this.isLive()) {
+      try {
+        const nodes = await this.backend.listFolder(path);
+        this.replicate(() => vfsReplica.putListing(path, nodes));
+        return nodes;
+      } catch (error) {
+        if (!this.isUnreachable(error)) throw error;
+        this.goOffline();
+      }
+    }
+
+    const nodes = await vfsReplica.getListing(path);
+    if (!nodes) {
+      throw new Error(`${path} is not available offline`);
+    }
+    return nodes;
+  }
+
+  // Mount points hide what the backend has at their path. The folders on
+  // the way to one are shown even if the backend has none.
+  private addMountPoints(folder: string, nodes: VFSNode[]): VFSNode[] {
+    const below = this.mounts.getMountsBelow(folder);
+    if (below.size === 0) return nodes;
+
+    const listed = nodes.filter(node => {
+      const mount = below.get(node.name);
+      return mount === undefined || (mount === null && node.type === 'folder');
+    });
+    const now = new Date();
+    below.forEach((mount, name) => {
+      if (mount || !listed.some(node => node.name === name)) {
+        listed.push({ name, type: 'folder', size: 0, created: now, modified: now, path: folder, mount: mount?.type });
+      }
+    });
+    return listed;
+  }
+
+  /**
+   * Where the files are kept
+   */
+  getBackendKind(): VFSBackend['kind'] {
+    return this.backend.kind;
+  }
+
+  /**
+   * Cache of the metadata, for inspection and for refreshing views
+   */
+  getCacheStats(): VFSCacheStats {
+    return this.cache.getStats();
+  }
+
+  invalidateCache(path?: string): void {
+    this.cache.invalidate(path);
+  }
+
   async createFile(path: string, content: string = '', source: string = 'filemanager'): Promise<void> {
     try {
       const fileName = this.getFileNameFromPath(path);
@@ -133,16 +283,22 @@ class VFSSyncService {
       
       // Create an empty file with content
       const file = new File([content], fileName, { type: 'text/plain' });
-      
-      await apiClient.uploadFile(file, parentPath);
-      
-      this.notifyListeners({
+      const operation: VFSOperation = {
         type: 'create',
         path,
         content,
         timestamp: Date.now(),
         source
-      });
+      };
+      
+      const mounted = this.resolveWrite(path);
+      if (mounted) {
+        await mounted.fs.write(mounted.innerPath, file);
+      } else {
+        await this.write(operation, undefined, () => this.backend.uploadFile(file, parentPath));
+      }
+      
+      this.notifyListeners(operation);
       
     } catch (error) {
       console.error(`❌ VFS: Failed to create file ${path}:`, error);
@@ -155,14 +311,21 @@ class VFSSyncService {
       const folderName = this.getFileNameFromPath(path);
       const parentPath = this.getParentPathFromPath(path);
       
-      await apiClient.createFolder(folderName, parentPath);
-      
-      this.notifyListeners({
+      const operation: VFSOperation = {
         type: 'create',
         path: path + '/',
         timestamp: Date.now(),
         source
-      });
+      };
+      
+      const mounted = this.resolveWrite(path);
+      if (mounted) {
+        await mounted.fs.mkdir(mounted.innerPath);
+      } else {
+        await this.write(operation, undefined, () => this.backend.createFolder(folderName, parentPath));
+      }
+      
+      this.notifyListeners(operation);
       
     } catch (error) {
       console.error(`❌ VFS: Failed to create folder ${path}:`, error);
@@ -174,21 +337,35 @@ class VFSSyncService {
     try {
       console.log(`📖 VFS: Reading file content: ${path}`);
       
+      const mounted = this.mounts.resolve(path);
+      if (mounted) {
+        return (await mounted.fs.read(mounted.innerPath)).text();
+      }
+      
       // Find the file first
-      const parentPath = this.getParentPathFromPath(path);
-      const fileName = this.getFileNameFromPath(path);
-      const items = await this.listDir(parentPath);
-      const file = items.find(i => i.name === fileName && i.type === 'file');
+      const file = await this.cache.getNode(path);
       
-      if (!file?.id) {
+      if (file?.type !== 'file') {
         throw new Error(`File not found: ${path}`);
       }
       
-      // Use the new content-specific endpoint for better performance
-      const response = await apiClient.getFileContent(file.id);
-      const content = response.content;
+      if (this.isLive()) {
+        try {
+          const content = await this.backend.readFile(file);
+          this.replicate(() => vfsReplica.putContent(path, content));
+          
+          console.log(`✅ VFS: File content read successfully: ${path} (${content.length} characters)`);
+          return content;
+        } catch (error) {
+          if (!this.isUnreachable(error)) throw error;
+          this.goOffline();
+        }
+      }
       
-      console.log(`✅ VFS: File content read successfully: ${path} (${content.length} characters)`);
+      const content = await vfsReplica.getContent(path);
+      if (content === undefined) {
+        throw new Error(`${path} is not available offline`);
+      }
       return content;
     } catch (error) {
       console.error(`❌ VFS: Failed to read file ${path}:`, error);
@@ -196,39 +373,54 @@ class VFSSyncService {
     }
   }
 
+  /**
+   * Content of a file as it is, binary files included
+   */
+  async getFileBlob(path: string): Promise<Blob> {
+    const mounted = this.mounts.resolve(path);
+    if (mounted) {
+      return mounted.fs.read(mounted.innerPath);
+    }
+
+    const file = await this.cache.getNode(path);
+    if (file?.type !== 'file') {
+      throw new Error(`File not found: ${path}`);
+    }
+    // The offline replica only has text
+    this.requireOnline('Reading binary files');
+    return this.backend.readBlob(file);
+  }
+
   async updateFile(path: string, content: string, source: string = 'filemanager'): Promise<void> {
     try {
       console.log(`✏️ VFS: Updating file: ${path}`);
       
       // Check if file exists first
-      const parentPath = this.getParentPathFromPath(path);
-      const fileName = this.getFileNameFromPath(path);
-      console.log(`🔍 VFS: Looking for file "${fileName}" in directory "${parentPath}"`);
-      
-      const items = await this.listDir(parentPath);
-      console.log(`📂 VFS: Found ${items.length} items in ${parentPath}:`, items.map(i => ({name: i.name, id: i.id, type: i.type})));
+      const existingFile = await this.cache.getNode(path);
+      console.log(`🔎 VFS: Search result for "${path}":`, existingFile);
       
-      const existingFile = items.find(i => i.name === fileName);
-      console.log(`🔎 VFS: Search result for "${fileName}":`, existingFile);
-      
-      if (!existingFile?.id) {
+      if (!existingFile) {
         // File doesn't exist, create it instead
         console.log(`📝 VFS: File doesn't exist, creating: ${path}`);
         await this.createFile(path, content, source);
         return;
       }
       
-      console.log(`✏️ VFS: Updating file content with ID: ${existingFile.id}`);
-      // Use the new content update endpoint
-      await apiClient.updateFileContent(existingFile.id, content);
-      
-      this.notifyListeners({
+      const operation: VFSOperation = {
         type: 'update',
         path,
         content,
         timestamp: Date.now(),
         source
-      });
+      };
+      const mounted = this.resolveWrite(path);
+      if (mounted) {
+        await mounted.fs.write(mounted.innerPath, new Blob([content]));
+      } else {
+        await this.write(operation, existingFile, () => this.backend.writeFile(existingFile, content));
+      }
+      
+      this.notifyListeners(operation);
       
       console.log(`✅ VFS: File updated successfully: ${path}`);
     } catch (error) {
@@ -237,28 +429,39 @@ class VFSSyncService {
     }
   }
 
+  /**
+   * Move a file or folder to the trash
+   */
   async deleteNode(path: string, source: string = 'filemanager'): Promise<void> {
     try {
       console.log(`🗑️ VFS: Deleting: ${path}`);
       
-      // Get the file ID from the current directory listing
-      const parentPath = this.getParentPathFromPath(path);
-      const fileName = this.getFileNameFromPath(path);
-      const items = await this.listDir(parentPath);
-      const item = items.find(i => i.name === fileName);
+      const mounted = this.resolveWrite(path);
+      
+      // Get the file ID from the directory listing
+      const item = await this.cache.getNode(path);
       
-      if (!item?.id) {
+      if (!item) {
         throw new Error(`File not found: ${path}`);
       }
       
-      await apiClient.deleteFile(item.id);
-      
-      this.notifyListeners({
+      const operation: VFSOperation = {
         type: 'delete',
         path,
         timestamp: Date.now(),
         source
-      });
+      };
+      if (mounted) {
+        await mounted.fs.remove(mounted.innerPath);
+      } else {
+        await this.write(operation, item, () => this.backend.deleteNode(item));
+      }
+      
+      this.notifyListeners(operation);
+      // Mounted file systems have no trash
+      if (!mounted) {
+        this.notifyTrashListeners();
+      }
       
       console.log(`✅ VFS: Deleted successfully: ${path}`);
     } catch (error) {
@@ -267,6 +470,177 @@ class VFSSyncService {
     }
   }
 
+  /**
+   * Move a file or folder into another folder. Returns the new path.
+   */
+  async moveNode(path: string, destFolder: string, source: string = 'filemanager'): Promise<string> {
+    try {
+      const fileName = this.getFileNameFromPath(path);
+      const newPath = destFolder === '/' ? `/${fileName}` : `${destFolder}/${fileName}`;
+      if (destFolder === path || destFolder.startsWith(path + '/')) {
+        throw new Error(`Cannot move ${fileName} into itself`);
+      }
+      const mounted = this.resolveMove(path, newPath);
+
+      const item = await this.cache.getNode(path);
+      if (!item) {
+        throw new Error(`File not found: ${path}`);
+      }
+
+      const operation: VFSOperation = {
+        type: 'move',
+        path,
+        newPath,
+        timestamp: Date.now(),
+        source
+      };
+      if (mounted) {
+        await mounted.from.fs.rename(mounted.from.innerPath, mounted.to.innerPath);
+      } else {
+        await this.write(operation, item, () => this.backend.moveNode(item, destFolder));
+      }
+
+      this.notifyListeners(operation);
+
+      return newPath;
+    } catch (error) {
+      console.error(`❌ VFS: Failed to move ${path} to ${destFolder}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a file or folder in place. Returns the new path.
+   */
+  async renameNode(path: string, newName: string, source: string = 'filemanager'): Promise<string> {
+    try {
+      const parentPath = this.getParentPathFromPath(path);
+      const newPath = parentPath === '/' ? `/${newName}` : `${parentPath}/${newName}`;
+      const mounted = this.resolveMove(path, newPath);
+
+      const nodes = await this.cache.getNodes([path, newPath]);
+      const item = nodes.get(path);
+      if (!item) {
+        throw new Error(`File not found: ${path}`);
+      }
+      if (nodes.get(newPath)) {
+        throw new Error(`${newName} already exists`);
+      }
+
+      const operation: VFSOperation = {
+        type: 'move',
+        path,
+        newPath,
+        timestamp: Date.now(),
+        source
+      };
+      if (mounted) {
+        await mounted.from.fs.rename(mounted.from.innerPath, mounted.to.innerPath);
+      } else {
+        await this.write(operation, item, () => this.backend.renameNode(item, newName));
+      }
+
+      this.notifyListeners(operation);
+
+      return newPath;
+    } catch (error) {
+      console.error(`❌ VFS: Failed to rename ${path} to ${newName}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a file of the host into a folder as it is, binary files
+   * included. Returns the path of the new file.
+   */
+  async uploadFile(file: File, destFolder: string, source: string = 'filemanager'): Promise<string> {
+    try {
+      const path = destFolder === '/' ? `/${file.name}` : `${destFolder}/${file.name}`;
+      const mounted = this.resolveWrite(path);
+      if (mounted) {
+        await mounted.fs.write(mounted.innerPath, file);
+      } else {
+        this.requireOnline('Uploading files');
+        await this.backend.uploadFile(file, destFolder);
+      }
+
+      this.notifyListeners({
+        type: 'create',
+        path,
+        timestamp: Date.now(),
+        source
+      });
+
+      return path;
+    } catch (error) {
+      console.error(`❌ VFS: Failed to upload ${file.name}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mounts
+   *
+   * Other file systems shown in the VFS at a path: zip archives, folders
+   * shared by other users and the Code Editor's repositories. Writes under
+   * a mount point go to its file system right away, never to the queue.
+   */
+  getMounts(): MountInfo[] {
+    return this.mounts.list();
+  }
+
+  /**
+   * The mount a path is in, if any. Deletes there are for good.
+   */
+  getMount(path: string): MountInfo | null {
+    return this.mounts.resolve(path)?.mount ?? null;
+  }
+
+  onMountsChange(listener: () => void): () => void {
+    return this.mounts.onChange(listener);
+  }
+
+  async mount(type: MountType, source: string, path: string, origin: string = 'terminal'): Promise<MountInfo> {
+    // A source that cannot be read is not left mounted
+    const info = await this.mounts.mount(type, source, path, mounted => this.cache.listFolder(mounted.path));
+
+    // Other tabs see the table change in storage
+    this.dispatch({ type: 'create', path: info.path + '/', timestamp: Date.now(), source: origin });
+    return info;
+  }
+
+  unmount(path: string, origin: string = 'terminal'): void {
+    const info = this.mounts.unmount(path);
+    this.dispatch({ type: 'delete', path: info.path + '/', timestamp: Date.now(), source: origin });
+  }
+
+  /**
+   * Bytes in the files of a mounted file system
+   */
+  getMountUsage(path: string): Promise<number> {
+    return this.mounts.getUsage(path);
+  }
+
+  // The mount a write to a path goes to, if any. Mount points themselves
+  // are changed with mount and unmount only.
+  private resolveWrite(path: string): MountedPath | null {
+    const mounted = this.mounts.resolve(path);
+    if (mounted?.innerPath === '/') {
+      throw new Error(`${path} is a mount point`);
+    }
+    return mounted;
+  }
+
+  // Items move within one file system only
+  private resolveMove(path: string, newPath: string): { from: MountedPath; to: MountedPath } | null {
+    const from = this.resolveWrite(path);
+    const to = this.resolveWrite(newPath);
+    if (from?.mount !== to?.mount) {
+      throw new Error(`Cannot move ${path} to another file system`);
+    }
+    return from && to ? { from, to } : null;
+  }
+
   /**
    * Utility methods for path handling
    */
@@ -280,15 +654,316 @@ class VFSSyncService {
     return parts.join('/') || '/';
   }
 
+  /**
+   * Offline mode
+   *
+   * While the backend cannot be reached, reads come from the replica in
+   * IndexedDB and writes are applied to it and queued. The queue is sent
+   * once the backend answers again.
+   */
+  getSyncStatus(): VFSSyncStatus {
+    return this.status;
+  }
+
+  onSyncStatusChange(listener: () => void): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  private setSyncStatus(changes: Partial<VFSSyncStatus>): void {
+    this.status = { ...this.status, ...changes };
+    this.statusListeners.forEach(listener => listener());
+  }
+
+  // Writes wait behind the queue, so that the server gets them in order
+  private isLive(): boolean {
+    return this.status.online && this.status.pending === 0;
+  }
+
+  // fetch rejects with a TypeError when the server cannot be reached at
+  // all, the other backends are always there
+  private isUnreachable(error: unknown): boolean {
+    return this.backend.remote && error instanceof TypeError;
+  }
+
+  // Only the files of a remote backend need a copy for offline use
+  private replicate(update: () => Promise<void>): void {
+    if (!this.backend.remote) return;
+    update().catch(error => console.error('❌ VFS: Failed to update the offline replica:', error));
+  }
+
+  private requireOnline(action: string): void {
+    if (!this.status.online) {
+      throw new Error(`${action} is not available offline`);
+    }
+  }
+
+  /**
+   * Send a write to the API, or queue it when the backend cannot be
+   * reached. The node it changes, if any, is the base its conflicts are
+   * detected against.
+   */
+  private async write(operation: VFSOperation, node: VFSNode | undefined, send: () => Promise<unknown>): Promise<void> {
+    if (this.isLive()) {
+      try {
+        await send();
+        this.replicate(() => vfsReplica.apply(operation));
+        return;
+      } catch (error) {
+        if (!this.isUnreachable(error)) throw error;
+        this.goOffline();
+      }
+    }
+
+    // Nodes created offline have nothing to conflict with on the server
+    const queued: QueuedOperation = node?.id
+      ? { ...operation, baseVersion: node.version, baseModified: node.modified.getTime() }
+      : operation;
+    await vfsReplica.enqueue(queued);
+    await vfsReplica.apply(operation);
+    this.setSyncStatus({ pending: this.status.pending + 1 });
+    console.log(`📥 VFS: Queued ${operation.type} of ${operation.path} until the server is back`);
+  }
+
+  private goOffline(): void {
+    if (!this.status.online) return;
+    console.warn('📴 VFS: Server unreachable, working offline');
+    this.setSyncStatus({ online: false });
+    this.startReconnecting();
+  }
+
+  private startReconnecting(): void {
+    if (this.reconnectTimer) return;
+    this.reconnectTimer = setInterval(() => {
+      this.backend.ping().then(() => this.reconnect(), () => {});
+    }, RECONNECT_INTERVAL);
+  }
+
+  /**
+   * Go back online and send the queued operations. Called when the
+   * backend answers again, or to retry right away.
+   */
+  async reconnect(): Promise<void> {
+    if (this.reconnectTimer) {
+      clearInterval(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (!this.status.online) {
+      console.log('🌐 VFS: Server reachable again');
+      this.setSyncStatus({ online: true });
+      // Listings read offline came from the replica
+      this.cache.invalidate();
+    }
+    await this.replay();
+  }
+
+  // Count the operations left by an earlier session, or another user
+  private async loadQueue(): Promise<void> {
+    if (!this.backend.remote) return;
+    try {
+      this.setSyncStatus({ pending: await vfsReplica.countQueue() });
+      await this.replay();
+    } catch (error) {
+      console.error('❌ VFS: Failed to read the offline queue:', error);
+    }
+  }
+
+  /**
+   * Send the queued operations, oldest first. A file that also changed on
+   * the server since it was changed offline is not overwritten: the
+   * offline version is kept next to it as a copy.
+   */
+  private async replay(): Promise<void> {
+    const { online, pending, syncing } = this.status;
+    if (!online || pending === 0 || syncing || !useAuthStore.getState().isAuthenticated) return;
+
+    console.log(`🔄 VFS: Sending ${pending} queued operation(s)`);
+    this.setSyncStatus({ syncing: true });
+    // Paths changed by this replay, whose versions no longer match the base
+    const sent = new Set<string>();
+    try {
+      for (let entry = await vfsReplica.getFirst(); entry; entry = await vfsReplica.getFirst()) {
+        try {
+          await this.replayOperation(entry, sent);
+        } catch (error) {
+          if (this.isUnreachable(error)) {
+            this.goOffline();
+            return;
+          }
+          console.error(`❌ VFS: Failed to send queued ${entry.type} of ${entry.path}:`, error);
+          notificationService.show({
+            title: 'A change made offline was not saved',
+            message: `${entry.path}: ${getErrorMessage(error)}`,
+            type: 'error',
+            source: 'Files',
+          });
+        }
+        await vfsReplica.dequeue(entry.id);
+        this.setSyncStatus({ pending: await vfsReplica.countQueue() });
+      }
+    } catch (error) {
+      console.error('❌ VFS: Failed to read the offline queue:', error);
+    } finally {
+      this.setSyncStatus({ syncing: false });
+      this.cache.invalidate();
+    }
+  }
+
+  private async replayOperation(operation: QueuedOperation, sent: Set<string>): Promise<void> {
+    const isFolder = operation.path.endsWith('/');
+    const path = isFolder ? operation.path.slice(0, -1) : operation.path;
+    const name = this.getFileNameFromPath(path);
+    const parentPath = this.getParentPathFromPath(path);
+    const siblings = await this.backend.listFolder(parentPath);
+    const remote = siblings.find(node => node.name === name);
+    const changed = !!remote && !sent.has(path) && this.changedSince(remote, operation);
+    const content = operation.content ?? '';
+
+    switch (operation.type) {
+      case 'create':
+        if (isFolder) {
+          if (!remote) await this.backend.createFolder(name, parentPath);
+        } else if (remote) {
+          await this.keepOfflineCopy(path, content, siblings);
+        } else {
+          await this.backend.uploadFile(new File([content], name, { type: 'text/plain' }), parentPath);
+        }
+        break;
+      case 'update':
+        if (!remote) {
+          // Deleted on the server meanwhile, the offline version is kept
+          await this.backend.uploadFile(new File([content], name, { type: 'text/plain' }), parentPath);
+        } else if (changed) {
+          await this.keepOfflineCopy(path, content, siblings);
+        } else {
+          await this.backend.writeFile(remote, content);
+        }
+        break;
+      case 'delete':
+        if (!remote) break;
+        if (changed) {
+          notificationService.show({
+            title: 'A file was not deleted',
+            message: `${path} was deleted offline but changed on the server since, so it was kept.`,
+            type: 'warning',
+            source: 'Files',
+          });
+          break;
+        }
+        await this.backend.deleteNode(remote);
+        break;
+      case 'move': {
+        if (!remote || !operation.newPath) {
+          throw new Error('It no longer exists on the server');
+        }
+        const newPath = isFolder ? operation.newPath.slice(0, -1) : operation.newPath;
+        const newParentPath = this.getParentPathFromPath(newPath);
+        if (newParentPath === parentPath) {
+          await this.backend.renameNode(remote, this.getFileNameFromPath(newPath));
+        } else {
+          await this.backend.moveNode(remote, newParentPath);
+        }
+        sent.add(newPath);
+        break;
+      }
+    }
+    sent.add(path);
+  }
+
+  // Versions are compared when the server has them, times otherwise
+  private changedSince(remote: VFSNode, operation: QueuedOperation): boolean {
+    if (operation.baseVersion !== undefined && remote.version !== undefined) {
+      return remote.version !== operation.baseVersion;
+    }
+    return operation.baseModified !== undefined && remote.modified.getTime() > operation.baseModified;
+  }
+
+  private async keepOfflineCopy(path: string, content: string, siblings: VFSNode[]): Promise<void> {
+    const parentPath = this.getParentPathFromPath(path);
+    const name = generateUniqueFileName(getConflictName(this.getFileNameFromPath(path)), siblings.map(node => node.name));
+    const copyPath = parentPath === '/' ? `/${name}` : `${parentPath}/${name}`;
+
+    await this.backend.uploadFile(new File([content], name, { type: 'text/plain' }), parentPath);
+    this.notifyListeners({
+      type: 'create',
+      path: copyPath,
+      content,
+      timestamp: Date.now(),
+      source: 'sync'
+    });
+    notificationService.show({
+      title: 'Sync conflict',
+      message: `${path} changed on the server while you were offline. Your version was saved as ${name}.`,
+      type: 'warning',
+      source: 'Files',
+    });
+  }
+
+  /**
+   * Trash
+   */
+  onTrashChange(listener: () => void): () => void {
+    this.trashListeners.add(listener);
+    return () => this.trashListeners.delete(listener);
+  }
+
+  private notifyTrashListeners(): void {
+    this.trashListeners.forEach(listener => listener());
+  }
+
+  async listTrash(): Promise<TrashListing> {
+    this.requireOnline('The Trash');
+    return this.backend.listTrash();
+  }
+
+  /**
+   * Put an item back in the folder it was deleted from, recreating the
+   * folder if needed. A new name avoids a clash with an item that took its
+   * place. Returns the path of the restored item.
+   */
+  async restoreFromTrash(item: TrashItem, newName?: string, source: string = 'filemanager'): Promise<string> {
+    try {
+      this.requireOnline('Restoring from the Trash');
+      const name = newName || item.name;
+      const path = item.originalPath === '/' ? `/${name}` : `${item.originalPath}/${name}`;
+
+      await this.backend.restoreFromTrash(item, newName);
+      // The folders above the item may have been recreated
+      this.cache.invalidate(item.originalPath);
+
+      this.notifyListeners({
+        type: 'create',
+        path: item.type === 'folder' ? path + '/' : path,
+        timestamp: Date.now(),
+        source
+      });
+      this.notifyTrashListeners();
+
+      return path;
+    } catch (error) {
+      console.error(`❌ VFS: Failed to restore ${item.name}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteFromTrash(item: TrashItem): Promise<void> {
+    this.requireOnline('Deleting from the Trash');
+    await this.backend.deleteFromTrash(item);
+    this.notifyTrashListeners();
+  }
+
+  async emptyTrash(): Promise<void> {
+    this.requireOnline('Emptying the Trash');
+    await this.backend.emptyTrash();
+    this.notifyTrashListeners();
+  }
+
   /**
    * Compatibility methods with original VFS
    */
   async exists(path: string): Promise<boolean> {
     try {
-      const parentPath = this.getParentPathFromPath(path);
-      const fileName = this.getFileNameFromPath(path);
-      const items = await this.listDir(parentPath);
-      return items.some(item => item.name === fileName);
+      return path === '/' || !!await this.cache.getNode(path);
     } catch {
       return false;
     }
@@ -296,10 +971,7 @@ class VFSSyncService {
 
   async isFile(path: string): Promise<boolean> {
     try {
-      const parentPath = this.getParentPathFromPath(path);
-      const fileName = this.getFileNameFromPath(path);
-      const items = await this.listDir(parentPath);
-      const item = items.find(i => i.name === fileName);
+      const item = await this.cache.getNode(path);
       return item?.type === 'file';
     } catch {
       return false;
@@ -308,11 +980,8 @@ class VFSSyncService {
 
   async isFolder(path: string): Promise<boolean> {
     try {
-      const parentPath = this.getParentPathFromPath(path);
-      const fileName = this.getFileNameFromPath(path);
-      const items = await this.listDir(parentPath);
-      const item = items.find(i => i.name === fileName);
-      return item?.type === 'folder';
+      const item = await this.cache.getNode(path);
+      return path === '/' || item?.type === 'folder';
     } catch {
       return false;
     }
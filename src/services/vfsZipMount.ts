@@ -0,0 +1,114 @@
+/**
+ * Zip Mount
+ *
+ * A zip archive of the VFS browsed as a read-only folder. The archive is
+ * read once, on first use; remounting it reads it again.
+ */
+
+import { extractZipEntry, readZipEntries } from '../utils/zipReader';
+import type { ZipEntry } from '../utils/zipReader';
+import type { MountedFileSystem } from './vfsMountTable';
+import type { VFSNode } from './vfsSyncService';
+
+interface ZipArchive {
+  data: Uint8Array;
+  // File entries by path
+  files: Map<string, ZipEntry>;
+  // Nodes of each folder by name, for the folders archives leave out too
+  folders: Map<string, Map<string, VFSNode>>;
+}
+
+const getParentPath = (path: string): string => path.slice(0, path.lastIndexOf('/')) || '/';
+
+const readOnly = (): Promise<never> => Promise.reject(new Error('Read-only file system'));
+
+const indexArchive = (data: Uint8Array): ZipArchive => {
+  const archive: ZipArchive = { data, files: new Map(), folders: new Map([['/', new Map()]]) };
+
+  const addNode = (path: string, entry: ZipEntry | null, modified: Date): void => {
+    const folder = getParentPath(path);
+    if (!archive.folders.has(folder)) {
+      addNode(folder, null, modified);
+    }
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    const isFile = !!entry && !entry.isDirectory;
+    archive.folders.get(folder)?.set(name, {
+      name,
+      type: isFile ? 'file' : 'folder',
+      size: isFile ? entry.size : 0,
+      extension: isFile ? name.split('.').pop() || '' : undefined,
+      created: modified,
+      modified,
+      path: folder,
+    });
+    if (isFile) {
+      archive.files.set(path, entry);
+    } else if (!archive.folders.has(path)) {
+      archive.folders.set(path, new Map());
+    }
+  };
+
+  readZipEntries(data)
+    .filter(entry => entry.name)
+    .forEach(entry => addNode(`/${entry.name}`, entry, entry.modified));
+  return archive;
+};
+
+class ZipFileSystem implements MountedFileSystem {
+  readonly readOnly = true;
+  private archive: Promise<ZipArchive> | null = null;
+  private readArchive: () => Promise<Blob>;
+
+  constructor(readArchive: () => Promise<Blob>) {
+    this.readArchive = readArchive;
+  }
+
+  async list(path: string): Promise<VFSNode[]> {
+    const { folders } = await this.load();
+    const folder = folders.get(path);
+    if (!folder) {
+      throw new Error(`Folder not found: ${path}`);
+    }
+    return [...folder.values()];
+  }
+
+  async read(path: string): Promise<Blob> {
+    const { data, files, folders } = await this.load();
+    const entry = files.get(path);
+    if (!entry) {
+      throw new Error(folders.has(path) ? `${path} is a folder` : `File not found: ${path}`);
+    }
+    return new Blob([await extractZipEntry(data, entry)]);
+  }
+
+  write(): Promise<void> {
+    return readOnly();
+  }
+
+  mkdir(): Promise<void> {
+    return readOnly();
+  }
+
+  remove(): Promise<void> {
+    return readOnly();
+  }
+
+  rename(): Promise<void> {
+    return readOnly();
+  }
+
+  private load(): Promise<ZipArchive> {
+    if (!this.archive) {
+      this.archive = this.readArchive()
+        .then(blob => blob.arrayBuffer())
+        .then(buffer => indexArchive(new Uint8Array(buffer)));
+      // Try again next time, the archive may be reachable then
+      this.archive.catch(() => {
+        this.archive = null;
+      });
+    }
+    return this.archive;
+  }
+}
+
+export { ZipFileSystem };
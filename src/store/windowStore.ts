@@ -1,12 +1,14 @@
 import { create } from 'zustand';
 import { nanoid } from 'nanoid';
-import type { ReactNode } from 'react';
+import { getSnapBounds, getTilingBounds } from '../utils/windowLayout';
+import type { SnapZone, TilingLayout, WindowBounds } from '../utils/windowLayout';
 
 export interface WindowData {
   id: string;
   app: string;
   title: string;
-  content: ReactNode;
+  appId: string; // APP_REGISTRY ID of the app shown in the window; `app` may be a more specific instance key
+  props?: Record<string, unknown>; // Serializable props passed to the app along with the window ID
   top: number;
   left: number;
   width: number;
@@ -15,7 +17,10 @@ export interface WindowData {
   isVisible: boolean;
   isMinimized: boolean;
   isFullscreen: boolean;
+  workspaceId: string; // Workspace the window lives on; only the active one is shown
   allowMultiple?: boolean; // Some apps like Terminal can have multiple instances
+  snap?: SnapZone; // Snapped to a half or quarter of the work area, or maximized in it
+  restoreBounds?: WindowBounds; // Free position to return to when unsnapped or untiled
   
   // State preservation
   savedState?: {
@@ -26,25 +31,70 @@ export interface WindowData {
     customData?: Record<string, any>; // App-specific state
   };
   lastActiveTime?: number; // For tracking which window was most recently active
+  // When the window was last opened or focused, for the order of Alt+Tab.
+  // Unlike lastActiveTime, saving the state of a window does not change it.
+  focusedAt?: number;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+}
+
+// Everything needed to bring the desktop back after a reload
+export interface WindowSession {
+  windows: WindowData[];
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+  tilingLayout: TilingLayout | null;
 }
 
 interface WindowStore {
   windows: WindowData[];
   nextZIndex: number;
+  tilingLayout: TilingLayout | null; // Visible windows are arranged automatically while set
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
   
   // Core window operations
-  openWindow: (app: string, config: Omit<WindowData, 'id' | 'app' | 'zIndex' | 'isVisible' | 'isMinimized' | 'isFullscreen' | 'lastActiveTime'>) => string;
+  // New windows open on the active workspace unless `workspaceId` is given,
+  // staggered from the windows already there. Apps are opened with
+  // `launchApp` from the app registry, which fills in the config.
+  openWindow: (app: string, config: Omit<WindowData, 'id' | 'app' | 'top' | 'left' | 'zIndex' | 'isVisible' | 'isMinimized' | 'isFullscreen' | 'workspaceId' | 'lastActiveTime' | 'focusedAt'> & { workspaceId?: string }) => string;
   closeWindow: (id: string) => void;
   focusWindow: (id: string) => void;
   minimizeWindow: (id: string) => void;
   toggleFullscreen: (id: string) => void;
   updateWindowState: (id: string, state: Partial<WindowData['savedState']>) => void;
-  updateWindowContent: (id: string, content: React.ReactNode) => void;
+  updateWindowProps: (id: string, props: Record<string, unknown>) => void;
+  setWindowTitle: (id: string, title: string) => void;
+
+  // Layout operations
+  setWindowBounds: (id: string, bounds: WindowBounds) => void;
+  snapWindow: (id: string, zone: SnapZone | null) => void;
+  toggleMaximize: (id: string) => void;
+  setTilingLayout: (layout: TilingLayout | null) => void;
+  promoteWindow: (id: string) => void;
+  relayout: () => void;
+
+  // Workspace operations
+  switchWorkspace: (workspaceId: string) => void;
+  moveWindowToWorkspace: (id: string, workspaceId: string) => void;
+  addWorkspace: (name?: string) => string;
+  renameWorkspace: (workspaceId: string, name: string) => void;
+  removeWorkspace: (workspaceId: string) => void;
+
+  // Session operations
+  getSession: () => WindowSession;
+  restoreSession: (session: WindowSession) => void;
+  resetSession: () => void;
   
   // Utility functions
   isAppOpen: (app: string) => boolean;
   getWindowsByApp: (app: string) => WindowData[];
   getVisibleWindows: () => WindowData[];
+  getWorkspaceWindows: (workspaceId?: string) => WindowData[];
+  getRecentWindows: (workspaceId?: string) => WindowData[];
   
   // Position helpers
   getRandomPosition: (width?: number, height?: number) => { top: number; left: number };
@@ -77,38 +127,82 @@ const getStaggeredPosition = (app: string, existingWindows: WindowData[], width:
   };
 };
 
-// Apps that support multiple instances
-const MULTI_INSTANCE_APPS = ['Terminal', 'Files', 'Text Editor'];
+const boundsOf = (w: WindowData): WindowBounds => ({ top: w.top, left: w.left, width: w.width, height: w.height });
+
+const sameBounds = (a: WindowBounds, b: WindowBounds): boolean =>
+  a.top === b.top && a.left === b.left && a.width === b.width && a.height === b.height;
+
+// Windows arranged by the tiling layout, in order: the first one is the master
+const getTiledWindows = (windows: WindowData[]): WindowData[] =>
+  windows.filter(w => w.isVisible && !w.isMinimized && !w.isFullscreen);
+
+/**
+ * Move windows to their snap zone and tile position for the current
+ * viewport. Only the windows on `workspaceId` are tiled; the others are
+ * tiled when their workspace becomes active. Unchanged windows keep their
+ * identity.
+ */
+const layoutWindows = (windows: WindowData[], tilingLayout: TilingLayout | null, workspaceId: string): WindowData[] => {
+  const tiled = tilingLayout ? getTiledWindows(windows.filter(w => w.workspaceId === workspaceId)) : [];
+  const tileBounds = tilingLayout ? getTilingBounds(tilingLayout, tiled.length) : [];
+
+  return windows.map(w => {
+    const tileIndex = tiled.indexOf(w);
+    if (tileIndex !== -1) {
+      const bounds = tileBounds[tileIndex];
+      return sameBounds(boundsOf(w), bounds) && !w.snap
+        ? w
+        : { ...w, ...bounds, snap: undefined, restoreBounds: w.restoreBounds ?? boundsOf(w) };
+    }
+    if (w.snap) {
+      const bounds = getSnapBounds(w.snap);
+      return sameBounds(boundsOf(w), bounds) ? w : { ...w, ...bounds };
+    }
+    return w;
+  });
+};
+
+const DEFAULT_WORKSPACE_COUNT = 4;
+
+const createWorkspace = (name: string): Workspace => ({ id: nanoid(), name });
+
+const initialWorkspaces = Array.from({ length: DEFAULT_WORKSPACE_COUNT }, (_, index) => createWorkspace(`Workspace ${index + 1}`));
 
 export const useWindowStore = create<WindowStore>((set, get) => ({
   windows: [],
   nextZIndex: 100,
+  tilingLayout: null,
+  workspaces: initialWorkspaces,
+  activeWorkspaceId: initialWorkspaces[0].id,
 
   openWindow: (app: string, config) => {
     let returnId: string = '';
     set((state) => {
-      const allowMultiple = MULTI_INSTANCE_APPS.includes(app) || config.allowMultiple;
+      const allowMultiple = !!config.allowMultiple;
       
       // Check if app is already open and doesn't allow multiple instances
       if (!allowMultiple) {
         const existingWindow = state.windows.find(w => w.app === app && w.isVisible);
         if (existingWindow) {
-          // Bring existing window to front and restore if minimized
+          // Bring existing window to front and restore if minimized,
+          // switching to its workspace
           const newZIndex = state.nextZIndex + 1;
           returnId = existingWindow.id;
           return {
-            windows: state.windows.map(w =>
+            windows: layoutWindows(state.windows.map(w =>
               w.id === existingWindow.id
                 ? { ...w, zIndex: newZIndex, isMinimized: false }
                 : w
-            ),
+            ), state.tilingLayout, existingWindow.workspaceId),
             nextZIndex: newZIndex,
+            activeWorkspaceId: existingWindow.workspaceId,
           };
         }
       }
 
       // Create new window
-      const allVisibleWindows = state.windows.filter(w => w.isVisible);
+      const workspaceId = config.workspaceId ?? state.activeWorkspaceId;
+      const allVisibleWindows = state.windows.filter(w => w.isVisible && w.workspaceId === workspaceId);
       const position = {
         top: MIN_TOP + (allVisibleWindows.length * WINDOW_STAGGER_OFFSET),
         left: MIN_LEFT + (allVisibleWindows.length * WINDOW_STAGGER_OFFSET)
@@ -128,13 +222,15 @@ export const useWindowStore = create<WindowStore>((set, get) => ({
         isVisible: true,
         isMinimized: false,
         isFullscreen: false,
+        workspaceId,
         allowMultiple,
         lastActiveTime: Date.now(),
+        focusedAt: Date.now(),
         savedState: {},
       };
 
       return {
-        windows: [...state.windows, newWindow],
+        windows: layoutWindows([...state.windows, newWindow], state.tilingLayout, state.activeWorkspaceId),
         nextZIndex: state.nextZIndex + 1,
       };
     });
@@ -143,9 +239,9 @@ export const useWindowStore = create<WindowStore>((set, get) => ({
 
   closeWindow: (id: string) => {
     set((state) => ({
-      windows: state.windows.map(w =>
+      windows: layoutWindows(state.windows.map(w =>
         w.id === id ? { ...w, isVisible: false } : w
-      ),
+      ), state.tilingLayout, state.activeWorkspaceId),
     }));
 
     // Clean up invisible windows after animation delay
@@ -157,29 +253,34 @@ export const useWindowStore = create<WindowStore>((set, get) => ({
   },
 
   focusWindow: (id: string) => {
-    set((state) => ({
-      windows: state.windows.map(w =>
-        w.id === id
-          ? { ...w, zIndex: state.nextZIndex + 1, isMinimized: false, lastActiveTime: Date.now() }
-          : w
-      ),
-      nextZIndex: state.nextZIndex + 1,
-    }));
+    set((state) => {
+      // Focusing a window on another workspace switches to that workspace
+      const workspaceId = state.windows.find(w => w.id === id)?.workspaceId ?? state.activeWorkspaceId;
+      return {
+        windows: layoutWindows(state.windows.map(w =>
+          w.id === id
+            ? { ...w, zIndex: state.nextZIndex + 1, isMinimized: false, lastActiveTime: Date.now(), focusedAt: Date.now() }
+            : w
+        ), state.tilingLayout, workspaceId),
+        nextZIndex: state.nextZIndex + 1,
+        activeWorkspaceId: workspaceId,
+      };
+    });
   },
 
   minimizeWindow: (id: string) => {
     set((state) => ({
-      windows: state.windows.map(w =>
+      windows: layoutWindows(state.windows.map(w =>
         w.id === id ? { ...w, isMinimized: true } : w
-      ),
+      ), state.tilingLayout, state.activeWorkspaceId),
     }));
   },
 
   toggleFullscreen: (id: string) => {
     set((state) => ({
-      windows: state.windows.map(w =>
+      windows: layoutWindows(state.windows.map(w =>
         w.id === id ? { ...w, isFullscreen: !w.isFullscreen, lastActiveTime: Date.now() } : w
-      ),
+      ), state.tilingLayout, state.activeWorkspaceId),
     }));
   },
 
@@ -197,14 +298,179 @@ export const useWindowStore = create<WindowStore>((set, get) => ({
     }));
   },
 
-  updateWindowContent: (id: string, content: React.ReactNode) => {
+  updateWindowProps: (id: string, props: Record<string, unknown>) => {
+    set((state) => ({
+      windows: state.windows.map(w =>
+        w.id === id ? { ...w, props: { ...w.props, ...props } } : w
+      ),
+    }));
+  },
+
+  setWindowTitle: (id: string, title: string) => {
     set((state) => ({
       windows: state.windows.map(w =>
-        w.id === id ? { ...w, content } : w
+        w.id === id ? { ...w, title } : w
       ),
     }));
   },
 
+  // Layout operations
+  setWindowBounds: (id: string, bounds: WindowBounds) => {
+    set((state) => ({
+      windows: state.windows.map(w =>
+        w.id === id ? { ...w, ...bounds, snap: undefined, restoreBounds: undefined } : w
+      ),
+    }));
+  },
+
+  snapWindow: (id: string, zone: SnapZone | null) => {
+    set((state) => ({
+      windows: state.windows.map(w => {
+        if (w.id !== id) return w;
+        if (!zone) {
+          return w.restoreBounds ? { ...w, ...w.restoreBounds, snap: undefined, restoreBounds: undefined } : { ...w, snap: undefined };
+        }
+        return { ...w, ...getSnapBounds(zone), snap: zone, restoreBounds: w.restoreBounds ?? boundsOf(w), isFullscreen: false };
+      }),
+    }));
+  },
+
+  toggleMaximize: (id: string) => {
+    const target = get().windows.find(w => w.id === id);
+    get().snapWindow(id, target?.snap === 'maximize' ? null : 'maximize');
+  },
+
+  setTilingLayout: (layout: TilingLayout | null) => {
+    set((state) => {
+      if (layout) {
+        return { tilingLayout: layout, windows: layoutWindows(state.windows, layout, state.activeWorkspaceId) };
+      }
+
+      // Leaving tiling puts the windows back where they were, on every workspace
+      const tiled = state.tilingLayout ? getTiledWindows(state.windows) : [];
+      return {
+        tilingLayout: null,
+        windows: state.windows.map(w =>
+          tiled.includes(w) && w.restoreBounds ? { ...w, ...w.restoreBounds, restoreBounds: undefined } : w
+        ),
+      };
+    });
+  },
+
+  promoteWindow: (id: string) => {
+    set((state) => {
+      const target = state.windows.find(w => w.id === id);
+      if (!target) return {};
+      return { windows: layoutWindows([target, ...state.windows.filter(w => w.id !== id)], state.tilingLayout, state.activeWorkspaceId) };
+    });
+  },
+
+  relayout: () => {
+    set((state) => {
+      const windows = layoutWindows(state.windows, state.tilingLayout, state.activeWorkspaceId);
+      return windows.every((w, index) => w === state.windows[index]) ? {} : { windows };
+    });
+  },
+
+  // Workspace operations
+  switchWorkspace: (workspaceId: string) => {
+    set((state) => {
+      if (workspaceId === state.activeWorkspaceId || !state.workspaces.some(ws => ws.id === workspaceId)) return {};
+      return {
+        activeWorkspaceId: workspaceId,
+        windows: layoutWindows(state.windows, state.tilingLayout, workspaceId),
+      };
+    });
+  },
+
+  moveWindowToWorkspace: (id: string, workspaceId: string) => {
+    set((state) => {
+      if (!state.workspaces.some(ws => ws.id === workspaceId)) return {};
+      return {
+        windows: layoutWindows(state.windows.map(w =>
+          w.id === id ? { ...w, workspaceId } : w
+        ), state.tilingLayout, state.activeWorkspaceId),
+      };
+    });
+  },
+
+  addWorkspace: (name?: string) => {
+    // Default to the first "Workspace N" that is not taken
+    const names = new Set(get().workspaces.map(ws => ws.name));
+    let number = get().workspaces.length + 1;
+    while (names.has(`Workspace ${number}`)) number++;
+    const workspace = createWorkspace(name?.trim() || `Workspace ${number}`);
+    set((state) => ({ workspaces: [...state.workspaces, workspace] }));
+    return workspace.id;
+  },
+
+  renameWorkspace: (workspaceId: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    set((state) => ({
+      workspaces: state.workspaces.map(ws => ws.id === workspaceId ? { ...ws, name: trimmed } : ws),
+    }));
+  },
+
+  removeWorkspace: (workspaceId: string) => {
+    set((state) => {
+      const index = state.workspaces.findIndex(ws => ws.id === workspaceId);
+      // There is always at least one workspace
+      if (index === -1 || state.workspaces.length === 1) return {};
+
+      // Its windows move to the workspace before it, or the next one for the first
+      const workspaces = state.workspaces.filter(ws => ws.id !== workspaceId);
+      const fallbackId = workspaces[Math.max(index - 1, 0)].id;
+      const activeWorkspaceId = state.activeWorkspaceId === workspaceId ? fallbackId : state.activeWorkspaceId;
+      return {
+        workspaces,
+        activeWorkspaceId,
+        windows: layoutWindows(state.windows.map(w =>
+          w.workspaceId === workspaceId ? { ...w, workspaceId: fallbackId } : w
+        ), state.tilingLayout, activeWorkspaceId),
+      };
+    });
+  },
+
+  // Session operations
+  getSession: () => {
+    const { windows, workspaces, activeWorkspaceId, tilingLayout } = get();
+    // Windows that are closing are left out
+    return { windows: windows.filter(w => w.isVisible), workspaces, activeWorkspaceId, tilingLayout };
+  },
+
+  restoreSession: (session: WindowSession) => {
+    set((state) => {
+      const workspaces = session.workspaces.length > 0 ? session.workspaces : state.workspaces;
+      const activeWorkspaceId = workspaces.some(ws => ws.id === session.activeWorkspaceId) ? session.activeWorkspaceId : workspaces[0].id;
+      // Restoring twice does not open a window twice
+      const restored = session.windows.filter(w => !state.windows.some(open => open.id === w.id));
+      // Windows opened before the session was restored stay on top
+      const topZIndex = Math.max(0, ...restored.map(w => w.zIndex));
+      const windows = [...restored, ...state.windows.map(w => ({ ...w, zIndex: w.zIndex + topZIndex }))]
+        // Windows of workspaces that no longer exist go to the active one
+        .map(w => workspaces.some(ws => ws.id === w.workspaceId) ? w : { ...w, workspaceId: activeWorkspaceId });
+
+      return {
+        workspaces,
+        activeWorkspaceId,
+        tilingLayout: session.tilingLayout,
+        windows: layoutWindows(windows, session.tilingLayout, activeWorkspaceId),
+        nextZIndex: Math.max(state.nextZIndex, ...windows.map(w => w.zIndex)),
+      };
+    });
+  },
+
+  resetSession: () => {
+    set({
+      windows: [],
+      nextZIndex: 100,
+      tilingLayout: null,
+      workspaces: initialWorkspaces,
+      activeWorkspaceId: initialWorkspaces[0].id,
+    });
+  },
+
   // Utility functions
   isAppOpen: (app: string) => {
     return get().windows.some(w => w.app === app && w.isVisible && !w.isMinimized);
@@ -218,6 +484,19 @@ export const useWindowStore = create<WindowStore>((set, get) => ({
     return get().windows.filter(w => w.isVisible);
   },
 
+  getWorkspaceWindows: (workspaceId?: string) => {
+    const { windows, activeWorkspaceId } = get();
+    return windows.filter(w => w.isVisible && w.workspaceId === (workspaceId ?? activeWorkspaceId));
+  },
+
+  // Open windows, minimized ones included, most recently focused first.
+  // Without a workspace ID the windows of all workspaces are returned.
+  getRecentWindows: (workspaceId?: string) => {
+    return get().windows
+      .filter(w => w.isVisible && (!workspaceId || w.workspaceId === workspaceId))
+      .sort((a, b) => (b.focusedAt ?? 0) - (a.focusedAt ?? 0) || b.zIndex - a.zIndex);
+  },
+
   getRandomPosition,
   getStaggeredPosition: (app: string, width?: number, height?: number) => getStaggeredPosition(app, get().windows, width, height),
 }));
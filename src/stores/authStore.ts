@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import apiClient from '../services/apiClient';
+import { ENV } from '../config/environment';
 
 // Types
 interface User {
@@ -65,6 +66,7 @@ interface AuthState {
   // Actions
   login: (credentials: LoginCredentials) => Promise<any>;
   register: (userData: RegisterData) => Promise<any>;
+  loginAsGuest: () => void;
   logout: () => Promise<void>;
   refreshUser: () => Promise<User | null>;
   updateProfile: (profileData: ProfileData) => Promise<any>;
@@ -137,6 +139,17 @@ const useAuthStore = create<AuthState>()(
         }
       },
 
+      // Without an account, when files are kept in this browser
+      loginAsGuest: () => {
+        const now = new Date();
+        set({
+          user: { id: 'guest', email: '', name: 'Guest', username: 'guest', role: 'guest', createdAt: now, updatedAt: now },
+          isAuthenticated: true,
+          isLoading: false,
+          error: null
+        });
+      },
+
       logout: async () => {
         set({ isLoading: true });
         
@@ -241,6 +254,12 @@ const useAuthStore = create<AuthState>()(
 
       // Initialize auth state (check if user is already logged in)
       initialize: async () => {
+        // Guests have no account to check
+        if (get().user?.role === 'guest' && ENV.vfsBackend !== 'remote') {
+          set({ isLoading: false });
+          return;
+        }
+
         const token = localStorage.getItem('authToken');
         
         if (!token) {
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { DesktopSortBy, GridCell } from '../utils/desktopLayout';
 
 // Settings interfaces
 export interface AppSettings {
@@ -16,6 +17,27 @@ export interface AppSettings {
   iconSize: 'small' | 'medium' | 'large';
   showFileExtensions: boolean;
   doubleClickToOpen: boolean;
+  // Pointing at a top corner of the screen opens the window overview
+  hotCorners: boolean;
+  // Terminal history kept in ~/.weave_history
+  terminalHistorySize: number;
+  terminalHistoryDedupe: 'none' | 'consecutive' | 'all';
+  // Chords of rebound keyboard shortcuts by command ID, the others keep their defaults
+  keybindings: Record<string, string[]>;
+  // What the user approved for each plugin in /Applications, by plugin ID
+  pluginGrants: Record<string, PluginGrant>;
+  // Default app by file type, a `.ext` or a MIME type for files without extension
+  fileAssociations: Record<string, string>;
+  // Desktop icons: packed in sort order when auto-arranged, else where they were dragged
+  desktopAutoArrange: boolean;
+  desktopSortBy: DesktopSortBy;
+  // Grid cells of the desktop icons by file name
+  desktopIconPositions: Record<string, GridCell>;
+}
+
+export interface PluginGrant {
+  permissions: string[];
+  folders: string[];
 }
 
 interface SettingsState {
@@ -39,6 +61,15 @@ const DEFAULT_SETTINGS: AppSettings = {
   iconSize: 'medium',
   showFileExtensions: true,
   doubleClickToOpen: true,
+  hotCorners: false,
+  terminalHistorySize: 1000,
+  terminalHistoryDedupe: 'consecutive',
+  keybindings: {},
+  pluginGrants: {},
+  fileAssociations: {},
+  desktopAutoArrange: false,
+  desktopSortBy: 'name',
+  desktopIconPositions: {},
 };
 
 export const useSettingsStore = create<SettingsState>()(
@@ -64,6 +95,14 @@ export const useSettingsStore = create<SettingsState>()(
     {
       name: 'weave-settings',
       partialize: (state) => ({ settings: state.settings }),
+      // Settings saved by older versions lack newer keys, fill them from the defaults
+      merge: (persistedState, currentState) => ({
+        ...currentState,
+        settings: {
+          ...DEFAULT_SETTINGS,
+          ...(persistedState as Partial<SettingsState> | undefined)?.settings,
+        },
+      }),
     }
   )
 );
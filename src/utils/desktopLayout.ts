@@ -0,0 +1,110 @@
+/**
+ * Desktop icon grid
+ *
+ * Icons sit in the cells of a grid over the work area, filled column by
+ * column from the top left. Icons keep the cell the user dragged them to;
+ * new icons, and all of them when auto-arrange is on, take the first free
+ * cells in sort order.
+ */
+
+import type { WindowBounds } from './windowLayout';
+
+export interface GridCell {
+  column: number;
+  row: number;
+}
+
+export interface GridSize {
+  columns: number;
+  rows: number;
+}
+
+export type DesktopSortBy = 'name' | 'type' | 'size' | 'modified';
+
+export const ICON_CELL_WIDTH = 96;
+export const ICON_CELL_HEIGHT = 100;
+export const GRID_PADDING = 12;
+
+export const getGridSize = (area: Pick<WindowBounds, 'width' | 'height'>): GridSize => ({
+  columns: Math.max(Math.floor((area.width - GRID_PADDING * 2) / ICON_CELL_WIDTH), 1),
+  rows: Math.max(Math.floor((area.height - GRID_PADDING * 2) / ICON_CELL_HEIGHT), 1),
+});
+
+/**
+ * Top left corner of a cell, relative to the work area
+ */
+export const getCellPosition = (cell: GridCell): { left: number; top: number } => ({
+  left: GRID_PADDING + cell.column * ICON_CELL_WIDTH,
+  top: GRID_PADDING + cell.row * ICON_CELL_HEIGHT,
+});
+
+/**
+ * Cell under a point relative to the work area, kept inside the grid
+ */
+export const getCellAt = (x: number, y: number, grid: GridSize): GridCell => ({
+  column: Math.min(Math.max(Math.floor((x - GRID_PADDING) / ICON_CELL_WIDTH), 0), grid.columns - 1),
+  row: Math.min(Math.max(Math.floor((y - GRID_PADDING) / ICON_CELL_HEIGHT), 0), grid.rows - 1),
+});
+
+const isInGrid = (cell: GridCell, grid: GridSize): boolean =>
+  cell.column >= 0 && cell.row >= 0 && cell.column < grid.columns && cell.row < grid.rows;
+
+/**
+ * Cells of the icons by name. Names earlier in the list win a contested
+ * cell. Icons without a free saved cell fill the free cells in order, and
+ * continue past the last column when the grid is full.
+ */
+export const layoutIcons = (names: string[], saved: Record<string, GridCell>, grid: GridSize): Record<string, GridCell> => {
+  const cells: Record<string, GridCell> = {};
+  const taken = new Set<string>();
+  const key = (cell: GridCell) => `${cell.column}:${cell.row}`;
+
+  const unplaced = names.filter(name => {
+    const cell = saved[name];
+    if (!cell || !isInGrid(cell, grid) || taken.has(key(cell))) return true;
+    cells[name] = cell;
+    taken.add(key(cell));
+    return false;
+  });
+
+  let index = 0;
+  unplaced.forEach(name => {
+    let cell: GridCell;
+    do {
+      cell = { column: Math.floor(index / grid.rows), row: index % grid.rows };
+      index++;
+    } while (taken.has(key(cell)));
+    cells[name] = cell;
+    taken.add(key(cell));
+  });
+
+  return cells;
+};
+
+interface SortableItem {
+  name: string;
+  type: 'file' | 'folder';
+  size: number;
+  modified: Date;
+}
+
+/**
+ * Folders first, then by the chosen key, then by name
+ */
+export const compareDesktopItems = (sortBy: DesktopSortBy) => (a: SortableItem, b: SortableItem): number => {
+  if (a.type !== b.type) return a.type === 'folder' ? -1 : 1;
+
+  const byName = a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+  switch (sortBy) {
+    case 'type': {
+      const extension = (name: string) => (name.includes('.') ? name.split('.').pop()!.toLowerCase() : '');
+      return extension(a.name).localeCompare(extension(b.name)) || byName;
+    }
+    case 'size':
+      return a.size - b.size || byName;
+    case 'modified':
+      return b.modified.getTime() - a.modified.getTime() || byName;
+    default:
+      return byName;
+  }
+};
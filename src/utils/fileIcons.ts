@@ -0,0 +1,60 @@
+/**
+ * Emoji icons of VFS files by category, shared by Files and the desktop
+ */
+
+import type { VFSNode } from '../services/vfsSyncService';
+
+// File type categories for better organization
+const FILE_CATEGORIES = {
+  document: ['txt', 'md', 'pdf', 'doc', 'docx', 'rtf'],
+  image: ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'svg', 'webp'],
+  video: ['mp4', 'mkv', 'avi', 'mov', 'wmv', 'flv', 'webm'],
+  audio: ['mp3', 'wav', 'flac', 'aac', 'ogg', 'm4a'],
+  archive: ['zip', 'rar', '7z', 'tar', 'gz', 'bz2'],
+  code: ['js', 'ts', 'tsx', 'jsx', 'html', 'css', 'scss', 'json', 'xml', 'py', 'java', 'cpp', 'c', 'php'],
+  executable: ['exe', 'msi', 'app', 'deb', 'rpm'],
+  other: []
+};
+
+// Get file category
+export const getFileCategory = (filename: string): string => {
+  const ext = filename.toLowerCase().split('.').pop() || '';
+  for (const [category, extensions] of Object.entries(FILE_CATEGORIES)) {
+    if ((extensions as string[]).includes(ext)) return category;
+  }
+  return 'other';
+};
+
+// Mount points by what is mounted there
+const MOUNT_ICONS: Record<NonNullable<VFSNode['mount']>, string> = {
+  zip: '🗜️',
+  shared: '👥',
+  repos: '🌿',
+};
+
+// Enhanced file icon function with better categorization
+export const getFileIcon = (node: Pick<VFSNode, 'name' | 'type' | 'mount'>) => {
+  if (node.mount) return MOUNT_ICONS[node.mount];
+  if (node.type === 'folder') return '📁';
+  
+  const category = getFileCategory(node.name);
+  
+  switch (category) {
+    case 'document':
+      return '📝';
+    case 'image':
+      return '🖼️';
+    case 'video':
+      return '🎬';
+    case 'audio':
+      return '🎵';
+    case 'archive':
+      return '📦';
+    case 'code':
+      return '⚛️';
+    case 'executable':
+      return '⚙️';
+    default:
+      return '📄';
+  }
+};
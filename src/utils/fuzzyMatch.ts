@@ -0,0 +1,103 @@
+/**
+ * Fuzzy matching
+ *
+ * Matches a query against a text when the characters of the query appear
+ * in the text in order, ignoring case. Matches at the start of words and
+ * runs of consecutive characters score higher, so `ce` ranks "Code
+ * Editor" above "Calculator Settings".
+ */
+
+export interface FuzzyMatch {
+  score: number;
+  // Positions of the matched characters in the text, for highlighting
+  indices: number[];
+}
+
+const WORD_SEPARATORS = /[\s\-_./\\]/;
+
+const CHAR_SCORE = 1;
+const CONSECUTIVE_BONUS = 5;
+const WORD_START_BONUS = 8;
+const PREFIX_BONUS = 10;
+// Subtracted for every character skipped between two matches
+const GAP_PENALTY = 0.1;
+
+const isWordStart = (text: string, index: number): boolean => {
+  if (index === 0) return true;
+  const previous = text[index - 1];
+  const current = text[index];
+  // Separators and camelCase humps both start a word
+  return WORD_SEPARATORS.test(previous) || (previous === previous.toLowerCase() && current !== current.toLowerCase());
+};
+
+// Whether `needle` is a subsequence of `haystack` from `from` on
+const isSubsequence = (needle: string, haystack: string, from: number): boolean => {
+  let position = from;
+  for (const char of needle) {
+    position = haystack.indexOf(char, position) + 1;
+    if (position === 0) return false;
+  }
+  return true;
+};
+
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return { score: 0, indices: [] };
+
+  const haystack = text.toLowerCase();
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (let position = 0; position < needle.length; position++) {
+    const char = needle[position];
+    let index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+
+    // Unless it continues a run, prefer a later word start holding the
+    // character as long as the rest of the query still matches after it
+    const previous = indices.length > 0 ? indices[indices.length - 1] : undefined;
+    if (previous === undefined || index !== previous + 1) {
+      for (let candidate = index; candidate !== -1; candidate = haystack.indexOf(char, candidate + 1)) {
+        if (!isSubsequence(needle.slice(position + 1), haystack, candidate + 1)) break;
+        if (isWordStart(text, candidate)) {
+          index = candidate;
+          break;
+        }
+      }
+    }
+
+    score += CHAR_SCORE;
+    if (previous !== undefined && index === previous + 1) {
+      score += CONSECUTIVE_BONUS;
+    } else if (previous !== undefined) {
+      score -= (index - previous - 1) * GAP_PENALTY;
+    }
+    if (isWordStart(text, index)) {
+      score += WORD_START_BONUS;
+    }
+
+    indices.push(index);
+    from = index + 1;
+  }
+
+  if (haystack.replace(/\s+/g, '').startsWith(needle)) {
+    score += PREFIX_BONUS;
+  }
+  return { score, indices };
+};
+
+/**
+ * Best match of a query against several texts of the same item, such as
+ * its name and its keywords. Only matches in the first text are
+ * highlighted.
+ */
+export const fuzzyMatchAny = (query: string, texts: string[]): FuzzyMatch | null => {
+  return texts.reduce<FuzzyMatch | null>((best, text, position) => {
+    const match = fuzzyMatch(query, text);
+    if (!match) return best;
+
+    const candidate = position === 0 ? match : { score: match.score - 1, indices: [] };
+    return !best || candidate.score > best.score ? candidate : best;
+  }, null);
+};
@@ -128,6 +128,14 @@ export const generateUniqueFileName = (filename: string, existingFiles: string[]
   return newFilename;
 };
 
+// Home folder of the user, `~` in the Terminal
+export const HOME_PATH = '/home/user';
+// Shown on the desktop, and under Desktop in the quick access of Files.
+// At the root like /Documents and /Downloads, where existing desktops are.
+export const DESKTOP_PATH = '/Desktop';
+// Location of the trash in Files. It is not a VFS folder.
+export const TRASH_PATH = 'trash:';
+
 /**
  * Parse path to get parent directory and filename
  */
@@ -155,6 +163,21 @@ export const joinPath = (...segments: string[]): string => {
     .replace(/\/$/, '') || '/';
 };
 
+/**
+ * Resolve `.` and `..` segments of an absolute path
+ */
+export const normalizePath = (path: string): string => {
+  const segments: string[] = [];
+  path.split('/').forEach(segment => {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  });
+  return '/' + segments.join('/');
+};
+
 /**
  * Check if user has permission for an action
  */
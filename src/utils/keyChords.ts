@@ -0,0 +1,121 @@
+/**
+ * Key chords
+ *
+ * Shortcuts are written as chords such as `Ctrl+Shift+S` or `Alt+ArrowLeft`:
+ * the modifiers in a fixed order followed by the key. `Mod` stands for Cmd
+ * on macOS and Ctrl elsewhere, so one default works on every platform.
+ */
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+type Modifier = typeof MODIFIERS[number];
+
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift',
+  meta: 'Meta',
+  cmd: 'Meta',
+  command: 'Meta',
+};
+
+// Keys read from `code`, because macOS turns Option+key into other characters
+const CODE_KEYS: Record<string, string> = {
+  BracketLeft: '[',
+  BracketRight: ']',
+  Minus: '-',
+  Equal: '=',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Backquote: '`',
+  Space: 'Space',
+};
+
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'AltGraph', 'Shift', 'Meta', 'CapsLock', 'Fn']);
+
+const MAC_GLYPHS: Record<Modifier, string> = { Ctrl: '⌃', Alt: '⌥', Shift: '⇧', Meta: '⌘' };
+const PC_NAMES: Record<Modifier, string> = { Ctrl: 'Ctrl', Alt: 'Alt', Shift: 'Shift', Meta: 'Win' };
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Enter: '↩',
+  Escape: 'Esc',
+};
+
+export const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+/**
+ * Chord of a key press, or null while only modifiers are held
+ */
+export const eventToChord = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+
+  let key: string;
+  if (/^Key[A-Z]$/.test(e.code)) {
+    key = e.code.slice(3);
+  } else if (/^Digit[0-9]$/.test(e.code)) {
+    key = e.code.slice(5);
+  } else if (e.code in CODE_KEYS) {
+    key = CODE_KEYS[e.code];
+  } else if (e.key.length === 1) {
+    key = e.key.toUpperCase();
+  } else if (e.key && e.key !== 'Unidentified' && e.key !== 'Dead') {
+    key = e.key;
+  } else {
+    return null;
+  }
+
+  const modifiers: Modifier[] = [];
+  if (e.ctrlKey) modifiers.push('Ctrl');
+  if (e.altKey) modifiers.push('Alt');
+  if (e.shiftKey) modifiers.push('Shift');
+  if (e.metaKey) modifiers.push('Meta');
+  return [...modifiers, key].join('+');
+};
+
+/**
+ * Write a chord in its canonical form: known modifier names, `Mod`
+ * resolved for the platform, fixed modifier order and upper case letters.
+ * Returns null when the chord has no key.
+ */
+export const normalizeChord = (chord: string): string | null => {
+  const parts = chord.split('+').map(part => part.trim());
+  const key = parts.pop();
+  if (!key || MODIFIER_ALIASES[key.toLowerCase()] || key.toLowerCase() === 'mod') return null;
+
+  const modifiers = new Set<Modifier>();
+  for (const part of parts) {
+    const modifier = part.toLowerCase() === 'mod' ? (isMac ? 'Meta' : 'Ctrl') : MODIFIER_ALIASES[part.toLowerCase()];
+    if (!modifier) return null;
+    modifiers.add(modifier);
+  }
+
+  const ordered = MODIFIERS.filter(modifier => modifiers.has(modifier));
+  return [...ordered, key.length === 1 ? key.toUpperCase() : key].join('+');
+};
+
+/**
+ * Chord for display: modifier glyphs on macOS, names elsewhere
+ */
+export const formatChord = (chord: string): string => {
+  const normalized = normalizeChord(chord);
+  if (!normalized) return chord;
+
+  const parts = normalized.split('+');
+  const key = parts.pop()!;
+  const modifiers = parts as Modifier[];
+  const keyLabel = KEY_LABELS[key] ?? key;
+
+  if (isMac) {
+    return modifiers.map(modifier => MAC_GLYPHS[modifier]).join('') + keyLabel;
+  }
+  return [...modifiers.map(modifier => PC_NAMES[modifier]), keyLabel].join('+');
+};
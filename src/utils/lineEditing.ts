@@ -0,0 +1,143 @@
+/**
+ * Line editing helpers for the Terminal prompt
+ *
+ * Word motions for the readline-style key bindings and the parsing and
+ * formatting behind tab completion. Everything here works on plain strings
+ * so the shell only has to keep the terminal in sync.
+ */
+
+// Characters that end a word for completion, outside quotes and escapes
+const WORD_BREAKS = ' \t|;&<>()';
+
+const isWordChar = (char: string): boolean => /[A-Za-z0-9_]/.test(char);
+
+/**
+ * Start of the word before `cursor` (Alt+B). Words are runs of letters,
+ * digits and underscores.
+ */
+export const previousWordStart = (line: string, cursor: number): number => {
+  let index = cursor;
+  while (index > 0 && !isWordChar(line[index - 1])) index--;
+  while (index > 0 && isWordChar(line[index - 1])) index--;
+  return index;
+};
+
+/**
+ * End of the word after `cursor` (Alt+F)
+ */
+export const nextWordEnd = (line: string, cursor: number): number => {
+  let index = cursor;
+  while (index < line.length && !isWordChar(line[index])) index++;
+  while (index < line.length && isWordChar(line[index])) index++;
+  return index;
+};
+
+/**
+ * Start of the whitespace-delimited word before `cursor` (Ctrl+W)
+ */
+export const previousBlankWordStart = (line: string, cursor: number): number => {
+  let index = cursor;
+  while (index > 0 && /\s/.test(line[index - 1])) index--;
+  while (index > 0 && !/\s/.test(line[index - 1])) index--;
+  return index;
+};
+
+export interface CompletionTarget {
+  // Offset in the line where the word being completed starts
+  start: number;
+  // The word up to the cursor, with quotes and escapes removed
+  word: string;
+  // Command the word is an argument of, or null in command position
+  command: string | null;
+}
+
+/**
+ * Find the word being completed in the text before the cursor and whether
+ * it names a command or is an argument of one
+ */
+export const findCompletionTarget = (text: string): CompletionTarget => {
+  let words: string[] = [];
+  let word = '';
+  let start = 0;
+  let inWord = false;
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (!inWord) {
+      start = i;
+    }
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        word += char;
+      }
+      inWord = true;
+    } else if (char === '\\') {
+      word += text[i + 1] ?? '';
+      inWord = true;
+      i++;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      inWord = true;
+    } else if (WORD_BREAKS.includes(char)) {
+      if (inWord) {
+        words.push(word);
+      }
+      // Operators start a new command
+      if (char !== ' ' && char !== '\t') {
+        words = [];
+      }
+      word = '';
+      inWord = false;
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+
+  return {
+    start: inWord ? start : text.length,
+    word,
+    command: words.length > 0 ? words[0] : null,
+  };
+};
+
+/**
+ * Backslash-escape the characters the shell would otherwise split or expand
+ */
+export const escapeWord = (word: string): string => word.replace(/([\s\\'"|;&<>()$`*?[\]!#])/g, '\\$1');
+
+export const longestCommonPrefix = (values: string[]): string => {
+  if (values.length === 0) return '';
+
+  let prefix = values[0];
+  values.slice(1).forEach(value => {
+    while (!value.startsWith(prefix)) {
+      prefix = prefix.slice(0, -1);
+    }
+  });
+  return prefix;
+};
+
+/**
+ * Lay candidates out in columns, filled top to bottom like `ls`
+ */
+export const formatColumns = (values: string[], width: number): string[] => {
+  const columnWidth = Math.max(...values.map(value => value.length)) + 2;
+  const columns = Math.max(1, Math.floor(width / columnWidth));
+  const rows = Math.ceil(values.length / columns);
+
+  return Array.from({ length: rows }, (_, row) => {
+    let line = '';
+    for (let column = 0; column < columns; column++) {
+      const value = values[column * rows + row];
+      if (value !== undefined) {
+        line += value.padEnd(columnWidth);
+      }
+    }
+    return line.trimEnd();
+  });
+};
@@ -0,0 +1,85 @@
+/**
+ * MIME types of VFS files, guessed from their extension since the VFS does
+ * not keep them
+ */
+
+export const FOLDER_MIME_TYPE = 'inode/directory';
+const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+const MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  log: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  scss: 'text/x-scss',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  jsx: 'text/javascript',
+  ts: 'text/typescript',
+  tsx: 'text/typescript',
+  py: 'text/x-python',
+  java: 'text/x-java',
+  c: 'text/x-c',
+  h: 'text/x-c',
+  cpp: 'text/x-c++',
+  php: 'text/x-php',
+  sh: 'text/x-shellscript',
+  yml: 'text/yaml',
+  yaml: 'text/yaml',
+  json: 'application/json',
+  xml: 'application/xml',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  tar: 'application/x-tar',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  m4a: 'audio/mp4',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  mov: 'video/quicktime',
+};
+
+/**
+ * Lowercase extension without the dot, empty when there is none.
+ * Dotfiles such as .bashrc have no extension.
+ */
+export const getExtension = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+};
+
+/**
+ * Files without an extension are mostly READMEs, Makefiles and dotfiles,
+ * so they count as text
+ */
+export const getMimeType = (fileName: string): string => {
+  const extension = getExtension(fileName);
+  if (!extension) return 'text/plain';
+  return getMimeTypeOfExtension(extension);
+};
+
+export const getMimeTypeOfExtension = (extension: string): string => MIME_TYPES[extension] ?? DEFAULT_MIME_TYPE;
+
+// Extensions with a known MIME type
+export const getKnownExtensions = (): string[] => Object.keys(MIME_TYPES);
+
+/**
+ * Whether a MIME type matches a pattern such as `text/plain` or `text/*`
+ */
+export const matchesMimeType = (mimeType: string, pattern: string): boolean => {
+  return pattern === mimeType || (pattern.endsWith('/*') && mimeType.startsWith(pattern.slice(0, -1)));
+};
@@ -0,0 +1,332 @@
+/**
+ * Word expansion for the Terminal shell
+ *
+ * Expands a raw word from shellParser.ts the way a POSIX shell would: tilde,
+ * `$VAR`/`${VAR}`, `$(command)` and `$((arithmetic))` expansion, field
+ * splitting of unquoted results, glob matching against the VFS and finally
+ * quote removal.
+ */
+
+import { findMatchingParen } from './shellParser';
+
+export interface ExpansionContext {
+  home: string;
+  currentDirectory: string;
+  getVariable: (name: string) => string | undefined;
+  getPositionalArgs: () => string[];
+  runCommandSubstitution: (command: string) => Promise<string>;
+  listDir: (path: string) => Promise<{ name: string; type: 'file' | 'folder' }[]>;
+}
+
+export interface ExpansionOptions {
+  // Split unquoted expansion results on whitespace and expand globs
+  split: boolean;
+}
+
+type WordPart = { text: string; quoted: boolean };
+
+const GLOB_CHARS = /[*?[]/;
+const SPECIAL_PARAMETERS = '?#@*$0123456789';
+
+/**
+ * Expand a word into zero or more fields.
+ */
+export const expandWord = async (
+  word: string,
+  context: ExpansionContext,
+  options: ExpansionOptions = { split: true }
+): Promise<string[]> => {
+  // "$@" expands to one field per positional argument, even when empty
+  if (word === '"$@"' && options.split) {
+    return context.getPositionalArgs();
+  }
+
+  const fields: WordPart[][] = [];
+  let current: WordPart[] | null = null;
+
+  const append = (text: string, quoted: boolean) => {
+    current ??= [];
+    current.push({ text, quoted });
+  };
+
+  const endField = () => {
+    if (current) {
+      fields.push(current);
+      current = null;
+    }
+  };
+
+  const appendUnquoted = (value: string) => {
+    if (!options.split) {
+      append(value, true);
+      return;
+    }
+    value.split(/[ \t\n]+/).forEach((piece, index) => {
+      if (index > 0) endField();
+      if (piece) append(piece, false);
+    });
+  };
+
+  let i = 0;
+  while (i < word.length) {
+    const char = word[i];
+
+    if (char === '~' && i === 0 && (word.length === 1 || word[1] === '/')) {
+      append(context.home, true);
+      i++;
+    } else if (char === "'") {
+      const end = word.indexOf("'", i + 1);
+      const stop = end === -1 ? word.length : end;
+      append(word.slice(i + 1, stop), true);
+      i = stop + 1;
+    } else if (char === '"') {
+      append('', true);
+      i++;
+      while (i < word.length && word[i] !== '"') {
+        if (word[i] === '\\' && i + 1 < word.length && '"\\$`'.includes(word[i + 1])) {
+          append(word[i + 1], true);
+          i += 2;
+        } else if (word[i] === '$') {
+          const { value, length } = await expandParameter(word, i, context);
+          append(value, true);
+          i += length;
+        } else {
+          append(word[i], true);
+          i++;
+        }
+      }
+      i++;
+    } else if (char === '\\') {
+      append(word[i + 1] ?? '', true);
+      i += 2;
+    } else if (char === '$') {
+      const { value, length } = await expandParameter(word, i, context);
+      if (length === 1) {
+        append('$', false);
+      } else {
+        appendUnquoted(value);
+      }
+      i += length;
+    } else {
+      append(char, false);
+      i++;
+    }
+  }
+  endField();
+
+  const results: string[] = [];
+  for (const parts of fields) {
+    const literal = parts.map(part => part.text).join('');
+    const isGlob = options.split && parts.some(part => !part.quoted && GLOB_CHARS.test(part.text));
+
+    if (isGlob) {
+      // Quoted glob characters are escaped so they match literally
+      const pattern = parts.map(part => part.quoted ? part.text.replace(/[*?[\]\\]/g, '\\$&') : part.text).join('');
+      const matches = await expandGlob(pattern, context);
+      results.push(...(matches.length > 0 ? matches : [literal]));
+    } else {
+      results.push(literal);
+    }
+  }
+  return results;
+};
+
+/**
+ * Expand the `$` expression starting at `start`, returning its value and the
+ * number of characters it spans. A lone `$` has length 1 and is kept as is.
+ */
+const expandParameter = async (
+  word: string,
+  start: number,
+  context: ExpansionContext
+): Promise<{ value: string; length: number }> => {
+  const next = word[start + 1];
+
+  if (next === '(') {
+    const end = findMatchingParen(word, start + 1);
+    if (end === -1) {
+      throw new Error(`unexpected EOF while looking for matching \`)'`);
+    }
+    const inner = word.slice(start + 2, end);
+    const length = end - start + 1;
+
+    if (inner.startsWith('(') && inner.endsWith(')')) {
+      const value = evaluateArithmetic(inner.slice(1, -1), context.getVariable);
+      return { value: String(value), length };
+    }
+
+    const output = await context.runCommandSubstitution(inner);
+    return { value: output.replace(/\n+$/, ''), length };
+  }
+
+  if (next === '{') {
+    const end = word.indexOf('}', start + 2);
+    if (end === -1) {
+      throw new Error(`unexpected EOF while looking for matching \`}'`);
+    }
+    const expression = word.slice(start + 2, end);
+    const [name, fallback] = expression.split(':-');
+    const value = context.getVariable(name);
+    return {
+      value: fallback !== undefined && !value ? fallback : value ?? '',
+      length: end - start + 1,
+    };
+  }
+
+  if (next !== undefined && SPECIAL_PARAMETERS.includes(next)) {
+    return { value: context.getVariable(next) ?? '', length: 2 };
+  }
+
+  const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(word.slice(start + 1));
+  if (name) {
+    return { value: context.getVariable(name[0]) ?? '', length: name[0].length + 1 };
+  }
+
+  return { value: '$', length: 1 };
+};
+
+/**
+ * Convert one path segment of a glob pattern to a regular expression.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+      const end = pattern.indexOf(']', i + 2);
+      const body = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      source += `[${body}]`;
+      i = end;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * Match a glob pattern against the VFS, one path segment at a time. Relative
+ * patterns produce relative paths. Returns matches in sorted order.
+ */
+export const expandGlob = async (pattern: string, context: ExpansionContext): Promise<string[]> => {
+  const absolute = pattern.startsWith('/');
+  const segments = pattern.split('/').filter(segment => segment !== '');
+  let candidates: { path: string; display: string }[] = [{
+    path: absolute ? '/' : context.currentDirectory,
+    display: absolute ? '/' : '',
+  }];
+
+  const join = (base: string, name: string) => {
+    if (base === '') return name;
+    return base.endsWith('/') ? base + name : `${base}/${name}`;
+  };
+
+  for (const segment of segments) {
+    const next: typeof candidates = [];
+
+    if (!GLOB_CHARS.test(segment)) {
+      const name = segment.replace(/\\(.)/g, '$1');
+      candidates.forEach(candidate => next.push({
+        path: name === '.' ? candidate.path
+          : name === '..' ? candidate.path.replace(/\/[^/]*$/, '') || '/'
+          : join(candidate.path, name),
+        display: join(candidate.display, name),
+      }));
+    } else {
+      const matcher = globToRegExp(segment);
+      for (const candidate of candidates) {
+        try {
+          const items = await context.listDir(candidate.path);
+          items
+            .filter(item => matcher.test(item.name) && (segment.startsWith('.') || !item.name.startsWith('.')))
+            .forEach(item => next.push({
+              path: join(candidate.path, item.name),
+              display: join(candidate.display, item.name),
+            }));
+        } catch {
+          // Not a directory, no matches below it
+        }
+      }
+    }
+
+    candidates = next;
+    if (candidates.length === 0) break;
+  }
+
+  return candidates.map(candidate => candidate.display).sort();
+};
+
+/**
+ * Evaluate a `$((...))` expression with integer arithmetic, comparisons and
+ * logical operators. Unset variables count as zero.
+ */
+export const evaluateArithmetic = (expression: string, getVariable: (name: string) => string | undefined): number => {
+  const tokens = expression.match(/\d+|\$?[A-Za-z_][A-Za-z0-9_]*|==|!=|<=|>=|&&|\|\||[-+*/%()<>!]/g) ?? [];
+  if (tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new Error(`${expression}: syntax error in expression`);
+  }
+
+  let position = 0;
+  const peek = () => tokens[position];
+
+  const binary = (operators: string[], operand: () => number, apply: (op: string, a: number, b: number) => number) => {
+    return (): number => {
+      let value = operand();
+      while (operators.includes(peek())) {
+        const operator = tokens[position++];
+        value = apply(operator, value, operand());
+      }
+      return value;
+    };
+  };
+
+  const primary = (): number => {
+    const token = tokens[position++];
+    if (token === undefined) {
+      throw new Error(`${expression}: syntax error: operand expected`);
+    }
+    if (token === '(') {
+      const value = logicalOr();
+      if (tokens[position++] !== ')') {
+        throw new Error(`${expression}: syntax error: missing \`)'`);
+      }
+      return value;
+    }
+    if (token === '-') return -primary();
+    if (token === '+') return primary();
+    if (token === '!') return primary() ? 0 : 1;
+    if (/^\d+$/.test(token)) return parseInt(token, 10);
+    if (/^\$?[A-Za-z_]/.test(token)) {
+      return parseInt(getVariable(token.replace(/^\$/, '')) ?? '0', 10) || 0;
+    }
+    throw new Error(`${expression}: syntax error near \`${token}'`);
+  };
+
+  const multiplicative = binary(['*', '/', '%'], primary, (op, a, b) => {
+    if (op !== '*' && b === 0) {
+      throw new Error('division by 0');
+    }
+    if (op === '*') return a * b;
+    return op === '/' ? Math.trunc(a / b) : a % b;
+  });
+  const additive = binary(['+', '-'], multiplicative, (op, a, b) => op === '+' ? a + b : a - b);
+  const comparison = binary(['<', '<=', '>', '>='], additive, (op, a, b) => {
+    const result = op === '<' ? a < b : op === '<=' ? a <= b : op === '>' ? a > b : a >= b;
+    return result ? 1 : 0;
+  });
+  const equality = binary(['==', '!='], comparison, (op, a, b) => (op === '==') === (a === b) ? 1 : 0);
+  const logicalAnd = binary(['&&'], equality, (_op, a, b) => a && b ? 1 : 0);
+  const logicalOr: () => number = binary(['||'], logicalAnd, (_op, a, b) => a || b ? 1 : 0);
+
+  const result = logicalOr();
+  if (position < tokens.length) {
+    throw new Error(`${expression}: syntax error near \`${tokens[position]}'`);
+  }
+  return result;
+};
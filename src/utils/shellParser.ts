@@ -0,0 +1,421 @@
+/**
+ * Command-line parser for the Terminal shell
+ *
+ * Turns a line such as `cat notes.txt | grep todo | sort > todo.txt && ls`
+ * into a list of pipelines joined by `&&`, `||` and `;`, where every command
+ * carries its own `>`, `>>` and `<` redirections. A trailing `&` runs the
+ * preceding `&&`/`||` chain as a background job. Scripts may also span
+ * several lines and use `if`, `for`, `while` and `until` blocks.
+ *
+ * Words keep their original quoting and `$` expressions so the shell can
+ * expand them at run time (see shellExpansion.ts).
+ */
+
+export type ListOperator = '&&' | '||' | ';';
+export type RedirectType = '>' | '>>' | '<';
+
+type OperatorToken = ListOperator | RedirectType | '|' | '&' | '\n';
+
+export type ShellToken =
+  | { type: 'word'; value: string }
+  | { type: 'operator'; value: OperatorToken };
+
+export interface Redirect {
+  type: RedirectType;
+  target: string;
+}
+
+export interface SimpleCommand {
+  type: 'simple';
+  args: string[];
+  redirects: Redirect[];
+}
+
+export interface IfCommand {
+  type: 'if';
+  clauses: { condition: CommandList; body: CommandList }[];
+  elseBody: CommandList | null;
+  redirects: Redirect[];
+}
+
+export interface ForCommand {
+  type: 'for';
+  variable: string;
+  // null iterates over the positional arguments, like `for arg; do`
+  items: string[] | null;
+  body: CommandList;
+  redirects: Redirect[];
+}
+
+export interface WhileCommand {
+  type: 'while';
+  // `until` loops run while the condition fails
+  until: boolean;
+  condition: CommandList;
+  body: CommandList;
+  redirects: Redirect[];
+}
+
+export type ShellCommand = SimpleCommand | IfCommand | ForCommand | WhileCommand;
+
+export interface Pipeline {
+  commands: ShellCommand[];
+}
+
+export interface CommandListEntry {
+  // Operator joining this pipeline to the previous one (';' for the first)
+  operator: ListOperator;
+  pipeline: Pipeline;
+  // Set on every pipeline of a chain terminated by `&`
+  background: boolean;
+}
+
+export type CommandList = CommandListEntry[];
+
+const OPERATORS: OperatorToken[] = ['&&', '||', '>>', '|', '&', ';', '>', '<', '\n'];
+
+// Words that close a block and therefore end the list before them
+const BLOCK_KEYWORDS = ['then', 'elif', 'else', 'fi', 'do', 'done'];
+
+const isRedirect = (value: OperatorToken): value is RedirectType => {
+  return value === '>' || value === '>>' || value === '<';
+};
+
+/**
+ * Split a command line into words and operators, honouring quotes, backslash
+ * escapes, `$(...)`/`${...}` expressions and `#` comments. Throws on
+ * unterminated quotes or parentheses.
+ */
+export const tokenize = (input: string): ShellToken[] => {
+  const tokens: ShellToken[] = [];
+  let current = '';
+  let inWord = false;
+  let i = 0;
+
+  const pushWord = () => {
+    if (inWord) {
+      tokens.push({ type: 'word', value: current });
+      current = '';
+      inWord = false;
+    }
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === "'" || char === '"') {
+      const end = findClosingQuote(input, i);
+      if (end === -1) {
+        throw new Error(`unexpected EOF while looking for matching \`${char}'`);
+      }
+      current += input.slice(i, end + 1);
+      inWord = true;
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '\\') {
+      // A backslash before a newline continues the line
+      if (input[i + 1] !== '\n') {
+        current += input.slice(i, i + 2);
+        inWord = true;
+      }
+      i += 2;
+      continue;
+    }
+
+    if (char === '$' && (input[i + 1] === '(' || input[i + 1] === '{')) {
+      const end = input[i + 1] === '(' ? findMatchingParen(input, i + 1) : input.indexOf('}', i + 2);
+      if (end === -1) {
+        throw new Error(`unexpected EOF while looking for matching \`${input[i + 1] === '(' ? ')' : '}'}'`);
+      }
+      current += input.slice(i, end + 1);
+      inWord = true;
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '#' && !inWord) {
+      while (i < input.length && input[i] !== '\n') i++;
+      continue;
+    }
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      pushWord();
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => input.startsWith(op, i));
+    if (operator) {
+      pushWord();
+      tokens.push({ type: 'operator', value: operator });
+      i += operator.length;
+      continue;
+    }
+
+    current += char;
+    inWord = true;
+    i++;
+  }
+
+  pushWord();
+  return tokens;
+};
+
+const findClosingQuote = (input: string, start: number): number => {
+  const quote = input[start];
+  for (let i = start + 1; i < input.length; i++) {
+    if (quote === '"' && input[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (quote === '"' && input[i] === '$' && input[i + 1] === '(') {
+      i = findMatchingParen(input, i + 1);
+      if (i === -1) return -1;
+      continue;
+    }
+    if (input[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Find the `)` matching the `(` at `start`, skipping over quoted text.
+ * Returns -1 when the parenthesis is never closed.
+ */
+export const findMatchingParen = (input: string, start: number): number => {
+  let depth = 0;
+  for (let i = start; i < input.length; i++) {
+    const char = input[i];
+    if (char === "'" || char === '"') {
+      const end = findClosingQuote(input, i);
+      if (end === -1) return -1;
+      i = end;
+    } else if (char === '\\') {
+      i++;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Parse a command line or a whole script into a command list. Throws a
+ * syntax error describing the offending token when the input is malformed.
+ */
+export const parseCommandLine = (input: string): CommandList => {
+  const tokens = tokenize(input);
+  let position = 0;
+
+  const peek = (): ShellToken | undefined => tokens[position];
+
+  const isOperator = (token: ShellToken | undefined, ...values: OperatorToken[]): boolean => {
+    return token?.type === 'operator' && values.includes(token.value);
+  };
+
+  const isWord = (token: ShellToken | undefined, ...values: string[]): boolean => {
+    return token?.type === 'word' && values.includes(token.value);
+  };
+
+  const unexpected = (token?: ShellToken): Error => {
+    if (!token) {
+      return new Error('syntax error: unexpected end of file');
+    }
+    const value = token.value === '\n' ? 'newline' : token.value;
+    return new Error(`syntax error near unexpected token \`${value}'`);
+  };
+
+  const expect = (keyword: string) => {
+    if (!isWord(peek(), keyword)) {
+      throw unexpected(peek());
+    }
+    position++;
+  };
+
+  const skipNewlines = () => {
+    while (isOperator(peek(), '\n')) position++;
+  };
+
+  const skipSeparators = () => {
+    while (isOperator(peek(), '\n', ';')) position++;
+  };
+
+  const parseRedirects = (redirects: Redirect[]) => {
+    while (peek()?.type === 'operator' && isRedirect(peek()!.value as OperatorToken)) {
+      const type = peek()!.value as RedirectType;
+      const target = tokens[position + 1];
+      if (!target || target.type !== 'word') {
+        throw unexpected(target);
+      }
+      redirects.push({ type, target: target.value });
+      position += 2;
+    }
+  };
+
+  const parseSimpleCommand = (): SimpleCommand => {
+    const command: SimpleCommand = { type: 'simple', args: [], redirects: [] };
+
+    while (position < tokens.length) {
+      const token = tokens[position];
+      if (token.type === 'word') {
+        command.args.push(token.value);
+        position++;
+      } else if (isRedirect(token.value)) {
+        parseRedirects(command.redirects);
+      } else {
+        break;
+      }
+    }
+
+    if (command.args.length === 0 && command.redirects.length === 0) {
+      throw unexpected(peek());
+    }
+    return command;
+  };
+
+  const parseBody = (terminators: string[]): CommandList => {
+    const body = parseList(terminators);
+    if (body.length === 0) {
+      throw unexpected(peek());
+    }
+    return body;
+  };
+
+  const parseIf = (): IfCommand => {
+    const command: IfCommand = { type: 'if', clauses: [], elseBody: null, redirects: [] };
+
+    expect('if');
+    for (;;) {
+      const condition = parseBody(['then']);
+      expect('then');
+      const body = parseBody(['elif', 'else', 'fi']);
+      command.clauses.push({ condition, body });
+
+      if (!isWord(peek(), 'elif')) break;
+      position++;
+    }
+
+    if (isWord(peek(), 'else')) {
+      position++;
+      command.elseBody = parseBody(['fi']);
+    }
+    expect('fi');
+    return command;
+  };
+
+  const parseFor = (): ForCommand => {
+    expect('for');
+    const variable = peek();
+    if (!variable || variable.type !== 'word' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(variable.value)) {
+      throw unexpected(variable);
+    }
+    position++;
+    skipNewlines();
+
+    let items: string[] | null = null;
+    if (isWord(peek(), 'in')) {
+      position++;
+      items = [];
+      while (peek()?.type === 'word') {
+        items.push(peek()!.value);
+        position++;
+      }
+    }
+
+    skipSeparators();
+    expect('do');
+    const body = parseBody(['done']);
+    expect('done');
+    return { type: 'for', variable: variable.value, items, body, redirects: [] };
+  };
+
+  const parseWhile = (): WhileCommand => {
+    const until = isWord(peek(), 'until');
+    position++;
+    const condition = parseBody(['do']);
+    expect('do');
+    const body = parseBody(['done']);
+    expect('done');
+    return { type: 'while', until, condition, body, redirects: [] };
+  };
+
+  const parseCommand = (): ShellCommand => {
+    let command: ShellCommand;
+
+    if (isWord(peek(), 'if')) {
+      command = parseIf();
+    } else if (isWord(peek(), 'for')) {
+      command = parseFor();
+    } else if (isWord(peek(), 'while', 'until')) {
+      command = parseWhile();
+    } else if (isWord(peek(), ...BLOCK_KEYWORDS)) {
+      throw unexpected(peek());
+    } else {
+      return parseSimpleCommand();
+    }
+
+    parseRedirects(command.redirects);
+    return command;
+  };
+
+  const parsePipeline = (): Pipeline => {
+    const commands = [parseCommand()];
+    while (isOperator(peek(), '|')) {
+      position++;
+      skipNewlines();
+      commands.push(parseCommand());
+    }
+    return { commands };
+  };
+
+  function parseList(terminators: string[]): CommandList {
+    const list: CommandList = [];
+    let operator: ListOperator = ';';
+    let chainStart = 0;
+
+    skipSeparators();
+    while (position < tokens.length && !isWord(peek(), ...terminators)) {
+      if (operator === ';') {
+        chainStart = list.length;
+      }
+      list.push({ operator, pipeline: parsePipeline(), background: false });
+
+      const token = peek();
+      if (!token) break;
+
+      if (isOperator(token, '&&', '||')) {
+        operator = token.value as ListOperator;
+        position++;
+        skipNewlines();
+        if (position >= tokens.length) {
+          throw unexpected();
+        }
+      } else if (isOperator(token, '&')) {
+        list.slice(chainStart).forEach(entry => { entry.background = true; });
+        operator = ';';
+        position++;
+        skipNewlines();
+      } else if (isOperator(token, ';', '\n')) {
+        operator = ';';
+        skipSeparators();
+      } else if (!isWord(token, ...terminators)) {
+        throw unexpected(token);
+      }
+    }
+
+    return list;
+  }
+
+  const list = parseList([]);
+  if (position < tokens.length) {
+    throw unexpected(peek());
+  }
+  return list;
+};
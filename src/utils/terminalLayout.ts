@@ -0,0 +1,183 @@
+/**
+ * Terminal window layout
+ *
+ * A Terminal window holds tabs, and every tab a tree of split panes, each
+ * running its own shell. The layout is plain data so it can be kept in the
+ * window's savedState and restored with the working directory of every pane.
+ */
+
+import { nanoid } from 'nanoid';
+
+// 'row' puts the panes side by side, 'column' stacks them
+export type SplitDirection = 'row' | 'column';
+
+export interface TerminalPaneNode {
+  type: 'pane';
+  id: string;
+  cwd: string;
+}
+
+export interface TerminalSplitNode {
+  type: 'split';
+  id: string;
+  direction: SplitDirection;
+  children: [TerminalLayoutNode, TerminalLayoutNode];
+}
+
+export type TerminalLayoutNode = TerminalPaneNode | TerminalSplitNode;
+
+export interface TerminalTab {
+  id: string;
+  root: TerminalLayoutNode;
+  activePaneId: string;
+}
+
+export interface TerminalLayout {
+  tabs: TerminalTab[];
+  activeTabId: string;
+}
+
+export const createPane = (cwd: string = '/'): TerminalPaneNode => ({ type: 'pane', id: nanoid(), cwd });
+
+export const createTab = (cwd?: string): TerminalTab => {
+  const pane = createPane(cwd);
+  return { id: nanoid(), root: pane, activePaneId: pane.id };
+};
+
+export const createLayout = (): TerminalLayout => {
+  const tab = createTab();
+  return { tabs: [tab], activeTabId: tab.id };
+};
+
+/**
+ * Panes of a tree in reading order
+ */
+export const getPanes = (node: TerminalLayoutNode): TerminalPaneNode[] => {
+  return node.type === 'pane' ? [node] : node.children.flatMap(getPanes);
+};
+
+export const findPane = (node: TerminalLayoutNode, paneId: string): TerminalPaneNode | undefined => {
+  return getPanes(node).find(pane => pane.id === paneId);
+};
+
+/**
+ * Replace a pane with a split holding it and `newPane`
+ */
+export const splitPane = (node: TerminalLayoutNode, paneId: string, direction: SplitDirection, newPane: TerminalPaneNode): TerminalLayoutNode => {
+  if (node.type === 'pane') {
+    return node.id === paneId ? { type: 'split', id: nanoid(), direction, children: [node, newPane] } : node;
+  }
+  return {
+    ...node,
+    children: [
+      splitPane(node.children[0], paneId, direction, newPane),
+      splitPane(node.children[1], paneId, direction, newPane),
+    ],
+  };
+};
+
+/**
+ * Remove a pane; its sibling takes the place of their split. Returns null
+ * when the last pane was removed.
+ */
+export const removePane = (node: TerminalLayoutNode, paneId: string): TerminalLayoutNode | null => {
+  if (node.type === 'pane') {
+    return node.id === paneId ? null : node;
+  }
+
+  const [first, second] = node.children.map(child => removePane(child, paneId));
+  if (!first) return second;
+  if (!second) return first;
+  return { ...node, children: [first, second] };
+};
+
+export const updatePane = (node: TerminalLayoutNode, paneId: string, update: Partial<Omit<TerminalPaneNode, 'type' | 'id'>>): TerminalLayoutNode => {
+  if (node.type === 'pane') {
+    return node.id === paneId ? { ...node, ...update } : node;
+  }
+  return {
+    ...node,
+    children: [updatePane(node.children[0], paneId, update), updatePane(node.children[1], paneId, update)],
+  };
+};
+
+const isLayoutNode = (value: unknown): value is TerminalLayoutNode => {
+  const node = value as TerminalLayoutNode | null;
+  if (!node || typeof node.id !== 'string') return false;
+  if (node.type === 'pane') return typeof node.cwd === 'string';
+  return node.type === 'split'
+    && (node.direction === 'row' || node.direction === 'column')
+    && Array.isArray(node.children) && node.children.length === 2
+    && node.children.every(isLayoutNode);
+};
+
+/**
+ * Check a layout read back from savedState before using it
+ */
+export const isTerminalLayout = (value: unknown): value is TerminalLayout => {
+  const layout = value as TerminalLayout | null;
+  return !!layout
+    && Array.isArray(layout.tabs) && layout.tabs.length > 0
+    && layout.tabs.every(tab => typeof tab.id === 'string' && isLayoutNode(tab.root) && !!findPane(tab.root, tab.activePaneId))
+    && layout.tabs.some(tab => tab.id === layout.activeTabId);
+};
+
+// Position and size of a pane in percent of the tab area
+export interface PaneRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Lay the panes of a tree out, splitting every area in half
+ */
+export const getPaneRects = (node: TerminalLayoutNode, rect: PaneRect = { left: 0, top: 0, width: 100, height: 100 }): Map<string, PaneRect> => {
+  if (node.type === 'pane') {
+    return new Map([[node.id, rect]]);
+  }
+
+  const [first, second]: PaneRect[] = node.direction === 'row'
+    ? [
+        { ...rect, width: rect.width / 2 },
+        { ...rect, left: rect.left + rect.width / 2, width: rect.width / 2 },
+      ]
+    : [
+        { ...rect, height: rect.height / 2 },
+        { ...rect, top: rect.top + rect.height / 2, height: rect.height / 2 },
+      ];
+  return new Map([...getPaneRects(node.children[0], first), ...getPaneRects(node.children[1], second)]);
+};
+
+/**
+ * Nearest pane next to `paneId` in a direction, for moving between panes
+ * with the keyboard
+ */
+export const findPaneInDirection = (node: TerminalLayoutNode, paneId: string, direction: 'left' | 'right' | 'up' | 'down'): string | undefined => {
+  const rects = getPaneRects(node);
+  const current = rects.get(paneId);
+  if (!current) return undefined;
+
+  const centerX = current.left + current.width / 2;
+  const centerY = current.top + current.height / 2;
+  let nearest: string | undefined;
+  let nearestDistance = Infinity;
+
+  rects.forEach((rect, id) => {
+    const isBeside = {
+      left: rect.left + rect.width <= current.left,
+      right: rect.left >= current.left + current.width,
+      up: rect.top + rect.height <= current.top,
+      down: rect.top >= current.top + current.height,
+    }[direction];
+    if (id === paneId || !isBeside) return;
+
+    const distance = Math.abs(rect.left + rect.width / 2 - centerX) + Math.abs(rect.top + rect.height / 2 - centerY);
+    if (distance < nearestDistance) {
+      nearest = id;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+};
@@ -0,0 +1,143 @@
+/**
+ * Window layout geometry
+ *
+ * Work area, snap zones and tiling layouts for the window store. The work
+ * area is the screen minus the TopBar and the dock, so snapped, maximized
+ * and tiled windows never cover either of them.
+ */
+
+export interface WindowBounds {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+export type SnapZone =
+  | 'maximize'
+  | 'left'
+  | 'right'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right';
+
+export type TilingLayout = 'master-stack' | 'grid';
+
+export const TOP_BAR_HEIGHT = 32;
+export const DOCK_HEIGHT = 80;
+
+// Distance from a screen edge at which dragging a window snaps it
+const SNAP_THRESHOLD = 12;
+// Size of the corner areas that snap to quarters
+const CORNER_SIZE = 80;
+const TILE_GAP = 8;
+// Share of the width given to the master window
+const MASTER_RATIO = 0.6;
+
+export const getWorkArea = (viewport: { width: number; height: number } = { width: window.innerWidth, height: window.innerHeight }): WindowBounds => ({
+  top: TOP_BAR_HEIGHT,
+  left: 0,
+  width: viewport.width,
+  height: Math.max(viewport.height - TOP_BAR_HEIGHT - DOCK_HEIGHT, 0),
+});
+
+export const getSnapBounds = (zone: SnapZone, area: WindowBounds = getWorkArea()): WindowBounds => {
+  const halfWidth = Math.floor(area.width / 2);
+  const halfHeight = Math.floor(area.height / 2);
+  const right = area.left + halfWidth;
+  const bottom = area.top + halfHeight;
+
+  switch (zone) {
+    case 'maximize':
+      return { ...area };
+    case 'left':
+      return { ...area, width: halfWidth };
+    case 'right':
+      return { ...area, left: right, width: area.width - halfWidth };
+    case 'top-left':
+      return { top: area.top, left: area.left, width: halfWidth, height: halfHeight };
+    case 'top-right':
+      return { top: area.top, left: right, width: area.width - halfWidth, height: halfHeight };
+    case 'bottom-left':
+      return { top: bottom, left: area.left, width: halfWidth, height: area.height - halfHeight };
+    case 'bottom-right':
+      return { top: bottom, left: right, width: area.width - halfWidth, height: area.height - halfHeight };
+  }
+};
+
+/**
+ * Snap zone under the pointer while a window is dragged: the top edge
+ * maximizes, the side edges snap to halves and their ends to quarters
+ */
+export const getSnapZoneAt = (x: number, y: number, viewport: { width: number; height: number } = { width: window.innerWidth, height: window.innerHeight }): SnapZone | null => {
+  const area = getWorkArea(viewport);
+  const atLeft = x <= SNAP_THRESHOLD;
+  const atRight = x >= viewport.width - SNAP_THRESHOLD;
+  const nearTop = y <= area.top + CORNER_SIZE;
+  const nearBottom = y >= area.top + area.height - CORNER_SIZE;
+
+  if (atLeft || atRight) {
+    const side = atLeft ? 'left' : 'right';
+    if (nearTop) return `top-${side}`;
+    if (nearBottom) return `bottom-${side}`;
+    return side;
+  }
+  if (y <= area.top + SNAP_THRESHOLD) {
+    return 'maximize';
+  }
+  return null;
+};
+
+const inset = (bounds: WindowBounds): WindowBounds => ({
+  top: bounds.top + TILE_GAP / 2,
+  left: bounds.left + TILE_GAP / 2,
+  width: bounds.width - TILE_GAP,
+  height: bounds.height - TILE_GAP,
+});
+
+/**
+ * Bounds for `count` windows: the first one is the master on the left and
+ * the others are stacked on the right
+ */
+export const getMasterStackBounds = (count: number, area: WindowBounds = getWorkArea()): WindowBounds[] => {
+  if (count === 0) return [];
+  if (count === 1) return [inset(area)];
+
+  const masterWidth = Math.floor(area.width * MASTER_RATIO);
+  const stackHeight = area.height / (count - 1);
+  const master = { ...area, width: masterWidth };
+  const stack = Array.from({ length: count - 1 }, (_, index) => ({
+    top: Math.round(area.top + index * stackHeight),
+    left: area.left + masterWidth,
+    width: area.width - masterWidth,
+    height: Math.round(stackHeight),
+  }));
+  return [master, ...stack].map(inset);
+};
+
+/**
+ * Bounds for `count` windows in rows of equal cells. A shorter last row
+ * is stretched to the full width.
+ */
+export const getGridBounds = (count: number, area: WindowBounds = getWorkArea()): WindowBounds[] => {
+  const columns = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / columns);
+  const rowHeight = area.height / rows;
+
+  return Array.from({ length: count }, (_, index) => {
+    const row = Math.floor(index / columns);
+    const inRow = row === rows - 1 ? count - row * columns : columns;
+    const cellWidth = area.width / inRow;
+    return inset({
+      top: Math.round(area.top + row * rowHeight),
+      left: Math.round(area.left + (index % columns) * cellWidth),
+      width: Math.round(cellWidth),
+      height: Math.round(rowHeight),
+    });
+  });
+};
+
+export const getTilingBounds = (layout: TilingLayout, count: number, area: WindowBounds = getWorkArea()): WindowBounds[] => {
+  return layout === 'grid' ? getGridBounds(count, area) : getMasterStackBounds(count, area);
+};
@@ -0,0 +1,108 @@
+/**
+ * Zip archive reader
+ *
+ * Lists the entries of a zip from its central directory and extracts
+ * them one at a time, stored or deflated. Zip64 and encrypted archives are
+ * not supported.
+ */
+
+export interface ZipEntry {
+  // Path in the archive, without a leading or trailing slash
+  name: string;
+  isDirectory: boolean;
+  size: number;
+  compressedSize: number;
+  modified: Date;
+  method: number;
+  encrypted: boolean;
+  // Where the local header of the entry starts
+  offset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// The end record is followed by a comment of at most 64 KiB
+const MAX_END_RECORD_SIZE = 22 + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// MS-DOS dates count years from 1980 and seconds in steps of two
+const fromDosDateTime = (date: number, time: number): Date =>
+  new Date(1980 + (date >> 9), ((date >> 5) & 0xf) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2);
+
+const findEndRecord = (view: DataView): number => {
+  const stop = Math.max(0, view.byteLength - MAX_END_RECORD_SIZE);
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Not a zip archive');
+};
+
+/**
+ * Entries of an archive, in the order of its central directory
+ */
+export const readZipEntries = (data: Uint8Array): ZipEntry[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const end = findEndRecord(view);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error('Zip64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt zip archive');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.push({
+      name: name.replace(/^\/+|\/+$/g, ''),
+      isDirectory: name.endsWith('/'),
+      size: view.getUint32(offset + 24, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      modified: fromDosDateTime(view.getUint16(offset + 14, true), view.getUint16(offset + 12, true)),
+      method: view.getUint16(offset + 10, true),
+      encrypted: (view.getUint16(offset + 8, true) & 1) === 1,
+      offset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+/**
+ * Uncompressed content of a file entry
+ */
+export const extractZipEntry = async (data: Uint8Array, entry: ZipEntry): Promise<Uint8Array> => {
+  if (entry.encrypted) {
+    throw new Error(`${entry.name} is encrypted`);
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (view.getUint32(entry.offset, true) !== LOCAL_FILE_HEADER) {
+    throw new Error('Corrupt zip archive');
+  }
+  // The local header may have another extra field than the central one
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const compressed = data.slice(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return compressed;
+    case METHOD_DEFLATED: {
+      const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    default:
+      throw new Error(`${entry.name} uses an unsupported compression method (${entry.method})`);
+  }
+};